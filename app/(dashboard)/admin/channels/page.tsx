@@ -3,6 +3,7 @@ import { authOptions } from '@/lib/auth'
 import { redirect } from 'next/navigation'
 import { UserRole } from '@prisma/client'
 import { prisma } from '@/lib/db'
+import { getPlatforms } from '@/lib/platforms'
 import { ChannelManager } from '@/components/channel-manager'
 
 export default async function ChannelsPage() {
@@ -25,7 +26,7 @@ export default async function ChannelsPage() {
     ],
   })
 
-  const platforms = ['youtube', 'flow', 'ringtunes', 'international_streaming', 'facebook', 'tiktok']
+  const platforms = (await getPlatforms(prisma)).map(({ slug, name }) => ({ slug, name }))
 
   return (
     <div className="p-6 md:p-8 space-y-8 animate-in">
@@ -0,0 +1,36 @@
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { redirect } from 'next/navigation'
+import { UserRole } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { loadImportValidationRuleStates } from '@/lib/import-validation'
+import { ImportValidationRuleManager } from '@/components/import-validation-rule-manager'
+
+export default async function ImportValidationPage() {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    redirect('/auth/signin')
+  }
+
+  const role = session.user.role as UserRole
+
+  if (role !== UserRole.ADMIN && role !== UserRole.MANAGER) {
+    redirect('/dashboard')
+  }
+
+  const rules = await loadImportValidationRuleStates(prisma)
+
+  return (
+    <div className="p-6 md:p-8 space-y-8 animate-in">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Import Validation</h1>
+        <p className="text-muted-foreground mt-1.5">
+          Checks every imported row goes through. Rows that break an Error rule are not imported and wait in the review queue; warnings are only reported.
+        </p>
+      </div>
+
+      <ImportValidationRuleManager rules={rules} />
+    </div>
+  )
+}
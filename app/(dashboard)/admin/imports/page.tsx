@@ -0,0 +1,55 @@
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { redirect } from 'next/navigation'
+import { UserRole } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { ImportSessionsManager } from '@/components/import-sessions-manager'
+
+export default async function ImportsPage() {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    redirect('/auth/signin')
+  }
+
+  if (session.user.role !== UserRole.ADMIN) {
+    redirect('/dashboard')
+  }
+
+  const importSessions = await prisma.importSession.findMany({
+    orderBy: { startedAt: 'desc' },
+    take: 100,
+    select: {
+      id: true,
+      fileName: true,
+      status: true,
+      totalRows: true,
+      rowsProcessed: true,
+      startedAt: true,
+      completedAt: true,
+      rolledBackAt: true,
+      user: { select: { name: true, email: true } },
+      _count: { select: { changes: true } },
+    },
+  })
+
+  return (
+    <div className="p-6 md:p-8 space-y-8 animate-in">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Imports</h1>
+        <p className="text-muted-foreground mt-1.5">
+          Recent CSV imports. Roll back an import to remove everything it created.
+        </p>
+      </div>
+
+      <ImportSessionsManager
+        sessions={importSessions.map(s => ({
+          ...s,
+          startedAt: s.startedAt.toISOString(),
+          completedAt: s.completedAt?.toISOString() || null,
+          rolledBackAt: s.rolledBackAt?.toISOString() || null,
+        }))}
+      />
+    </div>
+  )
+}
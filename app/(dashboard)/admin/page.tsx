@@ -6,7 +6,7 @@ import { prisma } from '@/lib/db'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import Link from 'next/link'
-import { Users, UserPlus, Settings, Radio } from 'lucide-react'
+import { Users, UserPlus, Settings, Radio, XCircle, Undo2, ShieldCheck, Layers } from 'lucide-react'
 import { UserDeleteButton } from '@/components/user-delete-button'
 import { DatabaseCleanupButton } from '@/components/database-cleanup-button'
 import { CancelImportsButton } from '@/components/cancel-imports-button'
@@ -151,6 +151,12 @@ export default async function AdminPage() {
                 <div className="pb-3 border-b space-y-3">
                   <CancelImportsButton />
                   <DatabaseCleanupButton />
+                  <Link href="/admin/imports">
+                    <Button variant="outline" className="w-full justify-start px-4 py-2">
+                      <Undo2 className="w-4 h-4 mr-2" />
+                      Imports &amp; Rollback
+                    </Button>
+                  </Link>
                 </div>
               )}
               <Link href="/admin/users/new">
@@ -171,12 +177,30 @@ export default async function AdminPage() {
                   Manage Artists
                 </Button>
               </Link>
+              <Link href="/admin/platforms">
+                <Button variant="outline" className="w-full justify-start px-4 py-2">
+                  <Layers className="w-4 h-4 mr-2" />
+                  Platforms
+                </Button>
+              </Link>
               <Link href="/admin/channels">
                 <Button variant="outline" className="w-full justify-start px-4 py-2">
                   <Radio className="w-4 h-4 mr-2" />
                   Platform Channels
                 </Button>
               </Link>
+              <Link href="/admin/rejection-reasons">
+                <Button variant="outline" className="w-full justify-start px-4 py-2">
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Rejection Reasons
+                </Button>
+              </Link>
+              <Link href="/admin/import-validation">
+                <Button variant="outline" className="w-full justify-start px-4 py-2">
+                  <ShieldCheck className="w-4 h-4 mr-2" />
+                  Import Validation
+                </Button>
+              </Link>
               <Link href="/admin/form-fields">
                 <Button variant="outline" className="w-full justify-start px-4 py-2">
                   <Settings className="w-4 h-4 mr-2" />
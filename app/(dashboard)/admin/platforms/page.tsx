@@ -0,0 +1,43 @@
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { redirect } from 'next/navigation'
+import { UserRole } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { getPlatforms } from '@/lib/platforms'
+import { PlatformManager } from '@/components/platform-manager'
+
+export default async function PlatformsPage() {
+  const session = await getServerSession(authOptions)
+  
+  if (!session) {
+    redirect('/auth/signin')
+  }
+
+  const role = session.user.role as UserRole
+  
+  if (role !== UserRole.ADMIN && role !== UserRole.MANAGER) {
+    redirect('/dashboard')
+  }
+
+  const [platforms, users] = await Promise.all([
+    getPlatforms(prisma, { includeInactive: true }),
+    prisma.user.findMany({
+      where: { role: { not: UserRole.CLIENT } },
+      select: { id: true, name: true, email: true, role: true },
+      orderBy: [{ name: 'asc' }, { email: 'asc' }],
+    }),
+  ])
+
+  return (
+    <div className="p-6 md:p-8 space-y-8 animate-in">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Platforms</h1>
+        <p className="text-muted-foreground mt-1.5">
+          Platforms releases are sent to, who works them and what they need before a request is marked uploaded.
+        </p>
+      </div>
+
+      <PlatformManager platforms={platforms} users={users} />
+    </div>
+  )
+}
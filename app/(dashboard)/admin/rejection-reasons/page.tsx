@@ -0,0 +1,46 @@
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { redirect } from 'next/navigation'
+import { UserRole } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { getPlatforms } from '@/lib/platforms'
+import { RejectionReasonManager } from '@/components/rejection-reason-manager'
+
+export default async function RejectionReasonsPage() {
+  const session = await getServerSession(authOptions)
+  
+  if (!session) {
+    redirect('/auth/signin')
+  }
+
+  const role = session.user.role as UserRole
+  
+  if (role !== UserRole.ADMIN && role !== UserRole.MANAGER) {
+    redirect('/dashboard')
+  }
+
+  const reasons = await prisma.rejectionReason.findMany({
+    include: {
+      _count: { select: { decisions: true } },
+    },
+    orderBy: [
+      { sortOrder: 'asc' },
+      { label: 'asc' },
+    ],
+  })
+
+  const platforms = (await getPlatforms(prisma)).map(({ slug, name }) => ({ slug, name }))
+
+  return (
+    <div className="p-6 md:p-8 space-y-8 animate-in">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Rejection Reasons</h1>
+        <p className="text-muted-foreground mt-1.5">
+          Reasons platform teams choose from when rejecting a request. Descriptions are shown to clients on their status page.
+        </p>
+      </div>
+
+      <RejectionReasonManager reasons={reasons} platforms={platforms} />
+    </div>
+  )
+}
@@ -19,6 +19,7 @@ const ROLES = [
   { value: UserRole.PLATFORM_INTERNATIONAL_STREAMING, label: 'International Streaming Team' },
   { value: UserRole.PLATFORM_FACEBOOK, label: 'Facebook Team' },
   { value: UserRole.PLATFORM_TIKTOK, label: 'TikTok Team' },
+  { value: UserRole.PLATFORM_TEAM, label: 'Platform Team' },
   { value: UserRole.CLIENT, label: 'Client/Artist' },
 ]
 
@@ -10,7 +10,11 @@ import { Filter, X } from 'lucide-react'
 import { useState } from 'react'
 import { subDays, subWeeks, subMonths, startOfDay, endOfDay } from 'date-fns'
 
-export function AnalyticsFilters() {
+interface AnalyticsFiltersProps {
+  platforms: Array<{ slug: string; name: string }>
+}
+
+export function AnalyticsFilters({ platforms }: AnalyticsFiltersProps) {
   const router = useRouter()
   const searchParams = useSearchParams()
   const [filterOpen, setFilterOpen] = useState(false)
@@ -97,12 +101,9 @@ export function AnalyticsFilters() {
         </SelectTrigger>
         <SelectContent>
           <SelectItem value="all">All Platforms</SelectItem>
-          <SelectItem value="youtube">YouTube</SelectItem>
-          <SelectItem value="flow">Flow</SelectItem>
-          <SelectItem value="ringtunes">Ringtunes</SelectItem>
-          <SelectItem value="international_streaming">International Streaming</SelectItem>
-          <SelectItem value="facebook">Facebook</SelectItem>
-          <SelectItem value="tiktok">TikTok</SelectItem>
+          {platforms.map(option => (
+            <SelectItem key={option.slug} value={option.slug}>{option.name}</SelectItem>
+          ))}
         </SelectContent>
       </Select>
 
@@ -4,7 +4,11 @@ import { useSearchParams } from 'next/navigation'
 import { WidgetGrid } from './widget-grid'
 import { AnalyticsFilters } from '../analytics-filters'
 
-export function AnalyticsDashboard() {
+interface AnalyticsDashboardProps {
+  platforms: Array<{ slug: string; name: string }>
+}
+
+export function AnalyticsDashboard({ platforms }: AnalyticsDashboardProps) {
   const searchParams = useSearchParams()
 
   const filters = {
@@ -28,7 +32,7 @@ export function AnalyticsDashboard() {
             Comprehensive insights and statistics for your music distribution operations
           </p>
         </div>
-        <AnalyticsFilters />
+        <AnalyticsFilters platforms={platforms} />
       </div>
 
       <WidgetGrid filters={filters} />
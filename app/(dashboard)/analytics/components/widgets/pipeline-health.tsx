@@ -15,8 +15,20 @@ interface PipelineHealth {
   averageTimeInPending: number
   averageTimeInUploaded: number
   bottleneckPlatforms: { platform: string; pendingCount: number }[]
+  slaBreaches: {
+    total: number
+    open: number
+    averageHoursLate: number
+    byPlatform: { platform: string; breaches: number; open: number; averageHoursLate: number }[]
+  }
 }
 
+const formatPlatform = (platform: string) =>
+  platform
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ')
+
 interface PipelineHealthProps {
   filters?: {
     startDate?: string
@@ -98,10 +110,7 @@ export function PipelineHealth({ filters = {} }: PipelineHealthProps) {
   ]
 
   const bottleneckData = data.bottleneckPlatforms.map((bp) => ({
-    name: bp.platform
-      .split('_')
-      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' '),
+    name: formatPlatform(bp.platform),
     value: bp.pendingCount,
   }))
 
@@ -194,6 +203,32 @@ export function PipelineHealth({ filters = {} }: PipelineHealthProps) {
                 </ChartContainer>
               </div>
             )}
+
+            {data.slaBreaches.total > 0 && (
+              <div>
+                <div className="flex items-center gap-2 mb-4">
+                  <XCircle className="h-4 w-4 text-red-500" />
+                  <h4 className="font-semibold">SLA Breaches</h4>
+                  <Badge variant={data.slaBreaches.open > 0 ? 'destructive' : 'secondary'}>
+                    {data.slaBreaches.open} open
+                  </Badge>
+                </div>
+                <div className="space-y-2">
+                  {data.slaBreaches.byPlatform.map((row) => (
+                    <div
+                      key={row.platform}
+                      className="flex items-center justify-between p-3 border border-border/50 rounded-lg bg-card/50 text-sm"
+                    >
+                      <span className="font-medium">{formatPlatform(row.platform)}</span>
+                      <span className="text-muted-foreground">
+                        {row.breaches} breach{row.breaches === 1 ? '' : 'es'} · {row.open} open ·{' '}
+                        {row.averageHoursLate.toFixed(1)}h late on average
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
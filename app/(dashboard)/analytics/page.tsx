@@ -2,6 +2,8 @@ import { Suspense } from 'react'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { redirect } from 'next/navigation'
+import { prisma } from '@/lib/db'
+import { getPlatforms } from '@/lib/platforms'
 import { AnalyticsDashboard } from './components/analytics-dashboard'
 
 export default async function AnalyticsPage() {
@@ -10,6 +12,8 @@ export default async function AnalyticsPage() {
     redirect('/auth/signin')
   }
 
+  const platforms = (await getPlatforms(prisma, { includeInactive: true })).map(({ slug, name }) => ({ slug, name }))
+
   return (
     <div className="p-6 md:p-8 animate-in">
       <Suspense fallback={
@@ -17,7 +21,7 @@ export default async function AnalyticsPage() {
           <div className="text-muted-foreground">Loading analytics...</div>
         </div>
       }>
-        <AnalyticsDashboard />
+        <AnalyticsDashboard platforms={platforms} />
       </Suspense>
     </div>
   )
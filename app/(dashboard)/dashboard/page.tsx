@@ -9,11 +9,26 @@ import { Database, Users, Music, Calendar, Youtube, Facebook, Music2, Globe, Rad
 import { ReloadButton } from '@/components/reload-button'
 import { DashboardSections } from '@/components/dashboard-sections'
 import { DashboardAutoRefresh } from '@/components/dashboard-auto-refresh'
-import { PlatformRequestStatus } from '@prisma/client'
+import { OverdueRequestsCard } from '@/components/overdue-requests-card'
+import { PlatformRequestStatus, UserRole } from '@prisma/client'
+import { getPlatforms, getPlatformPath } from '@/lib/platforms'
+import { getOverdueRequests, hasSla } from '@/lib/platform-sla'
 
 export const dynamic = 'force-dynamic'
 export const revalidate = 0
 
+// Icons of the original platforms; platforms added later use Music
+const PLATFORM_ICONS: Record<string, string> = {
+  youtube: 'Youtube',
+  facebook: 'Facebook',
+  tiktok: 'Music2',
+  flow: 'Radio',
+  ringtunes: 'Music',
+  international_streaming: 'Globe',
+}
+
+const PLATFORM_ICON_COMPONENTS: Record<string, typeof Music> = { Youtube, Facebook, Music2, Radio, Music, Globe }
+
 // Force no caching for dashboard data
 export const fetchCache = 'force-no-store'
 
@@ -37,16 +52,24 @@ export default async function DashboardPage() {
   }> = []
   let dbError: string | null = null
 
-  const platforms = [
-    { key: 'youtube', displayName: 'YouTube', icon: 'Youtube' },
-    { key: 'facebook', displayName: 'Facebook', icon: 'Facebook' },
-    { key: 'tiktok', displayName: 'TikTok', icon: 'Music2' },
-    { key: 'flow', displayName: 'Flow', icon: 'Radio' },
-    { key: 'ringtunes', displayName: 'Ringtunes', icon: 'Music' },
-    { key: 'international_streaming', displayName: 'Intl Streaming', icon: 'Globe' },
-  ]
+  let platforms: Array<{ key: string; displayName: string; icon: string }> = []
+
+  // Managers get the escalation list once any platform has an SLA
+  const role = session.user.role as UserRole
+  let overdue: Awaited<ReturnType<typeof getOverdueRequests>> | null = null
 
   try {
+    const platformConfigs = await getPlatforms(prisma)
+    platforms = platformConfigs.map(platform => ({
+      key: platform.slug,
+      displayName: platform.name,
+      icon: PLATFORM_ICONS[platform.slug] || 'Music',
+    }))
+
+    if ((role === UserRole.ADMIN || role === UserRole.MANAGER) && platformConfigs.some(hasSla)) {
+      overdue = await getOverdueRequests(prisma, new Date(), { limit: 10 })
+    }
+
     // Simplified queries with timeout protection
     const queryTimeout = 10000 // 10 seconds
     
@@ -77,12 +100,14 @@ export default async function DashboardPage() {
               where: {
                 platform: platform.key,
                 status: PlatformRequestStatus.PENDING,
+                parentRequestId: null,
               },
             }).catch(() => 0),
             prisma.platformRequest.count({
               where: {
                 platform: platform.key,
                 status: PlatformRequestStatus.UPLOADED,
+                parentRequestId: null,
               },
             }).catch(() => 0),
           ])
@@ -187,6 +212,10 @@ export default async function DashboardPage() {
         />
       )}
 
+      {!dbError && overdue && (
+        <OverdueRequestsCard total={overdue.total} requests={overdue.requests} />
+      )}
+
       {/* Quick Actions and Platform Management */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         <Card>
@@ -224,42 +253,17 @@ export default async function DashboardPage() {
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-2 gap-2">
-              <Link href="/platforms/youtube">
-                <Button variant="outline" size="sm" className="w-full justify-start">
-                  <Youtube className="w-4 h-4 mr-2" />
-                  YouTube
-                </Button>
-              </Link>
-              <Link href="/platforms/facebook">
-                <Button variant="outline" size="sm" className="w-full justify-start">
-                  <Facebook className="w-4 h-4 mr-2" />
-                  Facebook
-                </Button>
-              </Link>
-              <Link href="/platforms/tiktok">
-                <Button variant="outline" size="sm" className="w-full justify-start">
-                  <Music2 className="w-4 h-4 mr-2" />
-                  TikTok
-                </Button>
-              </Link>
-              <Link href="/platforms/flow">
-                <Button variant="outline" size="sm" className="w-full justify-start">
-                  <Radio className="w-4 h-4 mr-2" />
-                  Flow
-                </Button>
-              </Link>
-              <Link href="/platforms/ringtunes">
-                <Button variant="outline" size="sm" className="w-full justify-start">
-                  <Music className="w-4 h-4 mr-2" />
-                  Ringtunes
-                </Button>
-              </Link>
-              <Link href="/platforms/international-streaming">
-                <Button variant="outline" size="sm" className="w-full justify-start">
-                  <Globe className="w-4 h-4 mr-2" />
-                  Intl Streaming
-                </Button>
-              </Link>
+              {platforms.map(platform => {
+                const Icon = PLATFORM_ICON_COMPONENTS[platform.icon] || Music
+                return (
+                  <Link key={platform.key} href={`/platforms/${getPlatformPath(platform.key)}`}>
+                    <Button variant="outline" size="sm" className="w-full justify-start">
+                      <Icon className="w-4 h-4 mr-2" />
+                      {platform.displayName}
+                    </Button>
+                  </Link>
+                )
+              })}
               <Link href="/ar/releases">
                 <Button variant="outline" size="sm" className="w-full justify-start">
                   <Users className="w-4 h-4 mr-2" />
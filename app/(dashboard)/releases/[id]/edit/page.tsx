@@ -3,6 +3,7 @@ import { authOptions } from '@/lib/auth'
 import { redirect, notFound } from 'next/navigation'
 import { UserRole, EmployeeStatus } from '@prisma/client'
 import { prisma } from '@/lib/db'
+import { getPlatforms } from '@/lib/platforms'
 import { ReleaseEditForm } from '@/components/release-edit-form'
 
 export default async function EditReleasePage({
@@ -110,28 +111,24 @@ export default async function EditReleasePage({
     },
   })
 
+  // Active platforms, plus inactive ones the release already has requests on
+  const platforms = (await getPlatforms(prisma, { includeInactive: true }))
+    .filter(platform => platform.active || release.platformRequests.some(request => request.platform === platform.slug))
+    .map(({ slug, name, supportsChannels }) => ({ key: slug, label: name, supportsChannels }))
+
   // Get channels for all platforms that support channels
-  const [youtubeChannels, facebookChannels] = await Promise.all([
-    prisma.platformChannel.findMany({
-      where: {
-        platform: 'youtube',
-        active: true,
-      },
-      orderBy: { name: 'asc' },
-    }),
-    prisma.platformChannel.findMany({
-      where: {
-        platform: 'facebook',
-        active: true,
-      },
-      orderBy: { name: 'asc' },
-    }),
-  ])
+  const channels = await prisma.platformChannel.findMany({
+    where: {
+      platform: { in: platforms.filter(platform => platform.supportsChannels).map(platform => platform.key) },
+      active: true,
+    },
+    orderBy: { name: 'asc' },
+  })
 
-  const channelsByPlatform = {
-    youtube: youtubeChannels,
-    facebook: facebookChannels,
-  }
+  const channelsByPlatform: Record<string, typeof channels> = {}
+  channels.forEach(channel => {
+    channelsByPlatform[channel.platform] = [...(channelsByPlatform[channel.platform] || []), channel]
+  })
 
   return (
     <div className="p-6 md:p-8 max-w-6xl mx-auto space-y-6">
@@ -148,6 +145,7 @@ export default async function EditReleasePage({
         release={release} 
         employees={employees}
         allArtists={allArtists}
+        platforms={platforms}
         channelsByPlatform={channelsByPlatform}
       />
     </div>
@@ -21,7 +21,12 @@ import {
 import { UserRole } from '@prisma/client'
 import { InlineReleaseEditor } from '@/components/inline-release-editor'
 import { InlineTrackEditor } from '@/components/inline-track-editor'
-import { ReleaseDetailClient, TrackEditButton, TrackArtistsDisplay } from '@/components/release-detail-client'
+import { ReleaseDetailClient, TrackEditButton, TrackArtistsDisplay, ReleaseComments } from '@/components/release-detail-client'
+import { commentThreadInclude, canUseComments } from '@/lib/comments'
+import { decisionHistoryInclude } from '@/lib/rejection-reasons'
+import { ResubmitRequestButton } from '@/components/platform-request-resubmit'
+import { ReleaseImportSource } from '@/components/release-import-source'
+import { diffImportedValues, type ImportedReleaseValues } from '@/lib/import-provenance'
 
 export default async function ReleaseDetailPage({
   params,
@@ -69,21 +74,12 @@ export default async function ReleaseDetailPage({
           track: true,
           decisions: {
             orderBy: { createdAt: 'desc' },
-            include: {
-              user: true,
-            },
+            include: decisionHistoryInclude,
           },
         },
       },
       comments: {
-        include: {
-          user: true,
-          replies: {
-            include: {
-              user: true,
-            },
-          },
-        },
+        include: commentThreadInclude,
         where: { parentId: null },
         orderBy: { createdAt: 'desc' },
       },
@@ -114,6 +110,12 @@ export default async function ReleaseDetailPage({
     return <div>Release not found</div>
   }
 
+  // Latest import of this release, if it came from a file
+  const importAttachment = await prisma.importAttachment.findFirst({
+    where: { releaseId: release.id },
+    orderBy: { importedAt: 'desc' },
+  })
+
   const userRole = session.user.role as UserRole
   const canEdit = userRole === UserRole.ADMIN || userRole === UserRole.MANAGER || userRole === UserRole.A_R || userRole === UserRole.DATA_TEAM
 
@@ -123,6 +125,10 @@ export default async function ReleaseDetailPage({
     .filter(ra => !ra.isPrimary && ra.artistId !== release.artistId)
     .map(ra => ra.artist)
 
+  const importDifferences = importAttachment?.importedValues
+    ? diffImportedValues(importAttachment.importedValues as unknown as ImportedReleaseValues, release)
+    : null
+
   return (
     <div className="p-8 max-w-7xl mx-auto space-y-6">
       <div className="flex items-center justify-between">
@@ -269,6 +275,35 @@ export default async function ReleaseDetailPage({
                         Channel: {request.channelName}
                       </div>
                     )}
+                    {request.track && (
+                      <div className="text-sm text-muted-foreground">
+                        Track: {request.track.name}
+                      </div>
+                    )}
+                    {request.status === 'REJECTED' && request.decisions[0] && (
+                      <div className="mt-2 space-y-2">
+                        <div className="text-sm">
+                          <span className="font-medium">
+                            {request.decisions[0].rejectionReason?.label || 'Rejected'}
+                          </span>
+                          {request.decisions[0].notes && (
+                            <span className="text-muted-foreground"> — {request.decisions[0].notes}</span>
+                          )}
+                        </div>
+                        {(userRole === UserRole.ADMIN || userRole === UserRole.MANAGER || userRole === UserRole.A_R) &&
+                          !release.platformRequests.some(p => p.parentRequestId === request.id) && (
+                          <ResubmitRequestButton
+                            requestId={request.id}
+                            platformLabel={request.platform.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                          />
+                        )}
+                      </div>
+                    )}
+                    {request.status === 'PENDING' && request.resubmissionCount > 0 && (
+                      <div className="text-xs text-muted-foreground">
+                        Resubmitted {request.resubmissionCount} time{request.resubmissionCount === 1 ? '' : 's'}
+                      </div>
+                    )}
                     {request.uploadLink && (
                       <a
                         href={request.uploadLink}
@@ -305,12 +340,12 @@ export default async function ReleaseDetailPage({
             </div>
             <div>
               <div className="text-xs font-medium text-muted-foreground mb-1">Platform Requests</div>
-              <div className="text-2xl font-bold">{release.platformRequests.length}</div>
+              <div className="text-2xl font-bold">{release.platformRequests.filter(p => !p.parentRequestId).length}</div>
             </div>
             <div>
               <div className="text-xs font-medium text-muted-foreground mb-1">Uploaded Platforms</div>
               <div className="text-2xl font-bold">
-                {release.platformRequests.filter(p => p.status === 'UPLOADED').length}
+                {release.platformRequests.filter(p => !p.parentRequestId && p.status === 'UPLOADED').length}
               </div>
             </div>
             <div>
@@ -321,6 +356,14 @@ export default async function ReleaseDetailPage({
         </Card>
       </div>
 
+      {importAttachment && (
+        <ReleaseImportSource
+          attachment={importAttachment}
+          differences={importDifferences}
+          showSource={canEdit}
+        />
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -399,59 +442,14 @@ export default async function ReleaseDetailPage({
         </CardContent>
       </Card>
 
-      {release.comments.length > 0 && (
-        <Card>
-          <CardHeader>
-            <CardTitle>Comments & Notes</CardTitle>
-            <CardDescription>Team discussions and notes</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              {release.comments.map((comment) => (
-                <div key={comment.id} className="p-4 border rounded-lg hover:bg-muted/30 transition-colors">
-                  <div className="flex items-start justify-between mb-3">
-                    <div className="flex items-center gap-2">
-                      <div className="h-8 w-8 rounded-full bg-primary/10 flex items-center justify-center">
-                        <span className="text-xs font-semibold text-primary">
-                          {(comment.user.name || comment.user.email)[0].toUpperCase()}
-                        </span>
-                      </div>
-                      <div>
-                        <div className="font-medium text-sm">{comment.user.name || comment.user.email}</div>
-                        <div className="text-xs text-muted-foreground">
-                          {formatDate(comment.createdAt)}
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                  <p className="text-sm whitespace-pre-wrap">{comment.content}</p>
-                  {comment.replies.length > 0 && (
-                    <div className="mt-3 ml-12 space-y-2 border-l-2 pl-4">
-                      {comment.replies.map((reply) => (
-                        <div key={reply.id} className="p-3 bg-muted/50 rounded-lg">
-                          <div className="flex items-center gap-2 mb-2">
-                            <div className="h-6 w-6 rounded-full bg-secondary flex items-center justify-center">
-                              <span className="text-xs font-semibold">
-                                {(reply.user.name || reply.user.email)[0].toUpperCase()}
-                              </span>
-                            </div>
-                            <div className="flex-1">
-                              <div className="font-medium text-xs">{reply.user.name || reply.user.email}</div>
-                              <div className="text-xs text-muted-foreground">
-                                {formatDate(reply.createdAt)}
-                              </div>
-                            </div>
-                          </div>
-                          <p className="text-sm whitespace-pre-wrap">{reply.content}</p>
-                        </div>
-                      ))}
-                    </div>
-                  )}
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
+      {canUseComments(userRole) && (
+        <ReleaseComments
+          releaseId={release.id}
+          tracks={release.tracks.map(track => ({ id: track.id, name: track.name, trackNumber: track.trackNumber }))}
+          initialComments={release.comments}
+          currentUserId={session.user.id}
+          userRole={userRole}
+        />
       )}
     </div>
   )
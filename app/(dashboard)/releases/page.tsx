@@ -8,6 +8,7 @@ import { UserRole } from '@prisma/client'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Terminal } from 'lucide-react'
 import { ReloadButton } from '@/components/reload-button'
+import { buildReleaseWhere } from '@/lib/release-filters'
 
 // Force dynamic rendering to always show fresh data (important during imports)
 export const dynamic = 'force-dynamic'
@@ -22,6 +23,7 @@ export default async function ReleasesPage({
     pageSize?: string
     type?: string
     platform?: string
+    channel?: string
     status?: string
     performer?: string
     composer?: string
@@ -50,145 +52,8 @@ export default async function ReleasesPage({
   const page = parseInt(searchParams.page || '1')
   const pageSize = parseInt(searchParams.pageSize || '50')
 
-  // Build where clause for server-side filtering
-  const where: any = {}
-
-  // Search filter - optimized for large datasets
-  if (search) {
-    where.OR = [
-      { title: { contains: search, mode: 'insensitive' as const } },
-      { artist: { name: { contains: search, mode: 'insensitive' as const } } },
-    ]
-  }
-
-  // Type filter
-  const isEmptyTypeFilter = searchParams.type === 'EMPTY'
-  if (searchParams.type && searchParams.type !== 'all') {
-    if (isEmptyTypeFilter) {
-      // Filter for releases with 0 tracks
-      where.tracks = { none: {} }
-    } else {
-      // Filter by type (SINGLE or ALBUM) and ensure they have tracks
-      where.type = searchParams.type
-      where.tracks = { some: {} }
-    }
-  }
-
-  // Platform filter
-  if (searchParams.platform && searchParams.platform !== 'all') {
-    where.platformRequests = {
-      some: {
-        platform: searchParams.platform,
-      },
-    }
-  }
-
-  // Status filter - combine with platform if both exist
-  if (searchParams.status && searchParams.status !== 'all') {
-    if (where.platformRequests) {
-      where.platformRequests = {
-        ...where.platformRequests,
-        some: {
-          ...where.platformRequests.some,
-          status: searchParams.status,
-        },
-      }
-    } else {
-      where.platformRequests = {
-        some: {
-          status: searchParams.status,
-        },
-      }
-    }
-  }
-
-  // Track-level filters - only apply if NOT filtering for empty releases
-  // (empty releases have no tracks, so track filters don't make sense)
-  if (!isEmptyTypeFilter) {
-    const trackFilters: any[] = []
-    
-    if (searchParams.performer && searchParams.performer !== 'all') {
-      trackFilters.push({ performer: searchParams.performer })
-    }
-    
-    if (searchParams.composer && searchParams.composer !== 'all') {
-      trackFilters.push({ composer: searchParams.composer })
-    }
-    
-    if (searchParams.band && searchParams.band !== 'all') {
-      trackFilters.push({
-        OR: [
-          { band: searchParams.band },
-          { musicProducer: searchParams.band },
-        ],
-      })
-    }
-    
-    if (searchParams.studio && searchParams.studio !== 'all') {
-      trackFilters.push({ studio: searchParams.studio })
-    }
-    
-    if (searchParams.label && searchParams.label !== 'all') {
-      trackFilters.push({ recordLabel: searchParams.label })
-    }
-    
-    if (searchParams.genre && searchParams.genre !== 'all') {
-      trackFilters.push({ genre: searchParams.genre })
-    }
-
-    // Combine all track filters with AND logic
-    if (trackFilters.length > 0) {
-      // If we already have a tracks filter from type (some: {}), replace it with our filters
-      // The type filter already ensures tracks exist, so we just need to add the track-level filters
-      where.tracks = {
-        some: {
-          AND: trackFilters,
-        },
-      }
-    }
-  }
-
-  // Date range filter - filter by Legacy Release Date
-  if (searchParams.startDate || searchParams.endDate) {
-    const dateFilter: any = {}
-    if (searchParams.startDate) {
-      dateFilter.gte = new Date(searchParams.startDate)
-    }
-    if (searchParams.endDate) {
-      dateFilter.lte = new Date(searchParams.endDate)
-    }
-    where.legacyReleaseDate = dateFilter
-  }
-
-  // Assigned A&R filter
-  if (searchParams.assignedAR && searchParams.assignedAR !== 'all') {
-    where.assignedA_RId = searchParams.assignedAR
-  }
-
-  // Copyright Status filter
-  if (searchParams.copyrightStatus && searchParams.copyrightStatus !== 'all') {
-    where.copyrightStatus = searchParams.copyrightStatus
-  }
-
-  // Video Type filter
-  if (searchParams.videoType && searchParams.videoType !== 'all') {
-    where.videoType = searchParams.videoType
-  }
-
-  // Artist filter - search in both primary artist and releaseArtists
-  if (searchParams.artist && searchParams.artist !== 'all') {
-    where.OR = [
-      { artistId: searchParams.artist },
-      { releaseArtists: { some: { artistId: searchParams.artist } } },
-    ]
-  }
-
-  // Missing Album Artist filter - filter releases where primary artist is "Unknown Artist"
-  if (searchParams.missingArtist === 'true') {
-    where.artist = {
-      name: 'Unknown Artist',
-    }
-  }
+  // Build where clause for server-side filtering (shared with the bulk endpoints)
+  const where: any = buildReleaseWhere(searchParams)
 
   // Filter out empty dates when using "desc-nulls-last" sorting (show only rows with dates)
   if (searchParams.sortField && searchParams.sortDirection === 'desc-nulls-last') {
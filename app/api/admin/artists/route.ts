@@ -4,6 +4,7 @@ import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/db'
 import { UserRole } from '@prisma/client'
 import { createAuditLog } from '@/lib/utils'
+import { normalizeMyanmarInput } from '@/lib/myanmar-text'
 
 export async function POST(req: NextRequest) {
   try {
@@ -17,7 +18,7 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
-    const body = await req.json()
+    const body = normalizeMyanmarInput(await req.json())
     const { name, legalName, contactEmail, contactPhone, internalNotes } = body
 
     // Validate
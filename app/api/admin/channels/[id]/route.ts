@@ -4,6 +4,7 @@ import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/db'
 import { UserRole } from '@prisma/client'
 import { createAuditLog } from '@/lib/utils'
+import { parseChannelId } from '@/lib/upload-links'
 
 export async function PATCH(
   req: NextRequest,
@@ -32,11 +33,19 @@ export async function PATCH(
       return NextResponse.json({ error: 'Channel not found' }, { status: 404 })
     }
 
+    // IDs saved before they were checked are kept until someone changes them
+    const parsedChannelId = channelId && channelId !== currentChannel.channelId
+      ? parseChannelId(currentChannel.platform, channelId)
+      : null
+    if (parsedChannelId?.error) {
+      return NextResponse.json({ error: parsedChannelId.error }, { status: 400 })
+    }
+
     const channel = await prisma.platformChannel.update({
       where: { id: params.id },
       data: {
         name,
-        channelId: channelId || null,
+        channelId: parsedChannelId ? parsedChannelId.channelId : channelId || null,
         description: description || null,
         active: active !== undefined ? active : true,
       },
@@ -4,6 +4,7 @@ import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/db'
 import { UserRole } from '@prisma/client'
 import { createAuditLog } from '@/lib/utils'
+import { parseChannelId } from '@/lib/upload-links'
 
 export async function GET(req: NextRequest) {
   try {
@@ -56,11 +57,16 @@ export async function POST(req: NextRequest) {
       )
     }
 
+    const parsedChannelId = channelId ? parseChannelId(platform, channelId) : null
+    if (parsedChannelId?.error) {
+      return NextResponse.json({ error: parsedChannelId.error }, { status: 400 })
+    }
+
     const channel = await prisma.platformChannel.create({
       data: {
         platform,
         name,
-        channelId: channelId || null,
+        channelId: parsedChannelId ? parsedChannelId.channelId : null,
         description: description || null,
         active: active !== undefined ? active : true,
       },
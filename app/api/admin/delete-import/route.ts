@@ -10,6 +10,7 @@ export const dynamic = 'force-dynamic'
 /**
  * DELETE /api/admin/delete-import
  * Delete all data imported from a specific CSV file
+ * (imports with recorded changes can be rolled back precisely from /admin/imports)
  * Requires ADMIN role
  */
 export async function DELETE(req: NextRequest) {
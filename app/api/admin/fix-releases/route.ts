@@ -5,96 +5,7 @@ import { prisma } from '@/lib/db'
 import { UserRole } from '@prisma/client'
 import { processRow } from '@/app/api/import/csv/route'
 import type { MappingConfig } from '@/lib/csv-importer'
-
-// Identify releases with titles that look like they came from wrong columns
-function looksLikeWrongColumn(title: string): boolean {
-  if (!title) return false
-  
-  const lowerTitle = title.toLowerCase()
-  
-  // Patterns that indicate notes content
-  const notesPatterns = [
-    'will whitelist',
-    'p.s.',
-    'copyright',
-    'note:',
-    'please',
-    'important',
-    'warning',
-    'reminder',
-    'youtube တွင်', // Burmese text from user's example
-    'cannot upload',
-    'due to',
-  ]
-  
-  // Patterns that indicate payment remarks
-  const paymentPatterns = [
-    'payment',
-    'royalty',
-    'receive method',
-    'bank',
-    'account',
-    'transfer',
-  ]
-  
-  // Patterns that indicate platform status
-  const platformPatterns = [
-    'uploaded',
-    'pending',
-    'rejected',
-    'monetization',
-    'the licensee will be',
-    'youtube',
-    'facebook',
-    'tiktok',
-    'flow',
-    'ringtunes',
-  ]
-  
-  // Patterns that indicate dates (but not release dates)
-  const datePatterns = [
-    /^\d{1,2}[-\/]\d{1,2}[-\/]\d{2,4}$/, // DD-MM-YY or similar
-    /^(january|february|march|april|may|june|july|august|september|october|november|december)/i,
-  ]
-  
-  // Patterns that indicate status codes or IDs
-  const codePatterns = [
-    /^[a-z0-9]{4,10}$/i, // Short codes
-    /^id=/i, // ID patterns
-    /accessToken/i,
-  ]
-  
-  // Check if title is very long (likely notes or other text field)
-  if (title.length > 100) return true
-  
-  // Check if it contains multiple sentences (likely notes)
-  if (title.includes('. ') && title.split('. ').length > 2) return true
-  
-  // Check for notes patterns
-  if (notesPatterns.some(pattern => lowerTitle.includes(pattern))) return true
-  
-  // Check for payment remarks patterns
-  if (paymentPatterns.some(pattern => lowerTitle.includes(pattern))) return true
-  
-  // Check for platform status patterns (but not if it's a valid release title)
-  if (platformPatterns.some(pattern => lowerTitle.includes(pattern)) && 
-      !lowerTitle.includes('platform') && 
-      title.length < 50) return true
-  
-  // Check if it's just a date
-  if (datePatterns.some(pattern => pattern.test(title.trim()))) return true
-  
-  // Check if it's just a code/ID
-  if (codePatterns.some(pattern => pattern.test(title.trim()))) return true
-  
-  // Check if it contains URLs or access tokens
-  if (/https?:\/\/|www\.|accessToken|id=/i.test(title)) return true
-  
-  // Check if it's mostly special characters, numbers, or commas (likely concatenated data)
-  if (/^[,;\s\d\-_]+$/.test(title) || (title.split(',').length > 3 && title.length < 50)) return true
-  
-  return false
-}
+import { looksLikeWrongColumn } from '@/lib/import-validation'
 
 export async function POST(req: NextRequest) {
   try {
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { ImportValidationSeverity, Prisma, UserRole } from '@prisma/client'
+import { createAuditLog } from '@/lib/utils'
+import { IMPORT_VALIDATION_RULES } from '@/lib/import-validation'
+
+// Change a rule's severity and params
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { code: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = session.user.role as UserRole
+    if (role !== UserRole.ADMIN && role !== UserRole.MANAGER) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const rule = IMPORT_VALIDATION_RULES.find(r => r.code === params.code)
+    if (!rule) {
+      return NextResponse.json({ error: 'Validation rule not found' }, { status: 404 })
+    }
+
+    const body = await req.json()
+    const { severity } = body
+
+    if (!Object.values(ImportValidationSeverity).includes(severity)) {
+      return NextResponse.json({ error: 'Severity must be ERROR, WARN or IGNORE' }, { status: 400 })
+    }
+
+    if (rule.fixedSeverity && severity !== rule.defaultSeverity) {
+      return NextResponse.json({ error: `${rule.label} can't be changed` }, { status: 400 })
+    }
+
+    // Only the params the rule defines, as numbers
+    const ruleParams: Record<string, number> = {}
+    for (const param of rule.params || []) {
+      const value = body.params?.[param.key]
+      if (value === undefined || value === null || value === '') continue
+      if (typeof value !== 'number' && (typeof value !== 'string' || isNaN(Number(value)))) {
+        return NextResponse.json({ error: `${param.label} must be a number` }, { status: 400 })
+      }
+      ruleParams[param.key] = Number(value)
+    }
+
+    const current = await prisma.importValidationRule.findUnique({
+      where: { code: rule.code },
+    })
+
+    const data = {
+      severity: severity as ImportValidationSeverity,
+      params: Object.keys(ruleParams).length > 0 ? ruleParams : Prisma.DbNull,
+    }
+    const updated = await prisma.importValidationRule.upsert({
+      where: { code: rule.code },
+      create: { code: rule.code, ...data },
+      update: data,
+    })
+
+    await createAuditLog(prisma, {
+      userId: session.user.id,
+      entityType: 'import_validation_rule',
+      entityId: rule.code,
+      action: 'update',
+      oldValue: JSON.stringify({
+        severity: current?.severity ?? rule.defaultSeverity,
+        params: current?.params ?? null,
+      }),
+      newValue: JSON.stringify({ severity: updated.severity, params: updated.params }),
+    })
+
+    return NextResponse.json(updated)
+  } catch (error: any) {
+    console.error('Update import validation rule error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update import validation rule' },
+      { status: 500 }
+    )
+  }
+}
+
+// Go back to the rule's defaults
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { code: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = session.user.role as UserRole
+    if (role !== UserRole.ADMIN && role !== UserRole.MANAGER) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const current = await prisma.importValidationRule.findUnique({
+      where: { code: params.code },
+    })
+
+    if (!current) {
+      return NextResponse.json({ error: 'Validation rule already uses its defaults' }, { status: 404 })
+    }
+
+    await prisma.importValidationRule.delete({
+      where: { code: params.code },
+    })
+
+    await createAuditLog(prisma, {
+      userId: session.user.id,
+      entityType: 'import_validation_rule',
+      entityId: params.code,
+      action: 'delete',
+      oldValue: JSON.stringify({ severity: current.severity, params: current.params }),
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Reset import validation rule error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to reset import validation rule' },
+      { status: 500 }
+    )
+  }
+}
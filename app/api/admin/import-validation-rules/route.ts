@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { UserRole } from '@prisma/client'
+import { loadImportValidationRuleStates } from '@/lib/import-validation'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = session.user.role as UserRole
+    if (role !== UserRole.ADMIN && role !== UserRole.MANAGER) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const rules = await loadImportValidationRuleStates(prisma)
+
+    return NextResponse.json(rules)
+  } catch (error: any) {
+    console.error('Get import validation rules error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch import validation rules' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { UserRole, PlatformRequestStatus } from '@prisma/client'
+import { createAuditLog } from '@/lib/utils'
+import { isPlatformTeamRole, normalizeRequiredUploadFields, parseSlaDays, parseClaimExpiryHours } from '@/lib/platforms'
+import { createTrackRequests } from '@/lib/platform-track-requests'
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = session.user.role as UserRole
+    if (role !== UserRole.ADMIN && role !== UserRole.MANAGER) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await req.json()
+    const {
+      name,
+      supportsChannels,
+      requiredUploadFields,
+      teamRole,
+      slaDays,
+      slaBeforeReleaseDate,
+      claimExpiryHours,
+      trackRequests,
+      active,
+      sortOrder,
+      memberIds,
+      leadIds,
+    } = body
+
+    const currentPlatform = await prisma.platform.findUnique({
+      where: { id: params.id },
+      include: { members: { select: { userId: true, isLead: true } } },
+    })
+
+    if (!currentPlatform) {
+      return NextResponse.json({ error: 'Platform not found' }, { status: 404 })
+    }
+
+    if (name !== undefined && !name.trim()) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 })
+    }
+
+    if (teamRole && !isPlatformTeamRole(teamRole)) {
+      return NextResponse.json({ error: `${teamRole} is not a platform team role` }, { status: 400 })
+    }
+
+    if (slaDays !== undefined && parseSlaDays(slaDays) === undefined) {
+      return NextResponse.json({ error: 'SLA days must be a whole number of days' }, { status: 400 })
+    }
+
+    if (claimExpiryHours !== undefined && parseClaimExpiryHours(claimExpiryHours) === undefined) {
+      return NextResponse.json({ error: 'Claim expiry must be a whole number of hours' }, { status: 400 })
+    }
+
+    const platform = await prisma.$transaction(async (tx) => {
+      // Members are replaced as a whole, the way the form edits them
+      if (Array.isArray(memberIds)) {
+        await tx.platformMember.deleteMany({ where: { platformId: params.id } })
+        if (memberIds.length > 0) {
+          await tx.platformMember.createMany({
+            data: memberIds.map((userId: string) => ({
+              platformId: params.id,
+              userId,
+              isLead: Array.isArray(leadIds) && leadIds.includes(userId),
+            })),
+            skipDuplicates: true,
+          })
+        }
+      }
+
+      return tx.platform.update({
+        where: { id: params.id },
+        data: {
+          ...(name !== undefined && { name: name.trim() }),
+          ...(supportsChannels !== undefined && { supportsChannels: !!supportsChannels }),
+          ...(requiredUploadFields !== undefined && {
+            requiredUploadFields: normalizeRequiredUploadFields(requiredUploadFields),
+          }),
+          ...(teamRole !== undefined && { teamRole: teamRole || null }),
+          ...(slaDays !== undefined && { slaDays: parseSlaDays(slaDays) }),
+          ...(slaBeforeReleaseDate !== undefined && { slaBeforeReleaseDate: !!slaBeforeReleaseDate }),
+          ...(claimExpiryHours !== undefined && { claimExpiryHours: parseClaimExpiryHours(claimExpiryHours) }),
+          ...(trackRequests !== undefined && { trackRequests: !!trackRequests }),
+          ...(active !== undefined && { active }),
+          ...(typeof sortOrder === 'number' && { sortOrder }),
+        },
+        include: { members: { select: { userId: true, isLead: true } } },
+      })
+    })
+
+    const summarize = (value: typeof platform) => ({
+      name: value.name,
+      supportsChannels: value.supportsChannels,
+      requiredUploadFields: value.requiredUploadFields,
+      teamRole: value.teamRole,
+      slaDays: value.slaDays,
+      slaBeforeReleaseDate: value.slaBeforeReleaseDate,
+      claimExpiryHours: value.claimExpiryHours,
+      trackRequests: value.trackRequests,
+      active: value.active,
+      sortOrder: value.sortOrder,
+      memberIds: value.members.map(member => member.userId),
+      leadIds: value.members.filter(member => member.isLead).map(member => member.userId),
+    })
+
+    // Turning track requests on splits the albums still waiting; finished ones keep their release-level history
+    if (platform.trackRequests && !currentPlatform.trackRequests) {
+      await createTrackRequests(prisma, { platform: platform.slug, status: PlatformRequestStatus.PENDING })
+    }
+
+    await createAuditLog(prisma, {
+      userId: session.user.id,
+      entityType: 'platform',
+      entityId: params.id,
+      action: 'update',
+      oldValue: JSON.stringify(summarize(currentPlatform)),
+      newValue: JSON.stringify(summarize(platform)),
+    })
+
+    return NextResponse.json(platform)
+  } catch (error: any) {
+    console.error('Update platform error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update platform' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = session.user.role as UserRole
+    if (role !== UserRole.ADMIN && role !== UserRole.MANAGER) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const platform = await prisma.platform.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!platform) {
+      return NextResponse.json({ error: 'Platform not found' }, { status: 404 })
+    }
+
+    // Requests and channels refer to the slug, so a platform in use can only be deactivated
+    const [requestCount, channelCount] = await Promise.all([
+      prisma.platformRequest.count({ where: { platform: platform.slug } }),
+      prisma.platformChannel.count({ where: { platform: platform.slug } }),
+    ])
+    if (requestCount > 0 || channelCount > 0) {
+      return NextResponse.json(
+        { error: `This platform has ${requestCount} request(s) and ${channelCount} channel(s). Deactivate it instead.` },
+        { status: 400 }
+      )
+    }
+
+    await createAuditLog(prisma, {
+      userId: session.user.id,
+      entityType: 'platform',
+      entityId: params.id,
+      action: 'delete',
+      oldValue: JSON.stringify({ slug: platform.slug, name: platform.name, teamRole: platform.teamRole }),
+    })
+
+    await prisma.platform.delete({
+      where: { id: params.id },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Delete platform error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete platform' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { UserRole } from '@prisma/client'
+import { createAuditLog } from '@/lib/utils'
+import { DEFAULT_PLATFORMS } from '@/lib/platforms'
+
+/**
+ * POST /api/admin/platforms/defaults
+ * Add the original platforms that are missing from the registry, for
+ * databases created before it existed. Existing platforms are left as they are.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = session.user.role as UserRole
+    if (role !== UserRole.ADMIN && role !== UserRole.MANAGER) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const existing = await prisma.platform.findMany({
+      where: { slug: { in: DEFAULT_PLATFORMS.map(platform => platform.slug) } },
+      select: { slug: true },
+    })
+    const existingSlugs = new Set(existing.map(platform => platform.slug))
+
+    const created = []
+    for (const data of DEFAULT_PLATFORMS.filter(platform => !existingSlugs.has(platform.slug))) {
+      const platform = await prisma.platform.create({ data })
+      created.push(platform)
+
+      await createAuditLog(prisma, {
+        userId: session.user.id,
+        entityType: 'platform',
+        entityId: platform.id,
+        action: 'create',
+        newValue: JSON.stringify({ slug: platform.slug, name: platform.name, teamRole: platform.teamRole }),
+      })
+    }
+
+    return NextResponse.json({ created: created.length })
+  } catch (error: any) {
+    console.error('Add default platforms error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to add default platforms' },
+      { status: 500 }
+    )
+  }
+}
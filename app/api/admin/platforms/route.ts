@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { UserRole } from '@prisma/client'
+import { createAuditLog } from '@/lib/utils'
+import { getPlatforms, isPlatformTeamRole, normalizeRequiredUploadFields, parseSlaDays, parseClaimExpiryHours } from '@/lib/platforms'
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = session.user.role as UserRole
+    if (role !== UserRole.ADMIN && role !== UserRole.MANAGER) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const platforms = await getPlatforms(prisma, { includeInactive: true })
+
+    return NextResponse.json(platforms)
+  } catch (error: any) {
+    console.error('Get platforms error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch platforms' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = session.user.role as UserRole
+    if (role !== UserRole.ADMIN && role !== UserRole.MANAGER) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await req.json()
+    const {
+      name,
+      supportsChannels,
+      requiredUploadFields,
+      teamRole,
+      slaDays,
+      slaBeforeReleaseDate,
+      claimExpiryHours,
+      trackRequests,
+      active,
+      sortOrder,
+      memberIds,
+      leadIds,
+    } = body
+
+    if (!name || !name.trim()) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 })
+    }
+
+    // Slugs are what requests, channels and reasons store, so they never change after creation
+    const slug = (body.slug || name)
+      .toString()
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_|_$/g, '')
+
+    if (!slug) {
+      return NextResponse.json({ error: 'Slug must contain letters or numbers' }, { status: 400 })
+    }
+
+    if (teamRole && !isPlatformTeamRole(teamRole)) {
+      return NextResponse.json({ error: `${teamRole} is not a platform team role` }, { status: 400 })
+    }
+
+    if (slaDays !== undefined && parseSlaDays(slaDays) === undefined) {
+      return NextResponse.json({ error: 'SLA days must be a whole number of days' }, { status: 400 })
+    }
+
+    if (claimExpiryHours !== undefined && parseClaimExpiryHours(claimExpiryHours) === undefined) {
+      return NextResponse.json({ error: 'Claim expiry must be a whole number of hours' }, { status: 400 })
+    }
+
+    const existing = await prisma.platform.findUnique({
+      where: { slug },
+    })
+    if (existing) {
+      return NextResponse.json({ error: 'A platform with this slug already exists' }, { status: 400 })
+    }
+
+    const platform = await prisma.platform.create({
+      data: {
+        slug,
+        name: name.trim(),
+        supportsChannels: !!supportsChannels,
+        requiredUploadFields: normalizeRequiredUploadFields(requiredUploadFields),
+        teamRole: teamRole || null,
+        slaDays: slaDays !== undefined ? parseSlaDays(slaDays) : null,
+        slaBeforeReleaseDate: !!slaBeforeReleaseDate,
+        ...(claimExpiryHours !== undefined && { claimExpiryHours: parseClaimExpiryHours(claimExpiryHours) }),
+        trackRequests: !!trackRequests,
+        active: active !== undefined ? active : true,
+        sortOrder: typeof sortOrder === 'number' ? sortOrder : 0,
+        members: Array.isArray(memberIds) && memberIds.length > 0
+          ? {
+              create: memberIds.map((userId: string) => ({
+                userId,
+                isLead: Array.isArray(leadIds) && leadIds.includes(userId),
+              })),
+            }
+          : undefined,
+      },
+    })
+
+    await createAuditLog(prisma, {
+      userId: session.user.id,
+      entityType: 'platform',
+      entityId: platform.id,
+      action: 'create',
+      newValue: JSON.stringify({ slug: platform.slug, name: platform.name, teamRole: platform.teamRole }),
+    })
+
+    return NextResponse.json(platform)
+  } catch (error: any) {
+    console.error('Create platform error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to create platform' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { UserRole } from '@prisma/client'
+import { createAuditLog } from '@/lib/utils'
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = session.user.role as UserRole
+    if (role !== UserRole.ADMIN && role !== UserRole.MANAGER) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await req.json()
+    const { label, description, active, sortOrder } = body
+
+    const currentReason = await prisma.rejectionReason.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!currentReason) {
+      return NextResponse.json({ error: 'Rejection reason not found' }, { status: 404 })
+    }
+
+    if (label !== undefined && !label.trim()) {
+      return NextResponse.json({ error: 'Label is required' }, { status: 400 })
+    }
+
+    const reason = await prisma.rejectionReason.update({
+      where: { id: params.id },
+      data: {
+        ...(label !== undefined && { label: label.trim() }),
+        ...(description !== undefined && { description: description || null }),
+        ...(active !== undefined && { active }),
+        ...(typeof sortOrder === 'number' && { sortOrder }),
+      },
+    })
+
+    await createAuditLog(prisma, {
+      userId: session.user.id,
+      entityType: 'rejection_reason',
+      entityId: params.id,
+      action: 'update',
+      oldValue: JSON.stringify({ label: currentReason.label, active: currentReason.active, sortOrder: currentReason.sortOrder }),
+      newValue: JSON.stringify({ label: reason.label, active: reason.active, sortOrder: reason.sortOrder }),
+    })
+
+    return NextResponse.json(reason)
+  } catch (error: any) {
+    console.error('Update rejection reason error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update rejection reason' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = session.user.role as UserRole
+    if (role !== UserRole.ADMIN && role !== UserRole.MANAGER) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const reason = await prisma.rejectionReason.findUnique({
+      where: { id: params.id },
+      include: {
+        _count: { select: { decisions: true } },
+      },
+    })
+
+    if (!reason) {
+      return NextResponse.json({ error: 'Rejection reason not found' }, { status: 404 })
+    }
+
+    // Keep reasons that past decisions point at so the history stays readable
+    if (reason._count.decisions > 0) {
+      return NextResponse.json(
+        { error: `This reason is used by ${reason._count.decisions} decision(s). Deactivate it instead.` },
+        { status: 400 }
+      )
+    }
+
+    await createAuditLog(prisma, {
+      userId: session.user.id,
+      entityType: 'rejection_reason',
+      entityId: params.id,
+      action: 'delete',
+      oldValue: JSON.stringify({ platform: reason.platform, code: reason.code, label: reason.label }),
+    })
+
+    await prisma.rejectionReason.delete({
+      where: { id: params.id },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Delete rejection reason error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete rejection reason' },
+      { status: 500 }
+    )
+  }
+}
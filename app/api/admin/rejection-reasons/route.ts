@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { UserRole } from '@prisma/client'
+import { createAuditLog } from '@/lib/utils'
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = session.user.role as UserRole
+    if (role !== UserRole.ADMIN && role !== UserRole.MANAGER) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const reasons = await prisma.rejectionReason.findMany({
+      include: {
+        _count: { select: { decisions: true } },
+      },
+      orderBy: [
+        { platform: 'asc' },
+        { sortOrder: 'asc' },
+        { label: 'asc' },
+      ],
+    })
+
+    return NextResponse.json(reasons)
+  } catch (error: any) {
+    console.error('Get rejection reasons error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch rejection reasons' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = session.user.role as UserRole
+    if (role !== UserRole.ADMIN && role !== UserRole.MANAGER) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await req.json()
+    const { platform, label, description, active, sortOrder } = body
+
+    if (!label || !label.trim()) {
+      return NextResponse.json({ error: 'Label is required' }, { status: 400 })
+    }
+
+    // Codes are derived from the label so they stay stable identifiers for reporting
+    const code = (body.code || label)
+      .toString()
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_|_$/g, '')
+
+    if (!code) {
+      return NextResponse.json({ error: 'Code must contain letters or numbers' }, { status: 400 })
+    }
+
+    const existing = await prisma.rejectionReason.findFirst({
+      where: { platform: platform || null, code },
+    })
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A reason with this code already exists for this platform' },
+        { status: 400 }
+      )
+    }
+
+    const reason = await prisma.rejectionReason.create({
+      data: {
+        platform: platform || null,
+        code,
+        label: label.trim(),
+        description: description || null,
+        active: active !== undefined ? active : true,
+        sortOrder: typeof sortOrder === 'number' ? sortOrder : 0,
+      },
+    })
+
+    await createAuditLog(prisma, {
+      userId: session.user.id,
+      entityType: 'rejection_reason',
+      entityId: reason.id,
+      action: 'create',
+      newValue: JSON.stringify({ platform: reason.platform, code: reason.code, label: reason.label }),
+    })
+
+    return NextResponse.json(reason)
+  } catch (error: any) {
+    console.error('Create rejection reason error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to create rejection reason' },
+      { status: 500 }
+    )
+  }
+}
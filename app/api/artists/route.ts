@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { normalizeMyanmarInput } from '@/lib/myanmar-text'
 
 /**
  * GET /api/artists?ids=id1,id2,id3
@@ -52,7 +53,7 @@ export async function GET(req: NextRequest) {
  */
 export async function POST(req: NextRequest) {
   try {
-    const body = await req.json()
+    const body = normalizeMyanmarInput(await req.json())
     const { name, legalName } = body
 
     if (!name || !name.trim()) {
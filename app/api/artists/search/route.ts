@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { normalizeMyanmarText } from '@/lib/myanmar-text'
 
 export async function GET(req: NextRequest) {
   try {
@@ -10,12 +11,15 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ artists: [] })
     }
 
+    // Search as typed and as Unicode, so Zawgyi input finds Unicode names
+    const terms = Array.from(new Set([query, normalizeMyanmarText(query)]))
+
     const artists = await prisma.artist.findMany({
       where: {
-        OR: [
-          { name: { contains: query, mode: 'insensitive' } },
-          { legalName: { contains: query, mode: 'insensitive' } },
-        ],
+        OR: terms.flatMap(term => [
+          { name: { contains: term, mode: 'insensitive' as const } },
+          { legalName: { contains: term, mode: 'insensitive' as const } },
+        ]),
       },
       take: 10,
       orderBy: { name: 'asc' },
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { UserRole } from '@prisma/client'
+import { createAuditLog } from '@/lib/utils'
+import { commentInclude, syncCommentMentions, canUseComments, MAX_COMMENT_LENGTH } from '@/lib/comments'
+import { notifyMentions } from '@/lib/notifications'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Edit a comment (author only)
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!canUseComments(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const existing = await prisma.comment.findUnique({ where: { id: params.id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 })
+    }
+
+    if (existing.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Only the author can edit this comment' }, { status: 403 })
+    }
+
+    const body = await req.json()
+    const content = typeof body.content === 'string' ? body.content.trim() : ''
+
+    if (!content) {
+      return NextResponse.json({ error: 'Comment cannot be empty' }, { status: 400 })
+    }
+    if (content.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json(
+        { error: `Comment cannot exceed ${MAX_COMMENT_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    let mentionedUserIds: string[] = []
+    const comment = await prisma.$transaction(async (tx) => {
+      await tx.comment.update({
+        where: { id: params.id },
+        data: { content },
+      })
+
+      // Only users added by this edit are notified
+      mentionedUserIds = await syncCommentMentions(tx, params.id, content)
+
+      return tx.comment.findUniqueOrThrow({
+        where: { id: params.id },
+        include: commentInclude,
+      })
+    })
+
+    await createAuditLog(prisma, {
+      userId: session.user.id,
+      releaseId: existing.releaseId,
+      entityType: 'comment',
+      entityId: params.id,
+      action: 'update',
+      oldValue: existing.content,
+      newValue: content,
+    })
+
+    await notifyMentions(prisma, mentionedUserIds, {
+      releaseId: existing.releaseId,
+      commentId: params.id,
+      content,
+      actorId: session.user.id,
+    })
+
+    return NextResponse.json({ comment })
+  } catch (error: any) {
+    console.error('Update comment error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update comment' },
+      { status: 500 }
+    )
+  }
+}
+
+// Delete a comment and its replies (author or admin)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!canUseComments(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const existing = await prisma.comment.findUnique({ where: { id: params.id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 })
+    }
+
+    if (existing.userId !== session.user.id && session.user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    await createAuditLog(prisma, {
+      userId: session.user.id,
+      releaseId: existing.releaseId,
+      entityType: 'comment',
+      entityId: params.id,
+      action: 'delete',
+      oldValue: existing.content,
+    })
+
+    await prisma.comment.delete({ where: { id: params.id } })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Delete comment error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete comment' },
+      { status: 500 }
+    )
+  }
+}
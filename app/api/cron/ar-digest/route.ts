@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { isCronAuthorized } from '@/lib/cron'
+import { enqueueWeeklyA_RDigests, processEmailQueue } from '@/lib/email'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Queue last week's digest for each A&R and send it
+export async function GET(req: NextRequest) {
+  try {
+    if (!(await isCronAuthorized(req))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const digests = await enqueueWeeklyA_RDigests(prisma)
+    const delivery = await processEmailQueue(prisma, { limit: 100 })
+
+    return NextResponse.json({ ...digests, delivery })
+  } catch (error) {
+    console.error('A&R digest error:', error)
+    return NextResponse.json(
+      { error: 'Failed to send A&R digests' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { isCronAuthorized } from '@/lib/cron'
+import { processEmailQueue } from '@/lib/email'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Deliver queued emails, including retries of earlier failures
+export async function GET(req: NextRequest) {
+  try {
+    if (!(await isCronAuthorized(req))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 200)
+
+    const result = await processEmailQueue(prisma, { limit })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Process email queue error:', error)
+    return NextResponse.json(
+      { error: 'Failed to process email queue' },
+      { status: 500 }
+    )
+  }
+}
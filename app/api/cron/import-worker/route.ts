@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { isCronAuthorized } from '@/lib/cron'
+import { runImportWorker } from '@/lib/import-worker'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
+
+// Continue queued imports and take over ones whose worker stopped responding
+export async function GET(req: NextRequest) {
+  try {
+    if (!(await isCronAuthorized(req))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await runImportWorker(prisma)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Import worker error:', error)
+    return NextResponse.json(
+      { error: 'Failed to run import worker' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { isCronAuthorized } from '@/lib/cron'
+import { expireClaims } from '@/lib/platform-queue'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Return claims on requests nobody has touched in a while to the unclaimed queue
+export async function GET(req: NextRequest) {
+  try {
+    if (!(await isCronAuthorized(req))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const expired = await expireClaims(prisma)
+
+    return NextResponse.json({ expired })
+  } catch (error) {
+    console.error('Platform claim expiry error:', error)
+    return NextResponse.json(
+      { error: 'Failed to expire platform claims' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { isCronAuthorized } from '@/lib/cron'
+import { recordSlaBreaches } from '@/lib/platform-sla'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Record requests that went past their platform's SLA and escalate them to managers
+export async function GET(req: NextRequest) {
+  try {
+    if (!(await isCronAuthorized(req))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await recordSlaBreaches(prisma)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Platform SLA check error:', error)
+    return NextResponse.json(
+      { error: 'Failed to check platform SLAs' },
+      { status: 500 }
+    )
+  }
+}
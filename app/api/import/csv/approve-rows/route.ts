@@ -1,6 +1,178 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { ImportRowIssueStatus, Prisma } from '@prisma/client'
+import { processRow } from '../route'
+import { createAuditLog } from '@/lib/utils'
+import {
+  applyRowEdits,
+  canReviewImportSession,
+  classifyRowError,
+  suggestRowFix,
+  type SuggestedRowFix,
+} from '@/lib/import-row-issues'
+import { formatValidationFailure, loadImportValidationSettings, validateImportRow } from '@/lib/import-validation'
+import { recordImportAttachment } from '@/lib/import-provenance'
+import { getImportPlatformFields } from '@/lib/csv-importer'
+import type { MappingConfig, ParsedRow } from '@/lib/csv-importer'
+import { getPlatforms } from '@/lib/platforms'
 
-// Placeholder route - to be implemented
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+/**
+ * Resolve open row issues of one import session in bulk. `approve` re-runs each
+ * row (with the reviewer's edits and, optionally, the suggested fix) through the
+ * importer; rows that still fail stay open with the new error. `discard` closes
+ * them without importing.
+ */
 export async function POST(req: NextRequest) {
-  return NextResponse.json({ error: 'Not implemented' }, { status: 501 })
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { sessionId, issueIds, action, applySuggestion } = await req.json()
+
+    if (!sessionId || !Array.isArray(issueIds) || issueIds.length === 0) {
+      return NextResponse.json({ error: 'Session ID and at least one row are required' }, { status: 400 })
+    }
+
+    if (action !== 'approve' && action !== 'discard') {
+      return NextResponse.json({ error: 'Action must be approve or discard' }, { status: 400 })
+    }
+
+    const importSession = await prisma.importSession.findUnique({
+      where: { id: sessionId },
+      select: { id: true, userId: true, fileName: true, sourceFileKey: true, mappingConfig: true },
+    })
+
+    if (!importSession) {
+      return NextResponse.json({ error: 'Import session not found' }, { status: 404 })
+    }
+
+    if (!canReviewImportSession(session.user, importSession)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const issues = await prisma.importRowIssue.findMany({
+      where: {
+        id: { in: issueIds },
+        sessionId,
+        status: ImportRowIssueStatus.OPEN,
+      },
+      orderBy: { rowNumber: 'asc' },
+    })
+
+    if (action === 'discard') {
+      const result = await prisma.importRowIssue.updateMany({
+        where: { id: { in: issues.map(issue => issue.id) } },
+        data: {
+          status: ImportRowIssueStatus.DISCARDED,
+          resolvedById: session.user.id,
+          resolvedAt: new Date(),
+        },
+      })
+
+      return NextResponse.json({ discarded: result.count, approved: 0, failed: 0, results: [] })
+    }
+
+    const mappings = ((importSession.mappingConfig as unknown as MappingConfig)?.columns || [])
+    const validationSettings = await loadImportValidationSettings(prisma)
+    const platformFields = getImportPlatformFields(await getPlatforms(prisma))
+    const results: Array<{ id: string; rowNumber: number; success: boolean; releaseId?: string; error?: string }> = []
+
+    // One row at a time, like the import itself, so a failure only affects its own row
+    for (const issue of issues) {
+      let row = (issue.editedRow || issue.rawRow) as ParsedRow
+      const suggestion = issue.suggestedFix as unknown as SuggestedRowFix | null
+      if (applySuggestion && suggestion?.changes) {
+        row = applyRowEdits(row, suggestion.changes)
+      }
+
+      // Approved rows go through the same validation rules as the import
+      const validation = validateImportRow(row, mappings, validationSettings, platformFields)
+
+      let outcome: Awaited<ReturnType<typeof processRow>>
+      if (validation.errors > 0) {
+        outcome = { success: false, error: formatValidationFailure(validation) }
+      } else {
+        try {
+          outcome = await prisma.$transaction(async (tx) => {
+            const result = await processRow(row, issue.rowNumber - 1, mappings, tx, undefined, issue.sessionId)
+            if (result.success && result.releaseCreated && result.releaseId) {
+              await recordImportAttachment(tx, {
+                releaseId: result.releaseId,
+                sessionId: issue.sessionId,
+                rowNumber: issue.rowNumber,
+                row,
+                mappings,
+                fileName: importSession.fileName,
+                fileKey: importSession.sourceFileKey,
+              })
+            }
+            return result
+          }, { timeout: 30000, maxWait: 5000 })
+        } catch (error: any) {
+          outcome = { success: false, error: `Transaction failed: ${error.message || 'Unknown error'}` }
+        }
+      }
+
+      if (outcome.success) {
+        await prisma.importRowIssue.update({
+          where: { id: issue.id },
+          data: {
+            status: ImportRowIssueStatus.APPROVED,
+            editedRow: row,
+            resolvedById: session.user.id,
+            resolvedAt: new Date(),
+            releaseId: outcome.releaseId || null,
+          },
+        })
+
+        if (outcome.releaseId) {
+          await createAuditLog(prisma, {
+            userId: session.user.id,
+            releaseId: outcome.releaseId,
+            entityType: 'release',
+            entityId: outcome.releaseId,
+            action: 'create',
+            newValue: `Approved row ${issue.rowNumber} of ${importSession.fileName}`,
+          })
+        }
+
+        results.push({ id: issue.id, rowNumber: issue.rowNumber, success: true, releaseId: outcome.releaseId })
+      } else {
+        const error = outcome.error || 'Unknown error'
+        await prisma.importRowIssue.update({
+          where: { id: issue.id },
+          data: {
+            error,
+            type: classifyRowError(error),
+            suggestedFix: (suggestRowFix(row, mappings, error) as unknown as Prisma.InputJsonValue) ?? Prisma.DbNull,
+            editedRow: row,
+          },
+        })
+
+        results.push({ id: issue.id, rowNumber: issue.rowNumber, success: false, error })
+      }
+    }
+
+    const approved = results.filter(r => r.success).length
+
+    return NextResponse.json({
+      approved,
+      failed: results.length - approved,
+      discarded: 0,
+      results,
+    })
+  } catch (error: any) {
+    console.error('Approve import rows error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to process rows' },
+      { status: 500 }
+    )
+  }
 }
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { parseCSV } from '@/lib/csv-importer'
+import { dryRunImport } from '@/lib/import-dry-run'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Report what importing the file with this mapping would change, without writing anything
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { csvContent, mappingConfig } = await req.json()
+
+    if (!csvContent || !mappingConfig || !Array.isArray(mappingConfig.columns)) {
+      return NextResponse.json(
+        { error: 'CSV content and mapping config required' },
+        { status: 400 }
+      )
+    }
+
+    const { rows } = parseCSV(csvContent)
+
+    if (rows.length === 0) {
+      return NextResponse.json({ error: 'No rows found in CSV' }, { status: 400 })
+    }
+
+    const result = await dryRunImport(prisma, rows, mappingConfig)
+
+    return NextResponse.json(result)
+  } catch (error: any) {
+    console.error('CSV dry run error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to run import preview' },
+      { status: 500 }
+    )
+  }
+}
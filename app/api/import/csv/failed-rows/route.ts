@@ -20,6 +20,9 @@ export async function GET(req: NextRequest) {
     // Get import session
     const importSession = await prisma.importSession.findUnique({
       where: { id: sessionId },
+      include: {
+        rowIssues: { select: { rowNumber: true, error: true, rawRow: true }, orderBy: { rowNumber: 'asc' } },
+      },
     })
 
     if (!importSession) {
@@ -31,9 +34,11 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
     }
 
-    // Extract failed rows from mappingConfig
+    // Failed rows are recorded as row issues; older sessions kept them in mappingConfig
     const mappingConfig = importSession.mappingConfig as any
-    const failedRows = mappingConfig?._failedRows || []
+    const failedRows = importSession.rowIssues.length > 0
+      ? importSession.rowIssues.map(issue => ({ row: issue.rowNumber, message: issue.error, data: issue.rawRow }))
+      : mappingConfig?._failedRows || []
 
     return NextResponse.json({
       failedRows,
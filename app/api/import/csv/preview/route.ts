@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
-import { parseCSV, autoDetectMappings, buildSongPatterns } from '@/lib/csv-importer'
+import { prisma } from '@/lib/db'
+import { parseCSV, autoDetectMappings, buildSongPatterns, getImportPlatformFields } from '@/lib/csv-importer'
 import type { ColumnMapping, MappingConfig } from '@/lib/csv-importer'
+import { suggestMappingTemplates } from '@/lib/import-mapping-templates'
+import { getPlatforms } from '@/lib/platforms'
 
 export async function POST(req: NextRequest) {
   try {
@@ -36,8 +39,9 @@ export async function POST(req: NextRequest) {
       return limitedRow
     })
 
-    // Auto-detect mappings
-    const autoMappings = autoDetectMappings(headers)
+    // Auto-detect mappings, including the columns of every platform in the registry
+    const platformFields = getImportPlatformFields(await getPlatforms(prisma))
+    const autoMappings = autoDetectMappings(headers, platformFields)
     const songPatterns = buildSongPatterns(autoMappings)
 
     // Build mapping config
@@ -49,12 +53,17 @@ export async function POST(req: NextRequest) {
     // Detect if CSV has multiple songs per row
     const hasMultipleSongs = Object.keys(songPatterns).length > 0
 
+    // Saved templates built for files with (nearly) the same headers
+    const templateSuggestions = await suggestMappingTemplates(prisma, session.user.id, headers)
+
     return NextResponse.json({
       headers,
       previewRows,
       totalRows: rows.length,
       mappingConfig,
       hasMultipleSongs,
+      templateSuggestions,
+      platformFields,
     })
   } catch (error: any) {
     console.error('CSV preview error:', error)
@@ -2,87 +2,131 @@ import { NextRequest } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/db'
+import { FINISHED_IMPORT_STATUSES, loadImportProgress } from '@/lib/import-progress-events'
+import { canReviewImportSession } from '@/lib/import-row-issues'
+import type { ProgressSample } from '@/lib/csv-import-progress'
 
-// Server-Sent Events endpoint for progress updates
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
+
+// How often the session is checked for new progress
+const POLL_INTERVAL_MS = 1000
+
+// Comment lines keep proxies from closing a quiet stream
+const KEEPALIVE_MS = 15 * 1000
+
+// Serverless functions are stopped after about a minute; EventSource
+// reconnects on its own when the stream ends without an "end" event
+const STREAM_LIFETIME_MS = process.env.VERCEL === '1' ? 55 * 1000 : 30 * 60 * 1000
+
+/**
+ * Server-Sent Events stream of an import's progress. Sends a "progress" event
+ * whenever the worker has moved on (rows, counts, errors or status), then an
+ * "end" event once the import has finished. Any number of clients can watch
+ * the same session: its owner and the import review roles.
+ */
 export async function GET(req: NextRequest) {
   const session = await getServerSession(authOptions)
   if (!session) {
     return new Response('Unauthorized', { status: 401 })
   }
 
-  const searchParams = req.nextUrl.searchParams
-  const sessionId = searchParams.get('sessionId')
-
+  const sessionId = req.nextUrl.searchParams.get('sessionId')
   if (!sessionId) {
     return new Response('sessionId required', { status: 400 })
   }
 
-  // Create a readable stream for SSE
+  const importSession = await prisma.importSession.findUnique({
+    where: { id: sessionId },
+    select: { userId: true },
+  })
+  if (!importSession) {
+    return new Response('Session not found', { status: 404 })
+  }
+  if (!canReviewImportSession(session.user, importSession)) {
+    return new Response('Forbidden', { status: 403 })
+  }
+
+  const encoder = new TextEncoder()
+  const samples: ProgressSample[] = []
+  let pollTimer: NodeJS.Timeout | null = null
+  let keepaliveTimer: NodeJS.Timeout | null = null
+  let closed = false
+
   const stream = new ReadableStream({
-    async start(controller) {
-      const encoder = new TextEncoder()
-      
-      // Send initial connection message
-      controller.enqueue(encoder.encode('data: {"type":"connected"}\n\n'))
-
-      // Poll for progress updates
-      const interval = setInterval(async () => {
+    start(controller) {
+      const startedAt = Date.now()
+      let lastKey = ''
+
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk))
+      }
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        if (pollTimer) clearTimeout(pollTimer)
+        if (keepaliveTimer) clearInterval(keepaliveTimer)
+        controller.close()
+      }
+
+      const poll = async () => {
         try {
-          const importSession = await prisma.importSession.findUnique({
-            where: { id: sessionId },
-          })
-
-          if (!importSession) {
-            controller.enqueue(encoder.encode('data: {"type":"error","message":"Session not found"}\n\n'))
-            clearInterval(interval)
-            controller.close()
+          const progress = await loadImportProgress(prisma, sessionId, samples)
+          if (!progress) {
+            send(`event: end\ndata: ${JSON.stringify({ sessionId, status: 'deleted' })}\n\n`)
+            close()
             return
           }
 
-          const progress = {
-            type: 'progress',
-            sessionId: importSession.id,
-            totalRows: importSession.totalRows,
-            rowsProcessed: importSession.rowsProcessed,
-            percentage: importSession.totalRows > 0
-              ? Math.round((importSession.rowsProcessed / importSession.totalRows) * 100)
-              : 0,
-            status: importSession.status,
-            error: importSession.error,
+          const key = [
+            progress.status,
+            progress.rowsProcessed,
+            progress.releasesCreated,
+            progress.tracksCreated,
+            progress.errorCount,
+          ].join(':')
+          if (key !== lastKey) {
+            lastKey = key
+            send(`event: progress\ndata: ${JSON.stringify(progress)}\n\n`)
           }
 
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(progress)}\n\n`))
-
-          // Close stream if completed, failed, or cancelled
-          if (['completed', 'failed', 'cancelled'].includes(importSession.status)) {
-            clearInterval(interval)
-            controller.close()
+          if (FINISHED_IMPORT_STATUSES.includes(progress.status)) {
+            send(`event: end\ndata: ${JSON.stringify({ sessionId, status: progress.status })}\n\n`)
+            close()
+            return
           }
         } catch (error: any) {
-          controller.enqueue(
-            encoder.encode(`data: ${JSON.stringify({ type: 'error', message: error.message })}\n\n`)
-          )
-          clearInterval(interval)
-          controller.close()
+          // Transient database errors shouldn't end the stream
+          console.warn('Import progress stream error:', error?.message || error)
         }
-      }, 500) // Poll every 500ms
 
-      // Cleanup on client disconnect
-      req.signal.addEventListener('abort', () => {
-        clearInterval(interval)
-        controller.close()
-      })
+        if (Date.now() - startedAt >= STREAM_LIFETIME_MS) {
+          close()
+          return
+        }
+        pollTimer = setTimeout(poll, POLL_INTERVAL_MS)
+      }
+
+      send('retry: 2000\n\n')
+      keepaliveTimer = setInterval(() => send(': keepalive\n\n'), KEEPALIVE_MS)
+      req.signal.addEventListener('abort', close)
+      poll()
+    },
+    cancel() {
+      closed = true
+      if (pollTimer) clearTimeout(pollTimer)
+      if (keepaliveTimer) clearInterval(keepaliveTimer)
     },
   })
 
   return new Response(stream, {
     headers: {
       'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
+      'Cache-Control': 'no-cache, no-transform',
       'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
     },
   })
 }
-
-
-
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import {
+  getImportFileType,
+  readImportFile,
+  detectHeaderRowIndex,
+  recordsToCSV,
+  HEADER_SCAN_ROWS,
+  MAX_IMPORT_FILE_MB,
+  IMPORT_FILE_EXTENSIONS,
+  IMPORT_TEXT_ENCODINGS,
+  type ImportTextEncoding,
+} from '@/lib/import-file'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/import/csv/read-file?fileName=...&sheet=...&headerRow=...&encoding=...
+ * Body: the raw file. Reads CSV, XLSX or ODS and returns the chosen sheet as
+ * CSV text (starting at the header row) for preview and import.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const searchParams = req.nextUrl.searchParams
+    const fileName = searchParams.get('fileName') || ''
+    const fileType = getImportFileType(fileName)
+    if (!fileType) {
+      return NextResponse.json(
+        { error: `Unsupported file type. Use one of: ${IMPORT_FILE_EXTENSIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const encodingParam = searchParams.get('encoding')
+    if (encodingParam && encodingParam !== 'auto' && !IMPORT_TEXT_ENCODINGS.includes(encodingParam as ImportTextEncoding)) {
+      return NextResponse.json({ error: `Unsupported encoding: ${encodingParam}` }, { status: 400 })
+    }
+
+    if (!req.body) {
+      return NextResponse.json({ error: 'File is empty' }, { status: 400 })
+    }
+
+    // Checked again while reading, for uploads that don't send a length
+    const contentLength = parseInt(req.headers.get('content-length') || '', 10)
+    if (contentLength > MAX_IMPORT_FILE_MB * 1024 * 1024) {
+      return NextResponse.json({ error: `File size must be less than ${MAX_IMPORT_FILE_MB}MB` }, { status: 400 })
+    }
+
+    let result
+    try {
+      result = await readImportFile(req.body, fileType, {
+        sheet: searchParams.get('sheet'),
+        encoding: encodingParam && encodingParam !== 'auto' ? encodingParam as ImportTextEncoding : undefined,
+      })
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: `Could not read ${fileName}: ${error.message || 'unknown error'}` },
+        { status: 400 }
+      )
+    }
+
+    if (result.records.length === 0) {
+      return NextResponse.json({ error: 'No rows found in file' }, { status: 400 })
+    }
+
+    // 1-based in the API, like the row numbers people see in a spreadsheet
+    const headerRowParam = parseInt(searchParams.get('headerRow') || '', 10)
+    const headerRowIndex = headerRowParam > 0
+      ? Math.min(headerRowParam - 1, result.records.length - 1)
+      : detectHeaderRowIndex(result.records)
+
+    return NextResponse.json({
+      fileType: result.fileType,
+      encoding: result.encoding,
+      sheets: result.sheets,
+      sheet: result.sheet,
+      headerRow: headerRowIndex + 1,
+      // First rows, trimmed, so the user can pick a different header row
+      headerCandidates: result.records.slice(0, HEADER_SCAN_ROWS).map(record =>
+        record.slice(0, 12).map(cell => cell.length > 40 ? cell.substring(0, 40) + '...' : cell)
+      ),
+      totalRows: result.records.length - headerRowIndex - 1,
+      zawgyiCells: result.zawgyiCells,
+      content: recordsToCSV(result.records.slice(headerRowIndex)),
+    })
+  } catch (error: any) {
+    console.error('Read import file error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to read file' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { UserRole } from '@prisma/client'
+import { createAuditLog } from '@/lib/utils'
+import { planImportRollback, rollbackImport } from '@/lib/import-changes'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/import/csv/rollback?sessionId=...
+ * Preview what rolling back an import would delete and restore
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (session.user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 })
+    }
+
+    const sessionId = req.nextUrl.searchParams.get('sessionId')
+    if (!sessionId) {
+      return NextResponse.json({ error: 'sessionId is required' }, { status: 400 })
+    }
+
+    const plan = await planImportRollback(prisma, sessionId)
+    if (!plan) {
+      return NextResponse.json({ error: 'Import session not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ plan })
+  } catch (error: any) {
+    console.error('Preview import rollback error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to preview rollback' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/import/csv/rollback
+ * Roll back an entire import in one transaction
+ * Requires ADMIN role
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (session.user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 })
+    }
+
+    const { sessionId } = await req.json()
+    if (!sessionId) {
+      return NextResponse.json({ error: 'sessionId is required' }, { status: 400 })
+    }
+
+    const plan = await planImportRollback(prisma, sessionId)
+    if (!plan) {
+      return NextResponse.json({ error: 'Import session not found' }, { status: 404 })
+    }
+    if (plan.rolledBackAt) {
+      return NextResponse.json({ error: 'This import has already been rolled back' }, { status: 400 })
+    }
+    if (plan.status === 'in_progress' || plan.status === 'paused') {
+      return NextResponse.json(
+        { error: 'Stop the import before rolling it back' },
+        { status: 400 }
+      )
+    }
+    if (!plan.tracked) {
+      return NextResponse.json(
+        { error: 'This import has no recorded changes to roll back' },
+        { status: 400 }
+      )
+    }
+
+    const result = await rollbackImport(prisma, plan, session.user.id)
+
+    await createAuditLog(prisma, {
+      userId: session.user.id,
+      entityType: 'import_session',
+      entityId: plan.sessionId,
+      action: 'rollback',
+      fieldName: 'fileName',
+      oldValue: plan.fileName,
+      newValue: JSON.stringify(result),
+    })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error: any) {
+    console.error('Import rollback error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to roll back import' },
+      { status: 500 }
+    )
+  }
+}
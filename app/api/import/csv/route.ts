@@ -9,24 +9,29 @@ import {
   extractSongs,
   parseArtists,
   parseCommaSeparatedList,
-  parsePlatformChannels,
   findOrCreateArtists,
   findOrCreateEmployeeByName,
   findOrCreatePlatformChannel,
   normalizeColumnName,
+  getImportPlatformFields,
+  parsePlatformRequestFields,
+  type ImportPlatformFields,
   type MappingConfig,
   type ParsedRow,
 } from '@/lib/csv-importer'
 import {
   createImportSession,
-  updateImportSessionProgress,
-  completeImportSession,
   failImportSession,
   calculateFileHash,
   findExistingSession,
   pauseImportSession,
   resumeImportSession,
 } from '@/lib/csv-import-session'
+import { recordImportChange } from '@/lib/import-changes'
+import { enqueueImportJob, startImportWorker } from '@/lib/import-worker'
+import { storeImportSourceFile } from '@/lib/import-provenance'
+import { getPlatforms } from '@/lib/platforms'
+import { createTrackRequests } from '@/lib/platform-track-requests'
 
 // Process a single row
 export async function processRow(
@@ -38,14 +43,19 @@ export async function processRow(
     artistCache: Map<string, { id: string; name: string }>
     employeeCache: Map<string, string>
     channelCache: Map<string, { id: string; name: string; platform: string }>
-  }
+    platformFields?: ImportPlatformFields[] // Loaded from the registry when not given
+  },
+  importSessionId?: string // Logs what the row writes so the import can be rolled back
 ): Promise<{
   success: boolean
   error?: string
+  releaseId?: string
   releaseCreated?: boolean
   tracksCreated?: number
 }> {
   let submission: any = null
+  const logCreated = (entityType: 'artist' | 'user' | 'platform_channel') => (entityId: string) =>
+    recordImportChange(tx, importSessionId, { entityType, entityId, action: 'create' })
   try {
     submission = extractSubmissionData(row, mappings)
     
@@ -157,7 +167,7 @@ export async function processRow(
     }
     
     // Find or create artists (including placeholder if needed)
-    const artists = await findOrCreateArtists(artistNames, tx, caches?.artistCache)
+    const artists = await findOrCreateArtists(artistNames, tx, caches?.artistCache, logCreated('artist'))
     if (artists.length === 0) {
       return {
         success: false,
@@ -169,10 +179,24 @@ export async function processRow(
     
     // Update legal name if provided (only if not using placeholder artist)
     if (!usePlaceholderArtist && submission.legalName && submission.legalName.trim()) {
-      await tx.artist.update({
+      const legalName = submission.legalName.trim()
+      const current = await tx.artist.findUnique({
         where: { id: primaryArtist.id },
-        data: { legalName: submission.legalName.trim() },
+        select: { legalName: true },
       })
+      if (current?.legalName !== legalName) {
+        await tx.artist.update({
+          where: { id: primaryArtist.id },
+          data: { legalName },
+        })
+        await recordImportChange(tx, importSessionId, {
+          entityType: 'artist',
+          entityId: primaryArtist.id,
+          action: 'update',
+          before: { legalName: current?.legalName ?? null },
+          after: { legalName },
+        })
+      }
     }
     
     // Get A&R employee - support comma-separated (take first one for backward compatibility)
@@ -180,7 +204,7 @@ export async function processRow(
     if (submission.assignedAR) {
       const arNames = parseCommaSeparatedList(submission.assignedAR)
       if (arNames.length > 0) {
-        assignedARId = await findOrCreateEmployeeByName(arNames[0].trim(), tx, caches?.employeeCache)
+        assignedARId = await findOrCreateEmployeeByName(arNames[0].trim(), tx, caches?.employeeCache, logCreated('user'))
       }
     }
     
@@ -309,6 +333,7 @@ export async function processRow(
         })
       }
       releaseCreated = true
+      await recordImportChange(tx, importSessionId, { entityType: 'release', entityId: release.id, action: 'create' })
     } catch (releaseError: any) {
       console.error(`[IMPORT] ❌ Row ${rowIndex + 1}: Failed to create release:`, releaseError.message)
       console.error(`[IMPORT] Release data:`, {
@@ -326,7 +351,7 @@ export async function processRow(
       
       for (const arName of arNames) {
         if (!arName || arName.trim().length === 0) continue
-        const employeeId = await findOrCreateEmployeeByName(arName.trim(), tx, caches?.employeeCache)
+        const employeeId = await findOrCreateEmployeeByName(arName.trim(), tx, caches?.employeeCache, logCreated('user'))
         if (employeeId) {
           arEmployeeIds.push(employeeId)
         }
@@ -385,7 +410,7 @@ export async function processRow(
         let songArtists = [primaryArtist]
         if (song.artistName) {
           const songArtistNames = parseArtists(song.artistName)
-          const foundArtists = await findOrCreateArtists(songArtistNames, tx, caches?.artistCache)
+          const foundArtists = await findOrCreateArtists(songArtistNames, tx, caches?.artistCache, logCreated('artist'))
           if (foundArtists.length > 0) {
             songArtists = foundArtists
           }
@@ -423,54 +448,15 @@ export async function processRow(
     
     // Create platform requests
     if (release) {
-      const platforms = [
-        { key: 'youtubeRequest', platform: 'youtube', statusKey: 'youtube', channelKey: 'youtubeChannel' },
-        { key: 'flowRequest', platform: 'flow', statusKey: 'flow', channelKey: 'flowChannel' },
-        { key: 'tiktokRequest', platform: 'tiktok', statusKey: 'tiktok', channelKey: 'tiktokChannel' },
-        { key: 'fbRequest', platform: 'facebook', statusKey: 'fb', channelKey: 'facebookChannel' },
-        { key: 'intlStreamingRequest', platform: 'international_streaming', statusKey: 'intlStreaming', channelKey: 'intlStreamingChannel' },
-        { key: 'ringtunesRequest', platform: 'ringtunes', statusKey: 'ringtunes', channelKey: 'ringtunesChannel' },
-      ]
-      
-      for (const { key, platform, statusKey, channelKey } of platforms) {
-        const requestValue = submission[key as keyof typeof submission] as string | undefined
-        const statusValue = submission[statusKey as keyof typeof submission] as string | undefined
-        const channelValue = submission[channelKey as keyof typeof submission] as string | undefined
-        
-        // Check if there's a request (any non-empty value means requested)
-        const isRequested = requestValue && requestValue.trim().length > 0 && 
-          (requestValue.toLowerCase() === 'yes' || 
-           requestValue.toLowerCase() === 'true' || 
-           requestValue.toLowerCase() === '1' ||
-           requestValue.toLowerCase() === 'y' ||
-           requestValue.trim().length > 0) // Any non-empty value means requested
-        
-        // Determine status - handle "checked" and "completed" as approved
-        let status = PlatformRequestStatus.PENDING
-        let uploadedAt: Date | undefined = undefined
-        if (statusValue && statusValue.trim().length > 0) {
-          const statusLower = statusValue.toLowerCase().trim()
-          if (statusLower.includes('uploaded') || 
-              statusLower.includes('approved') || 
-              statusLower.includes('checked') || 
-              statusLower.includes('completed') ||
-              statusLower === 'yes' ||
-              statusLower === 'y' ||
-              statusLower === '1' ||
-              statusLower === 'true') {
-            status = PlatformRequestStatus.UPLOADED
-            uploadedAt = new Date() // Set uploadedAt when status is UPLOADED
-          } else if (statusLower.includes('rejected')) {
-            status = PlatformRequestStatus.REJECTED
-          }
-        }
+      const importPlatformFields = caches?.platformFields || getImportPlatformFields(await getPlatforms(tx))
+      for (const platformFields of importPlatformFields) {
+        const { platform, supportsChannels } = platformFields
+        const { isRequested, hasStatus, status, isChecked, channelNames } = parsePlatformRequestFields(submission, platformFields)
+        const uploadedAt = status === PlatformRequestStatus.UPLOADED ? new Date() : undefined
         
         // Only create/update if there's a request or status
-        if (isRequested || (statusValue && statusValue.trim().length > 0)) {
+        if (isRequested || hasStatus) {
           try {
-            // Parse channel names (can be comma-separated for multiple channels)
-            const channelNames = channelValue ? parsePlatformChannels(channelValue) : []
-            
             // Delete existing platform requests for this release/platform combination
             // We'll recreate them with proper channel associations
             await tx.platformRequest.deleteMany({
@@ -482,10 +468,6 @@ export async function processRow(
             
             // For platforms with channels (YouTube, Facebook), if status is "checked" but no channels specified,
             // we need to find existing channel requests and mark them all as UPLOADED
-            const hasChannels = (platform === 'youtube' || platform === 'facebook')
-            const isChecked = statusValue && statusValue.trim().length > 0 && 
-              (statusValue.toLowerCase().trim().includes('checked') || 
-               statusValue.toLowerCase().trim().includes('completed'))
             
             if (channelNames.length > 0) {
               // Create a platform request for each channel
@@ -498,7 +480,7 @@ export async function processRow(
               
               for (const channelName of channelNames) {
                 try {
-                  const channel = await findOrCreatePlatformChannel(platform, channelName, tx, caches?.channelCache)
+                  const channel = await findOrCreatePlatformChannel(platform, channelName, tx, caches?.channelCache, logCreated('platform_channel'))
                   
                   if (channel) {
                     platformRequestsToCreate.push({
@@ -544,7 +526,7 @@ export async function processRow(
                   skipDuplicates: true,
                 })
               }
-            } else if (hasChannels && isChecked) {
+            } else if (supportsChannels && isChecked) {
               // Platform is checked but no channels specified - find all existing channel requests and mark as UPLOADED
               const existingChannelRequests = await tx.platformRequest.findMany({
                 where: {
@@ -604,6 +586,11 @@ export async function processRow(
                 })
               }
             }
+
+            // Albums on platforms that upload song by song get a request per track
+            if (platformFields.trackRequests) {
+              await createTrackRequests(tx, { platform, releaseId: release.id })
+            }
           } catch (platformError: any) {
             // Log error but don't fail the entire import
             // Platform requests are optional metadata
@@ -615,6 +602,7 @@ export async function processRow(
     
     return {
       success: true,
+      releaseId: release?.id,
       releaseCreated,
       tracksCreated,
     }
@@ -636,165 +624,6 @@ export async function processRow(
   }
 }
 
-// Process all rows
-export async function processAllRows(
-  sessionId: string,
-  rows: ParsedRow[],
-  mappingConfig: MappingConfig,
-  startFromRow: number = 0
-) {
-  const mappings = mappingConfig.columns
-  const errors: Array<{ row: number; message: string }> = []
-  let submissionsCreated = 0
-  // Note: We no longer track submissionsUpdated - exact matches are skipped instead
-  let songsCreated = 0
-  let rowsSkipped = 0
-  
-  // Helper function to update session with current stats
-  const updateSessionStats = async () => {
-    try {
-      const session = await prisma.importSession.findUnique({
-        where: { id: sessionId },
-        select: { mappingConfig: true },
-      })
-      
-      if (session) {
-        const successCount = submissionsCreated
-        await prisma.importSession.update({
-          where: { id: sessionId },
-          data: {
-            mappingConfig: {
-              ...(typeof session.mappingConfig === 'object' ? session.mappingConfig : {}),
-              _currentSuccessCount: successCount,
-              _currentErrorCount: rowsSkipped,
-              _failedRows: errors,
-            },
-          },
-        })
-      }
-    } catch (err: any) {
-      // Don't fail import if stats update fails
-      console.warn('Failed to update session stats:', err?.message)
-    }
-  }
-  
-  try {
-    console.log(`🚀 Starting import: ${rows.length} rows, starting from row ${startFromRow}`)
-    
-    // Initialize caches for performance optimization
-    const artistCache = new Map<string, { id: string; name: string }>()
-    const employeeCache = new Map<string, string>()
-    const channelCache = new Map<string, { id: string; name: string; platform: string }>()
-    const caches = { artistCache, employeeCache, channelCache }
-    
-    // Initial progress update
-    try {
-      await updateImportSessionProgress(sessionId, startFromRow)
-      await updateSessionStats()
-    } catch (progressError: any) {
-      console.warn('Initial progress update failed (import continues):', progressError?.message)
-    }
-    
-    // Process rows individually with Notion-style approach
-    // Each row gets its own transaction - fast, reliable, no timeout risk
-    for (let rowIndex = startFromRow; rowIndex < rows.length; rowIndex++) {
-      // Check if import is paused before processing each row
-      const session = await prisma.importSession.findUnique({
-        where: { id: sessionId },
-        select: { status: true },
-      })
-      
-      if (session?.status === 'paused') {
-        console.log(`⏸️ Import paused at row ${rowIndex + 1}. Waiting for resume...`)
-        // Wait in a loop until resumed or cancelled
-        while (true) {
-          await new Promise(resolve => setTimeout(resolve, 2000)) // Check every 2 seconds
-          
-          const currentSession = await prisma.importSession.findUnique({
-            where: { id: sessionId },
-            select: { status: true },
-          })
-          
-          if (currentSession?.status === 'in_progress') {
-            console.log(`▶️ Import resumed. Continuing from row ${rowIndex + 1}...`)
-            break // Resume processing
-          } else if (currentSession?.status === 'cancelled' || currentSession?.status === 'completed' || currentSession?.status === 'failed') {
-            console.log(`⏹️ Import ${currentSession.status}. Stopping at row ${rowIndex + 1}.`)
-            return // Stop processing
-          }
-          // If still paused, continue waiting
-        }
-      }
-      
-      // Check if cancelled or failed
-      if (session?.status === 'cancelled' || session?.status === 'failed' || session?.status === 'completed') {
-        console.log(`⏹️ Import ${session.status}. Stopping at row ${rowIndex + 1}.`)
-        break
-      }
-      
-      const row = rows[rowIndex]
-      
-      try {
-        // Individual transaction per row - 30 seconds is plenty for a single row
-        await prisma.$transaction(async (tx) => {
-          const result = await processRow(row, rowIndex, mappings, tx, caches)
-          
-          if (result.success) {
-            if (result.releaseCreated) {
-              submissionsCreated++
-            }
-            if (result.tracksCreated) {
-              songsCreated += result.tracksCreated
-            }
-          } else {
-            errors.push({
-              row: rowIndex + 1,
-              message: result.error || 'Unknown error',
-            })
-            rowsSkipped++
-          }
-        }, {
-          timeout: 30000, // 30 seconds per row is plenty
-          maxWait: 5000,
-        })
-      } catch (error: any) {
-        // Individual row failed - log error but continue with other rows
-        console.error(`❌ Row ${rowIndex + 1} failed:`, error.message || 'Unknown error')
-        errors.push({
-          row: rowIndex + 1,
-          message: `Transaction failed: ${error.message || 'Unknown error'}`,
-        })
-        rowsSkipped++
-      }
-      
-      // Update progress every 10 rows (non-blocking)
-      if ((rowIndex + 1) % 10 === 0 || rowIndex === rows.length - 1) {
-        try {
-          await updateImportSessionProgress(sessionId, rowIndex + 1)
-          await updateSessionStats()
-        } catch (progressError: any) {
-          // Don't fail import if progress update fails
-          console.warn('Progress update failed (import continues):', progressError?.message)
-        }
-      }
-    }
-    
-    console.log(`✅ Import complete: ${submissionsCreated} created, ${songsCreated} tracks, ${rowsSkipped} skipped`)
-
-    // Complete the session
-    await completeImportSession(sessionId, {
-      submissionsCreated,
-      songsCreated,
-      rowsSkipped,
-      errors: errors.length > 0 ? errors : undefined,
-    })
-  } catch (error: any) {
-    console.error('Import processing failed:', error)
-    await failImportSession(sessionId, error.message || 'Import failed')
-    throw error
-  }
-}
-
 // POST handler - start import
 export async function POST(req: NextRequest) {
   try {
@@ -850,14 +679,15 @@ export async function POST(req: NextRequest) {
         console.log('[DEBUG] Resuming Session:', logDataResume);
         fetch('http://127.0.0.1:7242/ingest/d1e8ad3f-7e52-4016-811c-8857d824b667', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(logDataResume) }).catch(() => {});
         // #endregion
-        // Return resumed session - batch processor will continue from where it left off
+        // The worker continues from where it left off
+        await enqueueImportJob(prisma, existingSession.id, existingSession.rowsProcessed || 0)
+        startImportWorker(prisma, existingSession.id)
       return NextResponse.json({
         sessionId: existingSession.id,
           totalRows: existingSession.totalRows,
           rowsProcessed: existingSession.rowsProcessed || 0,
           message: 'Resumed existing paused session',
           existing: true,
-          needsMore: existingSession.totalRows > (existingSession.rowsProcessed || 0),
         })
       } else if (isStuck) {
         // Session is stuck at 0% - mark as failed and create new one
@@ -899,19 +729,20 @@ export async function POST(req: NextRequest) {
         console.log('[DEBUG] Reusing Session:', logDataReuse);
         fetch('http://127.0.0.1:7242/ingest/d1e8ad3f-7e52-4016-811c-8857d824b667', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(logDataReuse) }).catch(() => {});
         // #endregion
+        // Requeue in case its worker died; a live worker keeps the job
+        await enqueueImportJob(prisma, existingSession.id, existingSession.rowsProcessed || 0)
+        startImportWorker(prisma, existingSession.id)
       return NextResponse.json({
         sessionId: existingSession.id,
           totalRows: existingSession.totalRows,
           rowsProcessed: existingSession.rowsProcessed || 0,
         message: 'Found existing import session',
         existing: true,
-          needsMore: existingSession.totalRows > (existingSession.rowsProcessed || 0),
         })
       }
     }
     
-    // Store CSV rows in mappingConfig for chunked processing
-    // This allows us to process in small batches on Vercel free tier
+    // Store CSV rows in mappingConfig for the import worker
     // Note: For very large CSVs, we might hit database JSON size limits
     // In that case, we'll need to store CSV content separately or process differently
     const mappingConfigWithRows = {
@@ -991,49 +822,26 @@ export async function POST(req: NextRequest) {
       throw new Error(`Failed to create import session: ${createError.message}. This might be due to CSV size limits.`)
     }
     
-    // Restore original fast processing for localhost (like List8 import)
-    // Use chunked batch processing only for Vercel free tier
-    const isVercel = process.env.VERCEL === '1'
-    
-    if (isVercel) {
-      // Vercel free tier: Use chunked batch processing
-      // Store CSV content in session for batch processor
-      const needsMore = rows.length > 0
-      
-      // Ensure progress is set to 0 in database
-      try {
-        await updateImportSessionProgress(importSession.id, 0)
-      } catch (progressError: any) {
-        console.error('Failed to initialize progress:', progressError)
-      }
-      
-      return NextResponse.json({
-        sessionId: importSession.id,
-        totalRows: rows.length,
-        rowsProcessed: 0,
-        needsMore,
-      })
-    } else {
-      // Localhost: Process all rows in background (fast, like original)
-      // Use fire-and-forget to start processing immediately
-      void (async () => {
-        try {
-          await processAllRows(importSession.id, rows, mappingConfigWithRows, 0)
-        } catch (error: any) {
-          console.error('Background import processing error:', error)
-          await failImportSession(importSession.id, error.message || 'Import processing failed')
-        }
-      })()
-      
-      // Return immediately - processing happens in background
-      return NextResponse.json({
-        sessionId: importSession.id,
-        totalRows: rows.length,
-        rowsProcessed: 0,
-        needsMore: false, // Background processing handles everything
-        message: 'Import started in background',
+    // Keep the file so imported releases can link back to their source row
+    const sourceFileKey = await storeImportSourceFile(importSession.id, importSession.fileName, csvContent)
+    if (sourceFileKey) {
+      await prisma.importSession.update({
+        where: { id: importSession.id },
+        data: { sourceFileKey },
       })
     }
+
+    // Rows are processed by the background worker, so the import carries on
+    // if the browser tab is closed; the page only watches progress
+    await enqueueImportJob(prisma, importSession.id)
+    startImportWorker(prisma, importSession.id)
+
+    return NextResponse.json({
+      sessionId: importSession.id,
+      totalRows: rows.length,
+      rowsProcessed: 0,
+      message: 'Import queued',
+    })
               } catch (error: any) {
     console.error('CSV import error:', error)
     return NextResponse.json(
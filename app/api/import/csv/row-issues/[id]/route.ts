@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { ImportRowIssueStatus } from '@prisma/client'
+import { applyRowEdits, canReviewImportSession, importRowIssueInclude } from '@/lib/import-row-issues'
+import type { ParsedRow } from '@/lib/csv-importer'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Save a reviewer's corrections to an open row; the original row is kept
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const issue = await prisma.importRowIssue.findUnique({
+      where: { id: params.id },
+      include: { session: { select: { userId: true } } },
+    })
+
+    if (!issue) {
+      return NextResponse.json({ error: 'Row issue not found' }, { status: 404 })
+    }
+
+    if (!canReviewImportSession(session.user, issue.session)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    if (issue.status !== ImportRowIssueStatus.OPEN) {
+      return NextResponse.json({ error: 'Only open rows can be edited' }, { status: 400 })
+    }
+
+    const { changes } = await req.json()
+    if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+      return NextResponse.json({ error: 'Changes must be an object of column values' }, { status: 400 })
+    }
+
+    const currentRow = (issue.editedRow || issue.rawRow) as ParsedRow
+
+    const updated = await prisma.importRowIssue.update({
+      where: { id: issue.id },
+      data: { editedRow: applyRowEdits(currentRow, changes) },
+      include: importRowIssueInclude,
+    })
+
+    return NextResponse.json({ issue: updated })
+  } catch (error: any) {
+    console.error('Update import row issue error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update row' },
+      { status: 500 }
+    )
+  }
+}
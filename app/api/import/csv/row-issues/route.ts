@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { ImportRowIssueStatus } from '@prisma/client'
+import { canReviewImportSession, importRowIssueInclude } from '@/lib/import-row-issues'
+import { loadImportValidationSettings, validateImportRow } from '@/lib/import-validation'
+import { getImportPlatformFields } from '@/lib/csv-importer'
+import type { MappingConfig, ParsedRow } from '@/lib/csv-importer'
+import { getPlatforms } from '@/lib/platforms'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Review queue for an import session: row issues with their current validation
+// report, plus the mapped columns a reviewer can edit
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const sessionId = searchParams.get('sessionId')
+    const status = searchParams.get('status')
+
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Session ID required' }, { status: 400 })
+    }
+
+    if (status && !Object.values(ImportRowIssueStatus).includes(status as ImportRowIssueStatus)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 })
+    }
+
+    const importSession = await prisma.importSession.findUnique({
+      where: { id: sessionId },
+      select: { id: true, userId: true, fileName: true, status: true, mappingConfig: true },
+    })
+
+    if (!importSession) {
+      return NextResponse.json({ error: 'Import session not found' }, { status: 404 })
+    }
+
+    if (!canReviewImportSession(session.user, importSession)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const [issues, counts, validationSettings, platforms] = await Promise.all([
+      prisma.importRowIssue.findMany({
+        where: {
+          sessionId,
+          ...(status && { status: status as ImportRowIssueStatus }),
+        },
+        include: importRowIssueInclude,
+        orderBy: { rowNumber: 'asc' },
+      }),
+      prisma.importRowIssue.groupBy({
+        by: ['status'],
+        where: { sessionId },
+        _count: { _all: true },
+      }),
+      loadImportValidationSettings(prisma),
+      getPlatforms(prisma),
+    ])
+    const platformFields = getImportPlatformFields(platforms)
+
+    const mappingConfig = importSession.mappingConfig as unknown as MappingConfig
+    const mappings = mappingConfig?.columns || []
+    const columns = mappings
+      .filter(column => column.targetField)
+      .map(column => column.csvColumn)
+
+    // Validated as the row stands now, so the report follows the reviewer's edits
+    return NextResponse.json({
+      issues: issues.map(issue => ({
+        ...issue,
+        validation: validateImportRow((issue.editedRow || issue.rawRow) as ParsedRow, mappings, validationSettings, platformFields),
+      })),
+      columns,
+      counts: Object.fromEntries(counts.map(c => [c.status, c._count._all])),
+      fileName: importSession.fileName,
+      sessionStatus: importSession.status,
+    })
+  } catch (error: any) {
+    console.error('Get import row issues error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch import row issues' },
+      { status: 500 }
+    )
+  }
+}
@@ -19,6 +19,10 @@ export async function GET(req: NextRequest) {
 
     const importSession = await prisma.importSession.findUnique({
       where: { id: sessionId },
+      include: {
+        job: { select: { submissionsCreated: true, rowsSkipped: true } },
+        rowIssues: { select: { rowNumber: true, error: true }, orderBy: { rowNumber: 'asc' } },
+      },
     })
 
     if (!importSession) {
@@ -32,11 +36,13 @@ export async function GET(req: NextRequest) {
 
     // Extract failed rows and get error summary
     const mappingConfig = importSession.mappingConfig as any
-    const failedRows = mappingConfig?._failedRows || []
+    const failedRows = importSession.rowIssues.length > 0
+      ? importSession.rowIssues.map(issue => ({ row: issue.rowNumber, message: issue.error }))
+      : mappingConfig?._failedRows || []
     
-    // Get real-time success/error counts if available
-    const currentSuccessCount = mappingConfig?._currentSuccessCount ?? 0
-    const currentErrorCount = mappingConfig?._currentErrorCount ?? 0
+    // Real-time success/error counts from the import job
+    const currentSuccessCount = importSession.job?.submissionsCreated ?? 0
+    const currentErrorCount = importSession.job?.rowsSkipped ?? 0
     
     // If import is completed, get final counts from result
     const importResult = mappingConfig?._importResult
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { applyMappingTemplate, getHeaderSignature, scoreHeaderSignature } from '@/lib/import-mapping-templates'
+import { getImportPlatformFields } from '@/lib/csv-importer'
+import type { MappingConfig } from '@/lib/csv-importer'
+import { getPlatforms } from '@/lib/platforms'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Map a new file's headers with a template
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { headers } = await req.json()
+    if (!Array.isArray(headers) || headers.length === 0) {
+      return NextResponse.json({ error: 'File headers are required' }, { status: 400 })
+    }
+
+    const template = await prisma.importMappingTemplate.findUnique({ where: { id: params.id } })
+    if (!template || (!template.isShared && template.userId !== session.user.id)) {
+      return NextResponse.json({ error: 'Mapping template not found' }, { status: 404 })
+    }
+
+    const columns = applyMappingTemplate(
+      headers,
+      template.mappingConfig as unknown as MappingConfig,
+      getImportPlatformFields(await getPlatforms(prisma))
+    )
+
+    await prisma.importMappingTemplate.update({
+      where: { id: template.id },
+      data: { lastUsedAt: new Date() },
+    })
+
+    return NextResponse.json({
+      columns,
+      version: template.version,
+      score: scoreHeaderSignature(getHeaderSignature(headers), template.headerSignature),
+    })
+  } catch (error: any) {
+    console.error('Apply mapping template error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to apply mapping template' },
+      { status: 500 }
+    )
+  }
+}
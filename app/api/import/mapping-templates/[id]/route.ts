@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { UserRole } from '@prisma/client'
+import { mappingTemplateInclude, parseMappingTemplateBody } from '@/lib/import-mapping-templates'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Template with its version history (owner, or anyone when shared)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const template = await prisma.importMappingTemplate.findUnique({
+      where: { id: params.id },
+      include: {
+        ...mappingTemplateInclude,
+        versions: {
+          orderBy: { version: 'desc' },
+        },
+      },
+    })
+
+    if (!template || (!template.isShared && template.userId !== session.user.id && session.user.role !== UserRole.ADMIN)) {
+      return NextResponse.json({ error: 'Mapping template not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      template: { ...template, isOwner: template.userId === session.user.id },
+    })
+  } catch (error: any) {
+    console.error('Get mapping template error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch mapping template' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Rename, re-share or save a new version of a template (owner or admin only).
+ * Sending a mapping config, or `restoreVersion`, records a new version.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const existing = await prisma.importMappingTemplate.findUnique({ where: { id: params.id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Mapping template not found' }, { status: 404 })
+    }
+
+    if (existing.userId !== session.user.id && session.user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await req.json()
+    const parsed = parseMappingTemplateBody(body, true)
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const data = parsed.data
+
+    if (body.restoreVersion !== undefined) {
+      const restored = await prisma.importMappingTemplateVersion.findUnique({
+        where: {
+          templateId_version: {
+            templateId: existing.id,
+            version: Number(body.restoreVersion),
+          },
+        },
+      })
+      if (!restored) {
+        return NextResponse.json({ error: 'Template version not found' }, { status: 404 })
+      }
+      data.mappingConfig = restored.mappingConfig
+      data.headerSignature = restored.headerSignature
+    }
+
+    const template = await prisma.$transaction(async (tx) => {
+      if (data.mappingConfig === undefined) {
+        return tx.importMappingTemplate.update({
+          where: { id: existing.id },
+          data,
+          include: mappingTemplateInclude,
+        })
+      }
+
+      const version = existing.version + 1
+      await tx.importMappingTemplateVersion.create({
+        data: {
+          templateId: existing.id,
+          version,
+          mappingConfig: data.mappingConfig,
+          headerSignature: data.headerSignature,
+          createdById: session.user.id,
+        },
+      })
+
+      return tx.importMappingTemplate.update({
+        where: { id: existing.id },
+        data: { ...data, version },
+        include: mappingTemplateInclude,
+      })
+    })
+
+    return NextResponse.json({
+      template: { ...template, isOwner: template.userId === session.user.id },
+    })
+  } catch (error: any) {
+    console.error('Update mapping template error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update mapping template' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const existing = await prisma.importMappingTemplate.findUnique({ where: { id: params.id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Mapping template not found' }, { status: 404 })
+    }
+
+    if (existing.userId !== session.user.id && session.user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    await prisma.importMappingTemplate.delete({ where: { id: existing.id } })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Delete mapping template error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete mapping template' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { mappingTemplateInclude, parseMappingTemplateBody } from '@/lib/import-mapping-templates'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// List the user's own mapping templates plus templates shared by others
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const templates = await prisma.importMappingTemplate.findMany({
+      where: {
+        OR: [{ userId: session.user.id }, { isShared: true }],
+      },
+      include: mappingTemplateInclude,
+      orderBy: { name: 'asc' },
+    })
+
+    return NextResponse.json({
+      templates: templates.map(template => ({
+        ...template,
+        isOwner: template.userId === session.user.id,
+      })),
+    })
+  } catch (error: any) {
+    console.error('Get mapping templates error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch mapping templates' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await req.json()
+    const parsed = parseMappingTemplateBody(body, false)
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const template = await prisma.importMappingTemplate.create({
+      data: {
+        name: parsed.data.name,
+        description: parsed.data.description ?? null,
+        isShared: parsed.data.isShared ?? false,
+        mappingConfig: parsed.data.mappingConfig,
+        headerSignature: parsed.data.headerSignature,
+        userId: session.user.id,
+        versions: {
+          create: {
+            version: 1,
+            mappingConfig: parsed.data.mappingConfig,
+            headerSignature: parsed.data.headerSignature,
+            createdById: session.user.id,
+          },
+        },
+      },
+      include: mappingTemplateInclude,
+    })
+
+    return NextResponse.json({ template: { ...template, isOwner: true } }, { status: 201 })
+  } catch (error: any) {
+    console.error('Create mapping template error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to create mapping template' },
+      { status: 500 }
+    )
+  }
+}
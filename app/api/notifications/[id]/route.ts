@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await prisma.notification.deleteMany({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    })
+
+    if (result.count === 0) {
+      return NextResponse.json({ error: 'Notification not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Delete notification error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete notification' },
+      { status: 500 }
+    )
+  }
+}
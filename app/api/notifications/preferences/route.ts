@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { NotificationType } from '@prisma/client'
+import { getNotificationPreferences } from '@/lib/notifications'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { preferences: true },
+    })
+
+    return NextResponse.json({
+      preferences: getNotificationPreferences(user?.preferences),
+    })
+  } catch (error: any) {
+    console.error('Get notification preferences error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to get notification preferences' },
+      { status: 500 }
+    )
+  }
+}
+
+// Merge { preferences: { [type]: boolean } } into User.preferences.notifications,
+// leaving the rest of the user's preferences untouched
+export async function PATCH(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await req.json()
+    const { preferences } = body
+
+    if (!preferences || typeof preferences !== 'object') {
+      return NextResponse.json(
+        { error: 'Invalid preferences format' },
+        { status: 400 }
+      )
+    }
+
+    const updates: Record<string, boolean> = {}
+    for (const [type, enabled] of Object.entries(preferences)) {
+      if (!Object.values(NotificationType).includes(type as NotificationType) || typeof enabled !== 'boolean') {
+        return NextResponse.json({ error: `Invalid preference: ${type}` }, { status: 400 })
+      }
+      updates[type] = enabled
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { preferences: true },
+    })
+
+    const current = user?.preferences && typeof user.preferences === 'object' && !Array.isArray(user.preferences)
+      ? (user.preferences as Record<string, any>)
+      : {}
+
+    const updatedUser = await prisma.user.update({
+      where: { id: session.user.id },
+      data: {
+        preferences: {
+          ...current,
+          notifications: {
+            ...getNotificationPreferences(current),
+            ...updates,
+          },
+        },
+      },
+      select: { preferences: true },
+    })
+
+    return NextResponse.json({
+      success: true,
+      preferences: getNotificationPreferences(updatedUser.preferences),
+    })
+  } catch (error: any) {
+    console.error('Update notification preferences error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update notification preferences' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// The current user's inbox, newest first, with the unread count for the bell
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const unreadOnly = searchParams.get('unreadOnly') === 'true'
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 100)
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: {
+          userId: session.user.id,
+          ...(unreadOnly && { readAt: null }),
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+      }),
+      prisma.notification.count({
+        where: {
+          userId: session.user.id,
+          readAt: null,
+        },
+      }),
+    ])
+
+    return NextResponse.json({ notifications, unreadCount })
+  } catch (error: any) {
+    console.error('Get notifications error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch notifications' },
+      { status: 500 }
+    )
+  }
+}
+
+// Mark notifications read or unread: { ids: string[], read } or { all: true, read }
+export async function PATCH(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await req.json()
+    const { ids, all } = body
+    const read = body.read !== false
+
+    if (!all && (!Array.isArray(ids) || ids.length === 0)) {
+      return NextResponse.json(
+        { error: 'Notification IDs array or all: true is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await prisma.notification.updateMany({
+      where: {
+        userId: session.user.id,
+        ...(!all && { id: { in: ids } }),
+        readAt: read ? null : { not: null },
+      },
+      data: { readAt: read ? new Date() : null },
+    })
+
+    const unreadCount = await prisma.notification.count({
+      where: {
+        userId: session.user.id,
+        readAt: null,
+      },
+    })
+
+    return NextResponse.json({ success: true, updated: result.count, unreadCount })
+  } catch (error: any) {
+    console.error('Update notifications error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update notifications' },
+      { status: 500 }
+    )
+  }
+}
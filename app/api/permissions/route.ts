@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { UserRole } from '@prisma/client'
+import { getFieldPermissions, EntityType } from '@/lib/permissions'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+const ENTITY_TYPES: EntityType[] = ['release', 'track', 'platform_request']
+
+// Effective field permissions for the signed-in user's role, used by the edit forms
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const entityType = req.nextUrl.searchParams.get('entityType') as EntityType | null
+    if (!entityType || !ENTITY_TYPES.includes(entityType)) {
+      return NextResponse.json({ error: 'Invalid entity type' }, { status: 400 })
+    }
+
+    const permissions = await getFieldPermissions(entityType, session.user.role as UserRole)
+
+    return NextResponse.json({ entityType, permissions })
+  } catch (error: any) {
+    console.error('Get field permissions error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch field permissions' },
+      { status: 500 }
+    )
+  }
+}
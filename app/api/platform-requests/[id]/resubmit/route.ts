@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { UserRole, PlatformRequestStatus } from '@prisma/client'
+import { createAuditLog } from '@/lib/utils'
+import { resubmitPlatformRequest } from '@/lib/rejection-reasons'
+import { notifyResubmission } from '@/lib/notifications'
+import { getPlatformBySlug } from '@/lib/platforms'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+const MAX_NOTES_LENGTH = 2000
+
+/**
+ * Send a rejected platform request back to PENDING after the problem was fixed.
+ * Staff and the release's artist can resubmit when signed in; anonymous
+ * submitters confirm the contact email they submitted with.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    const body = await req.json()
+    const notes = typeof body.notes === 'string' ? body.notes.trim() : ''
+    const contactEmail = typeof body.contactEmail === 'string' ? body.contactEmail.trim().toLowerCase() : ''
+
+    if (!notes) {
+      return NextResponse.json({ error: 'Please describe what was fixed' }, { status: 400 })
+    }
+
+    if (notes.length > MAX_NOTES_LENGTH) {
+      return NextResponse.json(
+        { error: `Notes must be ${MAX_NOTES_LENGTH} characters or less` },
+        { status: 400 }
+      )
+    }
+
+    const platformRequest = await prisma.platformRequest.findUnique({
+      where: { id: params.id },
+      include: {
+        release: {
+          select: {
+            id: true,
+            title: true,
+            contactEmail: true,
+            artist: { select: { userId: true } },
+          },
+        },
+        _count: { select: { trackRequests: true } },
+      },
+    })
+
+    if (!platformRequest || !platformRequest.release) {
+      return NextResponse.json({ error: 'Request not found' }, { status: 404 })
+    }
+
+    if (platformRequest.status !== PlatformRequestStatus.REJECTED) {
+      return NextResponse.json(
+        { error: 'Only rejected requests can be resubmitted' },
+        { status: 400 }
+      )
+    }
+
+    if (platformRequest._count.trackRequests > 0) {
+      return NextResponse.json(
+        { error: 'This release is reviewed track by track. Resubmit the rejected tracks instead.' },
+        { status: 400 }
+      )
+    }
+
+    const role = session?.user?.role as UserRole | undefined
+    const isStaff = role === UserRole.ADMIN || role === UserRole.MANAGER || role === UserRole.A_R
+    const isArtist = !!session?.user?.id && platformRequest.release.artist.userId === session.user.id
+    const emailMatches = !!contactEmail && platformRequest.release.contactEmail?.toLowerCase() === contactEmail
+
+    if (!isStaff && !isArtist && !emailMatches) {
+      return NextResponse.json(
+        { error: session ? 'Forbidden' : 'The email does not match the one used for this submission' },
+        { status: 403 }
+      )
+    }
+
+    const userId = isStaff || isArtist ? session!.user.id : null
+    const { decision } = await resubmitPlatformRequest(prisma, {
+      platformRequestId: params.id,
+      notes,
+      userId,
+      submitterEmail: userId ? null : contactEmail,
+    })
+
+    await createAuditLog(prisma, {
+      userId,
+      releaseId: platformRequest.release.id,
+      entityType: 'platform_request',
+      entityId: params.id,
+      action: 'resubmit',
+      fieldName: 'status',
+      oldValue: PlatformRequestStatus.REJECTED,
+      newValue: PlatformRequestStatus.PENDING,
+    })
+
+    const platformConfig = await getPlatformBySlug(prisma, platformRequest.platform)
+    await notifyResubmission(prisma, {
+      releaseId: platformRequest.release.id,
+      platformName: platformConfig?.name || platformRequest.platform,
+      notes,
+      actorId: userId,
+    })
+
+    return NextResponse.json({ success: true, decisionId: decision.id })
+  } catch (error: any) {
+    console.error('Resubmit platform request error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to resubmit request' },
+      { status: 500 }
+    )
+  }
+}
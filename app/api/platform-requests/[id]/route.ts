@@ -4,6 +4,66 @@ import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/db'
 import { UserRole, PlatformRequestStatus } from '@prisma/client'
 import { createAuditLog } from '@/lib/utils'
+import { getFieldPermissions, stripNonViewableFields, checkFieldEdits } from '@/lib/permissions'
+import { notifyPlatformDecision } from '@/lib/notifications'
+import { enqueuePlatformUpdate, flushEmailQueue } from '@/lib/email'
+import { decisionHistoryInclude, validateRejectionReason } from '@/lib/rejection-reasons'
+import { getPlatformBySlug, canUpdatePlatformRequests, getMissingUploadFields, isPlatformLead } from '@/lib/platforms'
+import { getClaimCutoff, isClaimActive } from '@/lib/platform-queue'
+import { parseUploadLink, findDuplicateUploads, describeConflict } from '@/lib/upload-links'
+import { rollupReleaseRequest, shouldEmailTrackDecision } from '@/lib/platform-track-requests'
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const platformRequest = await prisma.platformRequest.findUnique({
+      where: { id: params.id },
+      include: {
+        release: {
+          select: {
+            id: true,
+            title: true,
+          },
+        },
+        track: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        channel: true,
+        decisions: {
+          orderBy: { createdAt: 'desc' },
+          include: decisionHistoryInclude,
+        },
+      },
+    })
+
+    if (!platformRequest) {
+      return NextResponse.json({ error: 'Request not found' }, { status: 404 })
+    }
+
+    // Hide fields the role can't view
+    const permissions = await getFieldPermissions('platform_request', session.user.role as UserRole)
+
+    return NextResponse.json({
+      platformRequest: stripNonViewableFields(platformRequest, 'platform_request', permissions),
+    })
+  } catch (error: any) {
+    console.error('Get platform request error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch platform request' },
+      { status: 500 }
+    )
+  }
+}
 
 export async function PATCH(
   req: NextRequest,
@@ -16,13 +76,16 @@ export async function PATCH(
     }
 
     const body = await req.json()
-    const { status, channelId, uploadLink, notes, uploadedAt } = body
+    const { status, channelId, uploadLink, notes, uploadedAt, rejectionReasonId, allowDuplicateVideo } = body
 
     // Get the request to check platform and permissions
     const existingRequest = await prisma.platformRequest.findUnique({
       where: { id: params.id },
       include: {
         release: true,
+        track: { select: { name: true } },
+        parentRequest: { select: { id: true, assigneeId: true, claimedAt: true } },
+        _count: { select: { trackRequests: true } },
       },
     })
 
@@ -32,36 +95,58 @@ export async function PATCH(
 
     const userRole = session.user.role as UserRole
     const platform = existingRequest.platform
+    const platformConfig = await getPlatformBySlug(prisma, platform)
+
+    if (!platformConfig) {
+      return NextResponse.json({ error: `Unknown platform: ${platform}` }, { status: 400 })
+    }
 
     // Check permissions
-    const canUpdate = 
-      userRole === UserRole.ADMIN ||
-      userRole === UserRole.MANAGER ||
-      userRole === UserRole.A_R ||
-      (userRole === UserRole.PLATFORM_YOUTUBE && platform === 'youtube') ||
-      (userRole === UserRole.PLATFORM_FLOW && platform === 'flow') ||
-      (userRole === UserRole.PLATFORM_RINGTUNES && platform === 'ringtunes') ||
-      (userRole === UserRole.PLATFORM_INTERNATIONAL_STREAMING && platform === 'international_streaming') ||
-      (userRole === UserRole.PLATFORM_FACEBOOK && platform === 'facebook') ||
-      (userRole === UserRole.PLATFORM_TIKTOK && platform === 'tiktok')
-
-    if (!canUpdate) {
+    if (!canUpdatePlatformRequests(platformConfig, { id: session.user.id, role: userRole })) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
+    // A release worked track by track takes its status from the tracks
+    if (existingRequest._count.trackRequests > 0) {
+      return NextResponse.json(
+        { error: `${platformConfig.name} works this release track by track. Update its tracks; the release status follows them.` },
+        { status: 400 }
+      )
+    }
+
+    // Another team member is working this request, or the release a track belongs to; leads can still step in
+    const claim = existingRequest.parentRequest || existingRequest
+    const claimedByOther =
+      claim.assigneeId !== session.user.id &&
+      isClaimActive(claim, getClaimCutoff(platformConfig, new Date()))
+    if (claimedByOther && !isPlatformLead(platformConfig, { id: session.user.id, role: userRole })) {
+      return NextResponse.json(
+        { error: 'This request is claimed by another team member. Ask them or a lead to release it.' },
+        { status: 409 }
+      )
+    }
+
     // For platform employees on platforms with channels (YouTube, Facebook),
     // ensure they can only approve/reject requests that have a channel assigned
     const isPlatformEmployee = userRole !== UserRole.ADMIN && 
                                userRole !== UserRole.MANAGER && 
                                userRole !== UserRole.A_R
-    const hasChannels = platform === 'youtube' || platform === 'facebook'
     
-    if (isPlatformEmployee && hasChannels && !existingRequest.channelName && !channelId) {
+    if (isPlatformEmployee && platformConfig.supportsChannels && !existingRequest.channelName && !channelId) {
       return NextResponse.json({ 
         error: 'Platform employees can only approve/reject requests for specific channels. Please assign a channel first.' 
       }, { status: 403 })
     }
 
+    // Rejections need a reason from the platform's taxonomy
+    const rejecting = status === PlatformRequestStatus.REJECTED && existingRequest.status !== PlatformRequestStatus.REJECTED
+    if (rejecting || rejectionReasonId) {
+      const reasonError = await validateRejectionReason(prisma, platform, status, rejectionReasonId)
+      if (reasonError) {
+        return NextResponse.json({ error: reasonError }, { status: 400 })
+      }
+    }
+
     // Update the request
     const updateData: any = {
       status: status as PlatformRequestStatus,
@@ -90,7 +175,44 @@ export async function PATCH(
     }
 
     if (uploadLink !== undefined) {
-      updateData.uploadLink = uploadLink || null
+      const link = typeof uploadLink === 'string' ? uploadLink.trim() : ''
+      if (link) {
+        const parsed = parseUploadLink(platform, link)
+        if (parsed.error) {
+          return NextResponse.json({ error: parsed.error }, { status: 400 })
+        }
+        updateData.uploadLink = link
+        updateData.uploadVideoId = parsed.videoId
+      } else {
+        updateData.uploadLink = null
+        updateData.uploadVideoId = null
+      }
+    }
+
+    // The same video on another track is usually a wrong link; the user can confirm it anyway
+    if (updateData.uploadVideoId && updateData.uploadVideoId !== existingRequest.uploadVideoId && !allowDuplicateVideo) {
+      const [duplicate] = await findDuplicateUploads(prisma, platform, [
+        { id: params.id, uploadVideoId: updateData.uploadVideoId },
+      ])
+      if (duplicate) {
+        return NextResponse.json(
+          {
+            error: `This video is already the upload link for ${duplicate.conflicts.map(describeConflict).join(', ')}`,
+            duplicates: duplicate.conflicts,
+          },
+          { status: 409 }
+        )
+      }
+    }
+
+    // Working a claimed request keeps the claim from expiring
+    if (existingRequest.assigneeId === session.user.id) {
+      updateData.claimedAt = new Date()
+    } else if (existingRequest.parentRequest?.assigneeId === session.user.id) {
+      await prisma.platformRequest.update({
+        where: { id: existingRequest.parentRequest.id },
+        data: { claimedAt: new Date() },
+      })
     }
 
     if (uploadedAt !== undefined && status === PlatformRequestStatus.UPLOADED) {
@@ -99,6 +221,33 @@ export async function PATCH(
       updateData.uploadedAt = null
     }
 
+    // The platform decides what an uploaded request must record
+    if (status === PlatformRequestStatus.UPLOADED) {
+      const missing = getMissingUploadFields(platformConfig, { ...existingRequest, ...updateData })
+      if (missing.length > 0) {
+        return NextResponse.json(
+          { error: `${platformConfig.name} needs ${missing.join(' and ')} before a request is marked uploaded` },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Enforce field-level permissions. Only fields sent by the client count as
+    // edits; uploadedAt and channelName are otherwise derived from status/channel.
+    const permissions = await getFieldPermissions('platform_request', userRole)
+    const requestedChanges: Record<string, unknown> = {}
+    if (status !== undefined) requestedChanges.status = updateData.status
+    if ('channelId' in updateData) requestedChanges.channelId = updateData.channelId
+    if (uploadLink !== undefined) requestedChanges.uploadLink = updateData.uploadLink
+    if (uploadedAt !== undefined) requestedChanges.uploadedAt = updateData.uploadedAt ?? null
+    const permissionError = checkFieldEdits('platform_request', permissions, requestedChanges, existingRequest)
+    if (permissionError) {
+      return NextResponse.json(
+        { error: permissionError.error, fields: permissionError.fields },
+        { status: permissionError.status }
+      )
+    }
+
     const updatedRequest = await prisma.platformRequest.update({
       where: { id: params.id },
       data: updateData,
@@ -107,7 +256,8 @@ export async function PATCH(
     // If a specific channel is being updated, only update that channel's request
     // If no channel is specified and status is UPLOADED, cascade to base requests only
     // (not channel-specific ones, to allow channel-specific approvals)
-    if (status && status === PlatformRequestStatus.UPLOADED) {
+    // Track requests stand alone; their release's request rolls up below
+    if (status && status === PlatformRequestStatus.UPLOADED && !existingRequest.parentRequestId) {
       const releaseId = existingRequest.releaseId
       const platform = existingRequest.platform
       
@@ -119,6 +269,7 @@ export async function PATCH(
               releaseId,
               platform,
               channelId: updateData.channelId,
+              trackId: null,
               id: { not: params.id },
             },
             data: {
@@ -136,6 +287,7 @@ export async function PATCH(
               releaseId,
               platform,
               channelId: null,
+              trackId: null,
               id: { not: params.id },
             },
             data: {
@@ -150,14 +302,19 @@ export async function PATCH(
     }
 
     // Create a decision record
-    await prisma.platformDecision.create({
+    const decision = await prisma.platformDecision.create({
       data: {
         platformRequestId: params.id,
         userId: session.user.id,
         status: status as PlatformRequestStatus,
         notes: notes || null,
+        rejectionReasonId: status === PlatformRequestStatus.REJECTED ? rejectionReasonId || null : null,
+      },
+      include: {
+        rejectionReason: { select: { label: true } },
       },
     })
+    const reasonText = [decision.rejectionReason?.label, notes].filter(Boolean).join(': ') || null
 
     // Create audit log
     await createAuditLog(prisma, {
@@ -171,7 +328,61 @@ export async function PATCH(
       newValue: status,
     })
 
-    return NextResponse.json(updatedRequest)
+    const rollup = existingRequest.parentRequestId
+      ? await rollupReleaseRequest(prisma, existingRequest.parentRequestId)
+      : null
+    if (rollup) {
+      await createAuditLog(prisma, {
+        userId: session.user.id,
+        releaseId: existingRequest.releaseId || null,
+        entityType: 'platform_request',
+        entityId: existingRequest.parentRequestId!,
+        action: 'update',
+        fieldName: 'status',
+        oldValue: rollup.from,
+        newValue: rollup.to,
+      })
+    }
+
+    if (status && status !== existingRequest.status) {
+      const trackName = existingRequest.track?.name || null
+      await notifyPlatformDecision(prisma, {
+        releaseId: existingRequest.releaseId,
+        platformName: platformConfig.name,
+        status,
+        channelName: updatedRequest.channelName,
+        trackNames: existingRequest.parentRequestId && trackName ? [trackName] : undefined,
+        notes: reasonText,
+        actorId: session.user.id,
+      })
+
+      // Submitters hear about each rejected track, but about uploads once the whole release is up
+      let emailQueued = false
+      if (!existingRequest.parentRequestId) {
+        emailQueued = await enqueuePlatformUpdate(prisma, {
+          platformRequestId: updatedRequest.id,
+          releaseId: existingRequest.releaseId,
+          platform,
+          status,
+          uploadLink: updatedRequest.uploadLink,
+          reason: reasonText,
+        })
+      } else if (shouldEmailTrackDecision(status, rollup)) {
+        const rejected = status === PlatformRequestStatus.REJECTED
+        emailQueued = await enqueuePlatformUpdate(prisma, {
+          platformRequestId: rejected ? updatedRequest.id : existingRequest.parentRequestId,
+          releaseId: existingRequest.releaseId,
+          platform,
+          status,
+          reason: rejected ? [trackName, reasonText].filter(Boolean).join(': ') || null : null,
+        })
+      }
+      if (emailQueued) {
+        flushEmailQueue(prisma)
+      }
+    }
+
+    return NextResponse.json(stripNonViewableFields(updatedRequest, 'platform_request', permissions))
   } catch (error: any) {
     console.error('Update platform request error:', error)
     return NextResponse.json(
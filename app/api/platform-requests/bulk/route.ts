@@ -4,6 +4,13 @@ import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/db'
 import { UserRole, PlatformRequestStatus } from '@prisma/client'
 import { createAuditLog } from '@/lib/utils'
+import { notifyPlatformDecision } from '@/lib/notifications'
+import { enqueuePlatformUpdate, flushEmailQueue } from '@/lib/email'
+import { validateRejectionReason } from '@/lib/rejection-reasons'
+import { getPlatformBySlug, canUpdatePlatformRequests, getMissingUploadFields, isPlatformLead } from '@/lib/platforms'
+import { getClaimCutoff, isClaimActive } from '@/lib/platform-queue'
+import { parseUploadLink, findDuplicateUploads } from '@/lib/upload-links'
+import { rollupReleaseRequest, shouldEmailTrackDecision } from '@/lib/platform-track-requests'
 
 export async function PATCH(req: NextRequest) {
   try {
@@ -13,7 +20,7 @@ export async function PATCH(req: NextRequest) {
     }
 
     const body = await req.json()
-    const { requestIds, status, channelIds, notes } = body
+    const { requestIds, status, channelIds, notes, rejectionReasonId } = body
 
     if (!requestIds || !Array.isArray(requestIds) || requestIds.length === 0) {
       return NextResponse.json(
@@ -41,27 +48,35 @@ export async function PATCH(req: NextRequest) {
     }
 
     const platform = firstRequest.platform
+    const platformConfig = await getPlatformBySlug(prisma, platform)
+
+    if (!platformConfig) {
+      return NextResponse.json({ error: `Unknown platform: ${platform}` }, { status: 400 })
+    }
 
     // Check permissions
-    const canUpdate = 
-      userRole === UserRole.ADMIN ||
-      userRole === UserRole.MANAGER ||
-      userRole === UserRole.A_R ||
-      (userRole === UserRole.PLATFORM_YOUTUBE && platform === 'youtube') ||
-      (userRole === UserRole.PLATFORM_FLOW && platform === 'flow') ||
-      (userRole === UserRole.PLATFORM_RINGTUNES && platform === 'ringtunes') ||
-      (userRole === UserRole.PLATFORM_INTERNATIONAL_STREAMING && platform === 'international_streaming') ||
-      (userRole === UserRole.PLATFORM_FACEBOOK && platform === 'facebook') ||
-      (userRole === UserRole.PLATFORM_TIKTOK && platform === 'tiktok')
-
-    if (!canUpdate) {
+    if (!canUpdatePlatformRequests(platformConfig, { id: session.user.id, role: userRole })) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
     // Verify all requests are for the same platform
     const allRequests = await prisma.platformRequest.findMany({
       where: { id: { in: requestIds } },
-      select: { id: true, platform: true, releaseId: true, channelName: true, channelId: true },
+      select: {
+        id: true,
+        platform: true,
+        releaseId: true,
+        channelName: true,
+        channelId: true,
+        uploadLink: true,
+        uploadVideoId: true,
+        assigneeId: true,
+        claimedAt: true,
+        parentRequestId: true,
+        track: { select: { name: true } },
+        parentRequest: { select: { id: true, assigneeId: true, claimedAt: true } },
+        _count: { select: { trackRequests: true } },
+      },
     })
 
     if (allRequests.length !== requestIds.length) {
@@ -79,14 +94,91 @@ export async function PATCH(req: NextRequest) {
       )
     }
 
+    // Releases worked track by track take their status from the tracks
+    const splitReleases = allRequests.filter(r => r._count.trackRequests > 0)
+    if (splitReleases.length > 0) {
+      return NextResponse.json(
+        { error: `${splitReleases.length} of the selected requests are releases ${platformConfig.name} works track by track. Select their tracks instead.` },
+        { status: 400 }
+      )
+    }
+
+    const trackRequests = allRequests.filter(r => r.parentRequestId)
+    if (trackRequests.length > 0 && channelIds && channelIds.length > 0) {
+      return NextResponse.json(
+        { error: 'Channels can only be set on release requests. Leave the tracks out or pick no channel.' },
+        { status: 400 }
+      )
+    }
+
+    // Requests other team members are working, directly or through the track's release, are left to them; leads can still step in
+    if (!isPlatformLead(platformConfig, { id: session.user.id, role: userRole })) {
+      const cutoff = getClaimCutoff(platformConfig, new Date())
+      const claimedByOthers = allRequests
+        .map(r => r.parentRequest || r)
+        .filter(claim => claim.assigneeId !== session.user.id && isClaimActive(claim, cutoff))
+      if (claimedByOthers.length > 0) {
+        return NextResponse.json(
+          { error: `${claimedByOthers.length} of the selected requests are claimed by other team members` },
+          { status: 409 }
+        )
+      }
+    }
+
+    // Rejections need a reason from the platform's taxonomy
+    const reasonError = await validateRejectionReason(prisma, platform, status, rejectionReasonId)
+    if (reasonError) {
+      return NextResponse.json({ error: reasonError }, { status: 400 })
+    }
+
+    // Links can't be entered in bulk, so every request must already have what the platform requires
+    if (status === PlatformRequestStatus.UPLOADED) {
+      const incomplete = allRequests.filter(r => getMissingUploadFields(platformConfig, r).length > 0)
+      if (incomplete.length > 0) {
+        const missing = getMissingUploadFields(platformConfig, incomplete[0])
+        return NextResponse.json(
+          { error: `${incomplete.length} of the selected requests have no ${missing.join(' or ')}, which ${platformConfig.name} needs before a request is marked uploaded. Update them one at a time.` },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Links saved before they were checked are parsed now; one whose video is already on another track stops the update
+    const videoIdUpdates: Array<{ id: string; uploadVideoId: string | null }> = []
+    if (status === PlatformRequestStatus.UPLOADED) {
+      const invalidLinks: string[] = []
+      for (const r of allRequests) {
+        if (!r.uploadLink) continue
+        const parsed = parseUploadLink(platform, r.uploadLink)
+        if (parsed.error) {
+          invalidLinks.push(parsed.error)
+        } else if (parsed.videoId !== r.uploadVideoId) {
+          videoIdUpdates.push({ id: r.id, uploadVideoId: parsed.videoId })
+        }
+      }
+      if (invalidLinks.length > 0) {
+        return NextResponse.json(
+          { error: `${invalidLinks.length} of the selected requests have an upload link ${platformConfig.name} doesn't accept (${invalidLinks[0]}). Update them one at a time.` },
+          { status: 400 }
+        )
+      }
+
+      const duplicates = await findDuplicateUploads(prisma, platform, videoIdUpdates)
+      if (duplicates.length > 0) {
+        return NextResponse.json(
+          { error: `${duplicates.length} of the selected requests have a video that is already the upload link for another track. Update them one at a time.` },
+          { status: 409 }
+        )
+      }
+    }
+
     // For platform employees on platforms with channels (YouTube, Facebook),
     // ensure they can only approve/reject requests that have a channel assigned
     const isPlatformEmployee = userRole !== UserRole.ADMIN && 
                                userRole !== UserRole.MANAGER && 
                                userRole !== UserRole.A_R
-    const hasChannels = platform === 'youtube' || platform === 'facebook'
-    
-    if (isPlatformEmployee && hasChannels) {
+
+    if (isPlatformEmployee && platformConfig.supportsChannels) {
       // Check if all selected requests have channels assigned
       const requestsWithoutChannels = allRequests.filter(r => !r.channelName && !r.channelId)
       if (requestsWithoutChannels.length > 0) {
@@ -130,6 +222,13 @@ export async function PATCH(req: NextRequest) {
 
     // Update requests in transaction
     const results = await prisma.$transaction(async (tx) => {
+      for (const { id, uploadVideoId } of videoIdUpdates) {
+        await tx.platformRequest.update({
+          where: { id },
+          data: { uploadVideoId },
+        })
+      }
+
       const updateData: any = {
         status: status as PlatformRequestStatus,
       }
@@ -204,6 +303,7 @@ export async function PATCH(req: NextRequest) {
                 userId: session.user.id,
                 status: status as PlatformRequestStatus,
                 notes: notes || null,
+                rejectionReasonId: rejectionReasonId || null,
               },
             })
           )
@@ -239,6 +339,7 @@ export async function PATCH(req: NextRequest) {
               userId: session.user.id,
               status: status as PlatformRequestStatus,
               notes: notes || null,
+              rejectionReasonId: rejectionReasonId || null,
             },
           })
 
@@ -255,9 +356,80 @@ export async function PATCH(req: NextRequest) {
         }
       }
 
+      // Working claimed requests, directly or through their tracks, keeps the claims from expiring
+      const ownClaimIds = Array.from(new Set(allRequests
+        .map(r => r.parentRequest || r)
+        .filter(claim => claim.assigneeId === session.user.id)
+        .map(claim => claim.id)))
+      if (ownClaimIds.length > 0) {
+        await tx.platformRequest.updateMany({
+          where: { id: { in: ownClaimIds } },
+          data: { claimedAt: new Date() },
+        })
+      }
+
       return { updated: requestIds.length }
     })
 
+    // Releases whose tracks were updated follow them
+    const rollups = new Map<string, Awaited<ReturnType<typeof rollupReleaseRequest>>>()
+    for (const parentRequestId of Array.from(new Set(trackRequests.map(r => r.parentRequestId!)))) {
+      const rollup = await rollupReleaseRequest(prisma, parentRequestId)
+      rollups.set(parentRequestId, rollup)
+      if (rollup) {
+        await createAuditLog(prisma, {
+          userId: session.user.id,
+          releaseId: trackRequests.find(r => r.parentRequestId === parentRequestId)!.releaseId || null,
+          entityType: 'platform_request',
+          entityId: parentRequestId,
+          action: 'update',
+          fieldName: 'status',
+          oldValue: rollup.from,
+          newValue: rollup.to,
+        })
+      }
+    }
+
+    const rejectionReason = rejectionReasonId
+      ? await prisma.rejectionReason.findUnique({ where: { id: rejectionReasonId }, select: { label: true } })
+      : null
+    const reasonText = [rejectionReason?.label, notes].filter(Boolean).join(': ') || null
+
+    // One notification per release, however many of its requests were updated
+    const releaseIds = Array.from(new Set(allRequests.map(r => r.releaseId).filter((id): id is string => !!id)))
+    let emailsQueued = false
+    for (const releaseId of releaseIds) {
+      const releaseRequests = allRequests.filter(r => r.releaseId === releaseId)
+      const releaseRequest = releaseRequests.find(r => !r.parentRequestId)
+      await notifyPlatformDecision(prisma, {
+        releaseId,
+        platformName: platformConfig.name,
+        status,
+        trackNames: releaseRequest ? undefined : releaseRequests.map(r => r.track?.name || 'Untitled'),
+        notes: reasonText,
+        actorId: session.user.id,
+      })
+
+      // Only tracks of this release were updated: rejections are emailed, uploads once the release is up
+      const trackRequest = releaseRequests[0]
+      const rollup = releaseRequest ? null : rollups.get(trackRequest.parentRequestId!) || null
+      if (!releaseRequest && !shouldEmailTrackDecision(status, rollup)) continue
+
+      if (await enqueuePlatformUpdate(prisma, {
+        platformRequestId: releaseRequest?.id ||
+          (status === PlatformRequestStatus.REJECTED ? trackRequest.id : trackRequest.parentRequestId!),
+        releaseId,
+        platform,
+        status,
+        reason: reasonText,
+      })) {
+        emailsQueued = true
+      }
+    }
+    if (emailsQueued) {
+      flushEmailQueue(prisma)
+    }
+
     return NextResponse.json({
       success: true,
       message: `Updated ${results.updated} request(s) successfully`,
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { UserRole } from '@prisma/client'
+import { createAuditLog } from '@/lib/utils'
+import { getPlatformBySlug, canUpdatePlatformRequests, isPlatformLead } from '@/lib/platforms'
+import { assignRequests, claimRequests, getPlatformTeam, releaseRequests } from '@/lib/platform-queue'
+
+const ACTIONS = ['claim', 'release', 'assign']
+
+// Claim, release or (for leads) assign requests in a platform's queue
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await req.json()
+    const { platform, requestIds, action, assigneeId } = body
+
+    if (!requestIds || !Array.isArray(requestIds) || requestIds.length === 0) {
+      return NextResponse.json(
+        { error: 'Request IDs array is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json({ error: `Action must be one of ${ACTIONS.join(', ')}` }, { status: 400 })
+    }
+
+    const platformConfig = platform ? await getPlatformBySlug(prisma, platform) : null
+    if (!platformConfig) {
+      return NextResponse.json({ error: `Unknown platform: ${platform}` }, { status: 400 })
+    }
+
+    const user = { id: session.user.id, role: session.user.role as UserRole }
+    if (!canUpdatePlatformRequests(platformConfig, user)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const isLead = isPlatformLead(platformConfig, user)
+    const now = new Date()
+    let updated = 0
+
+    if (action === 'claim') {
+      updated = await claimRequests(prisma, platformConfig, requestIds, user.id, now)
+    } else if (action === 'release') {
+      // Leads can put anyone's claims back; everyone else only their own
+      updated = await releaseRequests(prisma, platformConfig, requestIds, isLead ? null : user.id)
+    } else {
+      if (!isLead) {
+        return NextResponse.json({ error: 'Only platform leads can assign requests' }, { status: 403 })
+      }
+
+      const team = await getPlatformTeam(prisma, platformConfig)
+      if (!team.some(member => member.id === assigneeId)) {
+        return NextResponse.json(
+          { error: `The assignee is not on the ${platformConfig.name} team` },
+          { status: 400 }
+        )
+      }
+
+      updated = await assignRequests(prisma, platformConfig, requestIds, assigneeId, now)
+
+      for (const requestId of requestIds) {
+        await createAuditLog(prisma, {
+          userId: user.id,
+          entityType: 'platform_request',
+          entityId: requestId,
+          action: 'update',
+          fieldName: 'assigneeId',
+          newValue: assigneeId,
+        })
+      }
+    }
+
+    return NextResponse.json({ success: true, updated, skipped: requestIds.length - updated })
+  } catch (error: any) {
+    console.error('Claim platform requests error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update claims' },
+      { status: 500 }
+    )
+  }
+}
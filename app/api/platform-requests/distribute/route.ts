@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { UserRole } from '@prisma/client'
+import { createAuditLog } from '@/lib/utils'
+import { getPlatformBySlug, isPlatformLead } from '@/lib/platforms'
+import { DISTRIBUTION_STRATEGIES, distributeRequests, type DistributionStrategy } from '@/lib/platform-queue'
+
+// Hand a platform's unclaimed queue to its team by round-robin or current load
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await req.json()
+    const { platform, strategy, limit } = body
+
+    if (!DISTRIBUTION_STRATEGIES.some(option => option.value === strategy)) {
+      return NextResponse.json({ error: 'Valid distribution strategy is required' }, { status: 400 })
+    }
+
+    const platformConfig = platform ? await getPlatformBySlug(prisma, platform) : null
+    if (!platformConfig) {
+      return NextResponse.json({ error: `Unknown platform: ${platform}` }, { status: 400 })
+    }
+
+    if (!isPlatformLead(platformConfig, { id: session.user.id, role: session.user.role as UserRole })) {
+      return NextResponse.json({ error: 'Only platform leads can distribute requests' }, { status: 403 })
+    }
+
+    const result = await distributeRequests(
+      prisma,
+      platformConfig,
+      strategy as DistributionStrategy,
+      new Date(),
+      { limit: typeof limit === 'number' && limit > 0 ? limit : undefined }
+    )
+
+    await createAuditLog(prisma, {
+      userId: session.user.id,
+      entityType: 'platform',
+      entityId: platformConfig.id,
+      action: 'distribute',
+      newValue: JSON.stringify({ strategy, ...result }),
+    })
+
+    return NextResponse.json(result)
+  } catch (error: any) {
+    console.error('Distribute platform requests error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to distribute requests' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { createAuditLog } from '@/lib/utils'
+import { commentInclude, commentThreadInclude, syncCommentMentions, canUseComments, MAX_COMMENT_LENGTH } from '@/lib/comments'
+import { notifyMentions } from '@/lib/notifications'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Top-level comments for a release, each with its replies (oldest reply first)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!canUseComments(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const trackId = searchParams.get('trackId')
+
+    const where: any = {
+      releaseId: params.id,
+      parentId: null,
+    }
+    if (trackId === 'none') {
+      where.trackId = null
+    } else if (trackId) {
+      where.trackId = trackId
+    }
+
+    const comments = await prisma.comment.findMany({
+      where,
+      include: commentThreadInclude,
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return NextResponse.json({ comments })
+  } catch (error: any) {
+    console.error('Get comments error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch comments' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!canUseComments(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await req.json()
+    const content = typeof body.content === 'string' ? body.content.trim() : ''
+    const { parentId } = body
+    let trackId: string | null = body.trackId || null
+
+    if (!content) {
+      return NextResponse.json({ error: 'Comment cannot be empty' }, { status: 400 })
+    }
+    if (content.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json(
+        { error: `Comment cannot exceed ${MAX_COMMENT_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    const release = await prisma.release.findUnique({
+      where: { id: params.id },
+      select: { id: true },
+    })
+    if (!release) {
+      return NextResponse.json({ error: 'Release not found' }, { status: 404 })
+    }
+
+    let threadParentId: string | null = null
+    if (parentId) {
+      const parent = await prisma.comment.findUnique({ where: { id: parentId } })
+      if (!parent || parent.releaseId !== params.id) {
+        return NextResponse.json({ error: 'Parent comment not found' }, { status: 404 })
+      }
+      // Threads are one level deep: replying to a reply joins the same thread,
+      // and replies always belong to the thread's track
+      threadParentId = parent.parentId || parent.id
+      trackId = parent.trackId
+    } else if (trackId) {
+      const track = await prisma.track.findUnique({
+        where: { id: trackId },
+        select: { releaseId: true },
+      })
+      if (!track || track.releaseId !== params.id) {
+        return NextResponse.json({ error: 'Track not found on this release' }, { status: 400 })
+      }
+    }
+
+    let mentionedUserIds: string[] = []
+    const comment = await prisma.$transaction(async (tx) => {
+      const created = await tx.comment.create({
+        data: {
+          userId: session.user.id,
+          releaseId: params.id,
+          trackId,
+          parentId: threadParentId,
+          content,
+        },
+      })
+
+      mentionedUserIds = await syncCommentMentions(tx, created.id, content)
+
+      return tx.comment.findUniqueOrThrow({
+        where: { id: created.id },
+        include: commentInclude,
+      })
+    })
+
+    await createAuditLog(prisma, {
+      userId: session.user.id,
+      releaseId: params.id,
+      entityType: 'comment',
+      entityId: comment.id,
+      action: 'create',
+      newValue: content,
+    })
+
+    await notifyMentions(prisma, mentionedUserIds, {
+      releaseId: params.id,
+      commentId: comment.id,
+      content,
+      actorId: session.user.id,
+    })
+
+    return NextResponse.json({ comment }, { status: 201 })
+  } catch (error: any) {
+    console.error('Create comment error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to create comment' },
+      { status: 500 }
+    )
+  }
+}
@@ -4,7 +4,9 @@ import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/db'
 import { UserRole, ReleaseType, CopyrightStatus, VideoType } from '@prisma/client'
 import { createAuditLog } from '@/lib/utils'
+import { getFieldPermissions, stripNonViewableFields, checkFieldEdits } from '@/lib/permissions'
 import { parseArtists, findOrCreateArtists } from '@/lib/csv-importer'
+import { notifyA_RAssignments } from '@/lib/notifications'
 
 export async function GET(
   req: NextRequest,
@@ -65,7 +67,19 @@ export async function GET(
       return NextResponse.json({ error: 'Release not found' }, { status: 404 })
     }
 
-    return NextResponse.json({ release })
+    // Hide fields the role can't view
+    const role = session.user.role as UserRole
+    const [releasePermissions, trackPermissions] = await Promise.all([
+      getFieldPermissions('release', role),
+      getFieldPermissions('track', role),
+    ])
+
+    return NextResponse.json({
+      release: {
+        ...stripNonViewableFields(release, 'release', releasePermissions),
+        tracks: release.tracks.map(track => stripNonViewableFields(track, 'track', trackPermissions)),
+      },
+    })
   } catch (error: any) {
     console.error('Get release error:', error)
     return NextResponse.json(
@@ -124,6 +138,11 @@ export async function PATCH(
             },
           },
         },
+        assignedA_Rs: {
+          select: {
+            employeeId: true,
+          },
+        },
       },
     })
 
@@ -167,6 +186,16 @@ export async function PATCH(
     }
     if (notes !== undefined) updateData.notes = notes || null
 
+    // Enforce field-level permissions (unchanged values are not treated as edits)
+    const permissions = await getFieldPermissions('release', role)
+    const permissionError = checkFieldEdits('release', permissions, updateData, existingRelease)
+    if (permissionError) {
+      return NextResponse.json(
+        { error: permissionError.error, fields: permissionError.fields },
+        { status: permissionError.status }
+      )
+    }
+
     // Use a transaction to update release and artist relationships
     const release = await prisma.$transaction(async (tx) => {
       // Update the release
@@ -287,7 +316,18 @@ export async function PATCH(
       }),
     })
 
-    return NextResponse.json({ release: updatedReleaseWithArtists })
+    // Let a newly assigned A&R know
+    if (updateData.assignedA_RId && updateData.assignedA_RId !== existingRelease.assignedA_RId) {
+      await notifyA_RAssignments(prisma, [{
+        employeeId: updateData.assignedA_RId,
+        releaseId: params.id,
+        releaseTitle: updateData.title ?? existingRelease.title,
+      }], session.user.id)
+    }
+
+    return NextResponse.json({
+      release: updatedReleaseWithArtists && stripNonViewableFields(updatedReleaseWithArtists, 'release', permissions),
+    })
   } catch (error: any) {
     console.error('Update release error:', error)
     return NextResponse.json(
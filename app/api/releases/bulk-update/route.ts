@@ -1,6 +1,384 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { UserRole, ReleaseType, CopyrightStatus, VideoType } from '@prisma/client'
+import { createAuditLog } from '@/lib/utils'
+import { buildReleaseWhere, parseReleaseFilterParams, MAX_BULK_RELEASES } from '@/lib/release-filters'
+import { notifyA_RAssignments } from '@/lib/notifications'
+import { getFieldPermissions, checkFieldEdits } from '@/lib/permissions'
 
-// Placeholder route - to be implemented
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+type A_RMode = 'replace' | 'add' | 'remove'
+type NotesMode = 'replace' | 'append'
+
+interface BulkReleasePatch {
+  type?: string
+  copyrightStatus?: string | null
+  videoType?: string
+  legacyReleaseDate?: string | null
+  assignedA_RIds?: string[]
+  assignedA_RMode?: A_RMode
+  notes?: string | null
+  notesMode?: NotesMode
+}
+
+interface BulkUpdateResult {
+  releaseId: string
+  success: boolean
+  changedFields: string[]
+  error?: string
+}
+
+function formatAuditValue(value: unknown): string | null {
+  if (value === null || value === undefined) return null
+  if (value instanceof Date) return value.toISOString()
+  if (Array.isArray(value)) return JSON.stringify(value)
+  return String(value)
+}
+
+/**
+ * Apply one patch to many releases.
+ *
+ * Body: { releaseIds?: string[], filters?: ReleaseFilterParams, patch: BulkReleasePatch }
+ * Either releaseIds or filters must be given. Every change is applied in a single
+ * transaction and one AuditLog row is written per changed field per release.
+ */
 export async function POST(req: NextRequest) {
-  return NextResponse.json({ error: 'Not implemented' }, { status: 501 })
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = session.user.role as UserRole
+    // Same roles that can edit a single release
+    if (role !== UserRole.A_R && role !== UserRole.ADMIN && role !== UserRole.MANAGER && role !== UserRole.DATA_TEAM) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await req.json()
+    const { releaseIds, filters } = body
+    const patch: BulkReleasePatch = body.patch || {}
+
+    // Validate patch values
+    if (patch.type !== undefined && !Object.values(ReleaseType).includes(patch.type as ReleaseType)) {
+      return NextResponse.json({ error: 'Invalid release type' }, { status: 400 })
+    }
+
+    if (patch.copyrightStatus !== undefined && patch.copyrightStatus !== null && patch.copyrightStatus !== 'none') {
+      if (!Object.values(CopyrightStatus).includes(patch.copyrightStatus as CopyrightStatus)) {
+        return NextResponse.json({ error: 'Invalid copyright status' }, { status: 400 })
+      }
+    }
+
+    if (patch.videoType !== undefined && !Object.values(VideoType).includes(patch.videoType as VideoType)) {
+      return NextResponse.json({ error: 'Invalid video type' }, { status: 400 })
+    }
+
+    let legacyReleaseDate: Date | null | undefined
+    if (patch.legacyReleaseDate !== undefined) {
+      legacyReleaseDate = patch.legacyReleaseDate ? new Date(patch.legacyReleaseDate) : null
+      if (legacyReleaseDate && isNaN(legacyReleaseDate.getTime())) {
+        return NextResponse.json({ error: 'Invalid legacy release date' }, { status: 400 })
+      }
+    }
+
+    const a_rMode: A_RMode = patch.assignedA_RMode || 'replace'
+    if (!['replace', 'add', 'remove'].includes(a_rMode)) {
+      return NextResponse.json({ error: 'Invalid A&R assignment mode' }, { status: 400 })
+    }
+
+    let a_rIds: string[] | undefined
+    if (patch.assignedA_RIds !== undefined) {
+      if (!Array.isArray(patch.assignedA_RIds)) {
+        return NextResponse.json({ error: 'assignedA_RIds must be an array' }, { status: 400 })
+      }
+      a_rIds = Array.from(new Set(patch.assignedA_RIds.filter((id): id is string => typeof id === 'string' && id.length > 0)))
+
+      if (a_rIds.length > 0) {
+        const employees = await prisma.employee.findMany({
+          where: { id: { in: a_rIds } },
+          select: { id: true },
+        })
+        if (employees.length !== a_rIds.length) {
+          return NextResponse.json({ error: 'One or more A&R employees not found' }, { status: 400 })
+        }
+      }
+    }
+
+    const notesMode: NotesMode = patch.notesMode || 'replace'
+
+    const hasChanges =
+      patch.type !== undefined ||
+      patch.copyrightStatus !== undefined ||
+      patch.videoType !== undefined ||
+      legacyReleaseDate !== undefined ||
+      a_rIds !== undefined ||
+      patch.notes !== undefined
+
+    if (!hasChanges) {
+      return NextResponse.json({ error: 'No changes provided' }, { status: 400 })
+    }
+
+    // The same field rules as editing one release; every patched field counts as an edit
+    const patchedFields: Record<string, unknown> = {}
+    if (patch.type !== undefined) patchedFields.type = patch.type
+    if (patch.copyrightStatus !== undefined) patchedFields.copyrightStatus = patch.copyrightStatus
+    if (patch.videoType !== undefined) patchedFields.videoType = patch.videoType
+    if (legacyReleaseDate !== undefined) patchedFields.legacyReleaseDate = legacyReleaseDate
+    if (a_rIds !== undefined) patchedFields.assignedA_RIds = a_rIds
+
+    const permissions = await getFieldPermissions('release', role)
+    const permissionError = checkFieldEdits('release', permissions, patchedFields, {})
+    if (permissionError) {
+      return NextResponse.json(
+        { error: permissionError.error, fields: permissionError.fields },
+        { status: permissionError.status }
+      )
+    }
+
+    // Resolve the target releases from explicit IDs or the table filters
+    let targetIds: string[]
+    if (Array.isArray(releaseIds) && releaseIds.length > 0) {
+      targetIds = Array.from(new Set(releaseIds.filter((id: unknown): id is string => typeof id === 'string')))
+    } else if (filters && typeof filters === 'object') {
+      const matching = await prisma.release.findMany({
+        where: buildReleaseWhere(parseReleaseFilterParams(filters)),
+        select: { id: true },
+        take: MAX_BULK_RELEASES + 1,
+      })
+      targetIds = matching.map(r => r.id)
+    } else {
+      return NextResponse.json({ error: 'Release IDs or filters are required' }, { status: 400 })
+    }
+
+    if (targetIds.length === 0) {
+      return NextResponse.json({ error: 'No releases matched' }, { status: 404 })
+    }
+
+    if (targetIds.length > MAX_BULK_RELEASES) {
+      return NextResponse.json(
+        { error: `Bulk updates are limited to ${MAX_BULK_RELEASES} releases at a time` },
+        { status: 400 }
+      )
+    }
+
+    const existingReleases = await prisma.release.findMany({
+      where: { id: { in: targetIds } },
+      select: {
+        id: true,
+        title: true,
+        type: true,
+        copyrightStatus: true,
+        videoType: true,
+        legacyReleaseDate: true,
+        notes: true,
+        assignedA_Rs: {
+          select: { employeeId: true },
+        },
+      },
+    })
+    const existingById = new Map(existingReleases.map(r => [r.id, r]))
+
+    const results: BulkUpdateResult[] = []
+    const pending: Array<{
+      releaseId: string
+      data: Record<string, any>
+      audit: Array<{ fieldName: string; oldValue: string | null; newValue: string | null }>
+      a_rIds?: string[]
+      addedA_RIds: string[]
+    }> = []
+
+    // Work out what changes for each release before touching the database
+    for (const releaseId of targetIds) {
+      const existing = existingById.get(releaseId)
+      if (!existing) {
+        results.push({ releaseId, success: false, changedFields: [], error: 'Release not found' })
+        continue
+      }
+
+      const data: Record<string, any> = {}
+      const audit: Array<{ fieldName: string; oldValue: string | null; newValue: string | null }> = []
+
+      if (patch.type !== undefined && existing.type !== patch.type) {
+        data.type = patch.type as ReleaseType
+        audit.push({ fieldName: 'type', oldValue: existing.type, newValue: patch.type })
+      }
+
+      if (patch.copyrightStatus !== undefined) {
+        const next = patch.copyrightStatus === 'none' || patch.copyrightStatus === null
+          ? null
+          : (patch.copyrightStatus as CopyrightStatus)
+        if (existing.copyrightStatus !== next) {
+          data.copyrightStatus = next
+          audit.push({ fieldName: 'copyrightStatus', oldValue: existing.copyrightStatus, newValue: next })
+        }
+      }
+
+      if (patch.videoType !== undefined && existing.videoType !== patch.videoType) {
+        data.videoType = patch.videoType as VideoType
+        audit.push({ fieldName: 'videoType', oldValue: existing.videoType, newValue: patch.videoType })
+      }
+
+      if (legacyReleaseDate !== undefined) {
+        const oldTime = existing.legacyReleaseDate?.getTime() ?? null
+        const newTime = legacyReleaseDate?.getTime() ?? null
+        if (oldTime !== newTime) {
+          data.legacyReleaseDate = legacyReleaseDate
+          audit.push({
+            fieldName: 'legacyReleaseDate',
+            oldValue: formatAuditValue(existing.legacyReleaseDate),
+            newValue: formatAuditValue(legacyReleaseDate),
+          })
+        }
+      }
+
+      if (patch.notes !== undefined) {
+        let nextNotes: string | null
+        if (notesMode === 'append' && patch.notes) {
+          nextNotes = existing.notes ? `${existing.notes}\n${patch.notes}` : patch.notes
+        } else {
+          nextNotes = patch.notes || null
+        }
+        if ((existing.notes || null) !== nextNotes) {
+          data.notes = nextNotes
+          audit.push({ fieldName: 'notes', oldValue: existing.notes, newValue: nextNotes })
+        }
+      }
+
+      let nextA_RIds: string[] | undefined
+      let addedA_RIds: string[] = []
+      if (a_rIds !== undefined) {
+        const current = existing.assignedA_Rs.map(ar => ar.employeeId)
+        let next: string[]
+        if (a_rMode === 'add') {
+          next = Array.from(new Set([...current, ...a_rIds]))
+        } else if (a_rMode === 'remove') {
+          next = current.filter(id => !a_rIds!.includes(id))
+        } else {
+          next = a_rIds
+        }
+
+        const unchanged = current.length === next.length && current.every(id => next.includes(id))
+        if (!unchanged) {
+          nextA_RIds = next
+          addedA_RIds = next.filter(id => !current.includes(id))
+          audit.push({
+            fieldName: 'assignedA_Rs',
+            oldValue: formatAuditValue(current),
+            newValue: formatAuditValue(next),
+          })
+        }
+      }
+
+      if (audit.length === 0) {
+        // Nothing to change - still a success so the client can show "unchanged"
+        results.push({ releaseId, success: true, changedFields: [] })
+        continue
+      }
+
+      pending.push({ releaseId, data, audit, a_rIds: nextA_RIds, addedA_RIds })
+    }
+
+    if (pending.length > 0) {
+      try {
+        await prisma.$transaction(async (tx) => {
+          for (const item of pending) {
+            if (Object.keys(item.data).length > 0) {
+              await tx.release.update({
+                where: { id: item.releaseId },
+                data: item.data,
+              })
+            }
+
+            if (item.a_rIds !== undefined) {
+              await tx.releaseA_R.deleteMany({
+                where: {
+                  releaseId: item.releaseId,
+                  employeeId: { notIn: item.a_rIds },
+                },
+              })
+              if (item.a_rIds.length > 0) {
+                await tx.releaseA_R.createMany({
+                  data: item.a_rIds.map(employeeId => ({
+                    releaseId: item.releaseId,
+                    employeeId,
+                    isPrimary: false,
+                    assignedBy: session.user.id,
+                  })),
+                  skipDuplicates: true,
+                })
+              }
+            }
+
+            for (const entry of item.audit) {
+              await createAuditLog(tx, {
+                userId: session.user.id,
+                releaseId: item.releaseId,
+                entityType: 'release',
+                entityId: item.releaseId,
+                action: 'update',
+                fieldName: entry.fieldName,
+                oldValue: entry.oldValue,
+                newValue: entry.newValue,
+              })
+            }
+          }
+        }, {
+          timeout: 120000, // Large selections touch thousands of rows
+          maxWait: 10000,
+        })
+
+        for (const item of pending) {
+          results.push({
+            releaseId: item.releaseId,
+            success: true,
+            changedFields: item.audit.map(a => a.fieldName),
+          })
+        }
+
+        await notifyA_RAssignments(
+          prisma,
+          pending.flatMap(item => item.addedA_RIds.map(employeeId => ({
+            employeeId,
+            releaseId: item.releaseId,
+            releaseTitle: existingById.get(item.releaseId)?.title ?? null,
+          }))),
+          session.user.id
+        )
+      } catch (error: any) {
+        // The transaction is all-or-nothing, so every pending release failed
+        console.error('Bulk update transaction failed:', error)
+        for (const item of pending) {
+          results.push({
+            releaseId: item.releaseId,
+            success: false,
+            changedFields: [],
+            error: error.message || 'Transaction failed',
+          })
+        }
+      }
+    }
+
+    const updated = results.filter(r => r.success && r.changedFields.length > 0).length
+    const unchanged = results.filter(r => r.success && r.changedFields.length === 0).length
+    const failed = results.filter(r => !r.success).length
+
+    return NextResponse.json({
+      success: failed === 0,
+      updated,
+      unchanged,
+      failed,
+      results,
+    })
+  } catch (error: any) {
+    console.error('Bulk update releases error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update releases' },
+      { status: 500 }
+    )
+  }
 }
@@ -1,6 +1,358 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { Prisma, UserRole, EmployeeStatus } from '@prisma/client'
+import {
+  buildReleaseWhere,
+  parseReleaseFilterParams,
+  type ReleaseFilterParams,
+} from '@/lib/release-filters'
+import { getPlatforms } from '@/lib/platforms'
 
-// Placeholder route - to be implemented
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+
+interface FilterOption {
+  value: string
+  label: string
+  count: number
+  // Only set for the assignedAR facet (used by A&R pickers)
+  id?: string
+  name?: string
+}
+
+// Track-level facets: which Track columns feed each facet and which filter param it drives
+const TRACK_FACETS: Record<string, { columns: Array<'performer' | 'composer' | 'band' | 'musicProducer' | 'studio' | 'recordLabel' | 'genre'>; filterKey: keyof ReleaseFilterParams }> = {
+  performer: { columns: ['performer'], filterKey: 'performer' },
+  composer: { columns: ['composer'], filterKey: 'composer' },
+  band: { columns: ['band', 'musicProducer'], filterKey: 'band' },
+  studio: { columns: ['studio'], filterKey: 'studio' },
+  label: { columns: ['recordLabel'], filterKey: 'label' },
+  genre: { columns: ['genre'], filterKey: 'genre' },
+}
+
+// Release-level enum facets
+const RELEASE_FACETS: Record<string, { column: 'copyrightStatus' | 'videoType' | 'type'; filterKey: keyof ReleaseFilterParams }> = {
+  copyrightStatus: { column: 'copyrightStatus', filterKey: 'copyrightStatus' },
+  videoType: { column: 'videoType', filterKey: 'videoType' },
+  type: { column: 'type', filterKey: 'type' },
+}
+
+function isEmptyWhere(where: Prisma.ReleaseWhereInput): boolean {
+  return Object.keys(where).length === 0
+}
+
+function formatEnumLabel(value: string): string {
+  return value
+    .toLowerCase()
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ')
+}
+
+function sortAndLimit(options: FilterOption[], limit: number): FilterOption[] {
+  return options
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+    .slice(0, limit)
+}
+
+// Counts are releases with a track carrying that value, among releases matching the other filters
+async function getTrackFacetOptions(
+  columns: Array<'performer' | 'composer' | 'band' | 'musicProducer' | 'studio' | 'recordLabel' | 'genre'>,
+  releaseWhere: Prisma.ReleaseWhereInput,
+  search: string,
+  limit: number
+): Promise<FilterOption[]> {
+  const releaseIds = new Map<string, Set<string>>()
+
+  for (const column of columns) {
+    // One row per value and release, so a value on several tracks of a release counts once
+    const rows = await prisma.track.groupBy({
+      by: [column, 'releaseId'],
+      where: {
+        ...(isEmptyWhere(releaseWhere) ? {} : { release: releaseWhere }),
+        [column]: search
+          ? { startsWith: search, mode: 'insensitive' }
+          : { not: null },
+      },
+    })
+
+    for (const row of rows) {
+      const value = row[column]
+      if (!value || !value.trim()) continue
+      const ids = releaseIds.get(value) || new Set<string>()
+      ids.add(row.releaseId)
+      releaseIds.set(value, ids)
+    }
+  }
+
+  return sortAndLimit(
+    Array.from(releaseIds.entries()).map(([value, ids]) => ({ value, label: value, count: ids.size })),
+    limit
+  )
+}
+
+// Counts are releases matching the other filters
+async function getReleaseFacetOptions(
+  column: 'copyrightStatus' | 'videoType' | 'type',
+  releaseWhere: Prisma.ReleaseWhereInput,
+  limit: number
+): Promise<FilterOption[]> {
+  const rows = await (prisma.release.groupBy as any)({
+    by: [column],
+    where: releaseWhere,
+    _count: { _all: true },
+  })
+
+  return sortAndLimit(
+    rows
+      .filter((row: any) => row[column] !== null)
+      .map((row: any) => ({
+        value: row[column],
+        label: formatEnumLabel(row[column]),
+        count: row._count._all,
+      })),
+    limit
+  )
+}
+
+// Counts are platform requests on releases matching the other filters
+async function getPlatformRequestFacetOptions(
+  facet: 'platform' | 'channel' | 'status',
+  releaseWhere: Prisma.ReleaseWhereInput,
+  search: string,
+  limit: number
+): Promise<FilterOption[]> {
+  const where: Prisma.PlatformRequestWhereInput = isEmptyWhere(releaseWhere) ? {} : { release: releaseWhere }
+
+  if (facet === 'status') {
+    const rows = await prisma.platformRequest.groupBy({
+      by: ['status'],
+      where,
+      _count: { _all: true },
+    })
+
+    return sortAndLimit(
+      rows.map(row => ({
+        value: row.status,
+        label: formatEnumLabel(row.status),
+        count: row._count._all,
+      })),
+      limit
+    )
+  }
+
+  // Requests store the platform slug; labels use the registry name, inactive platforms included
+  const platforms = await getPlatforms(prisma, { includeInactive: true })
+  const platformNames = new Map(platforms.map(platform => [platform.slug, platform.name]))
+  const platformLabel = (slug: string) => platformNames.get(slug) || slug
+
+  if (facet === 'channel') {
+    const rows = await prisma.platformRequest.groupBy({
+      by: ['platform', 'channelName'],
+      where: {
+        ...where,
+        channelName: search
+          ? { startsWith: search, mode: 'insensitive' }
+          : { not: null },
+      },
+      _count: { _all: true },
+    })
+
+    // The same channel name can exist on several platforms; the filter is by name
+    const counts = new Map<string, { count: number; platforms: Set<string> }>()
+    for (const row of rows) {
+      if (!row.channelName) continue
+      const entry = counts.get(row.channelName) || { count: 0, platforms: new Set<string>() }
+      entry.count += row._count._all
+      entry.platforms.add(platformLabel(row.platform))
+      counts.set(row.channelName, entry)
+    }
+
+    return sortAndLimit(
+      Array.from(counts.entries()).map(([value, entry]) => ({
+        value,
+        label: `${value} (${Array.from(entry.platforms).join(', ')})`,
+        count: entry.count,
+      })),
+      limit
+    )
+  }
+
+  const rows = await prisma.platformRequest.groupBy({
+    by: ['platform'],
+    where,
+    _count: { _all: true },
+  })
+
+  return sortAndLimit(
+    rows.map(row => ({
+      value: row.platform,
+      label: platformLabel(row.platform),
+      count: row._count._all,
+    })),
+    limit
+  )
+}
+
+// Counts are releases assigned to each employee among releases matching the other filters.
+// Active A&R, Admin and Manager employees are always listed so the option list doubles
+// as an assignment picker.
+async function getAssignedAROptions(
+  releaseWhere: Prisma.ReleaseWhereInput,
+  search: string,
+  limit: number
+): Promise<FilterOption[]> {
+  const [junctionCounts, legacyCounts] = await Promise.all([
+    prisma.releaseA_R.groupBy({
+      by: ['employeeId'],
+      where: isEmptyWhere(releaseWhere) ? {} : { release: releaseWhere },
+      _count: { _all: true },
+    }),
+    // Releases that only have the deprecated single A&R column
+    prisma.release.groupBy({
+      by: ['assignedA_RId'],
+      where: {
+        AND: [
+          releaseWhere,
+          { assignedA_RId: { not: null } },
+          { assignedA_Rs: { none: {} } },
+        ],
+      },
+      _count: { _all: true },
+    }),
+  ])
+
+  const counts = new Map<string, number>()
+  for (const row of junctionCounts) {
+    counts.set(row.employeeId, (counts.get(row.employeeId) || 0) + row._count._all)
+  }
+  for (const row of legacyCounts) {
+    if (!row.assignedA_RId) continue
+    counts.set(row.assignedA_RId, (counts.get(row.assignedA_RId) || 0) + row._count._all)
+  }
+
+  const employees = await prisma.employee.findMany({
+    where: {
+      OR: [
+        { id: { in: Array.from(counts.keys()) } },
+        {
+          status: EmployeeStatus.ACTIVE,
+          user: { role: { in: [UserRole.A_R, UserRole.ADMIN, UserRole.MANAGER] } },
+        },
+      ],
+      ...(search
+        ? {
+            user: {
+              OR: [
+                { name: { startsWith: search, mode: 'insensitive' } },
+                { email: { startsWith: search, mode: 'insensitive' } },
+              ],
+            },
+          }
+        : {}),
+    },
+    select: {
+      id: true,
+      user: {
+        select: {
+          name: true,
+          email: true,
+        },
+      },
+    },
+  })
+
+  return sortAndLimit(
+    employees.map(employee => {
+      const name = employee.user.name || employee.user.email
+      return {
+        value: employee.id,
+        label: name,
+        count: counts.get(employee.id) || 0,
+        id: employee.id,
+        name,
+      }
+    }),
+    limit
+  )
+}
+
+/**
+ * Faceted filter options for the releases and A&R releases tables.
+ *
+ * Query: field (or type) = performer | composer | band | studio | label | genre |
+ *   copyrightStatus | videoType | type | platform | channel | status | assignedAR,
+ *   search = prefix to match, limit, plus any release filter params.
+ * Each option's count is computed with every filter applied except the facet's own.
+ */
 export async function GET(req: NextRequest) {
-  return NextResponse.json({ error: 'Not implemented' }, { status: 501 })
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const searchParams = req.nextUrl.searchParams
+    const field = searchParams.get('field') || searchParams.get('type') || ''
+    const search = (searchParams.get('search') || '').trim()
+    const requestedLimit = parseInt(searchParams.get('limit') || String(DEFAULT_LIMIT))
+    const limit = Math.min(
+      Number.isFinite(requestedLimit) && requestedLimit > 0 ? requestedLimit : DEFAULT_LIMIT,
+      MAX_LIMIT
+    )
+
+    // `type` doubles as the facet name for legacy callers, so only treat it as a
+    // filter when `field` names the facet
+    const filters = parseReleaseFilterParams(searchParams)
+    if (!searchParams.get('field')) {
+      delete filters.type
+    }
+
+    let options: FilterOption[]
+
+    if (TRACK_FACETS[field]) {
+      const facet = TRACK_FACETS[field]
+      options = await getTrackFacetOptions(
+        facet.columns,
+        buildReleaseWhere(filters, [facet.filterKey]),
+        search,
+        limit
+      )
+    } else if (RELEASE_FACETS[field]) {
+      const facet = RELEASE_FACETS[field]
+      options = await getReleaseFacetOptions(
+        facet.column,
+        buildReleaseWhere(filters, [facet.filterKey]),
+        limit
+      )
+    } else if (field === 'platform' || field === 'channel' || field === 'status') {
+      options = await getPlatformRequestFacetOptions(
+        field,
+        buildReleaseWhere(filters, [field]),
+        search,
+        limit
+      )
+    } else if (field === 'assignedAR') {
+      options = await getAssignedAROptions(
+        buildReleaseWhere(filters, ['assignedAR']),
+        search,
+        limit
+      )
+    } else {
+      return NextResponse.json({ error: 'Unknown filter field' }, { status: 400 })
+    }
+
+    return NextResponse.json({ field, options })
+  } catch (error: any) {
+    console.error('Get filter options error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch filter options' },
+      { status: 500 }
+    )
+  }
 }
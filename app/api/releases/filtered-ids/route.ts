@@ -1,6 +1,65 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { UserRole } from '@prisma/client'
+import { buildReleaseWhere, parseReleaseFilterParams, MAX_BULK_RELEASES } from '@/lib/release-filters'
 
-// Placeholder route - to be implemented
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+/**
+ * Return every release ID matching the releases table filters, so bulk
+ * delete/edit/export can act on "all matching" instead of the current page.
+ *
+ * Body: { filters: ReleaseFilterParams, limit?: number }
+ * The result is capped at MAX_BULK_RELEASES; `total` is always the full count.
+ */
 export async function POST(req: NextRequest) {
-  return NextResponse.json({ error: 'Not implemented' }, { status: 501 })
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const role = session.user.role as UserRole
+    // Only the roles that can act on the IDs in bulk
+    if (role !== UserRole.A_R && role !== UserRole.ADMIN && role !== UserRole.MANAGER && role !== UserRole.DATA_TEAM) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const filters = parseReleaseFilterParams(body.filters || {})
+    const requestedLimit = parseInt(String(body.limit ?? MAX_BULK_RELEASES))
+    const limit = Math.min(
+      Number.isFinite(requestedLimit) && requestedLimit > 0 ? requestedLimit : MAX_BULK_RELEASES,
+      MAX_BULK_RELEASES
+    )
+
+    const where = buildReleaseWhere(filters)
+
+    const [releases, total] = await Promise.all([
+      prisma.release.findMany({
+        where,
+        select: { id: true },
+        // Stable order so a capped selection is the same on every call
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+      }),
+      prisma.release.count({ where }),
+    ])
+
+    return NextResponse.json({
+      ids: releases.map(r => r.id),
+      total,
+      limit,
+      capped: total > releases.length,
+    })
+  } catch (error: any) {
+    console.error('Get filtered release IDs error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch release IDs' },
+      { status: 500 }
+    )
+  }
 }
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { UserRole } from '@prisma/client'
+import {
+  savedViewInclude,
+  parseSavedViewBody,
+  savedViewAccessWhere,
+  getDefaultViewId,
+  setDefaultView,
+} from '@/lib/saved-views'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+/**
+ * Rename, re-share or update the saved state (owner or admin only), and/or
+ * set the view as the caller's own default (anyone who can see the view).
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const existing = await prisma.savedView.findUnique({ where: { id: params.id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Saved view not found' }, { status: 404 })
+    }
+
+    const body = await req.json()
+    const parsed = parseSavedViewBody(body, true)
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const canEdit = existing.userId === session.user.id || session.user.role === UserRole.ADMIN
+    const editing = Object.keys(parsed.data).length > 0
+    if (editing && !canEdit) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    if (body.isDefault !== undefined && existing.userId !== session.user.id) {
+      const access = await savedViewAccessWhere(prisma, session.user)
+      const visible = await prisma.savedView.count({ where: { id: existing.id, ...access } })
+      if (!visible) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+      }
+    }
+
+    const view = await prisma.$transaction(async (tx) => {
+      if (body.isDefault !== undefined) {
+        await setDefaultView(tx, session.user.id, existing, !!body.isDefault)
+      }
+
+      // Setting the default alone leaves the view itself untouched
+      return editing
+        ? tx.savedView.update({
+            where: { id: existing.id },
+            data: parsed.data,
+            include: savedViewInclude,
+          })
+        : tx.savedView.findUniqueOrThrow({
+            where: { id: existing.id },
+            include: savedViewInclude,
+          })
+    })
+    const defaultViewId = await getDefaultViewId(prisma, session.user.id, view.table)
+
+    return NextResponse.json({
+      view: {
+        ...view,
+        isOwner: view.userId === session.user.id,
+        isDefault: view.id === defaultViewId,
+      },
+    })
+  } catch (error: any) {
+    console.error('Update saved view error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update saved view' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const existing = await prisma.savedView.findUnique({ where: { id: params.id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Saved view not found' }, { status: 404 })
+    }
+
+    if (existing.userId !== session.user.id && session.user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    await prisma.savedView.delete({ where: { id: existing.id } })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Delete saved view error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete saved view' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { Prisma, EmployeeStatus } from '@prisma/client'
+import {
+  SAVED_VIEW_TABLES,
+  savedViewInclude,
+  parseSavedViewBody,
+  savedViewAccessWhere,
+  getDefaultViewId,
+  setDefaultView,
+} from '@/lib/saved-views'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+/**
+ * List views for a table: the user's own views plus views shared with their
+ * role or team, flagged with which one is the user's default. Also returns
+ * the teams a view can be shared with.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const table = req.nextUrl.searchParams.get('table') || 'releases'
+
+    const access = await savedViewAccessWhere(prisma, session.user)
+
+    const [views, defaultViewId, teams] = await Promise.all([
+      prisma.savedView.findMany({
+        where: { table, ...access },
+        include: savedViewInclude,
+        orderBy: { name: 'asc' },
+      }),
+      getDefaultViewId(prisma, session.user.id, table),
+      prisma.employee.findMany({
+        where: { status: EmployeeStatus.ACTIVE, team: { not: null } },
+        select: { team: true },
+        distinct: ['team'],
+        orderBy: { team: 'asc' },
+      }),
+    ])
+
+    return NextResponse.json({
+      views: views.map(view => ({
+        ...view,
+        isOwner: view.userId === session.user.id,
+        isDefault: view.id === defaultViewId,
+      })),
+      teams: teams.map(t => t.team).filter(Boolean),
+    })
+  } catch (error: any) {
+    console.error('Get saved views error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch saved views' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await req.json()
+    const table = body.table || 'releases'
+    if (!SAVED_VIEW_TABLES.includes(table)) {
+      return NextResponse.json({ error: 'Invalid table' }, { status: 400 })
+    }
+
+    const parsed = parseSavedViewBody(body, false)
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const isDefault = !!body.isDefault
+    const view = await prisma.$transaction(async (tx) => {
+      const created = await tx.savedView.create({
+        data: {
+          ...(parsed.data as Prisma.SavedViewUncheckedCreateInput),
+          userId: session.user.id,
+          table,
+        },
+        include: savedViewInclude,
+      })
+
+      if (isDefault) {
+        await setDefaultView(tx, session.user.id, created, true)
+      }
+      return created
+    })
+
+    return NextResponse.json({ view: { ...view, isOwner: true, isDefault } }, { status: 201 })
+  } catch (error: any) {
+    console.error('Create saved view error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to create saved view' },
+      { status: 500 }
+    )
+  }
+}
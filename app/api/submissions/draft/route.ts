@@ -1,22 +1,129 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import {
+  deleteExpiredDrafts,
+  generateResumeToken,
+  getDraftExpiresAt,
+  sanitizeDraftData,
+} from '@/lib/submission-drafts'
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic'
 
-// In a real app, you'd store drafts in the database
-// For now, we'll just return success (autosave is handled client-side)
+function serializeDraftMeta(draft: { resumeToken: string; version: number; updatedAt: Date; expiresAt: Date }) {
+  return {
+    token: draft.resumeToken,
+    version: draft.version,
+    updatedAt: draft.updatedAt,
+    expiresAt: draft.expiresAt,
+  }
+}
+
+/**
+ * Find the draft to resume.
+ * With ?token= the anonymous resume token is used; otherwise the signed-in
+ * user's most recently saved draft is returned.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const token = req.nextUrl.searchParams.get('token')
+
+    if (!token && !session?.user?.id) {
+      return NextResponse.json({ draft: null })
+    }
+
+    const draft = await prisma.submissionDraft.findFirst({
+      where: {
+        ...(token ? { resumeToken: token } : { userId: session!.user.id }),
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { updatedAt: 'desc' },
+    })
+
+    if (!draft) {
+      if (token) {
+        return NextResponse.json({ error: 'Draft not found or expired' }, { status: 404 })
+      }
+      return NextResponse.json({ draft: null })
+    }
+
+    // Drafts saved while signed in can only be resumed by their owner
+    if (draft.userId && draft.userId !== session?.user?.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    return NextResponse.json({ draft: { ...serializeDraftMeta(draft), data: draft.data } })
+  } catch (error) {
+    console.error('Draft load error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load draft' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Autosave the submit form. Saves are last-write-wins: every save replaces the
+ * stored form and bumps `version`. The client sends the version it last saw as
+ * `baseVersion`; `overwritten` tells it a newer save (e.g. from another device)
+ * was replaced by this one.
+ */
 export async function POST(req: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const userId = session?.user?.id || null
+
+    const body = await req.json()
+    const { token, baseVersion } = body
+    const data = sanitizeDraftData(body)
+    const now = new Date()
+    const expiresAt = getDraftExpiresAt(now)
+
+    await deleteExpiredDrafts(prisma, now)
+
+    const existing = token
+      ? await prisma.submissionDraft.findUnique({ where: { resumeToken: String(token) } })
+      : userId
+        ? await prisma.submissionDraft.findFirst({
+            where: { userId },
+            orderBy: { updatedAt: 'desc' },
+          })
+        : null
+
+    if (existing && existing.userId && existing.userId !== userId) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
-    // TODO: Store draft in database or localStorage
-    // For now, just acknowledge the save
-    return NextResponse.json({ success: true })
+    if (!existing) {
+      const draft = await prisma.submissionDraft.create({
+        data: {
+          userId,
+          resumeToken: generateResumeToken(),
+          data,
+          expiresAt,
+        },
+      })
+
+      return NextResponse.json({ success: true, overwritten: false, ...serializeDraftMeta(draft) })
+    }
+
+    const draft = await prisma.submissionDraft.update({
+      where: { id: existing.id },
+      data: {
+        data,
+        version: { increment: 1 },
+        expiresAt,
+        // Claim an anonymous draft once the submitter signs in
+        ...(userId && !existing.userId ? { userId } : {}),
+      },
+    })
+
+    const overwritten = typeof baseVersion === 'number' && baseVersion < existing.version
+
+    return NextResponse.json({ success: true, overwritten, ...serializeDraftMeta(draft) })
   } catch (error) {
     console.error('Draft save error:', error)
     return NextResponse.json(
@@ -26,8 +133,33 @@ export async function POST(req: NextRequest) {
   }
 }
 
+// Discard a draft ("Start over" on /submit)
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const token = req.nextUrl.searchParams.get('token')
 
+    if (!token) {
+      return NextResponse.json({ error: 'Draft token is required' }, { status: 400 })
+    }
 
+    const draft = await prisma.submissionDraft.findUnique({ where: { resumeToken: token } })
+    if (!draft) {
+      return NextResponse.json({ success: true })
+    }
 
+    if (draft.userId && draft.userId !== session?.user?.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
 
+    await prisma.submissionDraft.delete({ where: { id: draft.id } })
 
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Draft delete error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete draft' },
+      { status: 500 }
+    )
+  }
+}
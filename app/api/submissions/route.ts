@@ -5,6 +5,9 @@ import { prisma } from '@/lib/db'
 import { ReleaseType } from '@prisma/client'
 import { createAuditLog } from '@/lib/utils'
 import { parseArtists, findOrCreateArtists } from '@/lib/csv-importer'
+import { normalizeMyanmarInput } from '@/lib/myanmar-text'
+import { notifySubmission } from '@/lib/notifications'
+import { enqueueSubmissionReceipt, flushEmailQueue } from '@/lib/email'
 
 // Force dynamic rendering - don't execute during build
 export const dynamic = 'force-dynamic'
@@ -14,7 +17,8 @@ export async function POST(req: NextRequest) {
     // Allow anonymous submissions - no auth required
     const session = await getServerSession(authOptions)
 
-    const body = await req.json()
+    // Zawgyi typed into the form is stored as Unicode
+    const body = normalizeMyanmarInput(await req.json())
     const {
       artistId, // Legacy support
       artistName, // Legacy support
@@ -27,6 +31,8 @@ export async function POST(req: NextRequest) {
       songs,
       contactEmail,
       contactPhone,
+      locale, // Language the submitter used, for their status emails
+      draftToken, // Resume token of the draft this submission came from
     } = body
 
     // Support multiple artists - prioritize artistIds, then fallback to legacy methods
@@ -119,6 +125,8 @@ export async function POST(req: NextRequest) {
         title: releaseTitle,
         artistId: artist.id, // Primary artist
         artistsChosenDate: artistsChosenDate ? new Date(artistsChosenDate) : null,
+        contactEmail: typeof contactEmail === 'string' && contactEmail.trim() ? contactEmail.trim() : null,
+        contactLocale: locale === 'my' ? 'my' : 'en',
       },
     })
 
@@ -205,6 +213,30 @@ export async function POST(req: NextRequest) {
       })
     }
 
+    await notifySubmission(prisma, {
+      releaseId: release.id,
+      releaseTitle: release.title,
+      artistName: artist.name,
+      actorId: session?.user?.id,
+    })
+
+    const receiptQueued = await enqueueSubmissionReceipt(prisma, {
+      id: release.id,
+      title: release.title,
+      contactEmail: release.contactEmail,
+      contactLocale: release.contactLocale,
+      artistName: artist.name,
+      recipientName: legalName?.trim() || null,
+    })
+    if (receiptQueued) {
+      flushEmailQueue(prisma)
+    }
+
+    // The draft has been submitted, so it no longer needs to be resumable
+    if (draftToken && typeof draftToken === 'string') {
+      await prisma.submissionDraft.deleteMany({ where: { resumeToken: draftToken } })
+    }
+
     return NextResponse.json({ releaseId: release.id })
   } catch (error: any) {
     console.error('Submission error:', error)
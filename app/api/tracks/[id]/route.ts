@@ -4,7 +4,9 @@ import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/db'
 import { UserRole } from '@prisma/client'
 import { createAuditLog } from '@/lib/utils'
+import { getFieldPermissions, stripNonViewableFields, checkFieldEdits } from '@/lib/permissions'
 import { parseArtists, findOrCreateArtists } from '@/lib/csv-importer'
+import { normalizeMyanmarInput } from '@/lib/myanmar-text'
 
 export async function GET(
   req: NextRequest,
@@ -59,7 +61,19 @@ export async function GET(
       return NextResponse.json({ error: 'Track not found' }, { status: 404 })
     }
 
-    return NextResponse.json({ track })
+    // Hide fields the role can't view
+    const role = session.user.role as UserRole
+    const [trackPermissions, releasePermissions] = await Promise.all([
+      getFieldPermissions('track', role),
+      getFieldPermissions('release', role),
+    ])
+
+    return NextResponse.json({
+      track: {
+        ...stripNonViewableFields(track, 'track', trackPermissions),
+        release: stripNonViewableFields(track.release, 'release', releasePermissions),
+      },
+    })
   } catch (error: any) {
     console.error('Get track error:', error)
     return NextResponse.json(
@@ -85,7 +99,7 @@ export async function PATCH(
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
-    const body = await req.json()
+    const body = normalizeMyanmarInput(await req.json())
     const {
       name,
       trackNumber,
@@ -127,6 +141,16 @@ export async function PATCH(
     if (recordLabel !== undefined) updateData.recordLabel = recordLabel || null
     if (genre !== undefined) updateData.genre = genre || null
 
+    // Enforce field-level permissions (unchanged values are not treated as edits)
+    const permissions = await getFieldPermissions('track', role)
+    const permissionError = checkFieldEdits('track', permissions, updateData, existingTrack)
+    if (permissionError) {
+      return NextResponse.json(
+        { error: permissionError.error, fields: permissionError.fields },
+        { status: permissionError.status }
+      )
+    }
+
     // Use a transaction to update track and TrackArtist relationships
     const track = await prisma.$transaction(async (tx) => {
       // Update the track
@@ -213,7 +237,9 @@ export async function PATCH(
       }),
     })
 
-    return NextResponse.json({ track: updatedTrackWithArtists })
+    return NextResponse.json({
+      track: updatedTrackWithArtists && stripNonViewableFields(updatedTrackWithArtists, 'track', permissions),
+    })
   } catch (error: any) {
     console.error('Update track error:', error)
     return NextResponse.json(
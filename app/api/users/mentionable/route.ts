@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { UserRole } from '@prisma/client'
+import { canUseComments } from '@/lib/comments'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Internal users that can be @mentioned in release comments
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!canUseComments(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const query = searchParams.get('q')?.trim() || ''
+
+    const users = await prisma.user.findMany({
+      where: {
+        role: { not: UserRole.CLIENT },
+        ...(query && {
+          OR: [
+            { name: { contains: query, mode: 'insensitive' } },
+            { email: { contains: query, mode: 'insensitive' } },
+          ],
+        }),
+      },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+      },
+      orderBy: { name: 'asc' },
+      take: 8,
+    })
+
+    return NextResponse.json({ users })
+  } catch (error: any) {
+    console.error('Get mentionable users error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch users' },
+      { status: 500 }
+    )
+  }
+}
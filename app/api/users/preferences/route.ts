@@ -54,10 +54,20 @@ export async function PATCH(req: NextRequest) {
       )
     }
 
+    // Merge top-level sections so saving one (e.g. calendar) keeps the others
+    // (e.g. notifications)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { preferences: true },
+    })
+    const current = user?.preferences && typeof user.preferences === 'object' && !Array.isArray(user.preferences)
+      ? (user.preferences as Record<string, any>)
+      : {}
+
     // Update user preferences
     const updatedUser = await prisma.user.update({
       where: { id: session.user.id },
-      data: { preferences },
+      data: { preferences: { ...current, ...preferences } },
       select: { preferences: true },
     })
 
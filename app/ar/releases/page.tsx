@@ -8,6 +8,7 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Terminal } from 'lucide-react'
 import { ArReleasesTable } from '@/components/ar-releases-table'
 import { FocusedLayout } from '@/components/focused-layout'
+import { buildReleaseWhere } from '@/lib/release-filters'
 
 // Force dynamic rendering to always show fresh data
 export const dynamic = 'force-dynamic'
@@ -21,6 +22,7 @@ export default async function ArReleasesPage({
     page?: string
     type?: string
     platform?: string
+    channel?: string
     status?: string
     performer?: string
     composer?: string
@@ -54,128 +56,8 @@ export default async function ArReleasesPage({
   const page = parseInt(searchParams.page || '1')
   const pageSize = 50
 
-  // Build where clause for server-side filtering
-  const where: any = {}
-
-  // Search filter
-  if (search) {
-    where.OR = [
-      { title: { contains: search, mode: 'insensitive' as const } },
-      { artist: { name: { contains: search, mode: 'insensitive' as const } } },
-    ]
-  }
-
-  // Type filter
-  if (searchParams.type && searchParams.type !== 'all') {
-    where.type = searchParams.type
-  }
-
-  // Platform filter
-  if (searchParams.platform && searchParams.platform !== 'all') {
-    where.platformRequests = {
-      some: {
-        platform: searchParams.platform,
-      },
-    }
-  }
-
-  // Status filter
-  if (searchParams.status && searchParams.status !== 'all') {
-    if (where.platformRequests) {
-      where.platformRequests = {
-        ...where.platformRequests,
-        some: {
-          ...where.platformRequests.some,
-          status: searchParams.status,
-        },
-      }
-    } else {
-      where.platformRequests = {
-        some: {
-          status: searchParams.status,
-        },
-      }
-    }
-  }
-
-  // Track-level filters
-  const trackFilters: any[] = []
-  
-  if (searchParams.performer && searchParams.performer !== 'all') {
-    trackFilters.push({ performer: searchParams.performer })
-  }
-  
-  if (searchParams.composer && searchParams.composer !== 'all') {
-    trackFilters.push({ composer: searchParams.composer })
-  }
-  
-  if (searchParams.band && searchParams.band !== 'all') {
-    trackFilters.push({
-      OR: [
-        { band: searchParams.band },
-        { musicProducer: searchParams.band },
-      ],
-    })
-  }
-  
-  if (searchParams.studio && searchParams.studio !== 'all') {
-    trackFilters.push({ studio: searchParams.studio })
-  }
-  
-  if (searchParams.label && searchParams.label !== 'all') {
-    trackFilters.push({ recordLabel: searchParams.label })
-  }
-  
-  if (searchParams.genre && searchParams.genre !== 'all') {
-    trackFilters.push({ genre: searchParams.genre })
-  }
-
-  if (trackFilters.length > 0) {
-    where.tracks = {
-      some: {
-        AND: trackFilters,
-      },
-    }
-  }
-
-  // Date range filter
-  if (searchParams.startDate || searchParams.endDate) {
-    const dateFilter: any = {}
-    if (searchParams.startDate) {
-      dateFilter.gte = new Date(searchParams.startDate)
-    }
-    if (searchParams.endDate) {
-      dateFilter.lte = new Date(searchParams.endDate)
-    }
-    where.legacyReleaseDate = dateFilter
-  }
-
-  // Assigned A&R filter
-  if (searchParams.assignedAR && searchParams.assignedAR !== 'all') {
-    if (searchParams.assignedAR === 'unassigned') {
-      where.assignedA_RId = null
-    } else {
-      where.assignedA_RId = searchParams.assignedAR
-    }
-  }
-
-  // Copyright Status filter
-  if (searchParams.copyrightStatus && searchParams.copyrightStatus !== 'all') {
-    where.copyrightStatus = searchParams.copyrightStatus
-  }
-
-  // Video Type filter
-  if (searchParams.videoType && searchParams.videoType !== 'all') {
-    where.videoType = searchParams.videoType
-  }
-
-  // Artist filter
-  if (searchParams.artist && searchParams.artist !== 'all') {
-    where.OR = [
-      { artistId: searchParams.artist },
-      { releaseArtists: { some: { artistId: searchParams.artist } } },
-    ]
-  }
+  // Build where clause for server-side filtering (same filters as the releases page)
+  const where: any = buildReleaseWhere(searchParams)
 
   // Build orderBy clause - default to artistsChosenDate descending (newest first)
   let orderBy: any = { artistsChosenDate: 'desc' }
@@ -9,8 +9,6 @@ import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { ThemeToggle } from '@/components/theme-toggle'
 import { AnimatedCard } from '@/components/animated-card'
-import { UserRole } from '@prisma/client'
-import { getRoleRedirectPath } from '@/lib/role-redirect'
 
 export default function SignInPage() {
   const router = useRouter()
@@ -34,25 +32,10 @@ export default function SignInPage() {
       if (result?.error) {
         setError('Invalid email or password')
       } else {
-        // Wait a moment for session to be set, then get role and redirect
-        setTimeout(async () => {
-          try {
-            const sessionResult = await fetch('/api/auth/session')
-            const sessionData = await sessionResult.json()
-            const userRole = sessionData?.user?.role as UserRole
-            
-            if (userRole) {
-              const redirectPath = getRoleRedirectPath(userRole)
-              router.push(redirectPath)
-            } else {
-              router.push('/')
-            }
-            router.refresh()
-          } catch (err) {
-            // Fallback to root page which will handle redirect
-            router.push('/')
-            router.refresh()
-          }
+        // Wait a moment for session to be set; the root page redirects by role
+        setTimeout(() => {
+          router.push('/')
+          router.refresh()
         }, 100)
       }
     } catch (err) {
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -14,6 +14,8 @@ import {
 import { Label } from '@/components/ui/label'
 import { Upload, AlertCircle, FileSpreadsheet, Settings2, Pause, Play } from 'lucide-react'
 import { FailedRowsReview } from '@/components/failed-rows-review'
+import { MappingTemplateMenu } from '@/components/mapping-template-menu'
+import { ImportDryRunReport } from '@/components/import-dry-run-report'
 import {
   Table,
   TableBody,
@@ -22,7 +24,11 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table'
-import type { ColumnMapping } from '@/lib/csv-importer'
+import type { ColumnMapping, ImportPlatformFields, MappingConfig } from '@/lib/csv-importer'
+import type { DryRunResult } from '@/lib/import-dry-run'
+import type { ImportFileType, ImportTextEncoding } from '@/lib/import-file'
+import { formatTimeRemaining } from '@/lib/csv-import-progress'
+import { useImportProgress } from '@/hooks/use-import-progress'
 
 // Available target fields
 const SUBMISSION_FIELDS = [
@@ -45,19 +51,7 @@ const SUBMISSION_FIELDS = [
   { value: 'larsReleasedDate', label: "LARS Released Date" },
   { value: 'artistsChosenDate', label: "Artist's Chosen Date" },
   { value: 'assignedAR', label: 'Assigned A&R' },
-  { value: 'fb', label: 'Facebook Status' },
-  { value: 'fbRequest', label: 'Facebook Request' },
-  { value: 'flow', label: 'Flow Status' },
-  { value: 'flowRequest', label: 'Flow Request' },
-  { value: 'tiktok', label: 'TikTok Status' },
-  { value: 'tiktokRequest', label: 'TikTok Request' },
-  { value: 'youtube', label: 'YouTube Status' },
-  { value: 'youtubeRequest', label: 'YouTube Request' },
   { value: 'youtubeRemarks', label: 'YouTube Remarks' },
-  { value: 'intlStreaming', label: 'International Streaming Status' },
-  { value: 'intlStreamingRequest', label: 'International Streaming Request' },
-  { value: 'ringtunes', label: 'Ringtunes Status' },
-  { value: 'ringtunesRequest', label: 'Ringtunes Request' },
   { value: 'vuclip', label: 'Vuclip' },
   { value: 'filezilla', label: 'FileZilla' },
   { value: 'uploadStatus', label: 'Upload Status' },
@@ -69,6 +63,26 @@ const SUBMISSION_FIELDS = [
   { value: 'moreTracks', label: 'More Tracks' },
 ]
 
+const ENCODING_OPTIONS = [
+  { value: 'auto', label: 'Detect automatically' },
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'windows-1252', label: 'Windows-1252' },
+]
+
+// How the selected file was read (sheet, header row, encoding)
+interface FileSource {
+  fileType: ImportFileType
+  encoding: ImportTextEncoding | null
+  sheets: string[]
+  sheet: string | null
+  headerRow: number
+  headerCandidates: string[][]
+  totalRows: number
+  zawgyiCells: number
+}
+
 const SONG_FIELDS = [
   { value: 'name', label: 'Song Name' },
   { value: 'artistName', label: 'Artist Name' },
@@ -84,6 +98,10 @@ const SONG_FIELDS = [
 export default function ImportCSVPage() {
   const router = useRouter()
   const [file, setFile] = useState<File | null>(null)
+  // Selected sheet as CSV text, from the header row down
+  const [fileContent, setFileContent] = useState<string | null>(null)
+  const [fileSource, setFileSource] = useState<FileSource | null>(null)
+  const [encodingChoice, setEncodingChoice] = useState('auto')
   const [preview, setPreview] = useState<any>(null)
   const [mappings, setMappings] = useState<ColumnMapping[]>([])
   const [loading, setLoading] = useState(false)
@@ -97,6 +115,8 @@ export default function ImportCSVPage() {
     status: string
   } | null>(null)
   const [showFailedRows, setShowFailedRows] = useState(false)
+  const [dryRun, setDryRun] = useState<DryRunResult | null>(null)
+  const [dryRunning, setDryRunning] = useState(false)
   const [importStats, setImportStats] = useState<{
     totalFailed: number
     estimatedSuccess: number
@@ -106,24 +126,58 @@ export default function ImportCSVPage() {
     errorCounts: Record<string, number>
     sampleErrors: Array<{ row: number; message: string }>
   } | null>(null)
-  const [pollingActive, setPollingActive] = useState(false)
-  const pollingActiveRef = useRef(false)
-  const pollingTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  // The import runs on the server; the page watches its progress stream
+  const [watchedSessionId, setWatchedSessionId] = useState<string | null>(null)
+  const { progress: liveProgress } = useImportProgress(watchedSessionId)
 
-  // Sync ref with state
-  useEffect(() => {
-    pollingActiveRef.current = pollingActive
-  }, [pollingActive])
+  const finishImport = useCallback((errorCount: number, rowsProcessed: number) => {
+    if (errorCount > 0) {
+      setShowFailedRows(true)
+      setImportProgress((prev) => prev ? { ...prev, status: 'completed_with_errors' } : null)
+      return
+    }
+    alert(`Import completed!\n\nProcessed: ${rowsProcessed} rows`)
+    router.push('/releases')
+  }, [router])
 
-  // Cleanup polling on unmount
   useEffect(() => {
-    return () => {
-      pollingActiveRef.current = false
-      if (pollingTimeoutRef.current) {
-        clearTimeout(pollingTimeoutRef.current)
-      }
+    if (!liveProgress) return
+
+    setImportProgress({
+      sessionId: liveProgress.sessionId,
+      totalRows: liveProgress.totalRows,
+      rowsProcessed: liveProgress.rowsProcessed,
+      percentage: liveProgress.percentage,
+      status: liveProgress.status,
+    })
+    setImportStats({
+      totalFailed: liveProgress.errorCount,
+      estimatedSuccess: liveProgress.releasesCreated,
+      actualSuccessCount: liveProgress.releasesCreated,
+      actualErrorCount: liveProgress.errorCount,
+      successRate: liveProgress.rowsProcessed > 0
+        ? ((liveProgress.releasesCreated / liveProgress.rowsProcessed) * 100).toFixed(1)
+        : '0.0',
+      errorCounts: liveProgress.errorCounts,
+      sampleErrors: liveProgress.recentErrors,
+    })
+
+    if (liveProgress.status === 'completed') {
+      setWatchedSessionId(null)
+      setLoading(false)
+      finishImport(liveProgress.errorCount, liveProgress.rowsProcessed)
+    } else if (liveProgress.status === 'failed') {
+      setWatchedSessionId(null)
+      setLoading(false)
+      setError(liveProgress.error || 'Import failed')
+      setImportProgress(null)
+    } else if (liveProgress.status === 'cancelled') {
+      setWatchedSessionId(null)
+      setLoading(false)
+      setError('Import was cancelled')
+      setImportProgress(null)
     }
-  }, [])
+  }, [liveProgress, finishImport])
 
   // Check for active import session on mount
   useEffect(() => {
@@ -134,7 +188,7 @@ export default function ImportCSVPage() {
         if (response.ok) {
           const data = await response.json()
           if (data.session && data.session.status === 'in_progress') {
-            // Resume existing import
+            // Show the import that is still running
             setImportProgress({
               sessionId: data.session.id,
               totalRows: data.session.totalRows,
@@ -145,103 +199,8 @@ export default function ImportCSVPage() {
               status: data.session.status,
             })
             
-            // Start polling
-            setPollingActive(true)
-            pollingActiveRef.current = true
-            
-            const pollProgress = async () => {
-              // Check if polling should continue
-              if (!pollingActiveRef.current) {
-                return
-              }
-              
-              try {
-                const progressResponse = await fetch(
-                  `/api/import/csv/progress-simple?sessionId=${data.session.id}`
-                )
-                if (progressResponse.ok) {
-                  const progressData = await progressResponse.json()
-                  
-                  // Stop polling if session was cancelled
-                  if (progressData.status === 'cancelled') {
-                    setLoading(false)
-                    setPollingActive(false)
-                    pollingActiveRef.current = false
-                    setError('Import was cancelled')
-                    setImportProgress(null)
-                    return
-                  }
-                  
-                  // Update progress state
-                  try {
-                    setImportProgress({
-                      sessionId: data.session.id,
-                      totalRows: progressData.totalRows || data.session.totalRows,
-                      rowsProcessed: progressData.rowsProcessed || 0,
-                      percentage: progressData.percentage || 0,
-                      status: progressData.status || 'in_progress',
-                    })
-                  } catch (stateError) {
-                    console.error('Error updating import progress state:', stateError)
-                  }
-                  
-                  if (progressData.status === 'completed') {
-                    setLoading(false)
-                    setPollingActive(false)
-                    pollingActiveRef.current = false
-                    // Check for failed rows
-                    try {
-                      const failedRowsResponse = await fetch(
-                        `/api/import/csv/failed-rows?sessionId=${data.session.id}`
-                      )
-                      if (failedRowsResponse.ok) {
-                        const failedData = await failedRowsResponse.json()
-                        if (failedData.failedRows && failedData.failedRows.length > 0) {
-                          setShowFailedRows(true)
-                          setImportProgress((prev) => prev ? {
-                            ...prev,
-                            ...progressData,
-                            status: 'completed_with_errors',
-                          } : null)
-                        } else {
-                          alert(`Import completed!\n\nProcessed: ${progressData.rowsProcessed} rows`)
-                          try {
-                            router.push('/releases')
-                          } catch (routerError) {
-                            window.location.href = '/releases'
-                          }
-                        }
-                      }
-                    } catch (fetchError) {
-                      console.error('Error checking failed rows:', fetchError)
-                      alert(`Import completed!\n\nProcessed: ${progressData.rowsProcessed} rows`)
-                      try {
-                        router.push('/releases')
-                      } catch (routerError) {
-                        window.location.href = '/releases'
-                      }
-                    }
-                  } else if (progressData.status === 'failed') {
-                    setLoading(false)
-                    setPollingActive(false)
-                    pollingActiveRef.current = false
-                    setError(progressData.error || 'Import failed')
-                    setImportProgress(null)
-                  } else if (progressData.status === 'in_progress' && pollingActiveRef.current) {
-                    pollingTimeoutRef.current = setTimeout(pollProgress, 1000)
-                  }
-                }
-              } catch (err) {
-                // Continue polling on error - import continues in background
-                console.warn('Progress polling error (import continues):', err)
-                if (pollingActiveRef.current) {
-                  pollingTimeoutRef.current = setTimeout(pollProgress, 2000)
-                }
-              }
-            }
-            
-            // Start polling after a short delay
-            pollingTimeoutRef.current = setTimeout(pollProgress, 500)
+            // The import keeps running on the server; watch it
+            setWatchedSessionId(data.session.id)
           }
         }
       } catch (e) {
@@ -321,14 +280,44 @@ export default function ImportCSVPage() {
     }
 
     setFile(selectedFile)
+    setEncodingChoice('auto')
+    await loadFile(selectedFile, {})
+  }
+
+  // Read the file (any sheet, header row and encoding) and preview it
+  const loadFile = async (
+    selectedFile: File,
+    options: { sheet?: string | null; headerRow?: number; encoding?: string }
+  ) => {
     setError('')
     setPreview(null)
     setMappings([])
     setShowMapping(false)
     setImportProgress(null) // Clear any previous import progress
+    setDryRun(null)
+    setFileContent(null)
 
     try {
-      const text = await selectedFile.text()
+      const params = new URLSearchParams({ fileName: selectedFile.name })
+      if (options.sheet) params.set('sheet', options.sheet)
+      if (options.headerRow) params.set('headerRow', String(options.headerRow))
+      if (options.encoding && options.encoding !== 'auto') params.set('encoding', options.encoding)
+
+      const readResponse = await fetch(`/api/import/csv/read-file?${params.toString()}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: selectedFile,
+      })
+
+      const readData = await readResponse.json()
+      if (!readResponse.ok) {
+        throw new Error(readData.error || 'Failed to read file')
+      }
+
+      const { content: text, ...source } = readData
+      setFileSource(source)
+      setFileContent(text)
+
       const response = await fetch('/api/import/csv/preview', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -340,18 +329,6 @@ export default function ImportCSVPage() {
         throw new Error(errorData.error || 'Failed to preview CSV')
       }
 
-      if (!response.ok) {
-        const errorText = await response.text()
-        let errorMessage = 'Failed to preview CSV'
-        try {
-          const errorData = JSON.parse(errorText)
-          errorMessage = errorData.error || errorMessage
-        } catch {
-          errorMessage = errorText || errorMessage
-        }
-        throw new Error(errorMessage)
-      }
-
       const data = await response.json()
       setPreview(data)
       // Initialize mappings from auto-detected ones
@@ -371,7 +348,7 @@ export default function ImportCSVPage() {
         }
       }
     } catch (err: any) {
-      setError(err.message || 'Failed to parse CSV file')
+      setError(err.message || 'Failed to parse file')
       setPreview(null)
     }
   }
@@ -380,50 +357,96 @@ export default function ImportCSVPage() {
     const newMappings = [...mappings]
     newMappings[index] = { ...newMappings[index], ...updates }
     setMappings(newMappings)
+    setDryRun(null)
+  }
+
+  // Build mapping config (columns plus per-song column names) from current mappings
+  const buildMappingConfig = () => {
+    const mappingConfig = {
+      columns: mappings,
+      songPatterns: {} as any,
+    }
+
+    mappings.forEach((mapping) => {
+      if (mapping.fieldType === 'song' && mapping.songIndex && mapping.targetField) {
+        if (!mappingConfig.songPatterns[mapping.songIndex]) {
+          mappingConfig.songPatterns[mapping.songIndex] = {
+            name: '',
+            artistName: '',
+            bandName: '',
+            composerName: '',
+            recordLabelName: '',
+            studioName: '',
+            genre: '',
+            producerArchived: '',
+            performerName: '',
+          }
+        }
+        const fieldKey = mapping.targetField as keyof typeof mappingConfig.songPatterns[number]
+        if (fieldKey in mappingConfig.songPatterns[mapping.songIndex]) {
+          mappingConfig.songPatterns[mapping.songIndex][fieldKey] = mapping.csvColumn
+        }
+      }
+    })
+
+    return mappingConfig as MappingConfig
+  }
+
+  const applyTemplateColumns = (columns: ColumnMapping[]) => {
+    setMappings(columns.map((mapping) => {
+      if (mapping.fieldType === 'song' && !mapping.songIndex) {
+        return { ...mapping, songIndex: extractSongIndex(mapping.csvColumn) || 1 }
+      }
+      return mapping
+    }))
+    setDryRun(null)
+  }
+
+  // Preview every row against the database without importing
+  const handleDryRun = async () => {
+    if (!file || !fileContent) return
+
+    setDryRunning(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/import/csv/dry-run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          csvContent: fileContent,
+          mappingConfig: buildMappingConfig(),
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Dry run failed')
+      }
+
+      setDryRun(data)
+    } catch (err: any) {
+      setError(err.message || 'Dry run failed')
+    } finally {
+      setDryRunning(false)
+    }
   }
 
   const handleImport = async () => {
-    if (!file) return
+    if (!file || !fileContent) return
 
     setLoading(true)
     setError('')
 
     try {
-      const content = await file.text()
+      const content = fileContent
       
-      // Build mapping config from current mappings
-      const mappingConfig = {
-        columns: mappings,
-        songPatterns: {} as any,
-      }
+      const mappingConfig = buildMappingConfig()
       
       // #region agent log
       fetch('http://127.0.0.1:7242/ingest/d1e8ad3f-7e52-4016-811c-8857d824b667',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'import-csv/page.tsx:290',message:'Mapping config before send',data:{mappingsCount:mappings.length,releaseTitleMapping:mappings.find(m=>m.targetField==='releaseTitle'),notesMapping:mappings.find(m=>m.targetField==='notes'),allMappings:JSON.stringify(mappings.map(m=>({csvColumn:m.csvColumn,targetField:m.targetField,fieldType:m.fieldType})))},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
       // #endregion
 
-      // Build song patterns from mappings
-      mappings.forEach((mapping) => {
-        if (mapping.fieldType === 'song' && mapping.songIndex && mapping.targetField) {
-          if (!mappingConfig.songPatterns[mapping.songIndex]) {
-            mappingConfig.songPatterns[mapping.songIndex] = {
-              name: '',
-              artistName: '',
-              bandName: '',
-              composerName: '',
-              recordLabelName: '',
-              studioName: '',
-              genre: '',
-              producerArchived: '',
-              performerName: '',
-            }
-          }
-          const fieldKey = mapping.targetField as keyof typeof mappingConfig.songPatterns[number]
-          if (fieldKey in mappingConfig.songPatterns[mapping.songIndex]) {
-            mappingConfig.songPatterns[mapping.songIndex][fieldKey] = mapping.csvColumn
-          }
-        }
-      })
-
       const response = await fetch('/api/import/csv', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -458,560 +481,9 @@ export default function ImportCSVPage() {
           status: 'in_progress',
         })
         
-        // Start batch processing (chunked for Vercel free tier)
-        setPollingActive(true)
-        pollingActiveRef.current = true
-        
-        // #region agent log
-        const logDataFrontend1 = {
-          location: 'app/import-csv/page.tsx:461',
-          message: 'Frontend: Starting batch processing',
-          data: {
-            sessionId: result.sessionId,
-            totalRows: result.totalRows,
-            rowsProcessed: result.rowsProcessed || 0,
-            needsMore: result.needsMore,
-          },
-          timestamp: Date.now(),
-          sessionId: 'debug-session',
-          runId: 'run1',
-          hypothesisId: 'B',
-        };
-        console.log('[DEBUG] Frontend Start:', logDataFrontend1);
-        fetch('http://127.0.0.1:7242/ingest/d1e8ad3f-7e52-4016-811c-8857d824b667', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(logDataFrontend1) }).catch(() => {});
-        // #endregion
-        
-        const processNextBatch = async () => {
-          // Check if processing should continue
-          if (!pollingActiveRef.current) {
-            // #region agent log
-            const logDataFrontend2 = {
-              location: 'app/import-csv/page.tsx:467',
-              message: 'Frontend: Batch processing stopped (polling inactive)',
-              data: { sessionId: result.sessionId },
-              timestamp: Date.now(),
-              sessionId: 'debug-session',
-              runId: 'run1',
-              hypothesisId: 'B',
-            };
-            console.log('[DEBUG] Frontend Stopped:', logDataFrontend2);
-            fetch('http://127.0.0.1:7242/ingest/d1e8ad3f-7e52-4016-811c-8857d824b667', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(logDataFrontend2) }).catch(() => {});
-            // #endregion
-            return
-          }
-          
-          try {
-            // #region agent log
-            const logDataFrontend3 = {
-              location: 'app/import-csv/page.tsx:472',
-              message: 'Frontend: Calling batch processor',
-              data: { sessionId: result.sessionId },
-              timestamp: Date.now(),
-              sessionId: 'debug-session',
-              runId: 'run1',
-              hypothesisId: 'B',
-            };
-            console.log('[DEBUG] Frontend Calling Batch:', logDataFrontend3);
-            fetch('http://127.0.0.1:7242/ingest/d1e8ad3f-7e52-4016-811c-8857d824b667', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(logDataFrontend3) }).catch(() => {});
-            // #endregion
-            
-            // Call batch processor endpoint
-            // #region agent log
-            const logDataBeforeCall = {
-              location: 'app/import-csv/page.tsx:519',
-              message: 'Frontend: About to call batch processor',
-              data: {
-                sessionId: result.sessionId,
-                url: '/api/import/csv/process-batch',
-              },
-              timestamp: Date.now(),
-              sessionId: 'debug-session',
-              runId: 'run1',
-              hypothesisId: 'H',
-            };
-            console.log('[DEBUG] Before Batch Call:', logDataBeforeCall);
-            fetch('http://127.0.0.1:7242/ingest/d1e8ad3f-7e52-4016-811c-8857d824b667', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(logDataBeforeCall) }).catch(() => {});
-            // #endregion
-            
-            let batchResponse
-            try {
-              batchResponse = await fetch('/api/import/csv/process-batch', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ sessionId: result.sessionId }),
-              })
-            } catch (fetchError: any) {
-              // #region agent log
-              const logDataFetchError = {
-                location: 'app/import-csv/page.tsx:530',
-                message: 'Frontend: Batch processor fetch failed',
-                data: {
-                  sessionId: result.sessionId,
-                  error: fetchError.message || 'Unknown fetch error',
-                  stack: fetchError.stack,
-                },
-                timestamp: Date.now(),
-                sessionId: 'debug-session',
-                runId: 'run1',
-                hypothesisId: 'H',
-              };
-              console.error('[DEBUG] Fetch Error:', logDataFetchError);
-              fetch('http://127.0.0.1:7242/ingest/d1e8ad3f-7e52-4016-811c-8857d824b667', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(logDataFetchError) }).catch(() => {});
-              // #endregion
-              throw fetchError
-            }
-            
-            // #region agent log
-            const logDataFrontend4 = {
-              location: 'app/import-csv/page.tsx:540',
-              message: 'Frontend: Batch processor response received',
-              data: {
-                sessionId: result.sessionId,
-                ok: batchResponse.ok,
-                status: batchResponse.status,
-                statusText: batchResponse.statusText,
-                headers: Object.fromEntries(batchResponse.headers.entries()),
-              },
-              timestamp: Date.now(),
-              sessionId: 'debug-session',
-              runId: 'run1',
-              hypothesisId: 'H',
-            };
-            console.log('[DEBUG] Frontend Batch Response:', logDataFrontend4);
-            fetch('http://127.0.0.1:7242/ingest/d1e8ad3f-7e52-4016-811c-8857d824b667', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(logDataFrontend4) }).catch(() => {});
-            // #endregion
-            
-            if (!batchResponse.ok) {
-              // If batch endpoint fails, check progress and retry
-              let errorData: any = {}
-              try {
-                const errorText = await batchResponse.text()
-                errorData = errorText ? JSON.parse(errorText) : {}
-              } catch (e) {
-                errorData = { error: `HTTP ${batchResponse.status}: ${batchResponse.statusText}` }
-              }
-              
-              // #region agent log
-              const logDataError = {
-                location: 'app/import-csv/page.tsx:560',
-                message: 'Frontend: Batch processor returned error',
-                data: {
-                  sessionId: result.sessionId,
-                  status: batchResponse.status,
-                  errorData,
-                },
-                timestamp: Date.now(),
-                sessionId: 'debug-session',
-                runId: 'run1',
-                hypothesisId: 'H',
-              };
-              console.error('[DEBUG] Batch Error:', logDataError);
-              fetch('http://127.0.0.1:7242/ingest/d1e8ad3f-7e52-4016-811c-8857d824b667', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(logDataError) }).catch(() => {});
-              // #endregion
-              
-              console.warn('Batch processing error:', errorData.error || 'Unknown error')
-              
-              // Check progress to see current state
-              const progressResponse = await fetch(
-                `/api/import/csv/progress-simple?sessionId=${result.sessionId}`
-              )
-              if (progressResponse.ok) {
-                const progressData = await progressResponse.json()
-                setImportProgress({
-                  sessionId: result.sessionId,
-                  totalRows: progressData.totalRows || result.totalRows,
-                  rowsProcessed: progressData.rowsProcessed || 0,
-                  percentage: progressData.percentage || 0,
-                  status: progressData.status || 'in_progress',
-                })
-                
-                if (progressData.status === 'completed' || progressData.status === 'failed' || progressData.status === 'cancelled') {
-                  setLoading(false)
-                  setPollingActive(false)
-                  pollingActiveRef.current = false
-                  if (progressData.status === 'completed') {
-                    // Check for failed rows
-                    try {
-                      const failedRowsResponse = await fetch(
-                        `/api/import/csv/failed-rows?sessionId=${result.sessionId}`
-                      )
-                      if (failedRowsResponse.ok) {
-                        const failedData = await failedRowsResponse.json()
-                        if (failedData.failedRows && failedData.failedRows.length > 0) {
-                          setShowFailedRows(true)
-                          setImportProgress((prev) => prev ? { ...prev, status: 'completed_with_errors' } : null)
-                        } else {
-                          alert(`Import completed!\n\nProcessed: ${progressData.rowsProcessed} rows`)
-                          router.push('/releases').catch(() => { window.location.href = '/releases' })
-                        }
-                      } else {
-                        alert(`Import completed!\n\nProcessed: ${progressData.rowsProcessed} rows`)
-                        router.push('/releases').catch(() => { window.location.href = '/releases' })
-                      }
-                    } catch (fetchError) {
-                      console.error('Error checking failed rows:', fetchError)
-                      alert(`Import completed!\n\nProcessed: ${progressData.rowsProcessed} rows`)
-                      router.push('/releases').catch(() => { window.location.href = '/releases' })
-                    }
-                  } else if (progressData.status === 'failed') {
-                    setError(progressData.error || 'Import failed')
-                    setImportProgress(null)
-                  }
-                  return
-                }
-              }
-              
-              // Retry after delay
-              if (pollingActiveRef.current) {
-                pollingTimeoutRef.current = setTimeout(processNextBatch, 2000)
-              }
-              return
-            }
-            
-            let batchData: any
-            try {
-              const responseText = await batchResponse.text()
-              // #region agent log
-              const logDataResponseText = {
-                location: 'app/import-csv/page.tsx:605',
-                message: 'Frontend: Batch processor response text',
-                data: {
-                  sessionId: result.sessionId,
-                  responseText: responseText.substring(0, 500), // First 500 chars
-                  responseLength: responseText.length,
-                },
-                timestamp: Date.now(),
-                sessionId: 'debug-session',
-                runId: 'run1',
-                hypothesisId: 'H',
-              };
-              console.log('[DEBUG] Response Text:', logDataResponseText);
-              fetch('http://127.0.0.1:7242/ingest/d1e8ad3f-7e52-4016-811c-8857d824b667', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(logDataResponseText) }).catch(() => {});
-              // #endregion
-              
-              batchData = responseText ? JSON.parse(responseText) : {}
-            } catch (parseError: any) {
-              // #region agent log
-              const logDataParseError = {
-                location: 'app/import-csv/page.tsx:620',
-                message: 'Frontend: Failed to parse batch response',
-                data: {
-                  sessionId: result.sessionId,
-                  error: parseError.message || 'Unknown parse error',
-                },
-                timestamp: Date.now(),
-                sessionId: 'debug-session',
-                runId: 'run1',
-                hypothesisId: 'H',
-              };
-              console.error('[DEBUG] Parse Error:', logDataParseError);
-              fetch('http://127.0.0.1:7242/ingest/d1e8ad3f-7e52-4016-811c-8857d824b667', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(logDataParseError) }).catch(() => {});
-              // #endregion
-              throw parseError
-            }
-            
-            // #region agent log
-            const logDataBatchData = {
-              location: 'app/import-csv/page.tsx:630',
-              message: 'Frontend: Batch processor data parsed',
-              data: {
-                sessionId: result.sessionId,
-                batchData,
-              },
-              timestamp: Date.now(),
-              sessionId: 'debug-session',
-              runId: 'run1',
-              hypothesisId: 'H',
-            };
-            console.log('[DEBUG] Batch Data:', logDataBatchData);
-            fetch('http://127.0.0.1:7242/ingest/d1e8ad3f-7e52-4016-811c-8857d824b667', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(logDataBatchData) }).catch(() => {});
-            // #endregion
-            
-            // Update progress
-            const percentage = batchData.totalRows > 0 
-              ? Math.round((batchData.rowsProcessed / batchData.totalRows) * 100) 
-              : 0
-            
-            setImportProgress({
-              sessionId: result.sessionId,
-              totalRows: batchData.totalRows || result.totalRows,
-              rowsProcessed: batchData.rowsProcessed || 0,
-              percentage,
-              status: batchData.completed ? 'completed' : 'in_progress',
-            })
-            
-            // Fetch stats for real-time error display
-            try {
-              const statsResponse = await fetch(
-                `/api/import/csv/stats?sessionId=${result.sessionId}`
-              )
-              if (statsResponse.ok) {
-                const statsData = await statsResponse.json()
-                setImportStats({
-                  totalFailed: statsData.totalFailed || 0,
-                  estimatedSuccess: statsData.estimatedSuccess || 0,
-                  actualSuccessCount: statsData.actualSuccessCount ?? statsData.estimatedSuccess ?? 0,
-                  actualErrorCount: statsData.actualErrorCount ?? 0,
-                  successRate: statsData.successRate || '0.0',
-                  errorCounts: statsData.errorCounts || {},
-                  sampleErrors: statsData.sampleErrors || [],
-                })
-              }
-            } catch (e) {
-              // Ignore stats errors
-              console.warn('Stats fetch error:', e)
-            }
-            
-            if (batchData.completed) {
-              // Import complete
-              setLoading(false)
-              setPollingActive(false)
-              pollingActiveRef.current = false
-              
-              // Check for failed rows
-              try {
-                const failedRowsResponse = await fetch(
-                  `/api/import/csv/failed-rows?sessionId=${result.sessionId}`
-                )
-                if (failedRowsResponse.ok) {
-                  const failedData = await failedRowsResponse.json()
-                  if (failedData.failedRows && failedData.failedRows.length > 0) {
-                    setShowFailedRows(true)
-                    setImportProgress((prev) => prev ? { ...prev, status: 'completed_with_errors' } : null)
-                  } else {
-                    alert(`Import completed!\n\nProcessed: ${batchData.rowsProcessed} rows`)
-                    router.push('/releases').catch(() => { window.location.href = '/releases' })
-                  }
-                } else {
-                  alert(`Import completed!\n\nProcessed: ${batchData.rowsProcessed} rows`)
-                  router.push('/releases').catch(() => { window.location.href = '/releases' })
-                }
-              } catch (fetchError) {
-                console.error('Error checking failed rows:', fetchError)
-                alert(`Import completed!\n\nProcessed: ${batchData.rowsProcessed} rows`)
-                router.push('/releases').catch(() => { window.location.href = '/releases' })
-              }
-            } else if (batchData.paused) {
-              // Import paused - auto-resume by calling batch processor again (it will auto-resume)
-              // #region agent log
-              const logDataPaused = {
-                location: 'app/import-csv/page.tsx:674',
-                message: 'Frontend: Batch processor returned paused - will auto-resume on next call',
-                data: {
-                  sessionId: result.sessionId,
-                },
-                timestamp: Date.now(),
-                sessionId: 'debug-session',
-                runId: 'run1',
-                hypothesisId: 'G',
-              };
-              console.log('[DEBUG] Paused Response:', logDataPaused);
-              fetch('http://127.0.0.1:7242/ingest/d1e8ad3f-7e52-4016-811c-8857d824b667', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(logDataPaused) }).catch(() => {});
-              // #endregion
-              // Update status to paused in UI
-              setImportProgress(prev => prev ? { ...prev, status: 'paused' } : null)
-              // Continue calling batch processor - it will auto-resume paused sessions
-              if (pollingActiveRef.current) {
-                pollingTimeoutRef.current = setTimeout(processNextBatch, 500)
-              }
-            } else if (batchData.needsMore !== false && pollingActiveRef.current) {
-              // Process next batch after a short delay
-              pollingTimeoutRef.current = setTimeout(processNextBatch, 100)
-            } else if (!batchData.completed && pollingActiveRef.current) {
-              // Not completed but needsMore might be undefined or false - still try to continue
-              // #region agent log
-              const logDataUnknown = {
-                location: 'app/import-csv/page.tsx:685',
-                message: 'Frontend: Unknown batch state - retrying',
-                data: {
-                  sessionId: result.sessionId,
-                  batchData,
-                },
-                timestamp: Date.now(),
-                sessionId: 'debug-session',
-                runId: 'run1',
-                hypothesisId: 'G',
-              };
-              console.warn('[DEBUG] Unknown Batch State:', logDataUnknown);
-              fetch('http://127.0.0.1:7242/ingest/d1e8ad3f-7e52-4016-811c-8857d824b667', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(logDataUnknown) }).catch(() => {});
-              // #endregion
-              // Check progress to see actual state
-              try {
-                const progressResponse = await fetch(
-                  `/api/import/csv/progress-simple?sessionId=${result.sessionId}`
-                )
-                if (progressResponse.ok) {
-                  const progressData = await progressResponse.json()
-                  if (progressData.status === 'in_progress' && progressData.rowsProcessed < progressData.totalRows) {
-                    // Still in progress - continue
-                    pollingTimeoutRef.current = setTimeout(processNextBatch, 1000)
-                  }
-                }
-              } catch (e) {
-                // Retry anyway
-                if (pollingActiveRef.current) {
-                  pollingTimeoutRef.current = setTimeout(processNextBatch, 2000)
-                }
-              }
-            }
-          } catch (err: any) {
-            console.error('Batch processing error:', err)
-            // Continue processing on error
-            if (pollingActiveRef.current) {
-              pollingTimeoutRef.current = setTimeout(processNextBatch, 2000)
-            }
-          }
-        }
-        
-        // Start processing batches or polling for progress
-        // On localhost: needsMore=false means background processing is running, so we poll for progress
-        // On Vercel: needsMore=true means we need to call batch processor
-        const needsBatchProcessor = result.needsMore === true
-        const shouldPollProgress = result.totalRows ? (result.totalRows > (result.rowsProcessed || 0)) : true
-        
-        // #region agent log
-        const logDataFrontendStart = {
-          location: 'app/import-csv/page.tsx:692',
-          message: 'Frontend: Starting import processing',
-          data: {
-            sessionId: result.sessionId,
-            totalRows: result.totalRows,
-            rowsProcessed: result.rowsProcessed || 0,
-            needsMore: result.needsMore,
-            needsBatchProcessor,
-            shouldPollProgress,
-          },
-          timestamp: Date.now(),
-          sessionId: 'debug-session',
-          runId: 'run1',
-          hypothesisId: 'B',
-        };
-        console.log('[DEBUG] Frontend Start:', logDataFrontendStart);
-        fetch('http://127.0.0.1:7242/ingest/d1e8ad3f-7e52-4016-811c-8857d824b667', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(logDataFrontendStart) }).catch(() => {});
-        // #endregion
-        
-        if (needsBatchProcessor) {
-          // Vercel: Call batch processor
-          // #region agent log
-          const logDataFrontendSchedule = {
-            location: 'app/import-csv/page.tsx:710',
-            message: 'Frontend: Scheduling batch processor (Vercel)',
-            data: {
-              sessionId: result.sessionId,
-              delay: 100,
-            },
-            timestamp: Date.now(),
-            sessionId: 'debug-session',
-            runId: 'run1',
-            hypothesisId: 'B',
-          };
-          console.log('[DEBUG] Frontend Scheduling Batch:', logDataFrontendSchedule);
-          fetch('http://127.0.0.1:7242/ingest/d1e8ad3f-7e52-4016-811c-8857d824b667', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(logDataFrontendSchedule) }).catch(() => {});
-          // #endregion
-          pollingTimeoutRef.current = setTimeout(processNextBatch, 100)
-        } else if (shouldPollProgress) {
-          // Localhost: Background processing is running, just poll for progress
-          // Use the same polling mechanism as the existing import check
-          const pollProgress = async () => {
-            if (!pollingActiveRef.current) {
-              return
-            }
-            
-            try {
-              const progressResponse = await fetch(
-                `/api/import/csv/progress-simple?sessionId=${result.sessionId}`
-              )
-              if (progressResponse.ok) {
-                const progressData = await progressResponse.json()
-                
-                if (progressData.status === 'cancelled') {
-                  setLoading(false)
-                  setPollingActive(false)
-                  pollingActiveRef.current = false
-                  setError('Import was cancelled')
-                  setImportProgress(null)
-                  return
-                }
-                
-                setImportProgress({
-                  sessionId: result.sessionId,
-                  totalRows: progressData.totalRows || result.totalRows,
-                  rowsProcessed: progressData.rowsProcessed || 0,
-                  percentage: progressData.percentage || 0,
-                  status: progressData.status || 'in_progress',
-                })
-                
-                if (progressData.status === 'completed') {
-                  setLoading(false)
-                  setPollingActive(false)
-                  pollingActiveRef.current = false
-                  alert(`Import completed!\n\nProcessed: ${progressData.rowsProcessed} rows`)
-                  router.push('/releases').catch(() => { window.location.href = '/releases' })
-                } else if (progressData.status === 'failed') {
-                  setLoading(false)
-                  setPollingActive(false)
-                  pollingActiveRef.current = false
-                  setError(progressData.error || 'Import failed')
-                  setImportProgress(null)
-                } else if (progressData.status === 'in_progress' && pollingActiveRef.current) {
-                  pollingTimeoutRef.current = setTimeout(pollProgress, 1000)
-                }
-              }
-            } catch (err) {
-              console.warn('Progress polling error (import continues):', err)
-              if (pollingActiveRef.current) {
-                pollingTimeoutRef.current = setTimeout(pollProgress, 2000)
-              }
-            }
-          }
-          
-          // Start polling immediately
-          pollingTimeoutRef.current = setTimeout(pollProgress, 500)
-        } else {
-          // Already complete, check status
-          // #region agent log
-          const logDataFrontendCheck = {
-            location: 'app/import-csv/page.tsx:720',
-            message: 'Frontend: Checking completion status',
-            data: {
-              sessionId: result.sessionId,
-            },
-            timestamp: Date.now(),
-            sessionId: 'debug-session',
-            runId: 'run1',
-            hypothesisId: 'B',
-          };
-          console.log('[DEBUG] Frontend Checking Completion:', logDataFrontendCheck);
-          fetch('http://127.0.0.1:7242/ingest/d1e8ad3f-7e52-4016-811c-8857d824b667', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(logDataFrontendCheck) }).catch(() => {});
-          // #endregion
-          const progressResponse = await fetch(
-            `/api/import/csv/progress-simple?sessionId=${result.sessionId}`
-          )
-          if (progressResponse.ok) {
-            const progressData = await progressResponse.json()
-            setImportProgress({
-              sessionId: result.sessionId,
-              totalRows: progressData.totalRows || result.totalRows,
-              rowsProcessed: progressData.rowsProcessed || 0,
-              percentage: progressData.percentage || 0,
-              status: progressData.status || 'in_progress',
-            })
-            if (progressData.status === 'completed') {
-              setLoading(false)
-              setPollingActive(false)
-              pollingActiveRef.current = false
-              alert(`Import completed!\n\nProcessed: ${progressData.rowsProcessed} rows`)
-              router.push('/releases').catch(() => { window.location.href = '/releases' })
-            } else if (progressData.status === 'in_progress' && progressData.rowsProcessed < progressData.totalRows) {
-              // Still in progress but frontend thought it was done - continue processing
-              pollingTimeoutRef.current = setTimeout(processNextBatch, 100)
-            }
-          } else {
-            // Progress check failed - try to continue with batch processor anyway
-            console.warn('Progress check failed, continuing with batch processor')
-            pollingTimeoutRef.current = setTimeout(processNextBatch, 1000)
-          }
-        }
+        // Rows are processed by the server's import worker, which keeps going
+        // if this tab is closed, so the page only watches progress
+        setWatchedSessionId(result.sessionId)
       } else {
         throw new Error('No session ID returned')
       }
@@ -1033,7 +505,16 @@ export default function ImportCSVPage() {
     if (mapping.fieldType === 'song') {
       return SONG_FIELDS
     } else if (mapping.fieldType === 'submission') {
-      return SUBMISSION_FIELDS
+      // Request, status and channel fields of every platform in the registry
+      const platformFields: ImportPlatformFields[] = preview?.platformFields || []
+      return [
+        ...SUBMISSION_FIELDS,
+        ...platformFields.flatMap(fields => [
+          { value: fields.key, label: `${fields.name} Request` },
+          { value: fields.statusKey, label: `${fields.name} Status` },
+          { value: fields.channelKey, label: `${fields.name} Channels` },
+        ]),
+      ]
     }
     return []
   }
@@ -1046,7 +527,7 @@ export default function ImportCSVPage() {
         <CardHeader>
           <CardTitle>Import CSV Files</CardTitle>
           <CardDescription>
-            Upload CSV files to import releases with manual column mapping
+            Upload CSV, Excel (.xlsx) or OpenDocument (.ods) files to import releases with manual column mapping
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
@@ -1055,14 +536,14 @@ export default function ImportCSVPage() {
             <Upload className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
             <input
               type="file"
-              accept=".csv"
+              accept=".csv,.xlsx,.xls,.ods"
               onChange={handleFileSelect}
               className="hidden"
               id="csv-upload"
             />
             <label htmlFor="csv-upload">
               <Button variant="outline" asChild>
-                <span>Select CSV File</span>
+                <span>Select CSV or Excel File</span>
               </Button>
             </label>
             {file && (
@@ -1070,11 +551,92 @@ export default function ImportCSVPage() {
                 <p className="text-sm text-muted-foreground flex items-center justify-center gap-2">
                   <FileSpreadsheet className="w-4 h-4" />
                   {file.name}
+                  {fileSource && ` • ${fileSource.totalRows} rows`}
                 </p>
               </div>
             )}
           </div>
 
+          {/* Sheet, header row and encoding */}
+          {file && fileSource && (
+            <div className="grid gap-4 md:grid-cols-3">
+              {fileSource.sheets.length > 1 && (
+                <div className="space-y-1.5">
+                  <Label>Sheet</Label>
+                  <Select
+                    value={fileSource.sheet || ''}
+                    onValueChange={(sheet) => loadFile(file, { sheet })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {fileSource.sheets.map(sheet => (
+                        <SelectItem key={sheet} value={sheet}>{sheet}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-1.5">
+                <Label>Header row</Label>
+                <Select
+                  value={String(fileSource.headerRow)}
+                  onValueChange={(value) => loadFile(file, {
+                    sheet: fileSource.sheet,
+                    headerRow: parseInt(value, 10),
+                    encoding: encodingChoice,
+                  })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {fileSource.headerCandidates.map((cells, index) => (
+                      <SelectItem key={index} value={String(index + 1)}>
+                        Row {index + 1}: {cells.filter(Boolean).slice(0, 4).join(', ') || '(empty)'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {fileSource.fileType === 'csv' && (
+                <div className="space-y-1.5">
+                  <Label>Encoding</Label>
+                  <Select
+                    value={encodingChoice}
+                    onValueChange={(encoding) => {
+                      setEncodingChoice(encoding)
+                      loadFile(file, { headerRow: fileSource.headerRow, encoding })
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ENCODING_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.value === 'auto' && fileSource.encoding
+                            ? `${option.label} (${fileSource.encoding})`
+                            : option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {fileSource.zawgyiCells > 0 && (
+                <div className="md:col-span-3 p-3 border border-amber-300 bg-amber-50 dark:bg-amber-950/20 rounded-lg text-sm flex items-start gap-2">
+                  <AlertCircle className="w-4 h-4 mt-0.5 text-amber-600 shrink-0" />
+                  <span>
+                    {fileSource.zawgyiCells} cell(s) look like Zawgyi-encoded Myanmar text. They will be converted to Unicode
+                    on import, so check names and titles in the preview.
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Error Message */}
           {error && (
             <div className="p-4 bg-destructive/10 text-destructive rounded-lg flex items-center gap-2">
@@ -1142,6 +704,12 @@ export default function ImportCSVPage() {
                 <CardDescription>
                   Map each CSV column to a target field. Auto-suggestions are provided, but you can customize them.
                 </CardDescription>
+                <MappingTemplateMenu
+                  headers={preview.headers}
+                  currentMappingConfig={buildMappingConfig()}
+                  suggestions={preview.templateSuggestions}
+                  onApply={applyTemplateColumns}
+                />
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
@@ -1273,6 +841,21 @@ export default function ImportCSVPage() {
                         style={{ width: `${importProgress.percentage}%` }}
                       />
                     </div>
+                    {liveProgress && (
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>
+                          {liveProgress.releasesCreated} release(s) created
+                          , {liveProgress.tracksCreated} track(s)
+                        </span>
+                        {liveProgress.status === 'in_progress' && (
+                          <span>
+                            {liveProgress.estimatedTimeRemaining !== null
+                              ? `About ${formatTimeRemaining(liveProgress.estimatedTimeRemaining)} left (${liveProgress.rowsPerSecond} rows/s)`
+                              : 'Calculating time left...'}
+                          </span>
+                        )}
+                      </div>
+                    )}
                     <div className="flex items-center justify-between">
                       <p className="text-xs text-muted-foreground">
                         Status: {importProgress.status === 'paused' ? '⏸️ Paused' : importProgress.status === 'in_progress' ? '▶️ In Progress' : importProgress.status}
@@ -1325,25 +908,10 @@ export default function ImportCSVPage() {
                               
                               setLoading(true)
                               try {
-                                // Try to get file content if available, otherwise resume without it
-                                // The import loop will automatically continue when status changes to 'in_progress'
-                                let csvContent: string | undefined = undefined
-                                if (file) {
-                                  try {
-                                    csvContent = await file.text()
-                                  } catch (e) {
-                                    // File might not be available, that's okay
-                                    console.log('File not available, resuming without CSV content')
-                                  }
-                                }
-                                
                                 const response = await fetch('/api/import/csv/resume-import', {
                                   method: 'POST',
                                   headers: { 'Content-Type': 'application/json' },
-                                  body: JSON.stringify({
-                                    sessionId: importProgress.sessionId,
-                                    csvContent: csvContent,
-                                  }),
+                                  body: JSON.stringify({ sessionId: importProgress.sessionId }),
                                 })
                                 
                                 if (!response.ok) {
@@ -1355,10 +923,9 @@ export default function ImportCSVPage() {
                                 setImportProgress(prev => prev ? { ...prev, status: 'in_progress' } : null)
                                 setLoading(false)
                                 alert(`Import resumed from row ${result.resumingFrom}`)
-                                
-                                // Restart polling
-                                setPollingActive(true)
-                                pollingActiveRef.current = true
+
+                                // Watching continues through a pause
+                                setWatchedSessionId(importProgress.sessionId)
                               } catch (error: any) {
                                 setError(error.message || 'Failed to resume import')
                                 setLoading(false)
@@ -1400,7 +967,7 @@ export default function ImportCSVPage() {
                       )}
                       {importStats.sampleErrors.length > 0 && (
                         <div className="space-y-1">
-                          <p className="text-xs font-medium text-muted-foreground">Sample Errors:</p>
+                          <p className="text-xs font-medium text-muted-foreground">Latest Errors:</p>
                           <div className="space-y-1 max-h-32 overflow-y-auto">
                             {importStats.sampleErrors.map((err, idx) => (
                               <p key={idx} className="text-xs text-destructive">
@@ -1426,32 +993,23 @@ export default function ImportCSVPage() {
                     </div>
                   )}
                   
-                  {/* Resume button if import appears stuck */}
-                  {importProgress.status === 'in_progress' && file && (
+                  {/* Restart the worker if the import appears stuck */}
+                  {importProgress.status === 'in_progress' && (
                     <div className="pt-2 border-t">
                       <p className="text-sm text-muted-foreground mb-2">
-                        If the import appears stuck, you can resume it by clicking the button below.
+                        The import runs on the server, so you can close this page. If progress
+                        stops moving for a few minutes, restart it from the last processed row.
                       </p>
                       <Button
                         variant="outline"
                         onClick={async () => {
                           if (!importProgress.sessionId) return
                           
-                          setLoading(true)
                           try {
-                            // Try to get CSV content from file if available, otherwise let API get it from session
-                            let csvContent: string | undefined
-                            if (file) {
-                              csvContent = await file.text()
-                            }
-                            
                             const response = await fetch('/api/import/csv/resume-import', {
                               method: 'POST',
                               headers: { 'Content-Type': 'application/json' },
-                              body: JSON.stringify({
-                                sessionId: importProgress.sessionId,
-                                csvContent: csvContent, // May be undefined, API will get from session
-                              }),
+                              body: JSON.stringify({ sessionId: importProgress.sessionId }),
                             })
                             
                             if (!response.ok) {
@@ -1459,41 +1017,15 @@ export default function ImportCSVPage() {
                               throw new Error(error.error || 'Failed to resume import')
                             }
                             
-                            const result = await response.json()
-                            setImportProgress(prev => prev ? { ...prev, status: 'in_progress' } : null)
-                            setLoading(false)
-                            
-                            // Restart polling immediately - batch processor will handle processing
-                            setPollingActive(true)
-                            pollingActiveRef.current = true
-                            
-                            // Trigger batch processor immediately
-                            if (result.sessionId) {
-                              // Call batch processor directly to start processing
-                              setTimeout(async () => {
-                                try {
-                                  const batchResponse = await fetch('/api/import/csv/process-batch', {
-                                    method: 'POST',
-                                    headers: { 'Content-Type': 'application/json' },
-                                    body: JSON.stringify({ sessionId: result.sessionId }),
-                                  })
-                                  if (batchResponse.ok) {
-                                    const batchData = await batchResponse.json()
-                                    console.log('Batch processor started:', batchData)
-                                  }
-                                } catch (e) {
-                                  console.error('Failed to trigger batch processor:', e)
-                                }
-                              }, 100)
-                            }
+                            await response.json()
+                            setWatchedSessionId(importProgress.sessionId)
                           } catch (error: any) {
                             setError(error.message || 'Failed to resume import')
-                            setLoading(false)
                           }
                         }}
-                        disabled={loading || !importProgress.sessionId}
+                        disabled={!importProgress.sessionId}
                       >
-                        Resume Import
+                        Restart Import
                       </Button>
                     </div>
                   )}
@@ -1513,11 +1045,27 @@ export default function ImportCSVPage() {
             />
           )}
 
+          {/* Dry Run Report */}
+          {dryRun && file && (
+            <ImportDryRunReport
+              result={dryRun}
+              fileName={file.name}
+              onClose={() => setDryRun(null)}
+            />
+          )}
+
           {/* Actions */}
           <div className="flex justify-end gap-2">
             <Button variant="outline" onClick={() => router.back()} disabled={loading}>
               Cancel
             </Button>
+            <Button
+              variant="outline"
+              onClick={handleDryRun}
+              disabled={!file || !preview || loading || dryRunning || mappings.length === 0}
+            >
+              {dryRunning ? 'Running Dry Run...' : 'Dry Run'}
+            </Button>
             <Button
               onClick={handleImport}
               disabled={!file || !preview || loading || mappings.length === 0}
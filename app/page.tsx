@@ -1,6 +1,7 @@
 import { redirect } from 'next/navigation'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
 import { canAccessRoute } from '@/lib/permissions'
 import { UserRole } from '@prisma/client'
 import { getRoleRedirectPath } from '@/lib/role-redirect'
@@ -13,7 +14,7 @@ export default async function Home() {
   }
 
   const userRole = session.user.role as UserRole
-  const redirectPath = getRoleRedirectPath(userRole)
+  const redirectPath = await getRoleRedirectPath(prisma, { id: session.user.id, role: userRole })
   redirect(redirectPath)
 }
 
@@ -5,15 +5,8 @@ import { prisma } from '@/lib/db'
 import { UserRole, PlatformRequestStatus } from '@prisma/client'
 import { PlatformRequestUpdateForm } from '@/components/platform-request-update-form'
 import { FocusedLayout } from '@/components/focused-layout'
-
-const PLATFORM_MAP: Record<string, string> = {
-  youtube: 'youtube',
-  flow: 'flow',
-  ringtunes: 'ringtunes',
-  'international-streaming': 'international_streaming',
-  facebook: 'facebook',
-  tiktok: 'tiktok',
-}
+import { decisionHistoryInclude, getRejectionReasons } from '@/lib/rejection-reasons'
+import { getPlatforms, findPlatformByPath, canUpdatePlatformRequests } from '@/lib/platforms'
 
 export default async function PlatformRequestUpdatePage({
   params,
@@ -26,27 +19,17 @@ export default async function PlatformRequestUpdatePage({
   }
 
   const platformSlug = params.platform
-  const platformName = PLATFORM_MAP[platformSlug]
+  const platform = findPlatformByPath(await getPlatforms(prisma, { includeInactive: true }), platformSlug)
 
-  if (!platformName) {
+  if (!platform) {
     notFound()
   }
 
+  const platformName = platform.slug
   const userRole = session.user.role as UserRole
 
   // Check access - platform team members, A&R, Admin, Manager can update
-  const canUpdate = 
-    userRole === UserRole.ADMIN ||
-    userRole === UserRole.MANAGER ||
-    userRole === UserRole.A_R ||
-    (userRole === UserRole.PLATFORM_YOUTUBE && platformName === 'youtube') ||
-    (userRole === UserRole.PLATFORM_FLOW && platformName === 'flow') ||
-    (userRole === UserRole.PLATFORM_RINGTUNES && platformName === 'ringtunes') ||
-    (userRole === UserRole.PLATFORM_INTERNATIONAL_STREAMING && platformName === 'international_streaming') ||
-    (userRole === UserRole.PLATFORM_FACEBOOK && platformName === 'facebook') ||
-    (userRole === UserRole.PLATFORM_TIKTOK && platformName === 'tiktok')
-
-  if (!canUpdate) {
+  if (!canUpdatePlatformRequests(platform, { id: session.user.id, role: userRole })) {
     redirect('/dashboard')
   }
 
@@ -62,16 +45,7 @@ export default async function PlatformRequestUpdatePage({
       track: true,
       decisions: {
         orderBy: { createdAt: 'desc' },
-        include: {
-          user: {
-            select: {
-              id: true,
-              email: true,
-              name: true,
-              role: true,
-            },
-          },
-        },
+        include: decisionHistoryInclude,
       },
     },
   })
@@ -80,8 +54,8 @@ export default async function PlatformRequestUpdatePage({
     notFound()
   }
 
-  // Get channels for this platform (if YouTube or Facebook)
-  const channels = (platformName === 'youtube' || platformName === 'facebook')
+  // Get channels for this platform (if it has channels)
+  const channels = platform.supportsChannels
     ? await prisma.platformChannel.findMany({
         where: {
           platform: platformName,
@@ -91,6 +65,8 @@ export default async function PlatformRequestUpdatePage({
       })
     : []
 
+  const rejectionReasons = await getRejectionReasons(prisma, platformName)
+
   return (
     <FocusedLayout
       title="Update Platform Request"
@@ -99,8 +75,10 @@ export default async function PlatformRequestUpdatePage({
       <div className="max-w-4xl mx-auto">
         <PlatformRequestUpdateForm 
           request={request} 
-          platform={platformName}
+          platformSlug={platformSlug}
+          requiredUploadFields={platform.requiredUploadFields}
           channels={channels}
+          rejectionReasons={rejectionReasons}
         />
       </div>
     </FocusedLayout>
@@ -7,29 +7,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { PlatformRequestListItem } from '@/components/platform-request-list-item'
 import { FocusedLayout } from '@/components/focused-layout'
 import { PlatformRequestsTable } from '@/components/platform-requests-table'
-
-const PLATFORM_MAP: Record<string, string> = {
-  youtube: 'youtube',
-  flow: 'flow',
-  ringtunes: 'ringtunes',
-  'international-streaming': 'international_streaming',
-  facebook: 'facebook',
-  tiktok: 'tiktok',
-}
-
-const ROLE_PLATFORM_MAP: Record<UserRole, string | null> = {
-  [UserRole.PLATFORM_YOUTUBE]: 'youtube',
-  [UserRole.PLATFORM_FLOW]: 'flow',
-  [UserRole.PLATFORM_RINGTUNES]: 'ringtunes',
-  [UserRole.PLATFORM_INTERNATIONAL_STREAMING]: 'international_streaming',
-  [UserRole.PLATFORM_FACEBOOK]: 'facebook',
-  [UserRole.PLATFORM_TIKTOK]: 'tiktok',
-  [UserRole.ADMIN]: null, // Admin can access all
-  [UserRole.MANAGER]: null, // Manager can access all
-  [UserRole.A_R]: null,
-  [UserRole.DATA_TEAM]: null,
-  [UserRole.CLIENT]: null,
-}
+import { getRejectionReasons } from '@/lib/rejection-reasons'
+import { getPlatforms, findPlatformByPath, isPlatformTeamMember, isPlatformLead } from '@/lib/platforms'
+import { getClaimCutoff, getPlatformTeam, isClaimActive, queueWhere, type PlatformQueue } from '@/lib/platform-queue'
+import { buildOverdueWhere, getRequestSla, hasSla } from '@/lib/platform-sla'
 
 export default async function PlatformPage({
   params,
@@ -40,6 +21,7 @@ export default async function PlatformPage({
     status?: string
     channel?: string
     search?: string
+    queue?: string
     page?: string
   }
 }) {
@@ -49,14 +31,15 @@ export default async function PlatformPage({
   }
 
   const platformSlug = params.platform
-  const platformName = PLATFORM_MAP[platformSlug]
+  const platform = findPlatformByPath(await getPlatforms(prisma, { includeInactive: true }), platformSlug)
 
-  if (!platformName) {
+  if (!platform) {
     return <div>Invalid platform</div>
   }
 
+  const platformName = platform.slug
   const userRole = session.user.role as UserRole
-  const userPlatform = ROLE_PLATFORM_MAP[userRole]
+  const isTeamMember = isPlatformTeamMember(platform, { id: session.user.id, role: userRole })
 
   // Check access
   if (
@@ -64,14 +47,15 @@ export default async function PlatformPage({
     userRole !== UserRole.MANAGER &&
     userRole !== UserRole.A_R &&
     userRole !== UserRole.DATA_TEAM &&
-    userPlatform !== platformName
+    !isTeamMember
   ) {
     redirect('/dashboard')
   }
 
-  // Build where clause for filtering
+  // Build where clause for filtering. Track requests are listed under their release's request.
   const where: any = {
     platform: platformName,
+    parentRequestId: null,
   }
 
   // For platform employees (not admin/manager), only show requests with channels assigned
@@ -80,17 +64,22 @@ export default async function PlatformPage({
                              userRole !== UserRole.MANAGER && 
                              userRole !== UserRole.A_R && 
                              userRole !== UserRole.DATA_TEAM &&
-                             userPlatform === platformName
+                             isTeamMember
   
-  const hasChannels = platformName === 'youtube' || platformName === 'facebook'
-  
-  if (isPlatformEmployee && hasChannels) {
+  if (isPlatformEmployee && platform.supportsChannels) {
     // Platform employees can only see requests that have a channel assigned
     where.channelName = { not: null }
   }
 
-  // Status filter
-  if (searchParams.status && searchParams.status !== 'all') {
+  const now = new Date()
+
+  // Queue tab counts ignore the other filters
+  const queueCountWhere = { ...where }
+
+  // Status filter; "overdue" is pending requests past the platform's SLA
+  if (searchParams.status === 'overdue') {
+    where.AND = [buildOverdueWhere([platform], now)]
+  } else if (searchParams.status && searchParams.status !== 'all') {
     where.status = searchParams.status as PlatformRequestStatus
   }
 
@@ -99,6 +88,14 @@ export default async function PlatformPage({
     where.channelName = searchParams.channel
   }
 
+  // Queue tabs: the user's active claims, or pending requests nobody is working
+  const claimCutoff = getClaimCutoff(platform, now)
+  const queue: PlatformQueue | null =
+    searchParams.queue === 'mine' || searchParams.queue === 'unclaimed' ? searchParams.queue : null
+  if (queue) {
+    where.AND = [...(where.AND || []), queueWhere(queue, claimCutoff, session.user.id)]
+  }
+
   // Search filter
   if (searchParams.search) {
     where.OR = [
@@ -132,9 +129,46 @@ export default async function PlatformPage({
                 email: true,
               },
             },
+            rejectionReason: {
+              select: { label: true },
+            },
           },
         },
         channel: true,
+        assignee: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        trackRequests: {
+          include: {
+            track: {
+              select: {
+                id: true,
+                name: true,
+                trackNumber: true,
+              },
+            },
+            decisions: {
+              orderBy: { createdAt: 'desc' },
+              take: 1,
+              include: {
+                user: {
+                  select: {
+                    name: true,
+                    email: true,
+                  },
+                },
+                rejectionReason: {
+                  select: { label: true },
+                },
+              },
+            },
+          },
+          orderBy: { track: { trackNumber: 'asc' } },
+        },
       },
       orderBy: { createdAt: 'desc' },
       skip: (page - 1) * pageSize,
@@ -143,8 +177,8 @@ export default async function PlatformPage({
     prisma.platformRequest.count({ where }),
   ])
 
-  // Get channels for this platform (if YouTube or other multi-channel platforms)
-  const channels = platformName === 'youtube' || platformName === 'facebook'
+  // Get channels for this platform (if it has channels, like YouTube)
+  const channels = platform.supportsChannels
     ? await prisma.platformChannel.findMany({
         where: {
           platform: platformName,
@@ -154,6 +188,8 @@ export default async function PlatformPage({
       })
     : []
 
+  const rejectionReasons = await getRejectionReasons(prisma, platformName)
+
   // Get counts for stats
   const [pendingCount, uploadedCount, rejectedCount] = await Promise.all([
     prisma.platformRequest.count({ where: { ...where, status: PlatformRequestStatus.PENDING } }),
@@ -162,11 +198,23 @@ export default async function PlatformPage({
   ])
 
   const totalPages = Math.ceil(total / pageSize)
-  const platformDisplayName = platformName.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())
+
+  const requestsWithSla = requests.map(request => ({
+    ...request,
+    sla: getRequestSla(platform, request, now),
+    claimActive: isClaimActive(request, claimCutoff),
+  }))
+
+  const isLead = isPlatformLead(platform, { id: session.user.id, role: userRole })
+  const [myQueueCount, unclaimedCount, team] = await Promise.all([
+    prisma.platformRequest.count({ where: { AND: [queueCountWhere, queueWhere('mine', claimCutoff, session.user.id)] } }),
+    prisma.platformRequest.count({ where: { AND: [queueCountWhere, queueWhere('unclaimed', claimCutoff, session.user.id)] } }),
+    isLead ? getPlatformTeam(prisma, platform) : Promise.resolve([]),
+  ])
 
   return (
     <FocusedLayout
-      title={`${platformDisplayName} Portal`}
+      title={`${platform.name} Portal`}
       description="Review and approve/reject platform requests for upload"
     >
       <div className="space-y-6">
@@ -200,15 +248,22 @@ export default async function PlatformPage({
 
         {/* Requests Table */}
         <PlatformRequestsTable
-          requests={requests as any}
+          requests={requestsWithSla as any}
           platformSlug={platformSlug}
           platformName={platformName}
+          requiredUploadFields={platform.requiredUploadFields}
+          hasSla={hasSla(platform)}
           channels={channels}
+          rejectionReasons={rejectionReasons}
           total={total}
           currentPage={page}
           totalPages={totalPages}
           searchParams={searchParams}
           userRole={userRole}
+          currentUserId={session.user.id}
+          queue={{ current: queue, mine: myQueueCount, unclaimed: unclaimedCount }}
+          isLead={isLead}
+          team={team}
         />
       </div>
     </FocusedLayout>
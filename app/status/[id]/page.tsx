@@ -5,6 +5,7 @@ import { prisma } from '@/lib/db'
 import { UserRole } from '@prisma/client'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { formatDate } from '@/lib/utils'
+import { ResubmitRequestButton } from '@/components/platform-request-resubmit'
 
 export default async function StatusPage({
   params,
@@ -30,7 +31,30 @@ export default async function StatusPage({
       tracks: {
         orderBy: { trackNumber: 'asc' },
       },
-      platformRequests: true,
+      platformRequests: {
+        orderBy: { createdAt: 'asc' },
+        include: {
+          track: { select: { name: true } },
+          _count: { select: { trackRequests: true } },
+          // Public page: staff identities are never selected, and only resubmission notes are shown
+          decisions: {
+            orderBy: { createdAt: 'desc' },
+            select: {
+              id: true,
+              status: true,
+              createdAt: true,
+              resubmissionOfId: true,
+              notes: true,
+              rejectionReason: {
+                select: {
+                  label: true,
+                  description: true,
+                },
+              },
+            },
+          },
+        },
+      },
     },
   })
 
@@ -39,13 +63,23 @@ export default async function StatusPage({
   }
 
   // Status page is public - anyone with the link can view
+  const session = await getServerSession(authOptions)
+  const role = session?.user?.role as UserRole | undefined
+  const canResubmitWithoutEmail =
+    role === UserRole.ADMIN ||
+    role === UserRole.MANAGER ||
+    role === UserRole.A_R ||
+    (!!session?.user?.id && release.artist.user?.id === session.user.id)
 
   // Determine overall status
   const hasUploaded = release.platformRequests.some(p => p.status === 'UPLOADED')
+  const hasRejected = release.platformRequests.some(p => p.status === 'REJECTED')
   const allPending = release.platformRequests.every(p => p.status === 'PENDING')
 
   let status = 'In Review'
-  if (hasUploaded) {
+  if (hasRejected) {
+    status = 'Action Needed'
+  } else if (hasUploaded) {
     status = 'Uploaded'
   } else if (allPending) {
     status = 'Pending Review'
@@ -91,18 +125,63 @@ export default async function StatusPage({
               <div>
                 <h3 className="font-semibold mb-2">Platform Status</h3>
                 <div className="space-y-2">
-                  {release.platformRequests.map((request) => (
-                    <div key={request.id} className="flex justify-between items-center p-2 border rounded text-sm">
-                      <span className="capitalize">{request.platform.replace('_', ' ')}</span>
-                      <span className={`px-2 py-1 rounded ${
-                        request.status === 'UPLOADED' ? 'bg-flow-green/20 text-flow-green-foreground dark:bg-flow-green/30 dark:text-flow-green' :
-                        request.status === 'REJECTED' ? 'bg-destructive/20 text-destructive dark:bg-destructive/30 dark:text-destructive' :
-                        'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
-                      }`}>
-                        {request.status}
-                      </span>
-                    </div>
-                  ))}
+                  {release.platformRequests.map((request) => {
+                    const platformLabel = request.platform.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())
+                      + (request.track ? ` · ${request.track.name}` : '')
+                    const lastDecision = request.decisions[0]
+
+                    return (
+                      <div key={request.id} className="p-2 border rounded text-sm space-y-2">
+                        <div className="flex justify-between items-center">
+                          <span>{platformLabel}</span>
+                          <span className={`px-2 py-1 rounded ${
+                            request.status === 'UPLOADED' ? 'bg-flow-green/20 text-flow-green-foreground dark:bg-flow-green/30 dark:text-flow-green' :
+                            request.status === 'REJECTED' ? 'bg-destructive/20 text-destructive dark:bg-destructive/30 dark:text-destructive' :
+                            'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
+                          }`}>
+                            {request.status === 'PENDING' && request.resubmissionCount > 0 ? 'RESUBMITTED' : request.status}
+                          </span>
+                        </div>
+
+                        {/* Releases reviewed track by track are resubmitted from their rejected tracks */}
+                        {request.status === 'REJECTED' && request._count.trackRequests === 0 && (
+                          <div className="rounded bg-destructive/5 p-3 space-y-2">
+                            <div className="font-medium">
+                              {lastDecision?.rejectionReason?.label || 'Not accepted by the platform'}
+                            </div>
+                            {lastDecision?.rejectionReason?.description && (
+                              <p className="text-muted-foreground">{lastDecision.rejectionReason.description}</p>
+                            )}
+                            <ResubmitRequestButton
+                              requestId={request.id}
+                              platformLabel={platformLabel}
+                              requireEmail={!canResubmitWithoutEmail}
+                            />
+                          </div>
+                        )}
+
+                        {request.decisions.length > 1 && (
+                          <details className="text-xs text-muted-foreground">
+                            <summary className="cursor-pointer">History</summary>
+                            <ul className="mt-2 space-y-1">
+                              {request.decisions.map((decision) => (
+                                <li key={decision.id}>
+                                  {formatDate(decision.createdAt)}:{' '}
+                                  {decision.resubmissionOfId
+                                    ? `Resubmitted${decision.notes ? ` - ${decision.notes}` : ''}`
+                                    : decision.status === 'REJECTED'
+                                      ? `Rejected${decision.rejectionReason ? ` (${decision.rejectionReason.label})` : ''}`
+                                      : decision.status === 'UPLOADED'
+                                        ? 'Uploaded'
+                                        : 'In review'}
+                                </li>
+                              ))}
+                            </ul>
+                          </details>
+                        )}
+                      </div>
+                    )
+                  })}
                 </div>
               </div>
             )}
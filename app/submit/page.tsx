@@ -9,7 +9,7 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { Plus, Trash2, CheckCircle2, Moon, Sun } from 'lucide-react'
+import { Plus, Trash2, CheckCircle2, Moon, Sun, Copy, History } from 'lucide-react'
 import { ArtistMultiSelect } from '@/components/artist-multi-select'
 import { useToast } from '@/hooks/use-toast'
 import { useTheme } from 'next-themes'
@@ -25,6 +25,27 @@ interface Song {
   genre: string
 }
 
+interface SavedDraft {
+  token: string
+  version: number
+  updatedAt: string
+  expiresAt: string
+  data: {
+    step?: number
+    artistIds?: string[]
+    legalName?: string
+    contactEmail?: string
+    contactPhone?: string
+    releaseType?: 'SINGLE' | 'ALBUM'
+    releaseTitle?: string
+    artistsChosenDate?: string
+    songs?: Song[]
+  }
+}
+
+// Remembers the anonymous resume token on this browser
+const DRAFT_TOKEN_STORAGE_KEY = 'submissionDraftToken'
+
 export default function SubmitPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
@@ -45,6 +66,12 @@ export default function SubmitPage() {
   const [saving, setSaving] = useState(false)
   const [language, setLanguage] = useState<'en' | 'my'>('my') // Default to Myanmar for clients
   const [formFields, setFormFields] = useState<any[]>([])
+  const [draftToken, setDraftToken] = useState<string | null>(null)
+  const [draftVersion, setDraftVersion] = useState<number | null>(null)
+  const [draftChecked, setDraftChecked] = useState(false) // Autosave waits until we know whether a draft exists
+  const [pendingDraft, setPendingDraft] = useState<SavedDraft | null>(null)
+  const [showResumeInput, setShowResumeInput] = useState(false)
+  const [resumeCode, setResumeCode] = useState('')
   const formRefs = useRef<{ [key: string]: HTMLInputElement | null }>({})
 
   // Keyboard shortcuts
@@ -104,8 +131,37 @@ export default function SubmitPage() {
       })
   }, [])
 
+  // Look for a draft to resume: ?draft= link, this browser's token, or the signed-in user's latest draft
+  useEffect(() => {
+    if (status === 'loading') return
+
+    const linkToken = new URLSearchParams(window.location.search).get('draft')
+    const token = linkToken || localStorage.getItem(DRAFT_TOKEN_STORAGE_KEY)
+
+    fetch(`/api/submissions/draft${token ? `?token=${encodeURIComponent(token)}` : ''}`)
+      .then(res => res.json())
+      .then(data => {
+        if (!data.draft) {
+          if (token) localStorage.removeItem(DRAFT_TOKEN_STORAGE_KEY)
+          return
+        }
+        if (linkToken) {
+          // Opened from a resume link, so resume straight away
+          applyDraft(data.draft)
+        } else {
+          setPendingDraft(data.draft)
+        }
+      })
+      .catch(() => {
+        // Start with an empty form if the draft can't be loaded
+      })
+      .finally(() => setDraftChecked(true))
+  }, [status])
+
   // Autosave draft
   useEffect(() => {
+    if (!draftChecked || pendingDraft) return
+
     const timer = setTimeout(() => {
       if (artistIds.length > 0 || releaseTitle) {
         saveDraft()
@@ -113,7 +169,7 @@ export default function SubmitPage() {
     }, 2000)
 
     return () => clearTimeout(timer)
-  }, [artistIds, legalName, releaseType, releaseTitle, artistsChosenDate, songs])
+  }, [draftChecked, pendingDraft, step, artistIds, legalName, contactEmail, contactPhone, releaseType, releaseTitle, artistsChosenDate, songs])
 
   // Helper function to get field label (always English)
   const getFieldLabel = (fieldName: string, defaultLabel: string): string => {
@@ -136,21 +192,105 @@ export default function SubmitPage() {
     return field.placeholder || defaultPlaceholder
   }
 
+  const applyDraft = (draft: SavedDraft) => {
+    const data = draft.data || {}
+    setArtistIds(data.artistIds || [])
+    setLegalName(data.legalName || '')
+    setContactEmail(data.contactEmail || '')
+    setContactPhone(data.contactPhone || '')
+    setReleaseType(data.releaseType === 'ALBUM' ? 'ALBUM' : 'SINGLE')
+    setReleaseTitle(data.releaseTitle || '')
+    setArtistsChosenDate(data.artistsChosenDate || '')
+    if (data.songs && data.songs.length > 0) {
+      setSongs(data.songs)
+    }
+    setStep(data.step && data.step >= 1 && data.step <= 4 ? data.step : 1)
+    setDraftToken(draft.token)
+    setDraftVersion(draft.version)
+    localStorage.setItem(DRAFT_TOKEN_STORAGE_KEY, draft.token)
+    setPendingDraft(null)
+  }
+
+  const discardPendingDraft = async () => {
+    if (!pendingDraft) return
+    try {
+      await fetch(`/api/submissions/draft?token=${encodeURIComponent(pendingDraft.token)}`, { method: 'DELETE' })
+    } catch (error) {
+      console.error('Failed to discard draft:', error)
+    }
+    localStorage.removeItem(DRAFT_TOKEN_STORAGE_KEY)
+    setPendingDraft(null)
+  }
+
+  const resumeWithCode = async () => {
+    // Accept either the bare code or the full resume link
+    const input = resumeCode.trim()
+    const linkMatch = input.match(/[?&]draft=([^&#]+)/)
+    const code = linkMatch ? decodeURIComponent(linkMatch[1]) : input
+    if (!code) return
+
+    try {
+      const response = await fetch(`/api/submissions/draft?token=${encodeURIComponent(code)}`)
+      const data = await response.json()
+      if (!response.ok || !data.draft) {
+        throw new Error(data.error || 'Draft not found or expired')
+      }
+      applyDraft(data.draft)
+      setShowResumeInput(false)
+      setResumeCode('')
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load draft",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const copyResumeLink = async () => {
+    if (!draftToken) return
+    const link = `${window.location.origin}/submit?draft=${encodeURIComponent(draftToken)}`
+    try {
+      await navigator.clipboard.writeText(link)
+      toast({
+        title: "Copied",
+        description: language === 'my' ? 'ပြန်လည်ဆက်လက်ရန် link ကို ကူးယူပြီးပါပြီ' : 'Resume link copied to clipboard',
+      })
+    } catch {
+      toast({
+        title: "Resume link",
+        description: link,
+      })
+    }
+  }
+
   const saveDraft = async () => {
     setSaving(true)
     try {
-      await fetch('/api/submissions/draft', {
+      const response = await fetch('/api/submissions/draft', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
+          token: draftToken,
+          baseVersion: draftVersion,
+          step,
           artistIds,
           legalName,
+          contactEmail,
+          contactPhone,
           releaseType,
           releaseTitle,
           artistsChosenDate,
           songs,
         }),
       })
+
+      if (response.ok) {
+        const data = await response.json()
+        setDraftToken(data.token)
+        setDraftVersion(data.version)
+        localStorage.setItem(DRAFT_TOKEN_STORAGE_KEY, data.token)
+      }
     } catch (error) {
       console.error('Failed to save draft:', error)
     } finally {
@@ -206,11 +346,14 @@ export default function SubmitPage() {
           releaseTitle,
           artistsChosenDate: artistsChosenDate || null,
           songs: validSongs,
+          locale: language,
+          draftToken,
         }),
       })
 
       if (response.ok) {
         const data = await response.json()
+        localStorage.removeItem(DRAFT_TOKEN_STORAGE_KEY)
         toast({
           title: "Success!",
           description: "Your release has been submitted successfully.",
@@ -278,6 +421,69 @@ export default function SubmitPage() {
             </div>
           </CardHeader>
           <CardContent className="pt-4 sm:pt-6">
+            {/* Resume draft */}
+            {pendingDraft ? (
+              <div className="mb-6 rounded-lg border border-primary/30 bg-primary/5 p-3 sm:p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                <History className="w-5 h-5 text-primary shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium">
+                    {language === 'my' ? 'သိမ်းဆည်းထားသော မူကြမ်း ရှိပါသည်' : 'You have a saved draft'}
+                    {pendingDraft.data?.releaseTitle ? `: ${pendingDraft.data.releaseTitle}` : ''}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {language === 'my' ? 'နောက်ဆုံး သိမ်းဆည်းချိန် ' : 'Last saved '}
+                    {new Date(pendingDraft.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => applyDraft(pendingDraft)}>
+                    {language === 'my' ? 'ဆက်လုပ်မည်' : 'Resume draft'}
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={discardPendingDraft}>
+                    {language === 'my' ? 'အသစ်စမည်' : 'Start over'}
+                  </Button>
+                </div>
+              </div>
+            ) : draftToken ? (
+              <div className="mb-6 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                <span>
+                  {language === 'my'
+                    ? 'မူကြမ်းကို သိမ်းဆည်းထားပါသည်။ အခြား device တွင် ဆက်လုပ်ရန် link ကို သိမ်းထားပါ။'
+                    : 'Your draft is saved. Keep this link to continue on another device.'}
+                </span>
+                <Button variant="ghost" size="sm" className="h-7 gap-1" onClick={copyResumeLink}>
+                  <Copy className="w-3 h-3" />
+                  {language === 'my' ? 'Link ကူးယူရန်' : 'Copy resume link'}
+                </Button>
+              </div>
+            ) : draftChecked && (
+              <div className="mb-6 flex flex-wrap items-center gap-2 text-xs">
+                {showResumeInput ? (
+                  <>
+                    <Input
+                      value={resumeCode}
+                      onChange={(e) => setResumeCode(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault()
+                          resumeWithCode()
+                        }
+                      }}
+                      placeholder={language === 'my' ? 'မူကြမ်း code' : 'Draft resume code'}
+                      className="h-8 max-w-xs"
+                    />
+                    <Button size="sm" className="h-8" onClick={resumeWithCode}>
+                      {language === 'my' ? 'ဆက်လုပ်မည်' : 'Resume'}
+                    </Button>
+                  </>
+                ) : (
+                  <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setShowResumeInput(true)}>
+                    {language === 'my' ? 'သိမ်းဆည်းထားသော မူကြမ်းကို ဆက်လုပ်မည်' : 'Resume a saved draft'}
+                  </Button>
+                )}
+              </div>
+            )}
+
             {/* Progress Steps - Fixed positioning */}
             <div className="relative mb-6 sm:mb-8 px-2 sm:px-4">
               <div className="relative flex justify-between items-start">
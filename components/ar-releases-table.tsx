@@ -42,6 +42,15 @@ import { formatDate } from '@/lib/utils'
 import { motion } from 'framer-motion'
 import { UserRole } from '@prisma/client'
 import { ReleaseQuickEditDialog } from '@/components/release-quick-edit-dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useFilterOptions } from '@/hooks/use-filter-options'
+import { SavedViewsMenu, type SavedViewData } from '@/components/saved-views-menu'
 
 // Helper function to format platform tag
 function formatPlatformTag(platform: string, channelName: string | null | undefined): string {
@@ -218,6 +227,11 @@ export function ArReleasesTable({
       : <ArrowUp className="w-3 h-3 ml-1" />
   }
 
+  // Facet options with counts under the current filters
+  const assignedAROptions = useFilterOptions('assignedAR')
+  const platformOptions = useFilterOptions('platform')
+  const statusOptions = useFilterOptions('status')
+
   const updateURLParam = (key: string, value: string | null) => {
     const newParams = new URLSearchParams(params.toString())
     if (value && value !== 'all') {
@@ -229,6 +243,30 @@ export function ArReleasesTable({
     router.push(`/ar/releases?${newParams.toString()}`)
   }
 
+  // URL params that make up a saved view's filters (sort and paging are stored separately)
+  const currentViewFilters = Object.fromEntries(
+    Array.from(params.entries()).filter(
+      ([key]) => !['page', 'sortField', 'sortDirection'].includes(key)
+    )
+  )
+
+  const applySavedView = (view: SavedViewData) => {
+    const filters = view.filters || {}
+    setSearch(filters.search || '')
+
+    const columnIds = (view.columns || []).filter(id => COLUMNS.some(c => c.id === id))
+    if (columnIds.length > 0) {
+      setVisibleColumns(new Set(columnIds))
+    }
+
+    const newParams = new URLSearchParams(filters)
+    if (view.sort?.field) {
+      newParams.set('sortField', view.sort.field)
+      newParams.set('sortDirection', view.sort.direction)
+    }
+    router.push(`/ar/releases?${newParams.toString()}`)
+  }
+
   const handleSearch = () => {
     const newParams = new URLSearchParams(params.toString())
     if (search) {
@@ -313,6 +351,59 @@ export function ArReleasesTable({
           </Button>
         </div>
 
+        {/* Facet Filters */}
+        <div className="flex gap-2">
+          <Select
+            value={searchParams.assignedAR || 'all'}
+            onValueChange={(value) => updateURLParam('assignedAR', value)}
+          >
+            <SelectTrigger className="w-[180px] h-9">
+              <SelectValue placeholder="A&R" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All A&Rs</SelectItem>
+              <SelectItem value="unassigned">Unassigned</SelectItem>
+              {assignedAROptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label} ({option.count.toLocaleString()})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={searchParams.platform || 'all'}
+            onValueChange={(value) => updateURLParam('platform', value)}
+          >
+            <SelectTrigger className="w-[160px] h-9">
+              <SelectValue placeholder="Platform" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Platforms</SelectItem>
+              {platformOptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label} ({option.count.toLocaleString()})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={searchParams.status || 'all'}
+            onValueChange={(value) => updateURLParam('status', value)}
+          >
+            <SelectTrigger className="w-[160px] h-9">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              {statusOptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label} ({option.count.toLocaleString()})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Quick Sort Buttons for Dates */}
         <div className="flex gap-2">
           <Button
@@ -337,6 +428,15 @@ export function ArReleasesTable({
           </Button>
         </div>
 
+        <SavedViewsMenu
+          table="ar_releases"
+          currentFilters={currentViewFilters}
+          currentSort={searchParams.sortField ? { field: searchParams.sortField, direction: searchParams.sortDirection || 'asc' } : null}
+          currentColumns={Array.from(visibleColumns)}
+          onApply={applySavedView}
+          applyDefault={Object.keys(currentViewFilters).length === 0 && !searchParams.sortField}
+        />
+
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button variant="outline" size="sm">
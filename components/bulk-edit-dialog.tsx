@@ -1 +1,365 @@
+'use client'
 
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useToast } from '@/hooks/use-toast'
+import { Loader2, Save } from 'lucide-react'
+import type { ReleaseFilterParams } from '@/lib/release-filters'
+
+interface Employee {
+  id: string
+  user: {
+    name: string | null
+    email: string
+    role?: string
+  }
+}
+
+interface BulkEditDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Either explicit release IDs or the filters that select them
+  releaseIds?: string[]
+  filters?: ReleaseFilterParams
+  // Number of releases affected, shown in the title
+  count: number
+  onSuccess?: () => void
+}
+
+type EditableField = 'type' | 'copyrightStatus' | 'videoType' | 'legacyReleaseDate' | 'assignedA_Rs' | 'notes'
+
+const initialFormData = {
+  type: 'SINGLE',
+  copyrightStatus: 'none',
+  videoType: 'NONE',
+  legacyReleaseDate: '',
+  assignedA_RIds: [] as string[],
+  assignedA_RMode: 'replace' as 'replace' | 'add' | 'remove',
+  notes: '',
+  notesMode: 'append' as 'replace' | 'append',
+}
+
+export function BulkEditDialog({
+  open,
+  onOpenChange,
+  releaseIds,
+  filters,
+  count,
+  onSuccess,
+}: BulkEditDialogProps) {
+  const { toast } = useToast()
+  const [loading, setLoading] = useState(false)
+  const [employees, setEmployees] = useState<Employee[]>([])
+  const [enabledFields, setEnabledFields] = useState<Set<EditableField>>(new Set())
+  const [formData, setFormData] = useState(initialFormData)
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setEnabledFields(new Set())
+      setFormData(initialFormData)
+    }
+  }, [open])
+
+  // Fetch A&R employees for assignment
+  useEffect(() => {
+    if (!open || employees.length > 0) return
+    fetch('/api/employees')
+      .then(res => res.json())
+      .then(data => {
+        if (data.employees) {
+          setEmployees(data.employees.filter((e: Employee) => {
+            const role = e.user?.role
+            return role === 'A_R' || role === 'ADMIN' || role === 'MANAGER'
+          }))
+        }
+      })
+      .catch(err => console.error('Failed to fetch employees:', err))
+  }, [open, employees.length])
+
+  const toggleField = (field: EditableField, checked: boolean) => {
+    const next = new Set(enabledFields)
+    if (checked) {
+      next.add(field)
+    } else {
+      next.delete(field)
+    }
+    setEnabledFields(next)
+  }
+
+  const toggleA_R = (employeeId: string) => {
+    const ids = formData.assignedA_RIds.includes(employeeId)
+      ? formData.assignedA_RIds.filter(id => id !== employeeId)
+      : [...formData.assignedA_RIds, employeeId]
+    setFormData({ ...formData, assignedA_RIds: ids })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (enabledFields.size === 0) return
+
+    // Only send the fields the user ticked
+    const patch: Record<string, any> = {}
+    if (enabledFields.has('type')) patch.type = formData.type
+    if (enabledFields.has('copyrightStatus')) {
+      patch.copyrightStatus = formData.copyrightStatus === 'none' ? null : formData.copyrightStatus
+    }
+    if (enabledFields.has('videoType')) patch.videoType = formData.videoType
+    if (enabledFields.has('legacyReleaseDate')) patch.legacyReleaseDate = formData.legacyReleaseDate || null
+    if (enabledFields.has('assignedA_Rs')) {
+      patch.assignedA_RIds = formData.assignedA_RIds
+      patch.assignedA_RMode = formData.assignedA_RMode
+    }
+    if (enabledFields.has('notes')) {
+      patch.notes = formData.notes || null
+      patch.notesMode = formData.notesMode
+    }
+
+    setLoading(true)
+    try {
+      const response = await fetch('/api/releases/bulk-update', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          releaseIds && releaseIds.length > 0
+            ? { releaseIds, patch }
+            : { filters, patch }
+        ),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update releases')
+      }
+
+      if (data.failed > 0) {
+        const firstError = data.results?.find((r: any) => !r.success)?.error
+        toast({
+          title: 'Some releases were not updated',
+          description: `${data.updated} updated, ${data.failed} failed${firstError ? `: ${firstError}` : ''}`,
+          variant: 'destructive',
+        })
+      } else {
+        toast({
+          title: 'Success',
+          description: `Updated ${data.updated} release(s)${data.unchanged > 0 ? `, ${data.unchanged} already up to date` : ''}`,
+        })
+      }
+
+      onSuccess?.()
+      onOpenChange(false)
+    } catch (err: any) {
+      toast({
+        title: 'Error',
+        description: err.message || 'Failed to update releases',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const renderFieldToggle = (field: EditableField, label: string) => (
+    <div className="flex items-center space-x-2">
+      <Checkbox
+        id={`bulk-${field}`}
+        checked={enabledFields.has(field)}
+        onCheckedChange={(checked) => toggleField(field, checked as boolean)}
+      />
+      <Label htmlFor={`bulk-${field}`} className="cursor-pointer">{label}</Label>
+    </div>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Bulk Edit {count.toLocaleString()} Release{count === 1 ? '' : 's'}</DialogTitle>
+          <DialogDescription>
+            Tick the fields you want to change. Unticked fields are left as they are.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div className="space-y-2">
+            {renderFieldToggle('type', 'Release Type')}
+            {enabledFields.has('type') && (
+              <Select value={formData.type} onValueChange={(value) => setFormData({ ...formData, type: value })}>
+                <SelectTrigger className="bg-background">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="SINGLE">Single</SelectItem>
+                  <SelectItem value="ALBUM">Album</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            {renderFieldToggle('copyrightStatus', 'Copyright Status')}
+            {enabledFields.has('copyrightStatus') && (
+              <Select
+                value={formData.copyrightStatus}
+                onValueChange={(value) => setFormData({ ...formData, copyrightStatus: value })}
+              >
+                <SelectTrigger className="bg-background">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  <SelectItem value="ORIGINAL">Original</SelectItem>
+                  <SelectItem value="COVER">Cover</SelectItem>
+                  <SelectItem value="INTERNATIONAL">International</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            {renderFieldToggle('videoType', 'Video Type')}
+            {enabledFields.has('videoType') && (
+              <Select value={formData.videoType} onValueChange={(value) => setFormData({ ...formData, videoType: value })}>
+                <SelectTrigger className="bg-background">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="NONE">None</SelectItem>
+                  <SelectItem value="MUSIC_VIDEO">Music Video</SelectItem>
+                  <SelectItem value="LYRICS_VIDEO">Lyrics Video</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            {renderFieldToggle('legacyReleaseDate', 'Legacy Release Date')}
+            {enabledFields.has('legacyReleaseDate') && (
+              <Input
+                type="date"
+                value={formData.legacyReleaseDate}
+                onChange={(e) => setFormData({ ...formData, legacyReleaseDate: e.target.value })}
+                className="bg-background"
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            {renderFieldToggle('assignedA_Rs', 'Assigned A&R')}
+            {enabledFields.has('assignedA_Rs') && (
+              <div className="space-y-3">
+                <Select
+                  value={formData.assignedA_RMode}
+                  onValueChange={(value) => setFormData({ ...formData, assignedA_RMode: value as typeof formData.assignedA_RMode })}
+                >
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="replace">Replace existing assignments</SelectItem>
+                    <SelectItem value="add">Add to existing assignments</SelectItem>
+                    <SelectItem value="remove">Remove from assignments</SelectItem>
+                  </SelectContent>
+                </Select>
+                <div className="border rounded-lg p-3 max-h-48 overflow-y-auto space-y-2">
+                  {employees.length === 0 ? (
+                    <div className="text-sm text-muted-foreground">Loading A&R team...</div>
+                  ) : (
+                    employees.map((employee) => (
+                      <div key={employee.id} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`bulk-ar-${employee.id}`}
+                          checked={formData.assignedA_RIds.includes(employee.id)}
+                          onCheckedChange={() => toggleA_R(employee.id)}
+                        />
+                        <Label htmlFor={`bulk-ar-${employee.id}`} className="cursor-pointer font-normal">
+                          {employee.user.name || employee.user.email}
+                        </Label>
+                      </div>
+                    ))
+                  )}
+                </div>
+                {formData.assignedA_RIds.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {formData.assignedA_RIds.map(id => {
+                      const employee = employees.find(e => e.id === id)
+                      return (
+                        <Badge key={id} variant="secondary">
+                          {employee?.user.name || employee?.user.email || id}
+                        </Badge>
+                      )
+                    })}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            {renderFieldToggle('notes', 'Notes')}
+            {enabledFields.has('notes') && (
+              <div className="space-y-3">
+                <Select
+                  value={formData.notesMode}
+                  onValueChange={(value) => setFormData({ ...formData, notesMode: value as typeof formData.notesMode })}
+                >
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="append">Append to existing notes</SelectItem>
+                    <SelectItem value="replace">Replace existing notes</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Textarea
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  rows={3}
+                  className="bg-background resize-none"
+                  placeholder="Notes to apply to every selected release..."
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-end gap-2 pt-4 border-t">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || enabledFields.size === 0}>
+              {loading ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="w-4 h-4 mr-2" />
+                  Apply to {count.toLocaleString()} Release{count === 1 ? '' : 's'}
+                </>
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
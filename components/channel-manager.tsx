@@ -25,7 +25,7 @@ import {
 
 interface ChannelManagerProps {
   channels: any[]
-  platforms: string[]
+  platforms: Array<{ slug: string; name: string }>
 }
 
 export function ChannelManager({ channels: initialChannels, platforms }: ChannelManagerProps) {
@@ -182,7 +182,7 @@ export function ChannelManager({ channels: initialChannels, platforms }: Channel
   }
 
   const groupedChannels = platforms.reduce((acc, platform) => {
-    acc[platform] = channels.filter(c => c.platform === platform)
+    acc[platform.slug] = channels.filter(c => c.platform === platform.slug)
     return acc
   }, {} as Record<string, any[]>)
 
@@ -215,8 +215,8 @@ export function ChannelManager({ channels: initialChannels, platforms }: Channel
                   </SelectTrigger>
                   <SelectContent>
                     {platforms.map((platform) => (
-                      <SelectItem key={platform} value={platform}>
-                        {platform.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                      <SelectItem key={platform.slug} value={platform.slug}>
+                        {platform.name}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -237,8 +237,11 @@ export function ChannelManager({ channels: initialChannels, platforms }: Channel
                   id="channelId"
                   value={formData.channelId}
                   onChange={(e) => setFormData(prev => ({ ...prev, channelId: e.target.value }))}
-                  placeholder="YouTube channel ID"
+                  placeholder="Channel ID, @handle or channel link"
                 />
+                <p className="text-xs text-muted-foreground">
+                  Links are saved as the channel&apos;s ID, like UC… for YouTube or the page name for Facebook
+                </p>
               </div>
               <div className="space-y-2">
                 <Label htmlFor="active">Active</Label>
@@ -276,14 +279,14 @@ export function ChannelManager({ channels: initialChannels, platforms }: Channel
       </Card>
 
       {platforms.map((platform) => {
-        const platformChannels = groupedChannels[platform] || []
+        const platformChannels = groupedChannels[platform.slug] || []
         if (platformChannels.length === 0 && !showAddForm) return null
 
         return (
-          <Card key={platform}>
+          <Card key={platform.slug}>
             <CardHeader>
-              <CardTitle className="capitalize">
-                {platform.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())} Channels
+              <CardTitle>
+                {platform.name} Channels
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -14,6 +14,7 @@ import {
 } from '@/components/ui/dropdown-menu'
 import { Database, Users, Music, Calendar, Youtube, Facebook, Music2, Globe, Radio, CheckCircle2, Clock, Filter } from 'lucide-react'
 import Link from 'next/link'
+import { getPlatformPath } from '@/lib/platforms'
 
 interface PlatformStats {
   platform: string
@@ -159,9 +160,7 @@ export function DashboardSections({
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4">
             {platformStats.map((platform, index) => {
               const Icon = iconMap[platform.icon] || Youtube
-              const platformSlug = platform.platform === 'international_streaming' 
-                ? 'international-streaming' 
-                : platform.platform
+              const platformSlug = getPlatformPath(platform.platform)
               return (
                 <Link 
                   key={platform.platform} 
@@ -24,6 +24,7 @@ import { UserRole } from '@prisma/client'
 import { cn } from '@/lib/utils'
 import { MobileSidebar } from './mobile-sidebar'
 import { ThemeToggle } from './theme-toggle'
+import { NotificationBell } from './notification-bell'
 
 interface SidebarProps {
   userRole: UserRole
@@ -108,7 +109,10 @@ export function DashboardSidebar({ userRole, userEmail }: SidebarProps) {
                 <div className="h-14 w-[180px] bg-muted animate-pulse rounded" />
               )}
             </Link>
-            <ThemeToggle />
+            <div className="flex items-center gap-1 flex-shrink-0">
+              <NotificationBell />
+              <ThemeToggle />
+            </div>
           </div>
           <p className="text-xs text-muted-foreground truncate pl-1">{userEmail}</p>
         </div>
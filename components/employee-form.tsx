@@ -23,6 +23,7 @@ const ROLES = [
   { value: UserRole.PLATFORM_INTERNATIONAL_STREAMING, label: 'Platform - International Streaming' },
   { value: UserRole.PLATFORM_FACEBOOK, label: 'Platform - Facebook' },
   { value: UserRole.PLATFORM_TIKTOK, label: 'Platform - TikTok' },
+  { value: UserRole.PLATFORM_TEAM, label: 'Platform - Other Team' },
 ]
 
 interface Employee {
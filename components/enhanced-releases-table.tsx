@@ -48,7 +48,10 @@ import { useToast } from '@/hooks/use-toast'
 import { UserRole } from '@prisma/client'
 import { SearchableFilter } from './searchable-filter'
 import { useDebounce } from '@/hooks/use-debounce'
+import { useFilterOptions } from '@/hooks/use-filter-options'
 import { Pagination } from '@/components/ui/pagination'
+import { BulkEditDialog } from './bulk-edit-dialog'
+import { SavedViewsMenu, type SavedViewData } from './saved-views-menu'
 
 interface Release {
   id: string
@@ -135,6 +138,10 @@ interface EnhancedReleasesTableProps {
     genre?: string
     startDate?: string
     endDate?: string
+    assignedAR?: string
+    copyrightStatus?: string
+    videoType?: string
+    channel?: string
     sortField?: string
     sortDirection?: 'asc' | 'desc' | 'desc-nulls-last'
     missingArtist?: string
@@ -213,6 +220,10 @@ export function EnhancedReleasesTable({
   const [deleting, setDeleting] = useState(false)
   const [editingReleaseId, setEditingReleaseId] = useState<string | null>(null)
   const [editingTrackId, setEditingTrackId] = useState<string | null>(null)
+  const [bulkEditOpen, setBulkEditOpen] = useState(false)
+  const [selectingAllMatching, setSelectingAllMatching] = useState(false)
+  const [allMatchingSelected, setAllMatchingSelected] = useState(false)
+  const [exporting, setExporting] = useState(false)
 
   // Initialize filters from URL params
   const [typeFilter, setTypeFilter] = useState(initialSearchParams.type || 'all')
@@ -224,6 +235,10 @@ export function EnhancedReleasesTable({
   const [studioFilter, setStudioFilter] = useState(initialSearchParams.studio || 'all')
   const [labelFilter, setLabelFilter] = useState(initialSearchParams.label || 'all')
   const [genreFilter, setGenreFilter] = useState(initialSearchParams.genre || 'all')
+  const [channelFilter, setChannelFilter] = useState(initialSearchParams.channel || 'all')
+  const [assignedARFilter, setAssignedARFilter] = useState(initialSearchParams.assignedAR || 'all')
+  const [copyrightFilter, setCopyrightFilter] = useState(initialSearchParams.copyrightStatus || 'all')
+  const [videoTypeFilter, setVideoTypeFilter] = useState(initialSearchParams.videoType || 'all')
   const [dateRangeStart, setDateRangeStart] = useState<Date | undefined>(
     initialSearchParams.startDate ? new Date(initialSearchParams.startDate) : undefined
   )
@@ -243,6 +258,7 @@ export function EnhancedReleasesTable({
   const debouncedSearch = useDebounce(search, 500)
 
   const canDelete = userRole === UserRole.ADMIN || userRole === UserRole.MANAGER
+  const canBulkEdit = userRole === UserRole.ADMIN || userRole === UserRole.MANAGER || userRole === UserRole.A_R || userRole === UserRole.DATA_TEAM
 
   // Update URL params when filters change (server-side filtering)
   const updateSearchParams = (updates: Record<string, string | undefined>) => {
@@ -291,14 +307,101 @@ export function EnhancedReleasesTable({
       newSelected.add(id)
     }
     setSelectedReleases(newSelected)
+    setAllMatchingSelected(false)
   }
 
+  const allOnPageSelected = releases.length > 0 && releases.every(r => selectedReleases.has(r.id))
+
   const toggleSelectAll = () => {
-    if (selectedReleases.size === releases.length) {
+    if (allOnPageSelected) {
       setSelectedReleases(new Set())
     } else {
       setSelectedReleases(new Set(releases.map(r => r.id)))
     }
+    setAllMatchingSelected(false)
+  }
+
+  const clearSelection = () => {
+    setSelectedReleases(new Set())
+    setAllMatchingSelected(false)
+  }
+
+  // Select every release matching the current filters, not just this page
+  const selectAllMatching = async () => {
+    setSelectingAllMatching(true)
+    try {
+      const response = await fetch('/api/releases/filtered-ids', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ filters: Object.fromEntries(searchParamsHook.entries()) }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to select releases')
+      }
+
+      setSelectedReleases(new Set(data.ids))
+      setAllMatchingSelected(true)
+
+      if (data.capped) {
+        toast({
+          title: 'Selection limited',
+          description: `Selected the first ${data.ids.length.toLocaleString()} of ${data.total.toLocaleString()} matching releases`,
+        })
+      }
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to select releases',
+        variant: 'destructive',
+      })
+    } finally {
+      setSelectingAllMatching(false)
+    }
+  }
+
+  // Export the selection if there is one, otherwise everything matching the filters
+  const handleExport = async () => {
+    if (selectedReleases.size === 0) {
+      const params = new URLSearchParams(searchParamsHook.toString())
+      params.delete('page')
+      params.delete('pageSize')
+      params.set('mode', 'track')
+      window.location.href = `/api/export/csv?${params.toString()}`
+      return
+    }
+
+    setExporting(true)
+    try {
+      const response = await fetch('/api/export/csv', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ releaseIds: Array.from(selectedReleases), mode: 'track' }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to export releases')
+      }
+
+      const blob = await response.blob()
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `tracks-export-${new Date().toISOString().split('T')[0]}.csv`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to export releases',
+        variant: 'destructive',
+      })
+    } finally {
+      setExporting(false)
+    }
   }
 
   const handleDelete = async () => {
@@ -327,7 +430,7 @@ export function EnhancedReleasesTable({
         description: `Deleted ${data.deleted} release(s) successfully`,
       })
 
-      setSelectedReleases(new Set())
+      clearSelection()
       router.refresh()
     } catch (error: any) {
       toast({
@@ -416,6 +519,10 @@ export function EnhancedReleasesTable({
     setStudioFilter('all')
     setLabelFilter('all')
     setGenreFilter('all')
+    setChannelFilter('all')
+    setAssignedARFilter('all')
+    setCopyrightFilter('all')
+    setVideoTypeFilter('all')
     setDateRangeStart(undefined)
     setDateRangeEnd(undefined)
     setSortField(null)
@@ -423,6 +530,48 @@ export function EnhancedReleasesTable({
     router.push('/releases')
   }
 
+  // URL params that make up a saved view's filters (sort and paging are stored separately)
+  const currentViewFilters = Object.fromEntries(
+    Array.from(searchParamsHook.entries()).filter(
+      ([key]) => !['page', 'pageSize', 'sortField', 'sortDirection'].includes(key)
+    )
+  )
+
+  const applySavedView = (view: SavedViewData) => {
+    const filters = view.filters || {}
+    setSearch(filters.search || '')
+    setTypeFilter(filters.type || 'all')
+    setPlatformFilter(filters.platform || 'all')
+    setStatusFilter(filters.status || 'all')
+    setPerformerFilter(filters.performer || 'all')
+    setComposerFilter(filters.composer || 'all')
+    setBandFilter(filters.band || 'all')
+    setStudioFilter(filters.studio || 'all')
+    setLabelFilter(filters.label || 'all')
+    setGenreFilter(filters.genre || 'all')
+    setChannelFilter(filters.channel || 'all')
+    setAssignedARFilter(filters.assignedAR || 'all')
+    setCopyrightFilter(filters.copyrightStatus || 'all')
+    setVideoTypeFilter(filters.videoType || 'all')
+    setDateRangeStart(filters.startDate ? new Date(filters.startDate) : undefined)
+    setDateRangeEnd(filters.endDate ? new Date(filters.endDate) : undefined)
+    setMissingArtistFilter(filters.missingArtist === 'true')
+    setSortField((view.sort?.field as SortField) || null)
+    setSortDirection((view.sort?.direction as SortDirection) || 'asc')
+
+    const columnIds = (view.columns || []).filter(id => COLUMNS.some(c => c.id === id))
+    if (columnIds.length > 0) {
+      setVisibleColumns(new Set(columnIds))
+    }
+
+    const params = new URLSearchParams(filters)
+    if (view.sort?.field) {
+      params.set('sortField', view.sort.field)
+      params.set('sortDirection', view.sort.direction)
+    }
+    router.push(`/releases?${params.toString()}`)
+  }
+
   const hasActiveFilters = 
     search || 
     typeFilter !== 'all' || 
@@ -434,15 +583,22 @@ export function EnhancedReleasesTable({
     studioFilter !== 'all' || 
     labelFilter !== 'all' || 
     genreFilter !== 'all' || 
+    channelFilter !== 'all' || 
+    assignedARFilter !== 'all' || 
+    copyrightFilter !== 'all' || 
+    videoTypeFilter !== 'all' || 
     dateRangeStart || 
     dateRangeEnd ||
     missingArtistFilter
 
   const visibleColumnsArray = COLUMNS.filter(c => visibleColumns.has(c.id))
   
-  // Get unique platforms and statuses from current releases
-  const platforms = Array.from(new Set(releases.flatMap(r => r.platformRequests.map(pr => pr.platform))))
-  const statuses = Array.from(new Set(releases.flatMap(r => r.platformRequests.map(pr => pr.status))))
+  // Facet options with counts under the applied filters
+  const platformOptions = useFilterOptions('platform')
+  const statusOptions = useFilterOptions('status')
+  const assignedAROptions = useFilterOptions('assignedAR')
+  const copyrightOptions = useFilterOptions('copyrightStatus')
+  const videoTypeOptions = useFilterOptions('videoType')
 
   // Get all artists for a release (primary first, then secondary)
   const getReleaseArtists = (release: Release) => {
@@ -535,6 +691,17 @@ export function EnhancedReleasesTable({
           </div>
 
           <div className="flex items-center gap-2 flex-wrap">
+            {canBulkEdit && selectedReleases.size > 0 && (
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={() => setBulkEditOpen(true)}
+              >
+                <Edit className="w-4 h-4 mr-2" />
+                Bulk Edit ({selectedReleases.size})
+              </Button>
+            )}
+
             {canDelete && selectedReleases.size > 0 && (
               <Button 
                 variant="destructive" 
@@ -589,9 +756,9 @@ export function EnhancedReleasesTable({
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Platforms</SelectItem>
-                {platforms.map(platform => (
-                  <SelectItem key={platform} value={platform}>
-                    {platform.replace('_', ' ')}
+                {platformOptions.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label} ({option.count.toLocaleString()})
                   </SelectItem>
                 ))}
               </SelectContent>
@@ -609,8 +776,10 @@ export function EnhancedReleasesTable({
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Statuses</SelectItem>
-                {statuses.map(status => (
-                  <SelectItem key={status} value={status}>{status}</SelectItem>
+                {statusOptions.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label} ({option.count.toLocaleString()})
+                  </SelectItem>
                 ))}
               </SelectContent>
             </Select>
@@ -642,6 +811,73 @@ export function EnhancedReleasesTable({
                       Missing Album Artist
                     </label>
                   </div>
+                  <Select
+                    value={assignedARFilter}
+                    onValueChange={(value) => {
+                      setAssignedARFilter(value)
+                      updateSearchParams({ assignedAR: value })
+                    }}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Assigned A&R" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All A&Rs</SelectItem>
+                      <SelectItem value="unassigned">Unassigned</SelectItem>
+                      {assignedAROptions.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label} ({option.count.toLocaleString()})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={copyrightFilter}
+                    onValueChange={(value) => {
+                      setCopyrightFilter(value)
+                      updateSearchParams({ copyrightStatus: value })
+                    }}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Copyright" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Copyright Statuses</SelectItem>
+                      {copyrightOptions.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label} ({option.count.toLocaleString()})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={videoTypeFilter}
+                    onValueChange={(value) => {
+                      setVideoTypeFilter(value)
+                      updateSearchParams({ videoType: value })
+                    }}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Video Type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Video Types</SelectItem>
+                      {videoTypeOptions.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label} ({option.count.toLocaleString()})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <SearchableFilter
+                    field="channel"
+                    label="Channel"
+                    value={channelFilter !== 'all' ? channelFilter : undefined}
+                    onValueChange={(value) => {
+                      setChannelFilter(value || 'all')
+                      updateSearchParams({ channel: value })
+                    }}
+                  />
                 </div>
                 <DropdownMenuSeparator />
                 <DropdownMenuLabel>Track-Level Filters</DropdownMenuLabel>
@@ -712,6 +948,15 @@ export function EnhancedReleasesTable({
               </Button>
             )}
 
+            <SavedViewsMenu
+              table="releases"
+              currentFilters={currentViewFilters}
+              currentSort={sortField ? { field: sortField, direction: sortDirection } : null}
+              currentColumns={Array.from(visibleColumns)}
+              onApply={applySavedView}
+              applyDefault={Object.keys(currentViewFilters).length === 0 && !initialSearchParams.sortField}
+            />
+
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="outline" size="sm">
@@ -742,15 +987,39 @@ export function EnhancedReleasesTable({
               </DropdownMenuContent>
             </DropdownMenu>
 
-            <a href="/api/export/csv?mode=track">
-              <Button variant="outline" size="sm">
-                <Download className="w-4 h-4 mr-2" />
-                Export
-              </Button>
-            </a>
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={exporting}>
+              <Download className="w-4 h-4 mr-2" />
+              {selectedReleases.size > 0 ? `Export (${selectedReleases.size})` : 'Export'}
+            </Button>
           </div>
         </div>
 
+        {allOnPageSelected && total > releases.length && (
+          <div className="flex items-center justify-center gap-2 text-sm p-2 border rounded-lg bg-muted/30">
+            {allMatchingSelected ? (
+              <>
+                <span>All {selectedReleases.size.toLocaleString()} matching releases are selected.</span>
+                <Button variant="link" size="sm" className="h-auto p-0" onClick={clearSelection}>
+                  Clear selection
+                </Button>
+              </>
+            ) : (
+              <>
+                <span>All {releases.length} releases on this page are selected.</span>
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0"
+                  onClick={selectAllMatching}
+                  disabled={selectingAllMatching}
+                >
+                  {selectingAllMatching ? 'Selecting...' : `Select all ${total.toLocaleString()} matching releases`}
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+
         {hasActiveFilters && (
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             <Filter className="w-4 h-4" />
@@ -770,7 +1039,7 @@ export function EnhancedReleasesTable({
             <TableRow>
               <TableHead className="w-12">
                 <Checkbox
-                  checked={selectedReleases.size === releases.length && releases.length > 0}
+                  checked={allOnPageSelected}
                   onCheckedChange={toggleSelectAll}
                 />
               </TableHead>
@@ -1273,6 +1542,19 @@ export function EnhancedReleasesTable({
           showJumpToPage={totalPages > 10}
         />
       )}
+
+      {canBulkEdit && (
+        <BulkEditDialog
+          open={bulkEditOpen}
+          onOpenChange={setBulkEditOpen}
+          releaseIds={Array.from(selectedReleases)}
+          count={selectedReleases.size}
+          onSuccess={() => {
+            clearSelection()
+            router.refresh()
+          }}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,437 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ImportRowIssueStatus, ImportRowIssueType } from '@prisma/client'
+import { useToast } from '@/hooks/use-toast'
+import { ImportValidationIssues } from '@/components/import-validation-issues'
+import { Check, Lightbulb, Loader2, Pencil, Trash2, X } from 'lucide-react'
+import type { RowValidationReport } from '@/lib/import-validation'
+
+interface RowIssue {
+  id: string
+  rowNumber: number
+  rawRow: Record<string, string>
+  editedRow: Record<string, string> | null
+  error: string
+  type: ImportRowIssueType
+  suggestedFix: { message: string; changes?: Record<string, string> } | null
+  status: ImportRowIssueStatus
+  resolvedAt: string | null
+  resolvedBy: { id: string; name: string | null; email: string } | null
+  release: { id: string; title: string } | null
+  validation: RowValidationReport // Of the row as it stands now, edits included
+}
+
+interface FailedRowsReviewProps {
+  sessionId: string
+  onComplete: () => void
+}
+
+const STATUS_LABELS: Record<ImportRowIssueStatus, string> = {
+  OPEN: 'Needs review',
+  APPROVED: 'Approved',
+  DISCARDED: 'Discarded',
+}
+
+const TYPE_LABELS: Record<ImportRowIssueType, string> = {
+  FAILED: 'Failed',
+  DUPLICATE: 'Duplicate',
+  VALIDATION: 'Validation',
+}
+
+export function FailedRowsReview({ sessionId, onComplete }: FailedRowsReviewProps) {
+  const { toast } = useToast()
+  const [issues, setIssues] = useState<RowIssue[]>([])
+  const [columns, setColumns] = useState<string[]>([])
+  const [counts, setCounts] = useState<Partial<Record<ImportRowIssueStatus, number>>>({})
+  const [statusFilter, setStatusFilter] = useState<string>(ImportRowIssueStatus.OPEN)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+  const [editingIssue, setEditingIssue] = useState<RowIssue | null>(null)
+  const [editValues, setEditValues] = useState<Record<string, string>>({})
+
+  const fetchIssues = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ sessionId })
+      if (statusFilter !== 'all') {
+        params.set('status', statusFilter)
+      }
+      const response = await fetch(`/api/import/csv/row-issues?${params}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load rows')
+      }
+      setIssues(data.issues || [])
+      setColumns(data.columns || [])
+      setCounts(data.counts || {})
+      setSelectedIds(new Set())
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to load rows',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [sessionId, statusFilter, toast])
+
+  useEffect(() => {
+    fetchIssues()
+  }, [fetchIssues])
+
+  const openIssues = issues.filter(issue => issue.status === ImportRowIssueStatus.OPEN)
+  const allSelected = openIssues.length > 0 && openIssues.every(issue => selectedIds.has(issue.id))
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    const next = new Set(selectedIds)
+    if (checked) {
+      next.add(id)
+    } else {
+      next.delete(id)
+    }
+    setSelectedIds(next)
+  }
+
+  const resolveRows = async (issueIds: string[], action: 'approve' | 'discard', applySuggestion = false) => {
+    if (issueIds.length === 0) return
+    if (action === 'discard' && !confirm(`Discard ${issueIds.length} row(s)? They will not be imported.`)) return
+
+    setWorking(true)
+    try {
+      const response = await fetch('/api/import/csv/approve-rows', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, issueIds, action, applySuggestion }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to process rows')
+      }
+
+      if (action === 'discard') {
+        toast({
+          title: 'Success',
+          description: `Discarded ${data.discarded} row(s)`,
+        })
+      } else if (data.failed > 0) {
+        const firstError = data.results.find((r: any) => !r.success)
+        toast({
+          title: data.approved > 0 ? 'Success' : 'Error',
+          description: `Imported ${data.approved} row(s). ${data.failed} still failing${firstError ? ` (row ${firstError.rowNumber}: ${firstError.error})` : ''}`,
+          variant: data.approved > 0 ? undefined : 'destructive',
+        })
+      } else {
+        toast({
+          title: 'Success',
+          description: `Imported ${data.approved} row(s)`,
+        })
+      }
+
+      fetchIssues()
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to process rows',
+        variant: 'destructive',
+      })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const currentRow = (issue: RowIssue) => issue.editedRow || issue.rawRow
+
+  const openEditor = (issue: RowIssue) => {
+    const row = currentRow(issue)
+    setEditValues(Object.fromEntries(columns.map(column => [column, row[column] || ''])))
+    setEditingIssue(issue)
+  }
+
+  const saveEdits = async (approve: boolean) => {
+    if (!editingIssue) return
+
+    const row = currentRow(editingIssue)
+    const changes = Object.fromEntries(
+      Object.entries(editValues).filter(([column, value]) => value !== (row[column] || ''))
+    )
+
+    setWorking(true)
+    try {
+      if (Object.keys(changes).length > 0) {
+        const response = await fetch(`/api/import/csv/row-issues/${editingIssue.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ changes }),
+        })
+
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to save row')
+        }
+      }
+
+      const issueId = editingIssue.id
+      setEditingIssue(null)
+
+      if (approve) {
+        await resolveRows([issueId], 'approve')
+      } else {
+        toast({
+          title: 'Success',
+          description: `Saved changes to row ${editingIssue.rowNumber}`,
+        })
+        fetchIssues()
+      }
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save row',
+        variant: 'destructive',
+      })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const selected = Array.from(selectedIds)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Rows Needing Review</CardTitle>
+            <CardDescription>
+              Fix and approve rows that could not be imported, or discard them.
+              {' '}{counts.OPEN || 0} open • {counts.APPROVED || 0} approved • {counts.DISCARDED || 0} discarded
+            </CardDescription>
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(ImportRowIssueStatus).map(status => (
+                <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+              ))}
+              <SelectItem value="all">All rows</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {selected.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 p-3 border rounded-lg bg-muted/50">
+            <span className="text-sm font-medium mr-2">{selected.length} selected</span>
+            <Button size="sm" onClick={() => resolveRows(selected, 'approve')} disabled={working}>
+              <Check className="w-4 h-4 mr-1" />
+              Approve
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => resolveRows(selected, 'approve', true)} disabled={working}>
+              <Lightbulb className="w-4 h-4 mr-1" />
+              Approve with suggested fixes
+            </Button>
+            <Button size="sm" variant="outline" className="text-destructive" onClick={() => resolveRows(selected, 'discard')} disabled={working}>
+              <Trash2 className="w-4 h-4 mr-1" />
+              Discard
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setSelectedIds(new Set())} disabled={working}>
+              <X className="w-4 h-4 mr-1" />
+              Clear
+            </Button>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : issues.length === 0 ? (
+          <div className="py-8 text-center text-sm text-muted-foreground">
+            {statusFilter === ImportRowIssueStatus.OPEN ? 'No rows left to review' : 'No rows'}
+          </div>
+        ) : (
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allSelected}
+                      disabled={openIssues.length === 0}
+                      onCheckedChange={(checked) =>
+                        setSelectedIds(checked === true ? new Set(openIssues.map(issue => issue.id)) : new Set())
+                      }
+                    />
+                  </TableHead>
+                  <TableHead className="w-16">Row</TableHead>
+                  <TableHead>Problem</TableHead>
+                  <TableHead>Suggested Fix</TableHead>
+                  <TableHead className="w-[200px] text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {issues.map(issue => {
+                  const isOpen = issue.status === ImportRowIssueStatus.OPEN
+                  return (
+                    <TableRow key={issue.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedIds.has(issue.id)}
+                          disabled={!isOpen}
+                          onCheckedChange={(checked) => toggleSelected(issue.id, checked === true)}
+                        />
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{issue.rowNumber}</TableCell>
+                      <TableCell className="max-w-[360px]">
+                        <div className="flex items-center gap-1.5 mb-1">
+                          <Badge variant={issue.type === ImportRowIssueType.DUPLICATE ? 'secondary' : 'destructive'}>
+                            {TYPE_LABELS[issue.type]}
+                          </Badge>
+                          {!isOpen && <Badge variant="outline">{STATUS_LABELS[issue.status]}</Badge>}
+                          {issue.editedRow && isOpen && <Badge variant="outline">Edited</Badge>}
+                        </div>
+                        {(!isOpen || issue.type !== ImportRowIssueType.VALIDATION) && (
+                          <div className="text-sm text-muted-foreground break-words">{issue.error}</div>
+                        )}
+                        {isOpen && <ImportValidationIssues report={issue.validation} />}
+                        {issue.release && (
+                          <Link href={`/releases/${issue.release.id}`} className="text-sm text-primary hover:underline">
+                            {issue.release.title}
+                          </Link>
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-[320px] text-sm">
+                        {issue.suggestedFix ? (
+                          <div className="flex items-start gap-1.5">
+                            <Lightbulb className="w-4 h-4 mt-0.5 text-yellow-500 shrink-0" />
+                            <span>{issue.suggestedFix.message}</span>
+                          </div>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {isOpen && (
+                          <div className="flex justify-end gap-1">
+                            <Button size="icon" variant="ghost" className="h-8 w-8" title="Edit row" onClick={() => openEditor(issue)} disabled={working}>
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            {issue.suggestedFix?.changes && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-8 w-8"
+                                title="Approve with suggested fix"
+                                onClick={() => resolveRows([issue.id], 'approve', true)}
+                                disabled={working}
+                              >
+                                <Lightbulb className="w-4 h-4" />
+                              </Button>
+                            )}
+                            <Button size="icon" variant="ghost" className="h-8 w-8" title="Approve" onClick={() => resolveRows([issue.id], 'approve')} disabled={working}>
+                              <Check className="w-4 h-4" />
+                            </Button>
+                            <Button size="icon" variant="ghost" className="h-8 w-8 text-destructive" title="Discard" onClick={() => resolveRows([issue.id], 'discard')} disabled={working}>
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={onComplete}>
+            Done
+          </Button>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!editingIssue} onOpenChange={(open) => !open && setEditingIssue(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Edit Row {editingIssue?.rowNumber}</DialogTitle>
+            <DialogDescription>
+              {editingIssue?.error}
+            </DialogDescription>
+          </DialogHeader>
+
+          <ImportValidationIssues report={editingIssue?.validation} />
+
+          {editingIssue?.suggestedFix?.changes && (
+            <div className="flex items-center gap-2 p-3 border rounded-lg text-sm">
+              <Lightbulb className="w-4 h-4 text-yellow-500 shrink-0" />
+              <span className="flex-1">{editingIssue.suggestedFix.message}</span>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setEditValues({ ...editValues, ...editingIssue.suggestedFix!.changes })}
+              >
+                Use suggestion
+              </Button>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 max-h-[50vh] overflow-y-auto pr-1">
+            {columns.map(column => (
+              <div key={column} className="space-y-1">
+                <Label htmlFor={`row-${column}`} className="text-xs">{column}</Label>
+                <Input
+                  id={`row-${column}`}
+                  value={editValues[column] ?? ''}
+                  onChange={(e) => setEditValues({ ...editValues, [column]: e.target.value })}
+                />
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingIssue(null)} disabled={working}>
+              Cancel
+            </Button>
+            <Button variant="outline" onClick={() => saveEdits(false)} disabled={working}>
+              Save
+            </Button>
+            <Button onClick={() => saveEdits(true)} disabled={working}>
+              {working && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save &amp; Approve
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,304 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ImportValidationIssues } from '@/components/import-validation-issues'
+import { AlertTriangle, Download, X } from 'lucide-react'
+import type { DryRunResult, DryRunRow } from '@/lib/import-dry-run'
+
+interface ImportDryRunReportProps {
+  result: DryRunResult
+  fileName: string
+  onClose: () => void
+}
+
+// Rows shown in the table; the downloaded report always has every row
+const MAX_VISIBLE_ROWS = 200
+
+const FILTERS = [
+  { value: 'all', label: 'All rows' },
+  { value: 'create', label: 'Would create' },
+  { value: 'differences', label: 'Existing, file differs' },
+  { value: 'skip', label: 'Skipped' },
+  { value: 'error', label: 'Errors' },
+  { value: 'warnings', label: 'Validation warnings' },
+]
+
+function csvEscape(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function outcomeLabel(row: DryRunRow): string {
+  if (row.action === 'error') return 'Error'
+  if (row.action === 'create') return 'Create'
+  if (row.duplicateOfRow) return `Duplicate of row ${row.duplicateOfRow}`
+  return 'Exists (skipped)'
+}
+
+function hasDifferences(row: DryRunRow): boolean {
+  return !!row.existingRelease && (
+    row.fieldChanges.length > 0 ||
+    row.tracks.added.length > 0 ||
+    row.tracks.removed.length > 0 ||
+    row.platformChanges.length > 0
+  )
+}
+
+// One line per change so the report can be filtered in a spreadsheet
+function buildReportCsv(result: DryRunResult): string {
+  const lines = [['Row', 'Outcome', 'Release', 'Artist', 'Change', 'Field', 'Current', 'Incoming']]
+
+  result.rows.forEach(row => {
+    const base = [String(row.row), outcomeLabel(row), row.title || '', row.artist || '']
+    const changes: string[][] = []
+
+    if (row.error) changes.push(['Error', '', '', row.error])
+    row.validation.issues.forEach(issue => changes.push([
+      issue.severity === 'ERROR' ? 'Validation error' : 'Validation warning',
+      issue.field || '',
+      '',
+      issue.message,
+    ]))
+    row.fieldChanges.forEach(c => changes.push(['Field differs', c.field, c.current || '', c.incoming || '']))
+    row.tracks.added.forEach(name => changes.push([row.existingRelease ? 'Track not in database' : 'Track added', 'track', '', name]))
+    row.tracks.removed.forEach(name => changes.push(['Track not in file', 'track', name, '']))
+    row.platformChanges.forEach(c => changes.push([
+      'Platform request',
+      c.channel ? `${c.platform} (${c.channel})` : c.platform,
+      c.from || '',
+      c.to,
+    ]))
+    row.newArtists.forEach(name => changes.push(['New artist', 'artist', '', name]))
+    row.unknownARs.forEach(name => changes.push(['Unknown A&R (new user)', 'assignedAR', '', name]))
+    row.newChannels.forEach(name => changes.push(['New channel', 'channel', '', name]))
+
+    if (changes.length === 0) changes.push(['', '', '', ''])
+    changes.forEach(change => lines.push([...base, ...change]))
+  })
+
+  return lines.map(line => line.map(csvEscape).join(',')).join('\n')
+}
+
+function NameList({ title, names, warning }: { title: string; names: string[]; warning?: boolean }) {
+  if (names.length === 0) return null
+  return (
+    <div className="space-y-1.5">
+      <div className={`text-sm font-medium flex items-center gap-1.5 ${warning ? 'text-amber-600' : ''}`}>
+        {warning && <AlertTriangle className="w-4 h-4" />}
+        {title} ({names.length})
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {names.slice(0, 30).map(name => (
+          <Badge key={name} variant="outline" className="font-normal">{name}</Badge>
+        ))}
+        {names.length > 30 && (
+          <span className="text-xs text-muted-foreground self-center">and {names.length - 30} more</span>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export function ImportDryRunReport({ result, fileName, onClose }: ImportDryRunReportProps) {
+  const [filter, setFilter] = useState('all')
+  const { summary } = result
+
+  const filteredRows = result.rows.filter(row => {
+    switch (filter) {
+      case 'create':
+        return row.action === 'create'
+      case 'differences':
+        return hasDifferences(row)
+      case 'skip':
+        return row.action === 'skip'
+      case 'error':
+        return row.action === 'error'
+      case 'warnings':
+        return row.validation.warnings > 0
+      default:
+        return true
+    }
+  })
+
+  const downloadReport = () => {
+    const blob = new Blob([buildReportCsv(result)], { type: 'text/csv;charset=utf-8' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `dry-run-${fileName.replace(/\.[^.]+$/, '')}-${new Date().toISOString().split('T')[0]}.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const stats = [
+    { label: 'Releases to create', value: summary.create },
+    { label: 'Tracks to create', value: summary.tracksAdded },
+    { label: 'Platform requests', value: summary.platformRequests },
+    { label: 'Already exist (skipped)', value: summary.skipExisting },
+    { label: 'Duplicates in file', value: summary.skipDuplicateInFile },
+    { label: 'Errors', value: summary.errors },
+  ]
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Dry Run</CardTitle>
+            <CardDescription>
+              What importing {fileName} would do. Nothing has been written.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={downloadReport}>
+              <Download className="w-4 h-4 mr-2" />
+              Download Report
+            </Button>
+            <Button variant="ghost" size="icon" onClick={onClose} title="Close dry run">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+          {stats.map(stat => (
+            <div key={stat.label} className="p-3 border rounded-lg">
+              <div className="text-2xl font-semibold">{stat.value}</div>
+              <div className="text-xs text-muted-foreground">{stat.label}</div>
+            </div>
+          ))}
+        </div>
+
+        {(summary.validationErrors > 0 || summary.validationWarnings > 0) && (
+          <div className="p-3 border border-amber-300 bg-amber-50 dark:bg-amber-950/20 rounded-lg text-sm flex items-start gap-2">
+            <AlertTriangle className="w-4 h-4 mt-0.5 text-amber-600 shrink-0" />
+            <span>
+              {summary.validationErrors > 0 && `${summary.validationErrors} row(s) break validation rules and will not be imported. `}
+              {summary.validationWarnings > 0 && `${summary.validationWarnings} row(s) will be imported with validation warnings.`}
+            </span>
+          </div>
+        )}
+
+        {summary.rowsWithDifferences > 0 && (
+          <div className="p-3 border border-amber-300 bg-amber-50 dark:bg-amber-950/20 rounded-lg text-sm flex items-start gap-2">
+            <AlertTriangle className="w-4 h-4 mt-0.5 text-amber-600 shrink-0" />
+            <span>
+              {summary.rowsWithDifferences} row(s) match existing releases but differ from them.
+              Existing releases are not updated by the import, so these differences will not be applied.
+            </span>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <NameList title="New artists" names={summary.newArtists} />
+          <NameList title="Unknown A&R names (will be created as new users)" names={summary.unknownARs} warning />
+          <NameList title="New platform channels" names={summary.newChannels} />
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-muted-foreground">
+              {filteredRows.length} row(s)
+              {filteredRows.length > MAX_VISIBLE_ROWS && ` • showing the first ${MAX_VISIBLE_ROWS}, download the report for all`}
+            </div>
+            <Select value={filter} onValueChange={setFilter}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FILTERS.map(f => (
+                  <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Row</TableHead>
+                  <TableHead className="w-[160px]">Outcome</TableHead>
+                  <TableHead>Release</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredRows.slice(0, MAX_VISIBLE_ROWS).map(row => (
+                  <TableRow key={row.row}>
+                    <TableCell className="font-mono text-sm align-top">{row.row}</TableCell>
+                    <TableCell className="align-top">
+                      <Badge
+                        variant={row.action === 'error' ? 'destructive' : row.action === 'create' ? 'default' : 'secondary'}
+                      >
+                        {outcomeLabel(row)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="align-top text-sm">
+                      {row.existingRelease ? (
+                        <Link href={`/releases/${row.existingRelease.id}`} className="font-medium text-primary hover:underline">
+                          {row.title}
+                        </Link>
+                      ) : (
+                        <div className="font-medium">{row.title || '—'}</div>
+                      )}
+                      {row.artist && <div className="text-muted-foreground">{row.artist}</div>}
+                    </TableCell>
+                    <TableCell className="align-top text-sm">
+                      <ImportValidationIssues report={row.validation} />
+                      <ul className="space-y-0.5">
+                        {row.error && row.validation.errors === 0 && <li className="text-destructive">{row.error}</li>}
+                        {row.fieldChanges.map(change => (
+                          <li key={change.field}>
+                            <span className="font-medium">{change.field}:</span>{' '}
+                            <span className="line-through text-muted-foreground">{change.current || 'empty'}</span>
+                            {' → '}{change.incoming}
+                          </li>
+                        ))}
+                        {row.tracks.added.length > 0 && (
+                          <li className="text-green-700 dark:text-green-400">
+                            {row.existingRelease ? 'Tracks not in database' : 'Tracks'}: {row.tracks.added.join(', ')}
+                          </li>
+                        )}
+                        {row.tracks.removed.length > 0 && (
+                          <li className="text-red-700 dark:text-red-400">
+                            Tracks not in file: {row.tracks.removed.join(', ')}
+                          </li>
+                        )}
+                        {row.platformChanges.map(change => (
+                          <li key={`${change.platform}:${change.channel || ''}`}>
+                            {change.platform}{change.channel ? ` (${change.channel})` : ''}:{' '}
+                            {change.from ? `${change.from} → ` : ''}{change.to}
+                          </li>
+                        ))}
+                        {row.newArtists.length > 0 && <li>New artists: {row.newArtists.join(', ')}</li>}
+                        {row.unknownARs.length > 0 && (
+                          <li className="text-amber-600">Unknown A&amp;R: {row.unknownARs.join(', ')}</li>
+                        )}
+                        {row.newChannels.length > 0 && <li>New channels: {row.newChannels.join(', ')}</li>}
+                      </ul>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
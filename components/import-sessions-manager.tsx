@@ -0,0 +1,357 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useToast } from '@/hooks/use-toast'
+import { useImportProgress } from '@/hooks/use-import-progress'
+import { formatDateTime } from '@/lib/utils'
+import { formatTimeRemaining } from '@/lib/csv-import-progress'
+import { AlertTriangle, Loader2, Undo2 } from 'lucide-react'
+import type { ImportRollbackPlan } from '@/lib/import-changes'
+
+interface ImportSessionRow {
+  id: string
+  fileName: string
+  status: string
+  totalRows: number
+  rowsProcessed: number
+  startedAt: string
+  completedAt: string | null
+  rolledBackAt: string | null
+  user: { name: string | null; email: string }
+  _count: { changes: number }
+}
+
+interface ImportSessionsManagerProps {
+  sessions: ImportSessionRow[]
+}
+
+function statusVariant(status: string): 'default' | 'secondary' | 'destructive' | 'outline' {
+  if (status === 'completed') return 'default'
+  if (status === 'failed') return 'destructive'
+  if (status === 'rolled_back') return 'outline'
+  return 'secondary'
+}
+
+function PlanSection({ title, items, kept }: { title: string; items: string[]; kept?: string[] }) {
+  if (items.length === 0 && (!kept || kept.length === 0)) return null
+  return (
+    <div className="space-y-1">
+      <div className="text-sm font-medium">{title}</div>
+      {items.length > 0 && (
+        <div className="text-sm text-muted-foreground">
+          Delete {items.length}: {items.slice(0, 10).join(', ')}
+          {items.length > 10 && ` and ${items.length - 10} more`}
+        </div>
+      )}
+      {kept && kept.length > 0 && (
+        <div className="text-sm text-muted-foreground">
+          Keep {kept.length} still in use: {kept.slice(0, 10).join(', ')}
+          {kept.length > 10 && ` and ${kept.length - 10} more`}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Live progress of a running import; every admin with the page open sees the same stream
+function LiveImportProgress({ importSession }: { importSession: ImportSessionRow }) {
+  const router = useRouter()
+  const { progress } = useImportProgress(importSession.id)
+  const finished = !!progress && progress.status !== 'in_progress' && progress.status !== 'paused'
+
+  useEffect(() => {
+    if (finished) router.refresh()
+  }, [finished, router])
+
+  if (!progress) {
+    return <>{importSession.rowsProcessed} / {importSession.totalRows}</>
+  }
+
+  return (
+    <div className="space-y-0.5">
+      <div>
+        {progress.rowsProcessed} / {progress.totalRows} ({progress.percentage}%)
+      </div>
+      <div className="text-xs text-muted-foreground">
+        {progress.releasesCreated} created · {progress.tracksCreated} tracks · {progress.errorCount} errors
+        {progress.status === 'in_progress' && progress.estimatedTimeRemaining !== null &&
+          ` · ${formatTimeRemaining(progress.estimatedTimeRemaining)} left`}
+      </div>
+      {progress.recentErrors[0] && (
+        <div className="text-xs text-destructive truncate max-w-xs" title={progress.recentErrors[0].message}>
+          Row {progress.recentErrors[0].row}: {progress.recentErrors[0].message}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function ImportSessionsManager({ sessions }: ImportSessionsManagerProps) {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [previewingId, setPreviewingId] = useState<string | null>(null)
+  const [plan, setPlan] = useState<ImportRollbackPlan | null>(null)
+  const [rollingBack, setRollingBack] = useState(false)
+
+  const openPreview = async (sessionId: string) => {
+    setPreviewingId(sessionId)
+    setPlan(null)
+    try {
+      const response = await fetch(`/api/import/csv/rollback?sessionId=${sessionId}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load rollback preview')
+      }
+      setPlan(data.plan)
+    } catch (error: any) {
+      setPreviewingId(null)
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to load rollback preview',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const closePreview = () => {
+    if (rollingBack) return
+    setPreviewingId(null)
+    setPlan(null)
+  }
+
+  const handleRollback = async () => {
+    if (!plan) return
+    setRollingBack(true)
+    try {
+      const response = await fetch('/api/import/csv/rollback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId: plan.sessionId }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to roll back import')
+      }
+
+      toast({
+        title: 'Success',
+        description: `Rolled back ${plan.fileName}: ${data.releases} release(s) deleted, ${data.restored} value(s) restored`,
+      })
+      setPreviewingId(null)
+      setPlan(null)
+      router.refresh()
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to roll back import',
+        variant: 'destructive',
+      })
+    } finally {
+      setRollingBack(false)
+    }
+  }
+
+  const editedCount = plan?.releases.filter(r => r.editedSinceImport).length || 0
+  const deletedReleaseCount = (plan?.releases.length || 0) - editedCount
+  const conflictCount = plan?.restores.filter(r => r.conflict).length || 0
+  const canRollBack = !!plan && plan.tracked && !plan.rolledBackAt &&
+    plan.status !== 'in_progress' && plan.status !== 'paused'
+
+  return (
+    <>
+      <Card>
+        <CardContent className="pt-6">
+          {sessions.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No imports yet</p>
+          ) : (
+            <div className="border rounded-lg overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>File</TableHead>
+                    <TableHead>Imported By</TableHead>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Rows</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sessions.map(importSession => (
+                    <TableRow key={importSession.id}>
+                      <TableCell className="font-medium">{importSession.fileName}</TableCell>
+                      <TableCell className="text-sm">{importSession.user.name || importSession.user.email}</TableCell>
+                      <TableCell className="text-sm">{formatDateTime(importSession.startedAt)}</TableCell>
+                      <TableCell className="text-sm">
+                        {importSession.status === 'in_progress' || importSession.status === 'paused' ? (
+                          <LiveImportProgress importSession={importSession} />
+                        ) : (
+                          <>{importSession.rowsProcessed} / {importSession.totalRows}</>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariant(importSession.status)}>
+                          {importSession.status.replace(/_/g, ' ')}
+                        </Badge>
+                        {importSession.rolledBackAt && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {formatDateTime(importSession.rolledBackAt)}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {!importSession.rolledBackAt && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => openPreview(importSession.id)}
+                            disabled={importSession._count.changes === 0}
+                            title={importSession._count.changes === 0 ? 'No recorded changes to roll back' : undefined}
+                          >
+                            <Undo2 className="w-4 h-4 mr-2" />
+                            Roll back this import
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!previewingId} onOpenChange={open => !open && closePreview()}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Roll back {plan?.fileName || 'import'}</DialogTitle>
+            <DialogDescription>
+              Everything below is undone in a single transaction. This cannot be reversed.
+            </DialogDescription>
+          </DialogHeader>
+
+          {!plan ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {!plan.tracked && (
+                <p className="text-sm text-muted-foreground">
+                  This import has no recorded changes. It was probably run before changes were tracked.
+                </p>
+              )}
+
+              {plan.releases.length > 0 && (
+                <div className="space-y-1">
+                  <div className="text-sm font-medium">Releases</div>
+                  <div className="text-sm text-muted-foreground">
+                    Delete {deletedReleaseCount} release(s) with {plan.tracks} track(s) and {plan.platformRequests} platform request(s)
+                  </div>
+                  <ul className="text-sm max-h-40 overflow-y-auto border rounded-md p-2 space-y-0.5">
+                    {plan.releases.map(release => (
+                      <li key={release.id} className="flex items-center gap-2">
+                        <Link href={`/releases/${release.id}`} className="hover:underline">
+                          {release.title}
+                        </Link>
+                        {release.editedSinceImport && (
+                          <Badge variant="outline" className="text-amber-600 border-amber-300">
+                            Edited since import, kept
+                          </Badge>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <PlanSection
+                title="Artists"
+                items={plan.artists.delete.map(a => a.name)}
+                kept={plan.artists.keep.map(a => a.name)}
+              />
+              <PlanSection
+                title="A&R users"
+                items={plan.users.delete.map(u => u.name || u.id)}
+                kept={plan.users.keep.map(u => u.name || u.id)}
+              />
+              <PlanSection
+                title="Platform channels"
+                items={plan.channels.delete.map(c => c.name)}
+                kept={plan.channels.keep.map(c => c.name)}
+              />
+
+              {plan.restores.length > 0 && (
+                <div className="space-y-1">
+                  <div className="text-sm font-medium">Restore overwritten values</div>
+                  <ul className="text-sm text-muted-foreground space-y-0.5">
+                    {plan.restores.map(restore => (
+                      <li key={`${restore.entityType}:${restore.entityId}`}>
+                        {restore.label}:{' '}
+                        {Object.entries(restore.before).map(([field, value]) => `${field} → ${value ?? 'empty'}`).join(', ')}
+                        {restore.conflict && (
+                          <span className="text-amber-600"> (changed again since the import, left as is)</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {(editedCount > 0 || conflictCount > 0) && (
+                <div className="p-3 border border-amber-300 bg-amber-50 dark:bg-amber-950/20 rounded-lg text-sm flex items-start gap-2">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 text-amber-600 shrink-0" />
+                  <span>
+                    {editedCount > 0 && `${editedCount} release(s) were edited after the import and will be kept. Delete them by hand if they should go too. `}
+                    {conflictCount > 0 && `${conflictCount} value(s) changed again after the import and will not be restored.`}
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closePreview} disabled={rollingBack}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleRollback} disabled={!canRollBack || rollingBack}>
+              {rollingBack ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Rolling back...
+                </>
+              ) : (
+                <>
+                  <Undo2 className="w-4 h-4 mr-2" />
+                  Roll back
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,33 @@
+'use client'
+
+import { ImportValidationSeverity } from '@prisma/client'
+import { AlertTriangle, XCircle } from 'lucide-react'
+import type { RowValidationReport } from '@/lib/import-validation'
+
+interface ImportValidationIssuesProps {
+  report: RowValidationReport | null | undefined
+}
+
+// A row's validation report as a list; renders nothing for a clean row
+export function ImportValidationIssues({ report }: ImportValidationIssuesProps) {
+  if (!report || report.issues.length === 0) return null
+
+  return (
+    <ul className="space-y-0.5">
+      {report.issues.map((issue, index) => {
+        const isError = issue.severity === ImportValidationSeverity.ERROR
+        const Icon = isError ? XCircle : AlertTriangle
+        return (
+          <li
+            key={`${issue.code}-${index}`}
+            className={`flex items-start gap-1.5 text-sm ${isError ? 'text-destructive' : 'text-amber-600'}`}
+            title={issue.label}
+          >
+            <Icon className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+            <span className="break-words">{issue.message}</span>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
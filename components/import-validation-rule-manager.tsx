@@ -0,0 +1,225 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { ImportValidationSeverity } from '@prisma/client'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { useToast } from '@/hooks/use-toast'
+import { Check, RotateCcw } from 'lucide-react'
+import type { ImportValidationRuleState } from '@/lib/import-validation'
+
+interface ImportValidationRuleManagerProps {
+  rules: ImportValidationRuleState[]
+}
+
+const SEVERITY_LABELS: Record<ImportValidationSeverity, string> = {
+  ERROR: 'Error (skip row)',
+  WARN: 'Warning',
+  IGNORE: 'Ignore',
+}
+
+const CATEGORIES: Array<{ value: ImportValidationRuleState['category']; title: string }> = [
+  { value: 'required', title: 'Required Fields' },
+  { value: 'dates', title: 'Dates' },
+  { value: 'titles', title: 'Titles' },
+  { value: 'tracks', title: 'Tracks' },
+  { value: 'values', title: 'Unknown Values' },
+  { value: 'cross-field', title: 'Cross-field Checks' },
+]
+
+// Form values of a rule; params are kept as typed so inputs can be cleared
+interface RuleDraft {
+  severity: ImportValidationSeverity
+  params: Record<string, string>
+}
+
+const toDraft = (rule: ImportValidationRuleState): RuleDraft => ({
+  severity: rule.severity,
+  params: Object.fromEntries(Object.entries(rule.paramValues).map(([key, value]) => [key, String(value)])),
+})
+
+export function ImportValidationRuleManager({ rules }: ImportValidationRuleManagerProps) {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [drafts, setDrafts] = useState<Record<string, RuleDraft>>({})
+  const [savingCode, setSavingCode] = useState<string | null>(null)
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries(rules.map(rule => [rule.code, toDraft(rule)])))
+  }, [rules])
+
+  const updateDraft = (code: string, changes: Partial<RuleDraft>) => {
+    setDrafts(prev => ({ ...prev, [code]: { ...prev[code], ...changes } }))
+  }
+
+  const isChanged = (rule: ImportValidationRuleState) => {
+    const draft = drafts[rule.code]
+    if (!draft) return false
+    return draft.severity !== rule.severity ||
+      Object.keys(rule.paramValues).some(key => draft.params[key] !== String(rule.paramValues[key]))
+  }
+
+  const handleSave = async (rule: ImportValidationRuleState) => {
+    const draft = drafts[rule.code]
+    setSavingCode(rule.code)
+    try {
+      const response = await fetch(`/api/admin/import-validation-rules/${rule.code}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(draft),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update validation rule')
+      }
+
+      toast({
+        title: 'Success',
+        description: `${rule.label} updated`,
+      })
+      router.refresh()
+    } catch (err: any) {
+      toast({
+        title: 'Error',
+        description: err.message || 'Failed to update validation rule',
+        variant: 'destructive',
+      })
+    } finally {
+      setSavingCode(null)
+    }
+  }
+
+  const handleReset = async (rule: ImportValidationRuleState) => {
+    setSavingCode(rule.code)
+    try {
+      const response = await fetch(`/api/admin/import-validation-rules/${rule.code}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to reset validation rule')
+      }
+
+      toast({
+        title: 'Success',
+        description: `${rule.label} reset to its defaults`,
+      })
+      router.refresh()
+    } catch (err: any) {
+      toast({
+        title: 'Error',
+        description: err.message || 'Failed to reset validation rule',
+        variant: 'destructive',
+      })
+    } finally {
+      setSavingCode(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {CATEGORIES.map(category => {
+        const categoryRules = rules.filter(rule => rule.category === category.value)
+        if (categoryRules.length === 0) return null
+
+        return (
+          <Card key={category.value}>
+            <CardHeader>
+              <CardTitle>{category.title}</CardTitle>
+              <CardDescription>{categoryRules.length} rule(s)</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {categoryRules.map(rule => {
+                  const draft = drafts[rule.code] || toDraft(rule)
+                  const saving = savingCode === rule.code
+
+                  return (
+                    <div
+                      key={rule.code}
+                      className="flex flex-col md:flex-row md:items-start justify-between gap-4 p-4 border rounded-lg hover:bg-muted/50 transition-colors"
+                    >
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="font-medium text-base">{rule.label}</span>
+                          <code className="text-xs text-muted-foreground">{rule.code}</code>
+                          {rule.overridden && (
+                            <Badge variant="outline" className="text-xs">Customized</Badge>
+                          )}
+                        </div>
+                        <p className="text-sm text-muted-foreground">{rule.description}</p>
+                        {(rule.params || []).length > 0 && (
+                          <div className="flex flex-wrap gap-4 mt-3">
+                            {(rule.params || []).map(param => (
+                              <div key={param.key} className="space-y-1">
+                                <Label htmlFor={`${rule.code}-${param.key}`} className="text-xs">
+                                  {param.label} (default {param.default})
+                                </Label>
+                                <Input
+                                  id={`${rule.code}-${param.key}`}
+                                  type="number"
+                                  className="w-32"
+                                  value={draft.params[param.key] ?? ''}
+                                  onChange={(e) => updateDraft(rule.code, {
+                                    params: { ...draft.params, [param.key]: e.target.value },
+                                  })}
+                                />
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Select
+                          value={draft.severity}
+                          disabled={rule.fixedSeverity}
+                          onValueChange={(value) => updateDraft(rule.code, { severity: value as ImportValidationSeverity })}
+                        >
+                          <SelectTrigger className="w-[160px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.values(ImportValidationSeverity).map(severity => (
+                              <SelectItem key={severity} value={severity}>
+                                {SEVERITY_LABELS[severity]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          size="sm"
+                          onClick={() => handleSave(rule)}
+                          disabled={saving || !isChanged(rule)}
+                          title="Save"
+                        >
+                          <Check className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleReset(rule)}
+                          disabled={saving || !rule.overridden}
+                          title="Reset to defaults"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
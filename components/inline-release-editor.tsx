@@ -10,6 +10,7 @@ import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { useToast } from '@/hooks/use-toast'
+import { useFieldPermissions } from '@/hooks/use-field-permissions'
 import { CopyrightStatus, VideoType, ReleaseType } from '@prisma/client'
 import { Calendar, Save, X, Loader2, ChevronDown, ChevronUp } from 'lucide-react'
 import { formatDate } from '@/lib/utils'
@@ -49,6 +50,7 @@ export function InlineReleaseEditor({ release, employees = [], onSave, onCancel
   const { toast } = useToast()
   const [loading, setLoading] = useState(false)
   const [expanded, setExpanded] = useState(true)
+  const fieldPermissions = useFieldPermissions('release')
   
   const [formData, setFormData] = useState({
     title: release.title || '',
@@ -86,6 +88,29 @@ export function InlineReleaseEditor({ release, employees = [], onSave, onCancel
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+
+    const missing = fieldPermissions.missingRequired({
+      title: formData.title,
+      releaseType: formData.type,
+      artistsChosenDate: formData.artistsChosenDate,
+      legacyReleaseDate: formData.legacyReleaseDate,
+      copyrightStatus: formData.copyrightStatus,
+      videoType: formData.videoType,
+      assignedA_RId: formData.assignedA_RId,
+    })
+    if (missing.length > 0) {
+      toast({
+        title: 'Error',
+        description: `Required fields cannot be empty: ${missing.join(', ')}`,
+        variant: 'destructive',
+      })
+      return
+    }
+
+    // Fields the role can't edit are left out so they are never overwritten
+    const editable = (fieldName: string, value: unknown) =>
+      fieldPermissions.canEdit(fieldName) ? value : undefined
+
     setLoading(true)
 
     try {
@@ -93,14 +118,14 @@ export function InlineReleaseEditor({ release, employees = [], onSave, onCancel
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          title: formData.title,
-          type: formData.type,
+          title: editable('title', formData.title),
+          type: editable('releaseType', formData.type),
           artists: formData.artists || null,
-          artistsChosenDate: formData.artistsChosenDate || null,
-          legacyReleaseDate: formData.legacyReleaseDate || null,
-          copyrightStatus: formData.copyrightStatus === 'none' ? null : formData.copyrightStatus,
-          videoType: formData.videoType,
-          assignedA_RId: formData.assignedA_RId === 'none' ? null : formData.assignedA_RId,
+          artistsChosenDate: editable('artistsChosenDate', formData.artistsChosenDate || null),
+          legacyReleaseDate: editable('legacyReleaseDate', formData.legacyReleaseDate || null),
+          copyrightStatus: editable('copyrightStatus', formData.copyrightStatus === 'none' ? null : formData.copyrightStatus),
+          videoType: editable('videoType', formData.videoType),
+          assignedA_RId: editable('assignedA_RId', formData.assignedA_RId === 'none' ? null : formData.assignedA_RId),
           notes: formData.notes || null,
         }),
       })
@@ -165,32 +190,38 @@ export function InlineReleaseEditor({ release, employees = [], onSave, onCancel
               <CardContent>
                 <form onSubmit={handleSubmit} className="space-y-4">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="title">Release Title *</Label>
-                      <Input
-                        id="title"
-                        value={formData.title}
-                        onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-                        required
-                        className="bg-background"
-                      />
-                    </div>
+                    {fieldPermissions.canView('title') && (
+                      <div className="space-y-2">
+                        <Label htmlFor="title">Release Title *</Label>
+                        <Input
+                          id="title"
+                          value={formData.title}
+                          onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                          required
+                          disabled={!fieldPermissions.canEdit('title')}
+                          className="bg-background"
+                        />
+                      </div>
+                    )}
 
-                    <div className="space-y-2">
-                      <Label htmlFor="type">Release Type *</Label>
-                      <Select
-                        value={formData.type}
-                        onValueChange={(value) => setFormData({ ...formData, type: value as ReleaseType })}
-                      >
-                        <SelectTrigger className="bg-background">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value={ReleaseType.SINGLE}>Single</SelectItem>
-                          <SelectItem value={ReleaseType.ALBUM}>Album</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
+                    {fieldPermissions.canView('releaseType') && (
+                      <div className="space-y-2">
+                        <Label htmlFor="type">Release Type *</Label>
+                        <Select
+                          value={formData.type}
+                          onValueChange={(value) => setFormData({ ...formData, type: value as ReleaseType })}
+                          disabled={!fieldPermissions.canEdit('releaseType')}
+                        >
+                          <SelectTrigger className="bg-background">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={ReleaseType.SINGLE}>Single</SelectItem>
+                            <SelectItem value={ReleaseType.ALBUM}>Album</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
                   </div>
 
                   <div className="space-y-2">
@@ -210,72 +241,95 @@ export function InlineReleaseEditor({ release, employees = [], onSave, onCancel
                   </div>
 
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="artistsChosenDate">Artist's Chosen Date</Label>
-                      <Input
-                        id="artistsChosenDate"
-                        type="date"
-                        value={formData.artistsChosenDate}
-                        onChange={(e) => setFormData({ ...formData, artistsChosenDate: e.target.value })}
-                        className="bg-background"
-                      />
-                    </div>
+                    {fieldPermissions.canView('artistsChosenDate') && (
+                      <div className="space-y-2">
+                        <Label htmlFor="artistsChosenDate">
+                          Artist's Chosen Date{fieldPermissions.isRequired('artistsChosenDate') && ' *'}
+                        </Label>
+                        <Input
+                          id="artistsChosenDate"
+                          type="date"
+                          value={formData.artistsChosenDate}
+                          onChange={(e) => setFormData({ ...formData, artistsChosenDate: e.target.value })}
+                          disabled={!fieldPermissions.canEdit('artistsChosenDate')}
+                          className="bg-background"
+                        />
+                      </div>
+                    )}
 
-                    <div className="space-y-2">
-                      <Label htmlFor="legacyReleaseDate">Legacy Release Date</Label>
-                      <Input
-                        id="legacyReleaseDate"
-                        type="date"
-                        value={formData.legacyReleaseDate}
-                        onChange={(e) => setFormData({ ...formData, legacyReleaseDate: e.target.value })}
-                        className="bg-background"
-                      />
-                    </div>
+                    {fieldPermissions.canView('legacyReleaseDate') && (
+                      <div className="space-y-2">
+                        <Label htmlFor="legacyReleaseDate">
+                          Legacy Release Date{fieldPermissions.isRequired('legacyReleaseDate') && ' *'}
+                        </Label>
+                        <Input
+                          id="legacyReleaseDate"
+                          type="date"
+                          value={formData.legacyReleaseDate}
+                          onChange={(e) => setFormData({ ...formData, legacyReleaseDate: e.target.value })}
+                          disabled={!fieldPermissions.canEdit('legacyReleaseDate')}
+                          className="bg-background"
+                        />
+                      </div>
+                    )}
                   </div>
 
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="copyrightStatus">Copyright Status</Label>
-                      <Select
-                        value={formData.copyrightStatus}
-                        onValueChange={(value) => setFormData({ ...formData, copyrightStatus: value })}
-                      >
-                        <SelectTrigger className="bg-background">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="none">None</SelectItem>
-                          <SelectItem value={CopyrightStatus.ORIGINAL}>Original</SelectItem>
-                          <SelectItem value={CopyrightStatus.COVER}>Cover</SelectItem>
-                          <SelectItem value={CopyrightStatus.INTERNATIONAL}>International</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
+                    {fieldPermissions.canView('copyrightStatus') && (
+                      <div className="space-y-2">
+                        <Label htmlFor="copyrightStatus">
+                          Copyright Status{fieldPermissions.isRequired('copyrightStatus') && ' *'}
+                        </Label>
+                        <Select
+                          value={formData.copyrightStatus}
+                          onValueChange={(value) => setFormData({ ...formData, copyrightStatus: value })}
+                          disabled={!fieldPermissions.canEdit('copyrightStatus')}
+                        >
+                          <SelectTrigger className="bg-background">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">None</SelectItem>
+                            <SelectItem value={CopyrightStatus.ORIGINAL}>Original</SelectItem>
+                            <SelectItem value={CopyrightStatus.COVER}>Cover</SelectItem>
+                            <SelectItem value={CopyrightStatus.INTERNATIONAL}>International</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
 
-                    <div className="space-y-2">
-                      <Label htmlFor="videoType">Video Type</Label>
-                      <Select
-                        value={formData.videoType}
-                        onValueChange={(value) => setFormData({ ...formData, videoType: value as VideoType })}
-                      >
-                        <SelectTrigger className="bg-background">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value={VideoType.NONE}>None</SelectItem>
-                          <SelectItem value={VideoType.MUSIC_VIDEO}>Music Video</SelectItem>
-                          <SelectItem value={VideoType.LYRICS_VIDEO}>Lyrics Video</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
+                    {fieldPermissions.canView('videoType') && (
+                      <div className="space-y-2">
+                        <Label htmlFor="videoType">
+                          Video Type{fieldPermissions.isRequired('videoType') && ' *'}
+                        </Label>
+                        <Select
+                          value={formData.videoType}
+                          onValueChange={(value) => setFormData({ ...formData, videoType: value as VideoType })}
+                          disabled={!fieldPermissions.canEdit('videoType')}
+                        >
+                          <SelectTrigger className="bg-background">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={VideoType.NONE}>None</SelectItem>
+                            <SelectItem value={VideoType.MUSIC_VIDEO}>Music Video</SelectItem>
+                            <SelectItem value={VideoType.LYRICS_VIDEO}>Lyrics Video</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
                   </div>
 
-                  {employees.length > 0 && (
+                  {employees.length > 0 && fieldPermissions.canView('assignedA_RId') && (
                     <div className="space-y-2">
-                      <Label htmlFor="assignedA_RId">Assigned A&R</Label>
+                      <Label htmlFor="assignedA_RId">
+                        Assigned A&R{fieldPermissions.isRequired('assignedA_RId') && ' *'}
+                      </Label>
                       <Select
                         value={formData.assignedA_RId}
                         onValueChange={(value) => setFormData({ ...formData, assignedA_RId: value })}
+                        disabled={!fieldPermissions.canEdit('assignedA_RId')}
                       >
                         <SelectTrigger className="bg-background">
                           <SelectValue />
@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { useToast } from '@/hooks/use-toast'
+import { useFieldPermissions } from '@/hooks/use-field-permissions'
 import { Save, X, Loader2, ChevronDown, ChevronUp } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Badge } from '@/components/ui/badge'
@@ -22,6 +23,7 @@ export function InlineTrackEditor({ track, onSave, onCancel }: InlineTrackEditor
   const { toast } = useToast()
   const [loading, setLoading] = useState(false)
   const [expanded, setExpanded] = useState(true)
+  const fieldPermissions = useFieldPermissions('track')
   const [formData, setFormData] = useState({
     name: '',
     trackNumber: '',
@@ -112,6 +114,21 @@ export function InlineTrackEditor({ track, onSave, onCancel }: InlineTrackEditor
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+
+    const missing = fieldPermissions.missingRequired(formData)
+    if (missing.length > 0) {
+      toast({
+        title: 'Error',
+        description: `Required fields cannot be empty: ${missing.join(', ')}`,
+        variant: 'destructive',
+      })
+      return
+    }
+
+    // Fields the role can't edit are left out so they are never overwritten
+    const editable = (fieldName: string, value: unknown) =>
+      fieldPermissions.canEdit(fieldName) ? value : undefined
+
     setLoading(true)
 
     const trackId = typeof track === 'string' ? track : track.id
@@ -121,15 +138,15 @@ export function InlineTrackEditor({ track, onSave, onCancel }: InlineTrackEditor
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          name: formData.name,
-          trackNumber: formData.trackNumber ? parseInt(formData.trackNumber) : null,
-          performer: formData.performer || null,
-          composer: formData.composer || null,
-          band: formData.band || null,
-          musicProducer: formData.musicProducer || null,
-          studio: formData.studio || null,
-          recordLabel: formData.recordLabel || null,
-          genre: formData.genre || null,
+          name: editable('name', formData.name),
+          trackNumber: editable('trackNumber', formData.trackNumber ? parseInt(formData.trackNumber) : null),
+          performer: editable('performer', formData.performer || null),
+          composer: editable('composer', formData.composer || null),
+          band: editable('band', formData.band || null),
+          musicProducer: editable('musicProducer', formData.musicProducer || null),
+          studio: editable('studio', formData.studio || null),
+          recordLabel: editable('recordLabel', formData.recordLabel || null),
+          genre: editable('genre', formData.genre || null),
         }),
       })
 
@@ -189,111 +206,138 @@ export function InlineTrackEditor({ track, onSave, onCancel }: InlineTrackEditor
                 className="space-y-4"
               >
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="name">Track Name *</Label>
-                    <Input
-                      id="name"
-                      value={formData.name}
-                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                      required
-                      className="bg-background"
-                    />
-                  </div>
+                  {fieldPermissions.canView('name') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="name">Track Name *</Label>
+                      <Input
+                        id="name"
+                        disabled={!fieldPermissions.canEdit('name')}
+                        value={formData.name}
+                        onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                        required
+                        className="bg-background"
+                      />
+                    </div>
+                  )}
 
-                  <div className="space-y-2">
-                    <Label htmlFor="trackNumber">Track Number</Label>
-                    <Input
-                      id="trackNumber"
-                      type="number"
-                      min="1"
-                      value={formData.trackNumber}
-                      onChange={(e) => setFormData({ ...formData, trackNumber: e.target.value })}
-                      className="bg-background"
-                    />
-                  </div>
+                  {fieldPermissions.canView('trackNumber') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="trackNumber">Track Number{fieldPermissions.isRequired('trackNumber') && ' *'}</Label>
+                      <Input
+                        id="trackNumber"
+                        disabled={!fieldPermissions.canEdit('trackNumber')}
+                        type="number"
+                        min="1"
+                        value={formData.trackNumber}
+                        onChange={(e) => setFormData({ ...formData, trackNumber: e.target.value })}
+                        className="bg-background"
+                      />
+                    </div>
+                  )}
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="performer">Artist</Label>
-                    <Input
-                      id="performer"
-                      value={formData.performer}
-                      onChange={(e) => setFormData({ ...formData, performer: e.target.value })}
-                      className="bg-background"
-                      placeholder="Enter artist names (comma-separated)"
-                    />
-                    {track.trackArtists && track.trackArtists.length > 0 && (
-                      <p className="text-xs text-muted-foreground">
-                        Current artists are shown above. Edit to change.
-                      </p>
-                    )}
-                  </div>
+                  {fieldPermissions.canView('performer') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="performer">Artist{fieldPermissions.isRequired('performer') && ' *'}</Label>
+                      <Input
+                        id="performer"
+                        disabled={!fieldPermissions.canEdit('performer')}
+                        value={formData.performer}
+                        onChange={(e) => setFormData({ ...formData, performer: e.target.value })}
+                        className="bg-background"
+                        placeholder="Enter artist names (comma-separated)"
+                      />
+                      {track.trackArtists && track.trackArtists.length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Current artists are shown above. Edit to change.
+                        </p>
+                      )}
+                    </div>
+                  )}
 
-                  <div className="space-y-2">
-                    <Label htmlFor="composer">Composer</Label>
-                    <Input
-                      id="composer"
-                      value={formData.composer}
-                      onChange={(e) => setFormData({ ...formData, composer: e.target.value })}
-                      className="bg-background"
-                    />
-                  </div>
+                  {fieldPermissions.canView('composer') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="composer">Composer{fieldPermissions.isRequired('composer') && ' *'}</Label>
+                      <Input
+                        id="composer"
+                        disabled={!fieldPermissions.canEdit('composer')}
+                        value={formData.composer}
+                        onChange={(e) => setFormData({ ...formData, composer: e.target.value })}
+                        className="bg-background"
+                      />
+                    </div>
+                  )}
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="band">Band</Label>
-                    <Input
-                      id="band"
-                      value={formData.band}
-                      onChange={(e) => setFormData({ ...formData, band: e.target.value })}
-                      className="bg-background"
-                    />
-                  </div>
+                  {fieldPermissions.canView('band') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="band">Band{fieldPermissions.isRequired('band') && ' *'}</Label>
+                      <Input
+                        id="band"
+                        disabled={!fieldPermissions.canEdit('band')}
+                        value={formData.band}
+                        onChange={(e) => setFormData({ ...formData, band: e.target.value })}
+                        className="bg-background"
+                      />
+                    </div>
+                  )}
 
-                  <div className="space-y-2">
-                    <Label htmlFor="musicProducer">Music Producer</Label>
-                    <Input
-                      id="musicProducer"
-                      value={formData.musicProducer}
-                      onChange={(e) => setFormData({ ...formData, musicProducer: e.target.value })}
-                      className="bg-background"
-                    />
-                  </div>
+                  {fieldPermissions.canView('musicProducer') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="musicProducer">Music Producer{fieldPermissions.isRequired('musicProducer') && ' *'}</Label>
+                      <Input
+                        id="musicProducer"
+                        disabled={!fieldPermissions.canEdit('musicProducer')}
+                        value={formData.musicProducer}
+                        onChange={(e) => setFormData({ ...formData, musicProducer: e.target.value })}
+                        className="bg-background"
+                      />
+                    </div>
+                  )}
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="studio">Studio</Label>
-                    <Input
-                      id="studio"
-                      value={formData.studio}
-                      onChange={(e) => setFormData({ ...formData, studio: e.target.value })}
-                      className="bg-background"
-                    />
-                  </div>
+                  {fieldPermissions.canView('studio') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="studio">Studio{fieldPermissions.isRequired('studio') && ' *'}</Label>
+                      <Input
+                        id="studio"
+                        disabled={!fieldPermissions.canEdit('studio')}
+                        value={formData.studio}
+                        onChange={(e) => setFormData({ ...formData, studio: e.target.value })}
+                        className="bg-background"
+                      />
+                    </div>
+                  )}
+
+                  {fieldPermissions.canView('recordLabel') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="recordLabel">Record Label{fieldPermissions.isRequired('recordLabel') && ' *'}</Label>
+                      <Input
+                        id="recordLabel"
+                        disabled={!fieldPermissions.canEdit('recordLabel')}
+                        value={formData.recordLabel}
+                        onChange={(e) => setFormData({ ...formData, recordLabel: e.target.value })}
+                        className="bg-background"
+                      />
+                    </div>
+                  )}
+                </div>
 
+                {fieldPermissions.canView('genre') && (
                   <div className="space-y-2">
-                    <Label htmlFor="recordLabel">Record Label</Label>
+                    <Label htmlFor="genre">Genre{fieldPermissions.isRequired('genre') && ' *'}</Label>
                     <Input
-                      id="recordLabel"
-                      value={formData.recordLabel}
-                      onChange={(e) => setFormData({ ...formData, recordLabel: e.target.value })}
+                      id="genre"
+                      disabled={!fieldPermissions.canEdit('genre')}
+                      value={formData.genre}
+                      onChange={(e) => setFormData({ ...formData, genre: e.target.value })}
                       className="bg-background"
                     />
                   </div>
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="genre">Genre</Label>
-                  <Input
-                    id="genre"
-                    value={formData.genre}
-                    onChange={(e) => setFormData({ ...formData, genre: e.target.value })}
-                    className="bg-background"
-                  />
-                </div>
+                )}
 
                 <div className="flex items-center justify-end gap-2 pt-4 border-t">
                   <Button
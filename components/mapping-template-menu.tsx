@@ -0,0 +1,528 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { useToast } from '@/hooks/use-toast'
+import { History, LayoutTemplate, Loader2, Plus, Save, Sparkles, Trash2, Users } from 'lucide-react'
+import type { ColumnMapping, MappingConfig } from '@/lib/csv-importer'
+
+export interface MappingTemplateData {
+  id: string
+  name: string
+  description: string | null
+  version: number
+  isShared: boolean
+  isOwner: boolean
+  lastUsedAt: string | null
+  updatedAt: string
+  user: {
+    id: string
+    name: string | null
+    email: string
+  }
+}
+
+export interface MappingTemplateSuggestion {
+  id: string
+  name: string
+  version: number
+  owner: string | null
+  isOwner: boolean
+  score: number
+}
+
+interface TemplateVersion {
+  id: string
+  version: number
+  createdAt: string
+  mappingConfig: MappingConfig
+}
+
+interface MappingTemplateMenuProps {
+  // Headers of the file being imported
+  headers: string[]
+  // Current mapping, saved when the user creates or updates a template
+  currentMappingConfig: MappingConfig
+  // Templates whose header signature matches the file, best first
+  suggestions?: MappingTemplateSuggestion[]
+  onApply: (columns: ColumnMapping[]) => void
+}
+
+const initialFormData = {
+  name: '',
+  description: '',
+  isShared: false,
+}
+
+export function MappingTemplateMenu({
+  headers,
+  currentMappingConfig,
+  suggestions = [],
+  onApply,
+}: MappingTemplateMenuProps) {
+  const { toast } = useToast()
+  const [templates, setTemplates] = useState<MappingTemplateData[]>([])
+  const [activeTemplateId, setActiveTemplateId] = useState<string | null>(null)
+  const [dismissedSuggestion, setDismissedSuggestion] = useState(false)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [formData, setFormData] = useState(initialFormData)
+  const [versionsTemplate, setVersionsTemplate] = useState<MappingTemplateData | null>(null)
+  const [versions, setVersions] = useState<TemplateVersion[]>([])
+  const [loadingVersions, setLoadingVersions] = useState(false)
+
+  const fetchTemplates = async () => {
+    try {
+      const response = await fetch('/api/import/mapping-templates')
+      if (!response.ok) return
+      const data = await response.json()
+      setTemplates(data.templates || [])
+    } catch (error) {
+      console.error('Failed to fetch mapping templates:', error)
+    }
+  }
+
+  useEffect(() => {
+    fetchTemplates()
+  }, [])
+
+  // A new file brings new suggestions
+  const headerKey = headers.join('\u0000')
+  useEffect(() => {
+    setActiveTemplateId(null)
+    setDismissedSuggestion(false)
+  }, [headerKey])
+
+  const activeTemplate = templates.find(t => t.id === activeTemplateId)
+  const topSuggestion = suggestions[0]
+
+  const applyTemplate = async (templateId: string, name: string) => {
+    try {
+      const response = await fetch(`/api/import/mapping-templates/${templateId}/apply`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ headers }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to apply template')
+      }
+
+      onApply(data.columns)
+      setActiveTemplateId(templateId)
+      setDismissedSuggestion(true)
+      toast({
+        title: 'Success',
+        description: `Applied template "${name}" (v${data.version})`,
+      })
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to apply template',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleCreate = async () => {
+    if (!formData.name.trim()) {
+      toast({
+        title: 'Error',
+        description: 'Please enter a name for this template',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    setSaving(true)
+    try {
+      const response = await fetch('/api/import/mapping-templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: formData.name,
+          description: formData.description,
+          isShared: formData.isShared,
+          headers,
+          mappingConfig: currentMappingConfig,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save template')
+      }
+
+      toast({
+        title: 'Success',
+        description: `Saved template "${data.template.name}"`,
+      })
+      setActiveTemplateId(data.template.id)
+      setDialogOpen(false)
+      fetchTemplates()
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save template',
+        variant: 'destructive',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const updateTemplate = async (template: MappingTemplateData, patch: Record<string, any>, successMessage: string) => {
+    try {
+      const response = await fetch(`/api/import/mapping-templates/${template.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(patch),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update template')
+      }
+
+      toast({
+        title: 'Success',
+        description: successMessage,
+      })
+      fetchTemplates()
+      return data.template as MappingTemplateData
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update template',
+        variant: 'destructive',
+      })
+      return null
+    }
+  }
+
+  const deleteTemplate = async (template: MappingTemplateData) => {
+    if (!confirm(`Delete the mapping template "${template.name}" and all its versions?`)) return
+
+    try {
+      const response = await fetch(`/api/import/mapping-templates/${template.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to delete template')
+      }
+
+      if (activeTemplateId === template.id) {
+        setActiveTemplateId(null)
+      }
+      toast({
+        title: 'Success',
+        description: `Deleted template "${template.name}"`,
+      })
+      fetchTemplates()
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete template',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const openVersions = async (template: MappingTemplateData) => {
+    setVersionsTemplate(template)
+    setVersions([])
+    setLoadingVersions(true)
+    try {
+      const response = await fetch(`/api/import/mapping-templates/${template.id}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load versions')
+      }
+      setVersions(data.template.versions || [])
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to load versions',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoadingVersions(false)
+    }
+  }
+
+  const restoreVersion = async (version: TemplateVersion) => {
+    if (!versionsTemplate) return
+
+    const updated = await updateTemplate(
+      versionsTemplate,
+      { restoreVersion: version.version },
+      `Restored version ${version.version} of "${versionsTemplate.name}"`
+    )
+    if (updated) {
+      setVersionsTemplate(null)
+      if (activeTemplateId === updated.id) {
+        applyTemplate(updated.id, updated.name)
+      }
+    }
+  }
+
+  const countMapped = (config: MappingConfig) =>
+    (config?.columns || []).filter(column => column.targetField).length
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="gap-2">
+              <LayoutTemplate className="w-4 h-4" />
+              {activeTemplate ? `${activeTemplate.name} (v${activeTemplate.version})` : 'Templates'}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-80">
+            <DropdownMenuLabel>Mapping Templates</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {templates.length === 0 && (
+              <div className="px-2 py-3 text-sm text-muted-foreground">
+                No mapping templates yet
+              </div>
+            )}
+            {templates.map(template => {
+              const suggestion = suggestions.find(s => s.id === template.id)
+              return (
+                <DropdownMenuItem
+                  key={template.id}
+                  className="flex items-center gap-2"
+                  onSelect={() => applyTemplate(template.id, template.name)}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-1.5">
+                      <span className="truncate font-medium">{template.name}</span>
+                      <Badge variant="outline" className="text-[10px] px-1 py-0">v{template.version}</Badge>
+                      {suggestion && (
+                        <Badge variant="secondary" className="text-[10px] px-1 py-0">
+                          {Math.round(suggestion.score * 100)}% match
+                        </Badge>
+                      )}
+                    </div>
+                    {!template.isOwner ? (
+                      <div className="text-xs text-muted-foreground truncate">
+                        Shared by {template.user.name || template.user.email}
+                      </div>
+                    ) : template.isShared && (
+                      <div className="flex items-center gap-1 text-xs text-muted-foreground truncate">
+                        <Users className="w-3 h-3" />
+                        Shared with everyone
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-0.5">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Version history"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        openVersions(template)
+                      }}
+                    >
+                      <History className="w-3.5 h-3.5" />
+                    </Button>
+                    {template.isOwner && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          title={template.isShared ? 'Stop sharing' : 'Share with everyone'}
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            updateTemplate(
+                              template,
+                              { isShared: !template.isShared },
+                              template.isShared ? `"${template.name}" is no longer shared` : `"${template.name}" is now shared`
+                            )
+                          }}
+                        >
+                          <Users className={`w-3.5 h-3.5 ${template.isShared ? 'text-primary' : ''}`} />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-destructive"
+                          title="Delete template"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            deleteTemplate(template)
+                          }}
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </DropdownMenuItem>
+              )
+            })}
+            <DropdownMenuSeparator />
+            {activeTemplate?.isOwner && (
+              <DropdownMenuItem
+                onSelect={() => updateTemplate(
+                  activeTemplate,
+                  { headers, mappingConfig: currentMappingConfig },
+                  `Saved "${activeTemplate.name}" as version ${activeTemplate.version + 1}`
+                )}
+              >
+                <Save className="w-4 h-4 mr-2" />
+                Update &quot;{activeTemplate.name}&quot;
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem
+              onSelect={() => {
+                setFormData(initialFormData)
+                setDialogOpen(true)
+              }}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Save mapping as template...
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {topSuggestion && !dismissedSuggestion && (
+        <div className="p-3 border rounded-lg bg-primary/5 flex items-center gap-3">
+          <Sparkles className="w-4 h-4 text-primary shrink-0" />
+          <div className="flex-1 text-sm">
+            This file looks like <span className="font-medium">{topSuggestion.name}</span>
+            {' '}({Math.round(topSuggestion.score * 100)}% header match
+            {!topSuggestion.isOwner && topSuggestion.owner && `, shared by ${topSuggestion.owner}`}).
+          </div>
+          <Button size="sm" onClick={() => applyTemplate(topSuggestion.id, topSuggestion.name)}>
+            Apply
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setDismissedSuggestion(true)}>
+            Dismiss
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save Mapping Template</DialogTitle>
+            <DialogDescription>
+              Save the current column mapping so files with the same layout are mapped the same way.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Name</Label>
+              <Input
+                id="template-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. Monthly submissions export"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="template-description">Description</Label>
+              <Textarea
+                id="template-description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                placeholder="Which file or form this mapping is for"
+                rows={3}
+              />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="template-shared"
+                checked={formData.isShared}
+                onCheckedChange={(checked) => setFormData({ ...formData, isShared: checked === true })}
+              />
+              <Label htmlFor="template-shared" className="font-normal">
+                Share with everyone who imports
+              </Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Template
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!versionsTemplate} onOpenChange={(open) => !open && setVersionsTemplate(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Versions of {versionsTemplate?.name}</DialogTitle>
+            <DialogDescription>
+              Restoring a version saves it again as the newest version.
+            </DialogDescription>
+          </DialogHeader>
+
+          {loadingVersions ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin" />
+            </div>
+          ) : (
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              {versions.map(version => (
+                <div key={version.id} className="flex items-center gap-3 p-3 border rounded-lg">
+                  <div className="flex-1 text-sm">
+                    <div className="font-medium">
+                      Version {version.version}
+                      {version.version === versionsTemplate?.version && (
+                        <Badge variant="secondary" className="ml-2 text-[10px] px-1 py-0">Current</Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(version.createdAt).toLocaleString()} • {countMapped(version.mappingConfig)} mapped columns
+                    </div>
+                  </div>
+                  {versionsTemplate?.isOwner && version.version !== versionsTemplate.version && (
+                    <Button size="sm" variant="outline" onClick={() => restoreVersion(version)}>
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
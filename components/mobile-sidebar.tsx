@@ -25,6 +25,7 @@ import { UserRole } from '@prisma/client'
 import { cn } from '@/lib/utils'
 import { motion, AnimatePresence } from 'framer-motion'
 import { ThemeToggle } from './theme-toggle'
+import { NotificationBell } from './notification-bell'
 
 interface MobileSidebarProps {
   userRole: UserRole
@@ -138,7 +139,10 @@ export function MobileSidebar({ userRole, userEmail }: MobileSidebarProps) {
                         <div className="h-14 w-[180px] bg-muted animate-pulse rounded" />
                       )}
                     </Link>
-                    <ThemeToggle />
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <NotificationBell />
+                      <ThemeToggle />
+                    </div>
                   </div>
                   <p className="text-xs text-muted-foreground truncate pl-1">{userEmail}</p>
                 </div>
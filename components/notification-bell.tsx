@@ -0,0 +1,293 @@
+'use client'
+
+import * as React from 'react'
+import { useRouter } from 'next/navigation'
+import { Bell, CheckCheck, Settings, X, Loader2 } from 'lucide-react'
+import { NotificationType } from '@prisma/client'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Switch } from '@/components/ui/switch'
+import { Label } from '@/components/ui/label'
+import { useToast } from '@/hooks/use-toast'
+import { cn, formatDateTime } from '@/lib/utils'
+import { NOTIFICATION_TYPE_LABELS } from '@/lib/notifications'
+
+interface NotificationItem {
+  id: string
+  type: NotificationType
+  title: string
+  message: string | null
+  link: string | null
+  readAt: string | null
+  createdAt: string
+}
+
+const POLL_INTERVAL_MS = 60000
+
+export function NotificationBell() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [open, setOpen] = React.useState(false)
+  const [notifications, setNotifications] = React.useState<NotificationItem[]>([])
+  const [unreadCount, setUnreadCount] = React.useState(0)
+  const [loading, setLoading] = React.useState(false)
+  const [showSettings, setShowSettings] = React.useState(false)
+  const [preferences, setPreferences] = React.useState<Record<NotificationType, boolean> | null>(null)
+
+  const fetchNotifications = React.useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications?limit=30')
+      if (!response.ok) return
+      const data = await response.json()
+      setNotifications(data.notifications || [])
+      setUnreadCount(data.unreadCount || 0)
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error)
+    }
+  }, [])
+
+  // Keep the unread badge fresh while the app is open
+  React.useEffect(() => {
+    fetchNotifications()
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [fetchNotifications])
+
+  React.useEffect(() => {
+    if (open) {
+      setLoading(true)
+      fetchNotifications().finally(() => setLoading(false))
+    } else {
+      setShowSettings(false)
+    }
+  }, [open, fetchNotifications])
+
+  const markRead = async (body: { ids?: string[]; all?: boolean; read: boolean }) => {
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update notifications')
+      }
+
+      const readAt = body.read ? new Date().toISOString() : null
+      setNotifications(prev => prev.map(n =>
+        body.all || body.ids?.includes(n.id) ? { ...n, readAt } : n
+      ))
+      setUnreadCount(data.unreadCount)
+    } catch (err: any) {
+      toast({
+        title: 'Error',
+        description: err.message || 'Failed to update notifications',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const openNotification = async (notification: NotificationItem) => {
+    if (!notification.readAt) {
+      await markRead({ ids: [notification.id], read: true })
+    }
+    if (notification.link) {
+      setOpen(false)
+      router.push(notification.link)
+    }
+  }
+
+  const dismiss = async (notification: NotificationItem) => {
+    try {
+      const response = await fetch(`/api/notifications/${notification.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to delete notification')
+      }
+      setNotifications(prev => prev.filter(n => n.id !== notification.id))
+      if (!notification.readAt) {
+        setUnreadCount(prev => Math.max(prev - 1, 0))
+      }
+    } catch (err: any) {
+      toast({
+        title: 'Error',
+        description: err.message || 'Failed to delete notification',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const openSettings = async () => {
+    setShowSettings(true)
+    if (preferences) return
+    try {
+      const response = await fetch('/api/notifications/preferences')
+      const data = await response.json()
+      if (response.ok) {
+        setPreferences(data.preferences)
+      }
+    } catch (error) {
+      console.error('Failed to fetch notification preferences:', error)
+    }
+  }
+
+  const togglePreference = async (type: NotificationType, enabled: boolean) => {
+    const previous = preferences
+    setPreferences(prev => (prev ? { ...prev, [type]: enabled } : prev))
+
+    try {
+      const response = await fetch('/api/notifications/preferences', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ preferences: { [type]: enabled } }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save preferences')
+      }
+      setPreferences(data.preferences)
+    } catch (err: any) {
+      setPreferences(previous)
+      toast({
+        title: 'Error',
+        description: err.message || 'Failed to save preferences',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-9 w-9 relative hover:bg-accent transition-colors">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-semibold flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-96 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <div className="font-semibold text-sm">
+            {showSettings ? 'Notification Settings' : 'Notifications'}
+          </div>
+          <div className="flex items-center gap-1">
+            {!showSettings && unreadCount > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs gap-1"
+                onClick={() => markRead({ all: true, read: true })}
+              >
+                <CheckCheck className="h-3 w-3" />
+                Mark all read
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2"
+              onClick={() => (showSettings ? setShowSettings(false) : openSettings())}
+            >
+              {showSettings ? <X className="h-3 w-3" /> : <Settings className="h-3 w-3" />}
+            </Button>
+          </div>
+        </div>
+
+        {showSettings ? (
+          <div className="p-4 space-y-3">
+            <p className="text-xs text-muted-foreground">Choose which events notify you.</p>
+            {preferences ? (
+              Object.values(NotificationType).map(type => (
+                <div key={type} className="flex items-center justify-between gap-4">
+                  <Label htmlFor={`notify-${type}`} className="text-sm font-normal">
+                    {NOTIFICATION_TYPE_LABELS[type]}
+                  </Label>
+                  <Switch
+                    id={`notify-${type}`}
+                    checked={preferences[type]}
+                    onCheckedChange={(checked) => togglePreference(type, checked)}
+                  />
+                </div>
+              ))
+            ) : (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="max-h-[420px] overflow-y-auto">
+            {loading && notifications.length === 0 ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              </div>
+            ) : notifications.length === 0 ? (
+              <div className="text-center py-8 text-sm text-muted-foreground">
+                You&apos;re all caught up
+              </div>
+            ) : (
+              notifications.map(notification => (
+                <div
+                  key={notification.id}
+                  className={cn(
+                    'group flex gap-3 px-4 py-3 border-b last:border-b-0 cursor-pointer hover:bg-muted/50 transition-colors',
+                    !notification.readAt && 'bg-primary/5'
+                  )}
+                  onClick={() => openNotification(notification)}
+                >
+                  <div className="pt-1.5">
+                    <div className={cn('h-2 w-2 rounded-full', notification.readAt ? 'bg-transparent' : 'bg-primary')} />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className={cn('text-sm', !notification.readAt && 'font-medium')}>
+                      {notification.title}
+                    </div>
+                    {notification.message && (
+                      <div className="text-xs text-muted-foreground mt-0.5 line-clamp-2">
+                        {notification.message}
+                      </div>
+                    )}
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {formatDateTime(notification.createdAt)}
+                    </div>
+                  </div>
+                  <div className="flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    {notification.readAt && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-1 text-[10px]"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          markRead({ ids: [notification.id], read: false })
+                        }}
+                      >
+                        Unread
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-1"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        dismiss(notification)
+                      }}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,66 @@
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { AlertTriangle } from 'lucide-react'
+import { formatDate } from '@/lib/utils'
+import type { OverdueRequest } from '@/lib/platform-sla'
+
+interface OverdueRequestsCardProps {
+  total: number
+  requests: OverdueRequest[]
+}
+
+function formatOverdue(hours: number): string {
+  return hours < 24 ? `${hours}h overdue` : `${Math.floor(hours / 24)}d overdue`
+}
+
+// Escalation list for managers: pending requests past their platform's SLA, most overdue first
+export function OverdueRequestsCard({ total, requests }: OverdueRequestsCardProps) {
+  return (
+    <Card id="overdue-requests" className={total > 0 ? 'border-red-500/50' : undefined}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className={`h-5 w-5 ${total > 0 ? 'text-red-500' : 'text-muted-foreground'}`} />
+          Overdue Platform Requests
+        </CardTitle>
+        <CardDescription>
+          {total > 0
+            ? `${total} pending request${total === 1 ? '' : 's'} past the platform SLA`
+            : 'Every pending request is within its platform SLA'}
+        </CardDescription>
+      </CardHeader>
+      {requests.length > 0 && (
+        <CardContent>
+          <div className="space-y-2">
+            {requests.map(request => (
+              <Link
+                key={request.id}
+                href={`/platforms/${request.platformPath}/${request.id}/update`}
+                className="flex items-center justify-between gap-4 p-3 rounded-lg border hover:bg-accent/50 transition-colors"
+              >
+                <div className="min-w-0">
+                  <div className="font-medium truncate">
+                    {request.releaseTitle || 'Untitled'}
+                    {request.trackName && ` • ${request.trackName}`}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {request.platformName}
+                    {request.artistName && ` • ${request.artistName}`} • due {formatDate(request.dueAt)}
+                  </div>
+                </div>
+                <Badge variant="destructive" className="shrink-0">
+                  {formatOverdue(request.hoursOverdue)}
+                </Badge>
+              </Link>
+            ))}
+          </div>
+          {total > requests.length && (
+            <p className="text-xs text-muted-foreground mt-3">
+              Showing the {requests.length} most overdue. Filter a platform by Overdue to see the rest.
+            </p>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  )
+}
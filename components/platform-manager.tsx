@@ -0,0 +1,552 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { UserRole } from '@prisma/client'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Checkbox } from '@/components/ui/checkbox'
+import { useToast } from '@/hooks/use-toast'
+import { Plus, Trash2, Edit2, Check, X } from 'lucide-react'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { PLATFORM_UPLOAD_FIELDS, isPlatformTeamRole } from '@/lib/platforms'
+import type { PlatformConfig } from '@/lib/platforms'
+
+interface PlatformManagerProps {
+  platforms: PlatformConfig[]
+  users: Array<{ id: string; name: string | null; email: string; role: UserRole }>
+}
+
+// Select value standing in for platforms worked only by their members
+const NO_TEAM_ROLE = 'none'
+
+const TEAM_ROLES = Object.values(UserRole).filter(role => isPlatformTeamRole(role))
+
+interface PlatformDraft {
+  name: string
+  supportsChannels: boolean
+  requiredUploadFields: string[]
+  teamRole: string
+  // Kept as typed so the input can be cleared; empty means no target
+  slaDays: string
+  slaBeforeReleaseDate: boolean
+  claimExpiryHours: string
+  trackRequests: boolean
+  active: boolean
+  memberIds: string[]
+  leadIds: string[]
+}
+
+const EMPTY_DRAFT: PlatformDraft = {
+  name: '',
+  supportsChannels: false,
+  requiredUploadFields: [],
+  teamRole: NO_TEAM_ROLE,
+  slaDays: '',
+  slaBeforeReleaseDate: false,
+  claimExpiryHours: '24',
+  trackRequests: false,
+  active: true,
+  memberIds: [],
+  leadIds: [],
+}
+
+const toDraft = (platform: PlatformConfig): PlatformDraft => ({
+  name: platform.name,
+  supportsChannels: platform.supportsChannels,
+  requiredUploadFields: platform.requiredUploadFields,
+  teamRole: platform.teamRole || NO_TEAM_ROLE,
+  slaDays: platform.slaDays !== null ? String(platform.slaDays) : '',
+  slaBeforeReleaseDate: platform.slaBeforeReleaseDate,
+  claimExpiryHours: String(platform.claimExpiryHours),
+  trackRequests: platform.trackRequests,
+  active: platform.active,
+  memberIds: platform.memberIds,
+  leadIds: platform.leadIds,
+})
+
+const toggle = (values: string[], value: string, checked: boolean) =>
+  checked ? Array.from(new Set([...values, value])) : values.filter(v => v !== value)
+
+export function PlatformManager({ platforms, users }: PlatformManagerProps) {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editDraft, setEditDraft] = useState<PlatformDraft>(EMPTY_DRAFT)
+  const [showAddForm, setShowAddForm] = useState(false)
+  const [formData, setFormData] = useState<PlatformDraft>(EMPTY_DRAFT)
+  const [loading, setLoading] = useState(false)
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+  const [platformToDelete, setPlatformToDelete] = useState<string | null>(null)
+
+  useEffect(() => {
+    setEditingId(null)
+  }, [platforms])
+
+  const toRequestBody = (draft: PlatformDraft) => ({
+    ...draft,
+    teamRole: draft.teamRole === NO_TEAM_ROLE ? null : draft.teamRole,
+    slaDays: draft.slaDays.trim() || null,
+    claimExpiryHours: draft.claimExpiryHours.trim(),
+    leadIds: draft.leadIds.filter(id => draft.memberIds.includes(id)),
+  })
+
+  const handleAddDefaults = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/admin/platforms/defaults', { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add default platforms')
+      }
+
+      toast({
+        title: 'Success',
+        description: `${data.created} platform(s) added`,
+      })
+      router.refresh()
+    } catch (err: any) {
+      toast({
+        title: 'Error',
+        description: err.message || 'Failed to add default platforms',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleAdd = async () => {
+    if (!formData.name.trim()) {
+      toast({
+        title: 'Error',
+        description: 'Name is required',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    setLoading(true)
+    try {
+      const response = await fetch('/api/admin/platforms', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...toRequestBody(formData), sortOrder: platforms.length }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create platform')
+      }
+
+      toast({
+        title: 'Success',
+        description: `${data.name} added`,
+      })
+
+      setFormData(EMPTY_DRAFT)
+      setShowAddForm(false)
+      router.refresh()
+    } catch (err: any) {
+      toast({
+        title: 'Error',
+        description: err.message || 'Failed to create platform',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleUpdate = async (id: string) => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/admin/platforms/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toRequestBody(editDraft)),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update platform')
+      }
+
+      toast({
+        title: 'Success',
+        description: `${data.name} updated`,
+      })
+
+      setEditingId(null)
+      router.refresh()
+    } catch (err: any) {
+      toast({
+        title: 'Error',
+        description: err.message || 'Failed to update platform',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDeleteClick = (id: string) => {
+    setPlatformToDelete(id)
+    setDeleteDialogOpen(true)
+  }
+
+  const handleDelete = async () => {
+    if (!platformToDelete) return
+
+    setLoading(true)
+    setDeleteDialogOpen(false)
+    try {
+      const response = await fetch(`/api/admin/platforms/${platformToDelete}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to delete platform')
+      }
+
+      toast({
+        title: 'Success',
+        description: 'Platform deleted successfully',
+      })
+
+      router.refresh()
+    } catch (err: any) {
+      toast({
+        title: 'Error',
+        description: err.message || 'Failed to delete platform',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+      setPlatformToDelete(null)
+    }
+  }
+
+  const startEdit = (platform: PlatformConfig) => {
+    setEditDraft(toDraft(platform))
+    setEditingId(platform.id)
+  }
+
+  const userLabel = (userId: string) => {
+    const user = users.find(u => u.id === userId)
+    return user ? user.name || user.email : 'Unknown user'
+  }
+
+  const renderFields = (
+    draft: PlatformDraft,
+    update: (changes: Partial<PlatformDraft>) => void,
+    idPrefix: string
+  ) => (
+    <>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-name`}>Name *</Label>
+          <Input
+            id={`${idPrefix}-name`}
+            value={draft.name}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder="e.g., Spotify"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Team role</Label>
+          <Select value={draft.teamRole} onValueChange={(value) => update({ teamRole: value })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_TEAM_ROLE}>None (members only)</SelectItem>
+              {TEAM_ROLES.map(role => (
+                <SelectItem key={role} value={role}>{role}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-6">
+        <div className="flex items-center space-x-2">
+          <Switch
+            checked={draft.supportsChannels}
+            onCheckedChange={(checked) => update({ supportsChannels: checked })}
+          />
+          <span className="text-sm text-muted-foreground">Uploads to channels</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch
+            checked={draft.trackRequests}
+            onCheckedChange={(checked) => update({ trackRequests: checked })}
+          />
+          <span className="text-sm text-muted-foreground">Uploads albums track by track</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch
+            checked={draft.active}
+            onCheckedChange={(checked) => update({ active: checked })}
+          />
+          <span className="text-sm text-muted-foreground">
+            {draft.active ? 'Active' : 'Inactive'}
+          </span>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-sla`}>Upload within (days)</Label>
+          <Input
+            id={`${idPrefix}-sla`}
+            type="number"
+            min={1}
+            value={draft.slaDays}
+            onChange={(e) => update({ slaDays: e.target.value })}
+            placeholder="No target"
+          />
+        </div>
+        <div className="flex items-end pb-2 space-x-2">
+          <Switch
+            checked={draft.slaBeforeReleaseDate}
+            onCheckedChange={(checked) => update({ slaBeforeReleaseDate: checked })}
+          />
+          <span className="text-sm text-muted-foreground">Due by the release date when sooner</span>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-claim-expiry`}>Claims expire after (hours idle)</Label>
+          <Input
+            id={`${idPrefix}-claim-expiry`}
+            type="number"
+            min={1}
+            value={draft.claimExpiryHours}
+            onChange={(e) => update({ claimExpiryHours: e.target.value })}
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Required before marking uploaded</Label>
+        <div className="flex flex-wrap gap-4">
+          {PLATFORM_UPLOAD_FIELDS.map(field => (
+            <label key={field.key} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={draft.requiredUploadFields.includes(field.key)}
+                onCheckedChange={(checked) => update({
+                  requiredUploadFields: toggle(draft.requiredUploadFields, field.key, checked === true),
+                })}
+              />
+              {field.label}
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Members</Label>
+        <p className="text-xs text-muted-foreground">
+          Members work this platform in addition to anyone holding its team role. Leads assign and
+          distribute its queue.
+        </p>
+        <div className="max-h-48 overflow-y-auto border rounded-lg p-3 grid grid-cols-1 md:grid-cols-2 gap-2">
+          {users.map(user => (
+            <div key={user.id} className="flex items-center gap-2 text-sm">
+              <label className="flex items-center gap-2 min-w-0">
+                <Checkbox
+                  checked={draft.memberIds.includes(user.id)}
+                  onCheckedChange={(checked) => update({
+                    memberIds: toggle(draft.memberIds, user.id, checked === true),
+                  })}
+                />
+                <span className="truncate">{user.name || user.email}</span>
+                <span className="text-xs text-muted-foreground">{user.role}</span>
+              </label>
+              {draft.memberIds.includes(user.id) && (
+                <label className="ml-auto flex items-center gap-1 text-xs">
+                  <Checkbox
+                    checked={draft.leadIds.includes(user.id)}
+                    onCheckedChange={(checked) => update({
+                      leadIds: toggle(draft.leadIds, user.id, checked === true),
+                    })}
+                  />
+                  Lead
+                </label>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </>
+  )
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Manage Platforms</CardTitle>
+              <CardDescription>Platforms releases are sent to, in the order they are shown</CardDescription>
+            </div>
+            <Button onClick={() => setShowAddForm(!showAddForm)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Platform
+            </Button>
+          </div>
+        </CardHeader>
+        {showAddForm && (
+          <CardContent className="space-y-4 border-t pt-4">
+            {renderFields(formData, (changes) => setFormData(prev => ({ ...prev, ...changes })), 'new')}
+            <div className="flex gap-2">
+              <Button onClick={handleAdd} disabled={loading}>
+                {loading ? 'Creating...' : 'Create Platform'}
+              </Button>
+              <Button variant="outline" onClick={() => setShowAddForm(false)}>
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Platforms</CardTitle>
+          <CardDescription>{platforms.length} platform(s)</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {platforms.length === 0 && (
+              <div className="flex flex-col items-center gap-3 py-8 text-center text-muted-foreground">
+                <p>No platforms yet. Add your own, or start from the original platforms.</p>
+                <Button variant="outline" onClick={handleAddDefaults} disabled={loading}>
+                  {loading ? 'Adding...' : 'Add Default Platforms'}
+                </Button>
+              </div>
+            )}
+            {platforms.map(platform => (
+              <div
+                key={platform.id}
+                className="flex items-center justify-between p-4 border rounded-lg hover:bg-muted/50 transition-colors"
+              >
+                {editingId === platform.id ? (
+                  <div className="flex-1 space-y-4">
+                    {renderFields(editDraft, (changes) => setEditDraft(prev => ({ ...prev, ...changes })), platform.id)}
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => handleUpdate(platform.id)} disabled={loading}>
+                        <Check className="w-4 h-4 mr-1" />
+                        Save
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                        <X className="w-4 h-4 mr-1" />
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="font-medium text-base">{platform.name}</span>
+                        <code className="text-xs text-muted-foreground">{platform.slug}</code>
+                        {platform.active ? (
+                          <Badge variant="default" className="text-xs">Active</Badge>
+                        ) : (
+                          <Badge variant="secondary" className="text-xs">Inactive</Badge>
+                        )}
+                        {platform.supportsChannels && (
+                          <Badge variant="outline" className="text-xs">Channels</Badge>
+                        )}
+                        {platform.trackRequests && (
+                          <Badge variant="outline" className="text-xs">Per track</Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {platform.teamRole ? `Team role ${platform.teamRole}` : 'No team role'}
+                        {platform.memberIds.length > 0 && ` · Members: ${platform.memberIds
+                          .map(id => platform.leadIds.includes(id) ? `${userLabel(id)} (lead)` : userLabel(id))
+                          .join(', ')}`}
+                      </p>
+                      {(platform.slaDays !== null || platform.slaBeforeReleaseDate) && (
+                        <p className="text-xs text-muted-foreground">
+                          SLA:{' '}
+                          {[
+                            platform.slaDays !== null && `upload within ${platform.slaDays} day(s)`,
+                            platform.slaBeforeReleaseDate && 'before the release date',
+                          ].filter(Boolean).join(', or ')}
+                        </p>
+                      )}
+                      {platform.requiredUploadFields.length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Required before upload:{' '}
+                          {PLATFORM_UPLOAD_FIELDS
+                            .filter(field => platform.requiredUploadFields.includes(field.key))
+                            .map(field => field.label)
+                            .join(', ')}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => startEdit(platform)}
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleDeleteClick(platform.id)}
+                        disabled={loading}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Platform</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete this platform? Platforms that already have requests or
+              channels can only be deactivated.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={loading}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={loading}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {loading ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -38,7 +38,7 @@ export function PlatformRequestListItem({ request, platformSlug, platformName }:
             {request.release?.artist.name}
             {request.track && ` • ${request.track.name}`}
           </p>
-          {platformName === 'youtube' && request.channelName && (
+          {request.channelName && (
             <p className="text-sm text-muted-foreground mt-1">
               📺 Channel: {request.channelName}
             </p>
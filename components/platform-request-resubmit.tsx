@@ -0,0 +1,127 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { useToast } from '@/hooks/use-toast'
+import { Loader2, RotateCcw } from 'lucide-react'
+
+interface ResubmitRequestButtonProps {
+  requestId: string
+  platformLabel: string
+  // Anonymous submitters confirm the contact email they submitted with
+  requireEmail?: boolean
+}
+
+export function ResubmitRequestButton({ requestId, platformLabel, requireEmail = false }: ResubmitRequestButtonProps) {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [notes, setNotes] = useState('')
+  const [contactEmail, setContactEmail] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const handleResubmit = async () => {
+    setSubmitting(true)
+    try {
+      const response = await fetch(`/api/platform-requests/${requestId}/resubmit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          notes,
+          contactEmail: requireEmail ? contactEmail : undefined,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to resubmit request')
+      }
+
+      toast({
+        title: 'Success',
+        description: `Resubmitted to ${platformLabel} for review`,
+      })
+
+      setOpen(false)
+      setNotes('')
+      router.refresh()
+    } catch (err: any) {
+      toast({
+        title: 'Error',
+        description: err.message || 'Failed to resubmit request',
+        variant: 'destructive',
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <>
+      <Button size="sm" variant="outline" className="gap-1" onClick={() => setOpen(true)}>
+        <RotateCcw className="w-3 h-3" />
+        Fix &amp; Resubmit
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Resubmit to {platformLabel}</DialogTitle>
+            <DialogDescription>
+              Describe what was fixed. The request goes back to the {platformLabel} team for review.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            {requireEmail && (
+              <div className="space-y-2">
+                <Label htmlFor={`resubmit-email-${requestId}`}>Contact email used for this submission *</Label>
+                <Input
+                  id={`resubmit-email-${requestId}`}
+                  type="email"
+                  value={contactEmail}
+                  onChange={(e) => setContactEmail(e.target.value)}
+                  placeholder="you@example.com"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor={`resubmit-notes-${requestId}`}>What was fixed? *</Label>
+              <Textarea
+                id={`resubmit-notes-${requestId}`}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="e.g., Replaced the cover artwork with a 3000x3000 version"
+                rows={4}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleResubmit}
+              disabled={submitting || !notes.trim() || (requireEmail && !contactEmail.trim())}
+            >
+              {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Resubmit
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
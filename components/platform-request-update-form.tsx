@@ -9,56 +9,79 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Textarea } from '@/components/ui/textarea'
 import { useToast } from '@/hooks/use-toast'
+import { useFieldPermissions } from '@/hooks/use-field-permissions'
 import { PlatformRequestStatus } from '@prisma/client'
 import { Badge } from '@/components/ui/badge'
 import { formatDate } from '@/lib/utils'
-import { ArrowLeft, CheckCircle2, XCircle, Clock, Upload } from 'lucide-react'
+import { RejectionReasonOption } from '@/lib/rejection-reasons'
+import { parseUploadLink, getUploadLinkExample } from '@/lib/upload-links'
+import { ArrowLeft, CheckCircle2, XCircle, Clock, Upload, RotateCcw } from 'lucide-react'
 import Link from 'next/link'
 
 interface PlatformRequestUpdateFormProps {
   request: any
-  platform: string
+  platformSlug: string // URL segment of the platform's portal
+  requiredUploadFields: string[]
   channels: any[]
+  rejectionReasons: RejectionReasonOption[]
 }
 
-export function PlatformRequestUpdateForm({ request, platform, channels }: PlatformRequestUpdateFormProps) {
+export function PlatformRequestUpdateForm({ request, platformSlug, requiredUploadFields, channels, rejectionReasons }: PlatformRequestUpdateFormProps) {
   const router = useRouter()
   const { toast } = useToast()
   const [loading, setLoading] = useState(false)
+  const fieldPermissions = useFieldPermissions('platform_request')
   const [formData, setFormData] = useState({
     status: request.status || PlatformRequestStatus.PENDING,
     channelId: request.channelId || '',
     uploadLink: request.uploadLink || '',
+    rejectionReasonId: '',
     notes: '',
   })
 
+  const isUploading = formData.status === PlatformRequestStatus.UPLOADED
+  const requiresUploadLink = isUploading && requiredUploadFields.includes('uploadLink')
+  const requiresChannel = isUploading && requiredUploadFields.includes('channelId') && channels.length > 0
+  const isRejecting = formData.status === PlatformRequestStatus.REJECTED && request.status !== PlatformRequestStatus.REJECTED
+  const selectedReason = rejectionReasons.find(r => r.id === formData.rejectionReasonId)
+  const uploadLinkCheck = isUploading && fieldPermissions.canEdit('uploadLink') && formData.uploadLink.trim()
+    ? parseUploadLink(request.platform, formData.uploadLink)
+    : null
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    setLoading(true)
 
-    try {
-      const response = await fetch(`/api/platform-requests/${request.id}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          ...formData,
-          uploadedAt: formData.status === PlatformRequestStatus.UPLOADED ? new Date().toISOString() : null,
-        }),
+    if (isRejecting && rejectionReasons.length > 0 && !formData.rejectionReasonId) {
+      toast({
+        title: 'Error',
+        description: 'Please choose a rejection reason',
+        variant: 'destructive',
       })
+      return
+    }
 
-      const data = await response.json()
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to update request')
-      }
+    if (requiresChannel && !formData.channelId) {
+      toast({
+        title: 'Error',
+        description: 'Please choose the channel it was uploaded to',
+        variant: 'destructive',
+      })
+      return
+    }
 
+    if (uploadLinkCheck?.error) {
       toast({
-        title: 'Success',
-        description: 'Platform request updated successfully',
+        title: 'Error',
+        description: uploadLinkCheck.error,
+        variant: 'destructive',
       })
+      return
+    }
+
+    setLoading(true)
 
-      router.push(`/platforms/${platform}`)
-      router.refresh()
+    try {
+      await saveRequest(false)
     } catch (err: any) {
       toast({
         title: 'Error',
@@ -70,6 +93,51 @@ export function PlatformRequestUpdateForm({ request, platform, channels }: Platf
     }
   }
 
+  const saveRequest = async (allowDuplicateVideo: boolean): Promise<void> => {
+    // Fields the role can't edit are left out so they are never overwritten
+    const editable = (fieldName: string, value: unknown) =>
+      fieldPermissions.canEdit(fieldName) ? value : undefined
+
+    const response = await fetch(`/api/platform-requests/${request.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        status: formData.status,
+        channelId: editable('channelId', formData.channelId),
+        uploadLink: editable('uploadLink', formData.uploadLink),
+        notes: formData.notes,
+        rejectionReasonId: isRejecting ? formData.rejectionReasonId || null : undefined,
+        uploadedAt: editable(
+          'uploadedAt',
+          formData.status === PlatformRequestStatus.UPLOADED ? new Date().toISOString() : null
+        ),
+        allowDuplicateVideo: allowDuplicateVideo || undefined,
+      }),
+    })
+
+    const data = await response.json()
+
+    // The video is already on another track; save only when the user says it's meant to be
+    if (response.status === 409 && data.duplicates && !allowDuplicateVideo) {
+      if (confirm(`${data.error}. Save it anyway?`)) {
+        await saveRequest(true)
+      }
+      return
+    }
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to update request')
+    }
+
+    toast({
+      title: 'Success',
+      description: 'Platform request updated successfully',
+    })
+
+    router.push(`/platforms/${platformSlug}`)
+    router.refresh()
+  }
+
   const getStatusIcon = (status: PlatformRequestStatus) => {
     switch (status) {
       case PlatformRequestStatus.PENDING:
@@ -100,7 +168,7 @@ export function PlatformRequestUpdateForm({ request, platform, channels }: Platf
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
-      <Link href={`/platforms/${platform}`}>
+      <Link href={`/platforms/${platformSlug}`}>
         <Button variant="ghost" size="sm" className="mb-4">
           <ArrowLeft className="w-4 h-4 mr-2" />
           Back to Platform Portal
@@ -132,16 +200,18 @@ export function PlatformRequestUpdateForm({ request, platform, channels }: Platf
               <Label className="text-xs text-muted-foreground">Current Status</Label>
               <div className="mt-1">{getStatusBadge(request.status)}</div>
             </div>
-            {request.channelName && (
+            {request.channelName && fieldPermissions.canView('channelId') && (
               <div>
                 <Label className="text-xs text-muted-foreground">Channel</Label>
                 <div className="font-medium">{request.channelName}</div>
               </div>
             )}
-            <div>
-              <Label className="text-xs text-muted-foreground">Requested</Label>
-              <div className="font-medium">{formatDate(request.createdAt)}</div>
-            </div>
+            {fieldPermissions.canView('requestedAt') && (
+              <div>
+                <Label className="text-xs text-muted-foreground">Requested</Label>
+                <div className="font-medium">{formatDate(request.createdAt)}</div>
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -157,6 +227,7 @@ export function PlatformRequestUpdateForm({ request, platform, channels }: Platf
             <Label htmlFor="status">Status *</Label>
             <Select
               value={formData.status}
+              disabled={!fieldPermissions.canEdit('status')}
               onValueChange={(value) => setFormData(prev => ({ ...prev, status: value as PlatformRequestStatus }))}
             >
               <SelectTrigger>
@@ -170,11 +241,38 @@ export function PlatformRequestUpdateForm({ request, platform, channels }: Platf
             </Select>
           </div>
 
-          {platform === 'youtube' && channels.length > 0 && (
+          {isRejecting && rejectionReasons.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="rejectionReasonId">Rejection Reason *</Label>
+              <Select
+                value={formData.rejectionReasonId}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, rejectionReasonId: value }))}
+              >
+                <SelectTrigger id="rejectionReasonId">
+                  <SelectValue placeholder="Select a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {rejectionReasons.map((reason) => (
+                    <SelectItem key={reason.id} value={reason.id}>
+                      {reason.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedReason?.description && (
+                <p className="text-xs text-muted-foreground">
+                  Shown to the client: {selectedReason.description}
+                </p>
+              )}
+            </div>
+          )}
+
+          {channels.length > 0 && fieldPermissions.canView('channelId') && (
             <div className="space-y-2">
-              <Label htmlFor="channelId">Channel</Label>
+              <Label htmlFor="channelId">Channel{requiresChannel ? ' *' : ''}</Label>
               <Select
                 value={formData.channelId}
+                disabled={!fieldPermissions.canEdit('channelId')}
                 onValueChange={(value) => setFormData(prev => ({ ...prev, channelId: value }))}
               >
                 <SelectTrigger>
@@ -191,17 +289,27 @@ export function PlatformRequestUpdateForm({ request, platform, channels }: Platf
             </div>
           )}
 
-          {formData.status === PlatformRequestStatus.UPLOADED && (
+          {isUploading && fieldPermissions.canView('uploadLink') && (
             <div className="space-y-2">
-              <Label htmlFor="uploadLink">Upload Link *</Label>
+              <Label htmlFor="uploadLink">Upload Link{requiresUploadLink ? ' *' : ''}</Label>
               <Input
                 id="uploadLink"
+                disabled={!fieldPermissions.canEdit('uploadLink')}
                 type="url"
                 value={formData.uploadLink}
                 onChange={(e) => setFormData(prev => ({ ...prev, uploadLink: e.target.value }))}
-                placeholder="https://youtube.com/watch?v=..."
-                required={formData.status === PlatformRequestStatus.UPLOADED}
+                placeholder={getUploadLinkExample(request.platform)}
+                required={requiresUploadLink}
               />
+              {uploadLinkCheck && (
+                <p className={`text-xs ${uploadLinkCheck.error ? 'text-destructive' : 'text-muted-foreground'}`}>
+                  {uploadLinkCheck.error
+                    ? uploadLinkCheck.error
+                    : uploadLinkCheck.videoId
+                      ? `Video ID: ${uploadLinkCheck.videoId}`
+                      : 'Valid link. It names no single video, so it isn\'t checked for duplicates.'}
+                </p>
+              )}
             </div>
           )}
 
@@ -230,7 +338,7 @@ export function PlatformRequestUpdateForm({ request, platform, channels }: Platf
         <Button
           type="button"
           variant="outline"
-          onClick={() => router.push(`/platforms/${platform}`)}
+          onClick={() => router.push(`/platforms/${platformSlug}`)}
         >
           Cancel
         </Button>
@@ -249,14 +357,27 @@ export function PlatformRequestUpdateForm({ request, platform, channels }: Platf
                 <div key={decision.id} className="p-3 border rounded-lg">
                   <div className="flex items-center justify-between mb-2">
                     <div className="flex items-center gap-2">
-                      {getStatusIcon(decision.status)}
-                      <span className="font-medium">{decision.user.name || decision.user.email}</span>
+                      {decision.resubmissionOf ? <RotateCcw className="w-4 h-4 text-blue-600" /> : getStatusIcon(decision.status)}
+                      <span className="font-medium">
+                        {decision.user?.name || decision.user?.email || decision.submitterEmail || 'Submitter'}
+                      </span>
                     </div>
                     <div className="text-sm text-muted-foreground">
                       {formatDate(decision.createdAt)}
                     </div>
                   </div>
-                  {getStatusBadge(decision.status)}
+                  <div className="flex flex-wrap items-center gap-2">
+                    {getStatusBadge(decision.status)}
+                    {decision.rejectionReason && (
+                      <Badge variant="outline">{decision.rejectionReason.label}</Badge>
+                    )}
+                    {decision.resubmissionOf && (
+                      <span className="text-xs text-muted-foreground">
+                        Resubmission after rejection on {formatDate(decision.resubmissionOf.createdAt)}
+                        {decision.resubmissionOf.rejectionReason && ` (${decision.resubmissionOf.rejectionReason.label})`}
+                      </span>
+                    )}
+                  </div>
                   {decision.notes && (
                     <p className="text-sm text-muted-foreground mt-2">{decision.notes}</p>
                   )}
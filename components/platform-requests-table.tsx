@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { Fragment, useState, useEffect } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
@@ -38,6 +38,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { 
@@ -49,9 +50,19 @@ import {
   ChevronLeft,
   ChevronRight,
   Loader2,
+  Hand,
+  Undo2,
+  Shuffle,
+  ChevronDown,
+  ExternalLink,
 } from 'lucide-react'
 import { PlatformRequestStatus, UserRole } from '@prisma/client'
 import { formatDate } from '@/lib/utils'
+import { RejectionReasonOption } from '@/lib/rejection-reasons'
+import { PLATFORM_UPLOAD_FIELDS } from '@/lib/platforms'
+import { parseUploadLink, getUploadLinkExample } from '@/lib/upload-links'
+import { DISTRIBUTION_STRATEGIES, MAX_DISTRIBUTION_BATCH, type DistributionStrategy, type PlatformQueue, type QueueMember } from '@/lib/platform-queue'
+import { summarizeTracks } from '@/lib/platform-track-requests'
 import { useToast } from '@/hooks/use-toast'
 import { useDebounce } from '@/hooks/use-debounce'
 
@@ -62,6 +73,7 @@ interface PlatformRequest {
   channelId: string | null
   uploadLink: string | null
   uploadedAt: Date | null
+  resubmissionCount: number
   createdAt: Date
   release: {
     id: string
@@ -79,20 +91,54 @@ interface PlatformRequest {
     id: string
     name: string
   } | null
-  decisions: Array<{
-    id: string
-    status: PlatformRequestStatus
-    notes: string | null
-    createdAt: Date
-    user: {
-      name: string | null
-      email: string
-    }
-  }>
+  decisions: Decision[]
   channel?: {
     id: string
     name: string
   } | null
+  assigneeId: string | null
+  assignee?: {
+    id: string
+    name: string | null
+    email: string
+  } | null
+  // Worked out on the server so every viewer sees the same clock
+  claimActive?: boolean
+  sla?: {
+    dueAt: Date | null
+    overdue: boolean
+  }
+  // Per-track requests on platforms that upload albums song by song
+  trackRequests?: TrackRequest[]
+}
+
+interface Decision {
+  id: string
+  status: PlatformRequestStatus
+  notes: string | null
+  createdAt: Date
+  submitterEmail: string | null
+  user: {
+    name: string | null
+    email: string
+  } | null
+  rejectionReason: {
+    label: string
+  } | null
+}
+
+interface TrackRequest {
+  id: string
+  status: PlatformRequestStatus
+  channelId: string | null
+  uploadLink: string | null
+  resubmissionCount: number
+  track: {
+    id: string
+    name: string
+    trackNumber: number | null
+  } | null
+  decisions: Decision[]
 }
 
 interface PlatformChannel {
@@ -105,7 +151,10 @@ interface PlatformRequestsTableProps {
   requests: PlatformRequest[]
   platformSlug: string
   platformName: string
+  requiredUploadFields: string[]
+  hasSla: boolean
   channels: PlatformChannel[]
+  rejectionReasons: RejectionReasonOption[]
   total: number
   currentPage: number
   totalPages: number
@@ -115,18 +164,34 @@ interface PlatformRequestsTableProps {
     search?: string
   }
   userRole: UserRole
+  currentUserId: string
+  queue: {
+    current: PlatformQueue | null
+    mine: number
+    unclaimed: number
+  }
+  // Leads assign and distribute; team is who they can assign to
+  isLead: boolean
+  team: QueueMember[]
 }
 
 export function PlatformRequestsTable({
   requests,
   platformSlug,
   platformName,
+  requiredUploadFields,
+  hasSla,
   channels,
+  rejectionReasons,
   total,
   currentPage,
   totalPages,
   searchParams,
   userRole,
+  currentUserId,
+  queue,
+  isLead,
+  team,
 }: PlatformRequestsTableProps) {
   const router = useRouter()
   const params = useSearchParams()
@@ -137,16 +202,33 @@ export function PlatformRequestsTable({
   const [bulkStatus, setBulkStatus] = useState<PlatformRequestStatus | ''>('')
   const [bulkChannelIds, setBulkChannelIds] = useState<string[]>([])
   const [bulkNotes, setBulkNotes] = useState('')
+  const [bulkReasonId, setBulkReasonId] = useState('')
   const [processing, setProcessing] = useState(false)
   const [quickActionRequest, setQuickActionRequest] = useState<{
     id: string
     status: PlatformRequestStatus
     channelId?: string
+    uploadLink?: string
   } | null>(null)
   const [quickActionNotes, setQuickActionNotes] = useState('')
+  const [quickActionReasonId, setQuickActionReasonId] = useState('')
+  const [distributeOpen, setDistributeOpen] = useState(false)
+  const [expandedReleases, setExpandedReleases] = useState<Set<string>>(new Set())
+  const [distributeStrategy, setDistributeStrategy] = useState<DistributionStrategy>('round_robin')
 
   const debouncedSearch = useDebounce(search, 500)
   const hasChannels = channels.length > 0
+  const needsReason = (status: PlatformRequestStatus | '' | undefined) =>
+    status === PlatformRequestStatus.REJECTED && rejectionReasons.length > 0
+  const needsUploadLink = (status: PlatformRequestStatus | '' | undefined) =>
+    status === PlatformRequestStatus.UPLOADED && requiredUploadFields.includes('uploadLink')
+  const quickActionLink = quickActionRequest?.status === PlatformRequestStatus.UPLOADED
+    ? quickActionRequest.uploadLink?.trim()
+    : ''
+  const quickActionLinkError = quickActionLink ? parseUploadLink(platformName, quickActionLink).error : null
+  const requiredUploadLabels = PLATFORM_UPLOAD_FIELDS
+    .filter(field => requiredUploadFields.includes(field.key))
+    .map(field => field.label.toLowerCase())
   const canApprove = userRole === UserRole.ADMIN || 
                      userRole === UserRole.MANAGER || 
                      userRole.toString().startsWith('PLATFORM_')
@@ -173,7 +255,13 @@ export function PlatformRequestsTable({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [debouncedSearch])
 
-  const handleQuickAction = async (requestId: string, status: PlatformRequestStatus, channelId?: string) => {
+  const handleQuickAction = async (
+    requestId: string,
+    status: PlatformRequestStatus,
+    channelId?: string,
+    uploadLink?: string,
+    allowDuplicateVideo = false
+  ) => {
     setProcessing(true)
     try {
       const response = await fetch(`/api/platform-requests/${requestId}`, {
@@ -182,12 +270,23 @@ export function PlatformRequestsTable({
         body: JSON.stringify({
           status,
           channelId,
+          uploadLink: uploadLink || undefined,
           notes: quickActionNotes || null,
+          rejectionReasonId: status === PlatformRequestStatus.REJECTED ? quickActionReasonId || null : undefined,
+          allowDuplicateVideo: allowDuplicateVideo || undefined,
         }),
       })
 
       if (!response.ok) {
-        throw new Error('Failed to update request')
+        const data = await response.json().catch(() => ({}))
+        // The video is already on another track; save only when the user says it's meant to be
+        if (response.status === 409 && data.duplicates && !allowDuplicateVideo) {
+          if (confirm(`${data.error}. Save it anyway?`)) {
+            await handleQuickAction(requestId, status, channelId, uploadLink, true)
+          }
+          return
+        }
+        throw new Error(data.error || 'Failed to update request')
       }
 
       toast({
@@ -197,6 +296,7 @@ export function PlatformRequestsTable({
 
       setQuickActionRequest(null)
       setQuickActionNotes('')
+      setQuickActionReasonId('')
       router.refresh()
     } catch (error: any) {
       toast({
@@ -222,11 +322,13 @@ export function PlatformRequestsTable({
           status: bulkStatus,
           channelIds: hasChannels && bulkChannelIds.length > 0 ? bulkChannelIds : undefined,
           notes: bulkNotes || null,
+          rejectionReasonId: bulkStatus === PlatformRequestStatus.REJECTED ? bulkReasonId || null : undefined,
         }),
       })
 
       if (!response.ok) {
-        throw new Error('Failed to update requests')
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to update requests')
       }
 
       toast({
@@ -239,6 +341,7 @@ export function PlatformRequestsTable({
       setBulkStatus('')
       setBulkChannelIds([])
       setBulkNotes('')
+      setBulkReasonId('')
       router.refresh()
     } catch (error: any) {
       toast({
@@ -251,6 +354,77 @@ export function PlatformRequestsTable({
     }
   }
 
+  const handleClaimAction = async (
+    requestIds: string[],
+    action: 'claim' | 'release' | 'assign',
+    assigneeId?: string
+  ) => {
+    setProcessing(true)
+    try {
+      const response = await fetch('/api/platform-requests/claim', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ platform: platformName, requestIds, action, assigneeId }),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update claims')
+      }
+
+      const verb = action === 'claim' ? 'Claimed' : action === 'release' ? 'Released' : 'Assigned'
+      toast({
+        title: 'Success',
+        description: data.skipped > 0
+          ? `${verb} ${data.updated} request(s); ${data.skipped} were already taken or no longer pending`
+          : `${verb} ${data.updated} request(s)`,
+      })
+
+      setSelectedRequests(new Set())
+      router.refresh()
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update claims',
+        variant: 'destructive',
+      })
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  const handleDistribute = async () => {
+    setProcessing(true)
+    try {
+      const response = await fetch('/api/platform-requests/distribute', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ platform: platformName, strategy: distributeStrategy }),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to distribute requests')
+      }
+
+      toast({
+        title: 'Success',
+        description: `Distributed ${data.assigned} request(s) across ${Object.keys(data.byUser).length} team member(s)`,
+      })
+
+      setDistributeOpen(false)
+      router.refresh()
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to distribute requests',
+        variant: 'destructive',
+      })
+    } finally {
+      setProcessing(false)
+    }
+  }
+
   const toggleSelect = (id: string) => {
     const newSelected = new Set(selectedRequests)
     if (newSelected.has(id)) {
@@ -282,8 +456,109 @@ export function PlatformRequestsTable({
     }
   }
 
+  const toggleExpanded = (id: string) => {
+    const next = new Set(expandedReleases)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    setExpandedReleases(next)
+  }
+
+  const renderStatusBadges = (request: Pick<TrackRequest, 'status' | 'resubmissionCount' | 'decisions'>) => (
+    <>
+      <Badge className={getStatusColor(request.status)}>
+        {request.status}
+      </Badge>
+      {request.status === PlatformRequestStatus.REJECTED && request.decisions[0]?.rejectionReason && (
+        <span className="text-xs text-muted-foreground">
+          {request.decisions[0].rejectionReason.label}
+        </span>
+      )}
+      {request.status === PlatformRequestStatus.PENDING && request.resubmissionCount > 0 && (
+        <Badge variant="outline" className="text-xs">
+          Resubmitted{request.resubmissionCount > 1 ? ` ×${request.resubmissionCount}` : ''}
+        </Badge>
+      )}
+    </>
+  )
+
+  const renderLastDecision = (decisions: Decision[]) =>
+    decisions.length > 0 ? (
+      <div className="text-sm">
+        <div>
+          {decisions[0].user?.name ||
+            decisions[0].user?.email ||
+            decisions[0].submitterEmail ||
+            'Submitter'}
+        </div>
+        <div className="text-xs text-muted-foreground">
+          {formatDate(decisions[0].createdAt)}
+        </div>
+      </div>
+    ) : (
+      <span className="text-muted-foreground text-sm">-</span>
+    )
+
+  const renderDecisionButtons = (request: { id: string; channelId: string | null }) => (
+    <>
+      <Button
+        size="sm"
+        variant="outline"
+        className="h-8 gap-1"
+        onClick={() => setQuickActionRequest({
+          id: request.id,
+          status: PlatformRequestStatus.UPLOADED,
+          channelId: request.channelId || undefined,
+        })}
+      >
+        <CheckCircle2 className="w-3 h-3" />
+        Mark as Uploaded
+      </Button>
+      <Button
+        size="sm"
+        variant="outline"
+        className="h-8 gap-1"
+        onClick={() => setQuickActionRequest({
+          id: request.id,
+          status: PlatformRequestStatus.REJECTED,
+          channelId: request.channelId || undefined,
+        })}
+      >
+        <XCircle className="w-3 h-3" />
+        Reject
+      </Button>
+    </>
+  )
+
   return (
     <div className="space-y-4">
+      {/* Queues */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <Tabs
+          value={queue.current || 'all'}
+          onValueChange={(value) => updateURL({ queue: value })}
+        >
+          <TabsList>
+            <TabsTrigger value="all">All Requests</TabsTrigger>
+            <TabsTrigger value="mine">My Queue ({queue.mine})</TabsTrigger>
+            <TabsTrigger value="unclaimed">Unclaimed ({queue.unclaimed})</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        {isLead && (
+          <Button
+            variant="outline"
+            onClick={() => setDistributeOpen(true)}
+            disabled={queue.unclaimed === 0 || team.length === 0}
+            title={team.length === 0 ? 'This platform has no team members to distribute to' : undefined}
+          >
+            <Shuffle className="w-4 h-4 mr-2" />
+            Distribute Unclaimed
+          </Button>
+        )}
+      </div>
+
       {/* Toolbar */}
       <div className="flex flex-wrap items-center gap-4">
         <div className="flex-1 min-w-[200px]">
@@ -315,6 +590,7 @@ export function PlatformRequestsTable({
             <SelectItem value={PlatformRequestStatus.PENDING}>Pending</SelectItem>
             <SelectItem value={PlatformRequestStatus.REJECTED}>Rejected</SelectItem>
             <SelectItem value={PlatformRequestStatus.UPLOADED}>Uploaded</SelectItem>
+            {hasSla && <SelectItem value="overdue">Overdue</SelectItem>}
           </SelectContent>
         </Select>
 
@@ -345,6 +621,35 @@ export function PlatformRequestsTable({
             Bulk Action ({selectedRequests.size})
           </Button>
         )}
+
+        {canApprove && selectedRequests.size > 0 && (
+          <Button
+            onClick={() => handleClaimAction(Array.from(selectedRequests), 'claim')}
+            variant="outline"
+            disabled={processing}
+          >
+            <Hand className="w-4 h-4 mr-2" />
+            Claim ({selectedRequests.size})
+          </Button>
+        )}
+
+        {isLead && selectedRequests.size > 0 && team.length > 0 && (
+          <Select
+            value=""
+            onValueChange={(assigneeId) => handleClaimAction(Array.from(selectedRequests), 'assign', assigneeId)}
+          >
+            <SelectTrigger className="w-[180px]" disabled={processing}>
+              <SelectValue placeholder="Assign to..." />
+            </SelectTrigger>
+            <SelectContent>
+              {team.map((member) => (
+                <SelectItem key={member.id} value={member.id}>
+                  {member.name || member.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </div>
 
       {/* Table */}
@@ -364,6 +669,7 @@ export function PlatformRequestsTable({
               <TableHead>Artist</TableHead>
               {hasChannels && <TableHead>Channel</TableHead>}
               <TableHead>Status</TableHead>
+              <TableHead>Assignee</TableHead>
               <TableHead>Last Decision</TableHead>
               <TableHead>Actions</TableHead>
             </TableRow>
@@ -371,13 +677,19 @@ export function PlatformRequestsTable({
           <TableBody>
             {requests.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={canApprove ? 7 : 6} className="text-center py-8 text-muted-foreground">
+                <TableCell colSpan={canApprove ? 8 : 7} className="text-center py-8 text-muted-foreground">
                   No requests found
                 </TableCell>
               </TableRow>
             ) : (
-              requests.map((request) => (
-                <TableRow key={request.id} className="hover:bg-muted/50">
+              requests.map((request) => {
+                const tracks = request.trackRequests || []
+                const trackSummary = tracks.length > 0 ? summarizeTracks(tracks.map(t => t.status)) : null
+                const expanded = expandedReleases.has(request.id)
+
+                return (
+                <Fragment key={request.id}>
+                <TableRow className="hover:bg-muted/50">
                   {canApprove && (
                     <TableCell>
                       <Checkbox
@@ -387,15 +699,34 @@ export function PlatformRequestsTable({
                     </TableCell>
                   )}
                   <TableCell>
-                    <div>
-                      <div className="font-medium">
-                        {request.release?.title || request.track?.name || 'Untitled'}
-                      </div>
-                      {request.track && request.release && (
-                        <div className="text-xs text-muted-foreground">
-                          Track: {request.track.name}
-                        </div>
+                    <div className="flex items-start gap-2">
+                      {trackSummary && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-6 w-6 p-0"
+                          onClick={() => toggleExpanded(request.id)}
+                          aria-label={expanded ? 'Hide tracks' : 'Show tracks'}
+                        >
+                          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        </Button>
                       )}
+                      <div>
+                        <div className="font-medium">
+                          {request.release?.title || request.track?.name || 'Untitled'}
+                        </div>
+                        {request.track && request.release && (
+                          <div className="text-xs text-muted-foreground">
+                            Track: {request.track.name}
+                          </div>
+                        )}
+                        {trackSummary && (
+                          <div className="text-xs text-muted-foreground">
+                            {trackSummary.uploaded}/{trackSummary.total} tracks uploaded
+                            {trackSummary.rejected > 0 && ` · ${trackSummary.rejected} rejected`}
+                          </div>
+                        )}
+                      </div>
                     </div>
                   </TableCell>
                   <TableCell>
@@ -411,53 +742,70 @@ export function PlatformRequestsTable({
                     </TableCell>
                   )}
                   <TableCell>
-                    <Badge className={getStatusColor(request.status)}>
-                      {request.status}
-                    </Badge>
+                    <div className="flex flex-col items-start gap-1">
+                      {renderStatusBadges(request)}
+                      {request.sla?.overdue ? (
+                        <Badge variant="destructive" className="text-xs">
+                          Overdue since {formatDate(request.sla.dueAt!)}
+                        </Badge>
+                      ) : request.status === PlatformRequestStatus.PENDING && request.sla?.dueAt && (
+                        <span className="text-xs text-muted-foreground">
+                          Due {formatDate(request.sla.dueAt)}
+                        </span>
+                      )}
+                    </div>
                   </TableCell>
                   <TableCell>
-                    {request.decisions.length > 0 ? (
+                    {request.assignee && (request.claimActive || request.status !== PlatformRequestStatus.PENDING) ? (
                       <div className="text-sm">
-                        <div>{request.decisions[0].user.name || request.decisions[0].user.email}</div>
-                        <div className="text-xs text-muted-foreground">
-                          {formatDate(request.decisions[0].createdAt)}
-                        </div>
+                        {request.assigneeId === currentUserId ? 'You' : request.assignee.name || request.assignee.email}
                       </div>
+                    ) : request.status === PlatformRequestStatus.PENDING ? (
+                      <span className="text-muted-foreground text-sm">Unclaimed</span>
                     ) : (
                       <span className="text-muted-foreground text-sm">-</span>
                     )}
                   </TableCell>
+                  <TableCell>
+                    {renderLastDecision(request.decisions)}
+                  </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-2">
-                      {canApprove && (
-                        <>
+                      {canApprove && request.status === PlatformRequestStatus.PENDING && (
+                        request.claimActive && (request.assigneeId === currentUserId || isLead) ? (
                           <Button
                             size="sm"
-                            variant="outline"
+                            variant="ghost"
                             className="h-8 gap-1"
-                            onClick={() => setQuickActionRequest({
-                              id: request.id,
-                              status: PlatformRequestStatus.UPLOADED,
-                              channelId: request.channelId || undefined,
-                            })}
+                            onClick={() => handleClaimAction([request.id], 'release')}
+                            disabled={processing}
                           >
-                            <CheckCircle2 className="w-3 h-3" />
-                            Mark as Uploaded
+                            <Undo2 className="w-3 h-3" />
+                            Release
                           </Button>
+                        ) : !request.claimActive && (
                           <Button
                             size="sm"
-                            variant="outline"
+                            variant="ghost"
                             className="h-8 gap-1"
-                            onClick={() => setQuickActionRequest({
-                              id: request.id,
-                              status: PlatformRequestStatus.REJECTED,
-                              channelId: request.channelId || undefined,
-                            })}
+                            onClick={() => handleClaimAction([request.id], 'claim')}
+                            disabled={processing}
                           >
-                            <XCircle className="w-3 h-3" />
-                            Reject
+                            <Hand className="w-3 h-3" />
+                            Claim
                           </Button>
-                        </>
+                        )
+                      )}
+                      {canApprove && !trackSummary && renderDecisionButtons(request)}
+                      {canApprove && trackSummary && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-8"
+                          onClick={() => toggleExpanded(request.id)}
+                        >
+                          {expanded ? 'Hide Tracks' : `Review ${trackSummary.total} Tracks`}
+                        </Button>
                       )}
                       <Link href={`/platforms/${platformSlug}/${request.id}/update`}>
                         <Button size="sm" variant="ghost" className="h-8">
@@ -467,7 +815,60 @@ export function PlatformRequestsTable({
                     </div>
                   </TableCell>
                 </TableRow>
-              ))
+                {expanded && tracks.map((trackRequest) => (
+                  <TableRow key={trackRequest.id} className="bg-muted/30 hover:bg-muted/50">
+                    {canApprove && (
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedRequests.has(trackRequest.id)}
+                          onCheckedChange={() => toggleSelect(trackRequest.id)}
+                        />
+                      </TableCell>
+                    )}
+                    <TableCell>
+                      <div className="pl-8">
+                        <div className="text-sm">
+                          {trackRequest.track?.trackNumber ? `${trackRequest.track.trackNumber}. ` : ''}
+                          {trackRequest.track?.name || 'Untitled track'}
+                        </div>
+                        {trackRequest.uploadLink && (
+                          <a
+                            href={trackRequest.uploadLink}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-xs text-primary hover:underline inline-flex items-center gap-1"
+                          >
+                            View upload <ExternalLink className="w-3 h-3" />
+                          </a>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell />
+                    {hasChannels && <TableCell />}
+                    <TableCell>
+                      <div className="flex flex-col items-start gap-1">
+                        {renderStatusBadges(trackRequest)}
+                      </div>
+                    </TableCell>
+                    <TableCell />
+                    <TableCell>
+                      {renderLastDecision(trackRequest.decisions)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {canApprove && renderDecisionButtons(trackRequest)}
+                        <Link href={`/platforms/${platformSlug}/${trackRequest.id}/update`}>
+                          <Button size="sm" variant="ghost" className="h-8">
+                            <MoreVertical className="w-4 h-4" />
+                          </Button>
+                        </Link>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                </Fragment>
+                )
+              })
             )}
           </TableBody>
         </Table>
@@ -552,6 +953,41 @@ export function PlatformRequestsTable({
                 </Select>
               </div>
             )}
+            {needsUploadLink(quickActionRequest?.status) && (
+              <div className="space-y-2">
+                <Label>Upload link *</Label>
+                <Input
+                  type="url"
+                  value={quickActionRequest?.uploadLink || ''}
+                  onChange={(e) => {
+                    if (quickActionRequest) {
+                      setQuickActionRequest({ ...quickActionRequest, uploadLink: e.target.value })
+                    }
+                  }}
+                  placeholder={getUploadLinkExample(platformName)}
+                />
+                {quickActionLinkError && (
+                  <p className="text-xs text-destructive">{quickActionLinkError}</p>
+                )}
+              </div>
+            )}
+            {needsReason(quickActionRequest?.status) && (
+              <div className="space-y-2">
+                <Label>Rejection reason *</Label>
+                <Select value={quickActionReasonId} onValueChange={setQuickActionReasonId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a reason" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {rejectionReasons.map((reason) => (
+                      <SelectItem key={reason.id} value={reason.id}>
+                        {reason.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             <div className="space-y-2">
               <Label>Notes (optional)</Label>
               <Textarea
@@ -568,6 +1004,7 @@ export function PlatformRequestsTable({
               onClick={() => {
                 setQuickActionRequest(null)
                 setQuickActionNotes('')
+                setQuickActionReasonId('')
               }}
             >
               Cancel
@@ -578,11 +1015,17 @@ export function PlatformRequestsTable({
                   handleQuickAction(
                     quickActionRequest.id,
                     quickActionRequest.status,
-                    quickActionRequest.channelId
+                    quickActionRequest.channelId,
+                    quickActionRequest.uploadLink
                   )
                 }
               }}
-              disabled={processing}
+              disabled={
+                processing ||
+                (needsReason(quickActionRequest?.status) && !quickActionReasonId) ||
+                (needsUploadLink(quickActionRequest?.status) && !quickActionRequest?.uploadLink?.trim()) ||
+                !!quickActionLinkError
+              }
             >
               {processing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
               Confirm
@@ -613,6 +1056,11 @@ export function PlatformRequestsTable({
                 </SelectContent>
               </Select>
             </div>
+            {bulkStatus === PlatformRequestStatus.UPLOADED && requiredUploadLabels.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Only requests that already have a {requiredUploadLabels.join(' and ')} can be marked as uploaded together.
+              </p>
+            )}
             {hasChannels && (
               <div className="space-y-2">
                 <Label>Channels (optional - leave empty for all channels)</Label>
@@ -635,6 +1083,23 @@ export function PlatformRequestsTable({
                 </div>
               </div>
             )}
+            {needsReason(bulkStatus) && (
+              <div className="space-y-2">
+                <Label>Rejection reason *</Label>
+                <Select value={bulkReasonId} onValueChange={setBulkReasonId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a reason" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {rejectionReasons.map((reason) => (
+                      <SelectItem key={reason.id} value={reason.id}>
+                        {reason.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             <div className="space-y-2">
               <Label>Notes (optional)</Label>
               <Textarea
@@ -651,7 +1116,7 @@ export function PlatformRequestsTable({
             </Button>
             <Button
               onClick={handleBulkAction}
-              disabled={!bulkStatus || processing}
+              disabled={!bulkStatus || processing || (needsReason(bulkStatus) && !bulkReasonId)}
             >
               {processing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
               Update {selectedRequests.size} Request(s)
@@ -659,6 +1124,51 @@ export function PlatformRequestsTable({
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Distribute Dialog */}
+      <Dialog open={distributeOpen} onOpenChange={setDistributeOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Distribute Unclaimed Requests</DialogTitle>
+            <DialogDescription>
+              Assign the {queue.unclaimed} unclaimed pending request(s), oldest first, to the {team.length} team member(s).
+              {queue.unclaimed > MAX_DISTRIBUTION_BATCH && ` The first ${MAX_DISTRIBUTION_BATCH} are handed out now; distribute again for the rest.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Strategy</Label>
+            <Select
+              value={distributeStrategy}
+              onValueChange={(value) => setDistributeStrategy(value as DistributionStrategy)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DISTRIBUTION_STRATEGIES.map((strategy) => (
+                  <SelectItem key={strategy.value} value={strategy.value}>
+                    {strategy.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {distributeStrategy === 'round_robin'
+                ? 'Takes turns through the team, carrying on from where the last distribution stopped.'
+                : 'Gives each request to whoever currently holds the fewest claims.'}
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDistributeOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleDistribute} disabled={processing}>
+              {processing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Distribute
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
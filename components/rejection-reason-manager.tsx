@@ -0,0 +1,416 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { useToast } from '@/hooks/use-toast'
+import { Plus, Trash2, Edit2, Check, X } from 'lucide-react'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+
+interface RejectionReasonManagerProps {
+  reasons: any[]
+  platforms: Array<{ slug: string; name: string }>
+}
+
+// Select value standing in for reasons that apply to every platform
+const ALL_PLATFORMS = 'all'
+
+export function RejectionReasonManager({ reasons: initialReasons, platforms }: RejectionReasonManagerProps) {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [reasons, setReasons] = useState(initialReasons)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [showAddForm, setShowAddForm] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+  const [reasonToDelete, setReasonToDelete] = useState<string | null>(null)
+
+  useEffect(() => {
+    setReasons(initialReasons)
+  }, [initialReasons])
+
+  const [formData, setFormData] = useState({
+    platform: ALL_PLATFORMS,
+    label: '',
+    description: '',
+    active: true,
+  })
+
+  const handleAdd = async () => {
+    if (!formData.label.trim()) {
+      toast({
+        title: 'Error',
+        description: 'Label is required',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    setLoading(true)
+    try {
+      const response = await fetch('/api/admin/rejection-reasons', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...formData,
+          platform: formData.platform === ALL_PLATFORMS ? null : formData.platform,
+          sortOrder: reasons.length,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create rejection reason')
+      }
+
+      toast({
+        title: 'Success',
+        description: 'Rejection reason created successfully',
+      })
+
+      setFormData({
+        platform: ALL_PLATFORMS,
+        label: '',
+        description: '',
+        active: true,
+      })
+      setShowAddForm(false)
+      router.refresh()
+    } catch (err: any) {
+      toast({
+        title: 'Error',
+        description: err.message || 'Failed to create rejection reason',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleUpdate = async (id: string) => {
+    setLoading(true)
+    try {
+      const reason = reasons.find(r => r.id === id)
+      if (!reason) return
+
+      const response = await fetch(`/api/admin/rejection-reasons/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          label: reason.label,
+          description: reason.description,
+          active: reason.active,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update rejection reason')
+      }
+
+      toast({
+        title: 'Success',
+        description: 'Rejection reason updated successfully',
+      })
+
+      setEditingId(null)
+      router.refresh()
+    } catch (err: any) {
+      toast({
+        title: 'Error',
+        description: err.message || 'Failed to update rejection reason',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDeleteClick = (id: string) => {
+    setReasonToDelete(id)
+    setDeleteDialogOpen(true)
+  }
+
+  const handleDelete = async () => {
+    if (!reasonToDelete) return
+
+    setLoading(true)
+    setDeleteDialogOpen(false)
+    try {
+      const response = await fetch(`/api/admin/rejection-reasons/${reasonToDelete}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to delete rejection reason')
+      }
+
+      toast({
+        title: 'Success',
+        description: 'Rejection reason deleted successfully',
+      })
+
+      router.refresh()
+    } catch (err: any) {
+      toast({
+        title: 'Error',
+        description: err.message || 'Failed to delete rejection reason',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+      setReasonToDelete(null)
+    }
+  }
+
+  const cancelEdit = () => {
+    setEditingId(null)
+    setReasons(initialReasons)
+  }
+
+  const groups = [{ slug: ALL_PLATFORMS, name: 'All Platforms' }, ...platforms].map(platform => ({
+    platform: platform.slug,
+    title: platform.name,
+    reasons: reasons.filter(r => (platform.slug === ALL_PLATFORMS ? !r.platform : r.platform === platform.slug)),
+  }))
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Manage Rejection Reasons</CardTitle>
+              <CardDescription>Reasons shared by all platforms plus platform-specific ones</CardDescription>
+            </div>
+            <Button onClick={() => setShowAddForm(!showAddForm)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Reason
+            </Button>
+          </div>
+        </CardHeader>
+        {showAddForm && (
+          <CardContent className="space-y-4 border-t pt-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="platform">Platform</Label>
+                <Select
+                  value={formData.platform}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, platform: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select platform" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_PLATFORMS}>All Platforms</SelectItem>
+                    {platforms.map((platform) => (
+                      <SelectItem key={platform.slug} value={platform.slug}>
+                        {platform.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="label">Label *</Label>
+                <Input
+                  id="label"
+                  value={formData.label}
+                  onChange={(e) => setFormData(prev => ({ ...prev, label: e.target.value }))}
+                  placeholder="e.g., Copyright claim"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="description">Guidance for the client</Label>
+              <Textarea
+                id="description"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="Explain what the client needs to fix before resubmitting..."
+                rows={3}
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                checked={formData.active}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, active: checked }))}
+              />
+              <span className="text-sm text-muted-foreground">
+                {formData.active ? 'Active' : 'Inactive'}
+              </span>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleAdd} disabled={loading}>
+                {loading ? 'Creating...' : 'Create Reason'}
+              </Button>
+              <Button variant="outline" onClick={() => setShowAddForm(false)}>
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      {groups.map((group) => {
+        if (group.reasons.length === 0 && group.platform !== ALL_PLATFORMS) return null
+
+        return (
+          <Card key={group.platform}>
+            <CardHeader>
+              <CardTitle>{group.title}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {group.reasons.map((reason) => (
+                  <div
+                    key={reason.id}
+                    className="flex items-center justify-between p-4 border rounded-lg hover:bg-muted/50 transition-colors"
+                  >
+                    {editingId === reason.id ? (
+                      <div className="flex-1 space-y-3">
+                        <div className="space-y-2">
+                          <Label className="text-xs">Label</Label>
+                          <Input
+                            value={reason.label}
+                            onChange={(e) => {
+                              setReasons(prev =>
+                                prev.map(r => r.id === reason.id ? { ...r, label: e.target.value } : r)
+                              )
+                            }}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label className="text-xs">Guidance for the client</Label>
+                          <Textarea
+                            value={reason.description || ''}
+                            rows={2}
+                            onChange={(e) => {
+                              setReasons(prev =>
+                                prev.map(r => r.id === reason.id ? { ...r, description: e.target.value } : r)
+                              )
+                            }}
+                          />
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Switch
+                            checked={reason.active}
+                            onCheckedChange={(checked) => {
+                              setReasons(prev =>
+                                prev.map(r => r.id === reason.id ? { ...r, active: checked } : r)
+                              )
+                            }}
+                          />
+                          <span className="text-sm text-muted-foreground">
+                            {reason.active ? 'Active' : 'Inactive'}
+                          </span>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button size="sm" onClick={() => handleUpdate(reason.id)} disabled={loading}>
+                            <Check className="w-4 h-4 mr-1" />
+                            Save
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={cancelEdit}>
+                            <X className="w-4 h-4 mr-1" />
+                            Cancel
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <>
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2 mb-1">
+                            <span className="font-medium text-base">{reason.label}</span>
+                            <code className="text-xs text-muted-foreground">{reason.code}</code>
+                            {reason.active ? (
+                              <Badge variant="default" className="text-xs">Active</Badge>
+                            ) : (
+                              <Badge variant="secondary" className="text-xs">Inactive</Badge>
+                            )}
+                            {reason._count?.decisions > 0 && (
+                              <Badge variant="outline" className="text-xs">
+                                Used {reason._count.decisions}×
+                              </Badge>
+                            )}
+                          </div>
+                          {reason.description ? (
+                            <p className="text-sm text-muted-foreground">{reason.description}</p>
+                          ) : (
+                            <p className="text-xs text-muted-foreground italic">No guidance for clients</p>
+                          )}
+                        </div>
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setEditingId(reason.id)}
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleDeleteClick(reason.id)}
+                            disabled={loading || reason._count?.decisions > 0}
+                            title={reason._count?.decisions > 0 ? 'In use - deactivate instead' : undefined}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                ))}
+                {group.reasons.length === 0 && (
+                  <div className="text-center py-8 text-muted-foreground text-sm">
+                    No shared rejection reasons yet. Run the database seed to add the defaults.
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )
+      })}
+
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Rejection Reason</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete this rejection reason? This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={loading}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={loading}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {loading ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
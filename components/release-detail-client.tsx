@@ -1,12 +1,18 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { Button } from '@/components/ui/button'
 import { InlineReleaseEditor } from '@/components/inline-release-editor'
 import { InlineTrackEditor } from '@/components/inline-track-editor'
-import { Edit, X } from 'lucide-react'
+import { Edit, X, Reply, Trash2, Send, Loader2 } from 'lucide-react'
 import { UserRole } from '@prisma/client'
 import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useToast } from '@/hooks/use-toast'
+import { formatDateTime } from '@/lib/utils'
+import { formatMention, splitMentions, MAX_COMMENT_LENGTH } from '@/lib/comments'
 
 interface ReleaseDetailClientProps {
   release: any
@@ -149,3 +155,425 @@ export function TrackArtistsDisplay({ track, releaseArtist }: { track: any; rele
     </div>
   )
 }
+
+interface CommentUser {
+  id: string
+  name: string | null
+  email: string
+}
+
+interface CommentData {
+  id: string
+  userId: string
+  trackId: string | null
+  parentId: string | null
+  content: string
+  createdAt: string | Date
+  updatedAt: string | Date
+  user: CommentUser
+  track: { id: string; name: string; trackNumber: number | null } | null
+  replies?: CommentData[]
+}
+
+interface ReleaseCommentsProps {
+  releaseId: string
+  tracks: Array<{ id: string; name: string; trackNumber: number | null }>
+  initialComments: CommentData[]
+  currentUserId: string
+  userRole: UserRole
+}
+
+// Release discussion: threaded comments, optionally attached to a track, with @mentions
+export function ReleaseComments({ releaseId, tracks, initialComments, currentUserId, userRole }: ReleaseCommentsProps) {
+  const { toast } = useToast()
+  const [comments, setComments] = useState<CommentData[]>(initialComments)
+  const [trackFilter, setTrackFilter] = useState('all')
+  const [replyingTo, setReplyingTo] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  const refreshComments = async () => {
+    const response = await fetch(`/api/releases/${releaseId}/comments`)
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load comments')
+    }
+    setComments(data.comments)
+  }
+
+  const runAction = async (action: () => Promise<Response>, fallbackError: string) => {
+    try {
+      const response = await action()
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || fallbackError)
+      }
+      await refreshComments()
+      return true
+    } catch (err: any) {
+      toast({
+        title: 'Error',
+        description: err.message || fallbackError,
+        variant: 'destructive',
+      })
+      return false
+    }
+  }
+
+  const createComment = (content: string, trackId: string | null, parentId?: string) =>
+    runAction(
+      () => fetch(`/api/releases/${releaseId}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content, trackId, parentId }),
+      }),
+      'Failed to post comment'
+    )
+
+  const updateComment = (commentId: string, content: string) =>
+    runAction(
+      () => fetch(`/api/comments/${commentId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content }),
+      }),
+      'Failed to update comment'
+    )
+
+  const deleteComment = async (comment: CommentData) => {
+    const hasReplies = (comment.replies?.length || 0) > 0
+    if (!confirm(hasReplies ? 'Delete this comment and all of its replies?' : 'Delete this comment?')) return
+    await runAction(
+      () => fetch(`/api/comments/${comment.id}`, { method: 'DELETE' }),
+      'Failed to delete comment'
+    )
+  }
+
+  const visibleComments = comments.filter(comment => {
+    if (trackFilter === 'all') return true
+    if (trackFilter === 'none') return !comment.trackId
+    return comment.trackId === trackFilter
+  })
+
+  const renderComment = (comment: CommentData, isReply: boolean) => {
+    const isAuthor = comment.userId === currentUserId
+    const canDelete = isAuthor || userRole === UserRole.ADMIN
+    const displayName = comment.user.name || comment.user.email
+    const edited = new Date(comment.updatedAt).getTime() - new Date(comment.createdAt).getTime() > 1000
+
+    return (
+      <div
+        key={comment.id}
+        id={`comment-${comment.id}`}
+        className={isReply ? 'p-3 bg-muted/50 rounded-lg' : 'p-4 border rounded-lg hover:bg-muted/30 transition-colors'}
+      >
+        <div className="flex items-start justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <div className={`${isReply ? 'h-6 w-6 bg-secondary' : 'h-8 w-8 bg-primary/10'} rounded-full flex items-center justify-center`}>
+              <span className={`text-xs font-semibold ${isReply ? '' : 'text-primary'}`}>
+                {displayName[0].toUpperCase()}
+              </span>
+            </div>
+            <div>
+              <div className={`font-medium ${isReply ? 'text-xs' : 'text-sm'}`}>{displayName}</div>
+              <div className="text-xs text-muted-foreground">
+                {formatDateTime(comment.createdAt)}
+                {edited && ' (edited)'}
+              </div>
+            </div>
+            {!isReply && comment.track && (
+              <Badge variant="outline" className="ml-2">
+                Track {comment.track.trackNumber ?? ''} · {comment.track.name}
+              </Badge>
+            )}
+          </div>
+          <div className="flex items-center gap-1">
+            {!isReply && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
+                className="h-7 px-2"
+              >
+                <Reply className="w-3 h-3" />
+              </Button>
+            )}
+            {isAuthor && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setEditingId(comment.id)}
+                className="h-7 px-2"
+              >
+                <Edit className="w-3 h-3" />
+              </Button>
+            )}
+            {canDelete && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteComment(comment)}
+                className="h-7 px-2 text-destructive hover:text-destructive"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {editingId === comment.id ? (
+          <CommentComposer
+            initialContent={comment.content}
+            submitLabel="Save"
+            onSubmit={async (content) => {
+              const saved = await updateComment(comment.id, content)
+              if (saved) setEditingId(null)
+              return saved
+            }}
+            onCancel={() => setEditingId(null)}
+          />
+        ) : (
+          <CommentContent content={comment.content} />
+        )}
+
+        {!isReply && ((comment.replies?.length || 0) > 0 || replyingTo === comment.id) && (
+          <div className="mt-3 ml-12 space-y-2 border-l-2 pl-4">
+            {comment.replies?.map(reply => renderComment(reply, true))}
+            {replyingTo === comment.id && (
+              <CommentComposer
+                placeholder={`Reply to ${displayName}...`}
+                submitLabel="Reply"
+                onSubmit={async (content) => {
+                  const posted = await createComment(content, comment.trackId, comment.id)
+                  if (posted) setReplyingTo(null)
+                  return posted
+                }}
+                onCancel={() => setReplyingTo(null)}
+              />
+            )}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Comments & Notes</CardTitle>
+            <CardDescription>Team discussions and notes. Type @ to mention someone.</CardDescription>
+          </div>
+          {tracks.length > 0 && (
+            <Select value={trackFilter} onValueChange={setTrackFilter}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All comments</SelectItem>
+                <SelectItem value="none">Release only</SelectItem>
+                {tracks.map(track => (
+                  <SelectItem key={track.id} value={track.id}>
+                    {track.trackNumber ? `${track.trackNumber}. ` : ''}{track.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <CommentComposer
+          tracks={tracks}
+          defaultTrackId={trackFilter !== 'all' && trackFilter !== 'none' ? trackFilter : null}
+          submitLabel="Comment"
+          onSubmit={(content, trackId) => createComment(content, trackId)}
+        />
+
+        <div className="space-y-4">
+          {visibleComments.map(comment => renderComment(comment, false))}
+          {visibleComments.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground text-sm">
+              No comments yet
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+// Render comment text with mentions highlighted
+function CommentContent({ content }: { content: string }) {
+  return (
+    <p className="text-sm whitespace-pre-wrap">
+      {splitMentions(content).map((part, index) =>
+        part.userId ? (
+          <span key={index} className="font-medium text-primary">{part.text}</span>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </p>
+  )
+}
+
+interface CommentComposerProps {
+  initialContent?: string
+  placeholder?: string
+  submitLabel: string
+  tracks?: Array<{ id: string; name: string; trackNumber: number | null }>
+  defaultTrackId?: string | null
+  onSubmit: (content: string, trackId: string | null) => Promise<boolean>
+  onCancel?: () => void
+}
+
+function CommentComposer({
+  initialContent = '',
+  placeholder = 'Add a comment...',
+  submitLabel,
+  tracks,
+  defaultTrackId = null,
+  onSubmit,
+  onCancel,
+}: CommentComposerProps) {
+  const [content, setContent] = useState(initialContent)
+  const [trackId, setTrackId] = useState<string>(defaultTrackId || 'none')
+  const [submitting, setSubmitting] = useState(false)
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null)
+  const [suggestions, setSuggestions] = useState<CommentUser[]>([])
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+
+  useEffect(() => {
+    setTrackId(defaultTrackId || 'none')
+  }, [defaultTrackId])
+
+  // Look up users while an @mention is being typed
+  useEffect(() => {
+    if (mentionQuery === null) {
+      setSuggestions([])
+      return
+    }
+
+    const abortController = new AbortController()
+    const timeout = setTimeout(() => {
+      fetch(`/api/users/mentionable?q=${encodeURIComponent(mentionQuery)}`, { signal: abortController.signal })
+        .then(res => res.json())
+        .then(data => setSuggestions(data.users || []))
+        .catch(error => {
+          if (error.name !== 'AbortError') {
+            console.error('Failed to fetch mentionable users:', error)
+          }
+        })
+    }, 200)
+
+    return () => {
+      clearTimeout(timeout)
+      abortController.abort()
+    }
+  }, [mentionQuery])
+
+  // Text between the last "@" and the cursor, if the user is typing a mention
+  const updateMentionQuery = (value: string, cursor: number) => {
+    const match = value.slice(0, cursor).match(/(?:^|\s)@([^\s@\[\]]*)$/)
+    setMentionQuery(match ? match[1] : null)
+  }
+
+  const insertMention = (user: CommentUser) => {
+    const textarea = textareaRef.current
+    const cursor = textarea?.selectionStart ?? content.length
+    const before = content.slice(0, cursor).replace(/@([^\s@\[\]]*)$/, '')
+    const mention = `${formatMention(user.name || user.email, user.id)} `
+    const next = before + mention + content.slice(cursor)
+    setContent(next)
+    setMentionQuery(null)
+
+    requestAnimationFrame(() => {
+      if (textarea) {
+        textarea.focus()
+        textarea.selectionStart = textarea.selectionEnd = before.length + mention.length
+      }
+    })
+  }
+
+  const handleSubmit = async () => {
+    if (!content.trim() || submitting) return
+    setSubmitting(true)
+    const saved = await onSubmit(content.trim(), trackId === 'none' ? null : trackId)
+    setSubmitting(false)
+    if (saved && !initialContent) {
+      setContent('')
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={content}
+          onChange={(e) => {
+            setContent(e.target.value)
+            updateMentionQuery(e.target.value, e.target.selectionStart)
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') {
+              setMentionQuery(null)
+            } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault()
+              handleSubmit()
+            }
+          }}
+          placeholder={placeholder}
+          maxLength={MAX_COMMENT_LENGTH}
+          rows={initialContent ? 3 : 2}
+          className="resize-none"
+        />
+        {mentionQuery !== null && suggestions.length > 0 && (
+          <div className="absolute z-10 mt-1 w-72 rounded-md border bg-popover shadow-md">
+            {suggestions.map(user => (
+              <button
+                key={user.id}
+                type="button"
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  insertMention(user)
+                }}
+                className="flex w-full flex-col items-start px-3 py-2 text-left text-sm hover:bg-accent"
+              >
+                <span className="font-medium">{user.name || user.email}</span>
+                {user.name && <span className="text-xs text-muted-foreground">{user.email}</span>}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex items-center justify-end gap-2">
+        {tracks && tracks.length > 0 && (
+          <Select value={trackId} onValueChange={setTrackId}>
+            <SelectTrigger className="w-[220px] h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Whole release</SelectItem>
+              {tracks.map(track => (
+                <SelectItem key={track.id} value={track.id}>
+                  {track.trackNumber ? `${track.trackNumber}. ` : ''}{track.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={submitting}>
+            Cancel
+          </Button>
+        )}
+        <Button type="button" size="sm" onClick={handleSubmit} disabled={submitting || !content.trim()} className="gap-2">
+          {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -11,6 +11,7 @@ import { Switch } from '@/components/ui/switch'
 import { Textarea } from '@/components/ui/textarea'
 import { Checkbox } from '@/components/ui/checkbox'
 import { useToast } from '@/hooks/use-toast'
+import { useFieldPermissions } from '@/hooks/use-field-permissions'
 import { CopyrightStatus, VideoType, ReleaseType } from '@prisma/client'
 import { Calendar } from '@/components/ui/calendar'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
@@ -29,15 +30,6 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
 
-const PLATFORMS = [
-  { key: 'youtube', label: 'YouTube', supportsChannels: true },
-  { key: 'flow', label: 'Flow', supportsChannels: false },
-  { key: 'ringtunes', label: 'Ringtunes', supportsChannels: false },
-  { key: 'international_streaming', label: 'International Streaming', supportsChannels: false },
-  { key: 'facebook', label: 'Facebook', supportsChannels: true },
-  { key: 'tiktok', label: 'TikTok', supportsChannels: false },
-]
-
 interface Track {
   id?: string
   name: string
@@ -63,19 +55,19 @@ interface ReleaseEditFormProps {
   release: any
   employees: any[]
   allArtists: Array<{ id: string; name: string }>
-  channelsByPlatform: {
-    youtube?: any[]
-    facebook?: any[]
-  }
+  platforms: Array<{ key: string; label: string; supportsChannels: boolean }>
+  channelsByPlatform: Record<string, any[]>
 }
 
-export function ReleaseEditForm({ release, employees, allArtists, channelsByPlatform }: ReleaseEditFormProps) {
+export function ReleaseEditForm({ release, employees, allArtists, platforms, channelsByPlatform }: ReleaseEditFormProps) {
   const router = useRouter()
   const { toast } = useToast()
   const [loading, setLoading] = useState(false)
   const [showKeyboardShortcuts, setShowKeyboardShortcuts] = useState(false)
   const [deleteTrackId, setDeleteTrackId] = useState<string | null>(null)
   const formRef = useRef<HTMLFormElement>(null)
+  const releasePermissions = useFieldPermissions('release')
+  const trackPermissions = useFieldPermissions('track')
 
   // Initialize form data with all release fields
   // Get release artists (primary first, then secondary)
@@ -127,7 +119,7 @@ export function ReleaseEditForm({ release, employees, allArtists, channelsByPlat
         artistIds: trackArtistIds,
       }
     }) as Track[],
-    platformRequests: PLATFORMS.map(platform => {
+    platformRequests: platforms.map(platform => {
       // Get all existing requests for this platform (including channel-specific ones)
       const existingRequests = release.platformRequests.filter(
         (pr: any) => pr.platform === platform.key
@@ -175,6 +167,42 @@ export function ReleaseEditForm({ release, employees, allArtists, channelsByPlat
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+
+    const missing = [
+      ...releasePermissions.missingRequired({
+        title: formData.title,
+        releaseType: formData.type,
+        artistsChosenDate: formData.artistsChosenDate,
+        legacyReleaseDate: formData.legacyReleaseDate,
+        copyrightStatus: formData.copyrightStatus,
+        videoType: formData.videoType,
+        assignedA_RId: formData.assignedA_RId,
+      }),
+      ...formData.tracks.flatMap(track => trackPermissions.missingRequired({
+        name: track.name,
+        trackNumber: track.trackNumber,
+        performer: track.performer,
+        composer: track.composer,
+        band: track.band,
+        musicProducer: track.musicProducer,
+        studio: track.studio,
+        recordLabel: track.recordLabel,
+        genre: track.genre,
+      })),
+    ]
+    if (missing.length > 0) {
+      toast({
+        title: 'Error',
+        description: `Required fields cannot be empty: ${Array.from(new Set(missing)).join(', ')}`,
+        variant: 'destructive',
+      })
+      return
+    }
+
+    // Fields the role can't edit are left out so they are never overwritten
+    const editable = (fieldName: string, value: unknown) =>
+      releasePermissions.canEdit(fieldName) ? value : undefined
+
     setLoading(true)
 
     try {
@@ -182,14 +210,14 @@ export function ReleaseEditForm({ release, employees, allArtists, channelsByPlat
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          title: formData.title,
-          type: formData.type,
+          title: editable('title', formData.title),
+          type: editable('releaseType', formData.type),
           artistIds: formData.artistIds, // Array of artist IDs (first is primary)
-          artistsChosenDate: formData.artistsChosenDate?.toISOString() || null,
-          legacyReleaseDate: formData.legacyReleaseDate?.toISOString() || null,
-          assignedA_RId: formData.assignedA_RId === 'none' ? null : formData.assignedA_RId,
-          copyrightStatus: formData.copyrightStatus === 'none' ? null : formData.copyrightStatus,
-          videoType: formData.videoType,
+          artistsChosenDate: editable('artistsChosenDate', formData.artistsChosenDate?.toISOString() || null),
+          legacyReleaseDate: editable('legacyReleaseDate', formData.legacyReleaseDate?.toISOString() || null),
+          assignedA_RId: editable('assignedA_RId', formData.assignedA_RId === 'none' ? null : formData.assignedA_RId),
+          copyrightStatus: editable('copyrightStatus', formData.copyrightStatus === 'none' ? null : formData.copyrightStatus),
+          videoType: editable('videoType', formData.videoType),
           paymentRemarks: formData.paymentRemarks || null,
           notes: formData.notes || null,
           tracks: formData.tracks.map(track => ({
@@ -359,38 +387,44 @@ export function ReleaseEditForm({ release, employees, allArtists, channelsByPlat
         </CardHeader>
           <CardContent className="pt-6 space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="space-y-2 md:col-span-2">
-                <Label htmlFor="title" className="text-sm font-semibold">
-                  Release Title <span className="text-destructive">*</span>
-                </Label>
-                <Input
-                  id="title"
-                  value={formData.title}
-                  onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
-                  placeholder="Enter release title"
-                  required
-                  className="h-11"
-                  autoFocus
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="type" className="text-sm font-semibold">
-                  Release Type <span className="text-destructive">*</span>
-                </Label>
-                <Select
-                  value={formData.type}
-                  onValueChange={(value) => setFormData(prev => ({ ...prev, type: value as ReleaseType }))}
-                >
-                  <SelectTrigger className="h-11">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value={ReleaseType.SINGLE}>Single</SelectItem>
-                    <SelectItem value={ReleaseType.ALBUM}>Album</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+              {releasePermissions.canView('title') && (
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="title" className="text-sm font-semibold">
+                    Release Title <span className="text-destructive">*</span>
+                  </Label>
+                  <Input
+                    id="title"
+                    disabled={!releasePermissions.canEdit('title')}
+                    value={formData.title}
+                    onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+                    placeholder="Enter release title"
+                    required
+                    className="h-11"
+                    autoFocus
+                  />
+                </div>
+              )}
+
+              {releasePermissions.canView('releaseType') && (
+                <div className="space-y-2">
+                  <Label htmlFor="type" className="text-sm font-semibold">
+                    Release Type <span className="text-destructive">*</span>
+                  </Label>
+                  <Select
+                    value={formData.type}
+                    disabled={!releasePermissions.canEdit('releaseType')}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, type: value as ReleaseType }))}
+                  >
+                    <SelectTrigger className="h-11">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ReleaseType.SINGLE}>Single</SelectItem>
+                      <SelectItem value={ReleaseType.ALBUM}>Album</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
 
               <div className="space-y-2 md:col-span-2">
                 <Label htmlFor="artists" className="text-sm font-semibold">
@@ -403,85 +437,94 @@ export function ReleaseEditForm({ release, employees, allArtists, channelsByPlat
                 />
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="artistsChosenDate" className="text-sm font-semibold">
-                  Artist's Chosen Date
-                </Label>
-                <Popover>
-                  <PopoverTrigger asChild>
-                    <Button
-                      variant="outline"
-                      className="w-full justify-start text-left font-normal h-11"
-                    >
-                      <CalendarIcon className="mr-2 h-4 w-4" />
-                      {formData.artistsChosenDate ? (
-                        format(formData.artistsChosenDate, 'PPP')
-                      ) : (
-                        <span className="text-muted-foreground">Pick a date</span>
-                      )}
-                    </Button>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-auto p-0" align="start">
-                    <Calendar
-                      mode="single"
-                      selected={formData.artistsChosenDate || undefined}
-                      onSelect={(date) => setFormData(prev => ({ ...prev, artistsChosenDate: date || null }))}
-                      initialFocus
-                    />
-                  </PopoverContent>
-                </Popover>
-              </div>
-
-          <div className="space-y-2">
-                <Label htmlFor="legacyReleaseDate" className="text-sm font-semibold">
-                  Legacy Release Date
-                </Label>
-            <Popover>
-              <PopoverTrigger asChild>
-                <Button
-                  variant="outline"
-                      className="w-full justify-start text-left font-normal h-11"
-                >
-                  <CalendarIcon className="mr-2 h-4 w-4" />
-                  {formData.legacyReleaseDate ? (
-                    format(formData.legacyReleaseDate, 'PPP')
-                  ) : (
-                    <span className="text-muted-foreground">Pick a date</span>
-                  )}
-                </Button>
-              </PopoverTrigger>
-              <PopoverContent className="w-auto p-0" align="start">
-                <Calendar
-                  mode="single"
-                  selected={formData.legacyReleaseDate || undefined}
-                  onSelect={(date) => setFormData(prev => ({ ...prev, legacyReleaseDate: date || null }))}
-                  initialFocus
-                />
-              </PopoverContent>
-            </Popover>
-          </div>
-
-          <div className="space-y-2">
-                <Label htmlFor="assignedA_RId" className="text-sm font-semibold">
-                  Assigned A&R
-                </Label>
-            <Select
-              value={formData.assignedA_RId}
-              onValueChange={(value) => setFormData(prev => ({ ...prev, assignedA_RId: value }))}
-            >
-                  <SelectTrigger className="h-11">
-                <SelectValue placeholder="Select A&R" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="none">None</SelectItem>
-                {employees.map((employee) => (
-                  <SelectItem key={employee.id} value={employee.id}>
-                    {employee.user.name || employee.user.email}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-              </div>
+              {releasePermissions.canView('artistsChosenDate') && (
+                <div className="space-y-2">
+                  <Label htmlFor="artistsChosenDate" className="text-sm font-semibold">
+                    Artist's Chosen Date {releasePermissions.isRequired('artistsChosenDate') && <span className="text-destructive">*</span>}
+                  </Label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant="outline"
+                        disabled={!releasePermissions.canEdit('artistsChosenDate')}
+                        className="w-full justify-start text-left font-normal h-11"
+                      >
+                        <CalendarIcon className="mr-2 h-4 w-4" />
+                        {formData.artistsChosenDate ? (
+                          format(formData.artistsChosenDate, 'PPP')
+                        ) : (
+                          <span className="text-muted-foreground">Pick a date</span>
+                        )}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={formData.artistsChosenDate || undefined}
+                        onSelect={(date) => setFormData(prev => ({ ...prev, artistsChosenDate: date || null }))}
+                        initialFocus
+                      />
+                    </PopoverContent>
+                  </Popover>
+                </div>
+              )}
+
+          {releasePermissions.canView('legacyReleaseDate') && (
+            <div className="space-y-2">
+                  <Label htmlFor="legacyReleaseDate" className="text-sm font-semibold">
+                    Legacy Release Date {releasePermissions.isRequired('legacyReleaseDate') && <span className="text-destructive">*</span>}
+                  </Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    disabled={!releasePermissions.canEdit('legacyReleaseDate')}
+                        className="w-full justify-start text-left font-normal h-11"
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {formData.legacyReleaseDate ? (
+                      format(formData.legacyReleaseDate, 'PPP')
+                    ) : (
+                      <span className="text-muted-foreground">Pick a date</span>
+                    )}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={formData.legacyReleaseDate || undefined}
+                    onSelect={(date) => setFormData(prev => ({ ...prev, legacyReleaseDate: date || null }))}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+          )}
+
+          {releasePermissions.canView('assignedA_RId') && (
+            <div className="space-y-2">
+                  <Label htmlFor="assignedA_RId" className="text-sm font-semibold">
+                    Assigned A&R {releasePermissions.isRequired('assignedA_RId') && <span className="text-destructive">*</span>}
+                  </Label>
+              <Select
+                value={formData.assignedA_RId}
+                disabled={!releasePermissions.canEdit('assignedA_RId')}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, assignedA_RId: value }))}
+              >
+                    <SelectTrigger className="h-11">
+                  <SelectValue placeholder="Select A&R" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {employees.map((employee) => (
+                    <SelectItem key={employee.id} value={employee.id}>
+                      {employee.user.name || employee.user.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+                </div>
+          )}
             </div>
           </CardContent>
         </Card>
@@ -537,19 +580,22 @@ export function ReleaseEditForm({ release, employees, allArtists, channelsByPlat
                       </Button>
                     </div>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div className="space-y-2 md:col-span-2">
-                        <Label htmlFor={`track-name-${index}`} className="text-sm font-semibold">
-                          Track Name <span className="text-destructive">*</span>
-                        </Label>
-                        <Input
-                          id={`track-name-${index}`}
-                          value={track.name}
-                          onChange={(e) => updateTrack(index, { name: e.target.value })}
-                          placeholder="Enter track name"
-                          required
-                          className="h-11"
-                        />
-          </div>
+                      {trackPermissions.canView('name') && (
+                        <div className="space-y-2 md:col-span-2">
+                          <Label htmlFor={`track-name-${index}`} className="text-sm font-semibold">
+                            Track Name <span className="text-destructive">*</span>
+                          </Label>
+                          <Input
+                            id={`track-name-${index}`}
+                            disabled={!trackPermissions.canEdit('name')}
+                            value={track.name}
+                            onChange={(e) => updateTrack(index, { name: e.target.value })}
+                            placeholder="Enter track name"
+                            required
+                            className="h-11"
+                          />
+            </div>
+                      )}
 
                       <div className="space-y-2 md:col-span-2">
                         <Label htmlFor={`track-artists-${index}`} className="text-sm font-semibold">
@@ -561,103 +607,127 @@ export function ReleaseEditForm({ release, employees, allArtists, channelsByPlat
                           placeholder="Search and select artists for this track (first is primary)..."
                         />
                       </div>
-                      <div className="space-y-2">
-                        <Label htmlFor={`track-number-${index}`} className="text-sm font-semibold">
-                          Track Number
-                        </Label>
-                        <Input
-                          id={`track-number-${index}`}
-                          type="number"
-                          min="1"
-                          value={track.trackNumber}
-                          onChange={(e) => updateTrack(index, { trackNumber: parseInt(e.target.value) || 1 })}
-                          className="h-11"
-                        />
-                      </div>
-                      <div className="space-y-2">
-                        <Label htmlFor={`track-performer-${index}`} className="text-sm font-semibold">
-                          Artist
-                        </Label>
-                        <Input
-                          id={`track-performer-${index}`}
-                          value={track.performer || ''}
-                          onChange={(e) => updateTrack(index, { performer: e.target.value })}
-                          placeholder="Artist name"
-                          className="h-11"
-                        />
-                      </div>
-                      <div className="space-y-2">
-                        <Label htmlFor={`track-composer-${index}`} className="text-sm font-semibold">
-                          Composer
-                        </Label>
-                        <Input
-                          id={`track-composer-${index}`}
-                          value={track.composer || ''}
-                          onChange={(e) => updateTrack(index, { composer: e.target.value })}
-                          placeholder="Composer name"
-                          className="h-11"
-                        />
-                      </div>
-                      <div className="space-y-2">
-                        <Label htmlFor={`track-band-${index}`} className="text-sm font-semibold">
-                          Band
-                        </Label>
-                        <Input
-                          id={`track-band-${index}`}
-                          value={track.band || ''}
-                          onChange={(e) => updateTrack(index, { band: e.target.value })}
-                          placeholder="Band name"
-                          className="h-11"
-                        />
-                      </div>
-                      <div className="space-y-2">
-                        <Label htmlFor={`track-producer-${index}`} className="text-sm font-semibold">
-                          Music Producer
-                        </Label>
-                        <Input
-                          id={`track-producer-${index}`}
-                          value={track.musicProducer || ''}
-                          onChange={(e) => updateTrack(index, { musicProducer: e.target.value })}
-                          placeholder="Producer name"
-                          className="h-11"
-                        />
-                      </div>
-                      <div className="space-y-2">
-                        <Label htmlFor={`track-studio-${index}`} className="text-sm font-semibold">
-                          Studio
-                        </Label>
-                        <Input
-                          id={`track-studio-${index}`}
-                          value={track.studio || ''}
-                          onChange={(e) => updateTrack(index, { studio: e.target.value })}
-                          placeholder="Studio name"
-                          className="h-11"
-                        />
-                      </div>
-                      <div className="space-y-2">
-                        <Label htmlFor={`track-label-${index}`} className="text-sm font-semibold">
-                          Record Label
-                        </Label>
-                        <Input
-                          id={`track-label-${index}`}
-                          value={track.recordLabel || ''}
-                          onChange={(e) => updateTrack(index, { recordLabel: e.target.value })}
-                          placeholder="Record label"
-                          className="h-11"
-                        />
-                      </div>
-                      <div className="space-y-2">
-                        <Label htmlFor={`track-genre-${index}`} className="text-sm font-semibold">
-                          Genre
-                        </Label>
-                        <Input
-                          id={`track-genre-${index}`}
-                          value={track.genre || ''}
-                          onChange={(e) => updateTrack(index, { genre: e.target.value })}
-                          placeholder="Genre"
-                          className="h-11"
-                        />
-                      </div>
+                      {trackPermissions.canView('trackNumber') && (
+                        <div className="space-y-2">
+                          <Label htmlFor={`track-number-${index}`} className="text-sm font-semibold">
+                            Track Number {trackPermissions.isRequired('trackNumber') && <span className="text-destructive">*</span>}
+                          </Label>
+                          <Input
+                            id={`track-number-${index}`}
+                            disabled={!trackPermissions.canEdit('trackNumber')}
+                            type="number"
+                            min="1"
+                            value={track.trackNumber}
+                            onChange={(e) => updateTrack(index, { trackNumber: parseInt(e.target.value) || 1 })}
+                            className="h-11"
+                          />
+                        </div>
+                      )}
+                      {trackPermissions.canView('performer') && (
+                        <div className="space-y-2">
+                          <Label htmlFor={`track-performer-${index}`} className="text-sm font-semibold">
+                            Artist {trackPermissions.isRequired('performer') && <span className="text-destructive">*</span>}
+                          </Label>
+                          <Input
+                            id={`track-performer-${index}`}
+                            disabled={!trackPermissions.canEdit('performer')}
+                            value={track.performer || ''}
+                            onChange={(e) => updateTrack(index, { performer: e.target.value })}
+                            placeholder="Artist name"
+                            className="h-11"
+                          />
+                        </div>
+                      )}
+                      {trackPermissions.canView('composer') && (
+                        <div className="space-y-2">
+                          <Label htmlFor={`track-composer-${index}`} className="text-sm font-semibold">
+                            Composer {trackPermissions.isRequired('composer') && <span className="text-destructive">*</span>}
+                          </Label>
+                          <Input
+                            id={`track-composer-${index}`}
+                            disabled={!trackPermissions.canEdit('composer')}
+                            value={track.composer || ''}
+                            onChange={(e) => updateTrack(index, { composer: e.target.value })}
+                            placeholder="Composer name"
+                            className="h-11"
+                          />
+                        </div>
+                      )}
+                      {trackPermissions.canView('band') && (
+                        <div className="space-y-2">
+                          <Label htmlFor={`track-band-${index}`} className="text-sm font-semibold">
+                            Band {trackPermissions.isRequired('band') && <span className="text-destructive">*</span>}
+                          </Label>
+                          <Input
+                            id={`track-band-${index}`}
+                            disabled={!trackPermissions.canEdit('band')}
+                            value={track.band || ''}
+                            onChange={(e) => updateTrack(index, { band: e.target.value })}
+                            placeholder="Band name"
+                            className="h-11"
+                          />
+                        </div>
+                      )}
+                      {trackPermissions.canView('musicProducer') && (
+                        <div className="space-y-2">
+                          <Label htmlFor={`track-producer-${index}`} className="text-sm font-semibold">
+                            Music Producer {trackPermissions.isRequired('musicProducer') && <span className="text-destructive">*</span>}
+                          </Label>
+                          <Input
+                            id={`track-producer-${index}`}
+                            disabled={!trackPermissions.canEdit('musicProducer')}
+                            value={track.musicProducer || ''}
+                            onChange={(e) => updateTrack(index, { musicProducer: e.target.value })}
+                            placeholder="Producer name"
+                            className="h-11"
+                          />
+                        </div>
+                      )}
+                      {trackPermissions.canView('studio') && (
+                        <div className="space-y-2">
+                          <Label htmlFor={`track-studio-${index}`} className="text-sm font-semibold">
+                            Studio {trackPermissions.isRequired('studio') && <span className="text-destructive">*</span>}
+                          </Label>
+                          <Input
+                            id={`track-studio-${index}`}
+                            disabled={!trackPermissions.canEdit('studio')}
+                            value={track.studio || ''}
+                            onChange={(e) => updateTrack(index, { studio: e.target.value })}
+                            placeholder="Studio name"
+                            className="h-11"
+                          />
+                        </div>
+                      )}
+                      {trackPermissions.canView('recordLabel') && (
+                        <div className="space-y-2">
+                          <Label htmlFor={`track-label-${index}`} className="text-sm font-semibold">
+                            Record Label {trackPermissions.isRequired('recordLabel') && <span className="text-destructive">*</span>}
+                          </Label>
+                          <Input
+                            id={`track-label-${index}`}
+                            disabled={!trackPermissions.canEdit('recordLabel')}
+                            value={track.recordLabel || ''}
+                            onChange={(e) => updateTrack(index, { recordLabel: e.target.value })}
+                            placeholder="Record label"
+                            className="h-11"
+                          />
+                        </div>
+                      )}
+                      {trackPermissions.canView('genre') && (
+                        <div className="space-y-2">
+                          <Label htmlFor={`track-genre-${index}`} className="text-sm font-semibold">
+                            Genre {trackPermissions.isRequired('genre') && <span className="text-destructive">*</span>}
+                          </Label>
+                          <Input
+                            id={`track-genre-${index}`}
+                            disabled={!trackPermissions.canEdit('genre')}
+                            value={track.genre || ''}
+                            onChange={(e) => updateTrack(index, { genre: e.target.value })}
+                            placeholder="Genre"
+                            className="h-11"
+                          />
+                        </div>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -674,44 +744,50 @@ export function ReleaseEditForm({ release, employees, allArtists, channelsByPlat
           </CardHeader>
           <CardContent className="pt-6 space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <div className="space-y-2">
-                <Label htmlFor="copyrightStatus" className="text-sm font-semibold">
-                  Copyright Status
-                </Label>
-            <Select
-              value={formData.copyrightStatus}
-              onValueChange={(value) => setFormData(prev => ({ ...prev, copyrightStatus: value }))}
-            >
-                  <SelectTrigger className="h-11">
-                <SelectValue placeholder="Select copyright status" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="none">None</SelectItem>
-                <SelectItem value={CopyrightStatus.ORIGINAL}>Original</SelectItem>
-                <SelectItem value={CopyrightStatus.COVER}>Cover</SelectItem>
-                <SelectItem value={CopyrightStatus.INTERNATIONAL}>International</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-
-          <div className="space-y-2">
-                <Label htmlFor="videoType" className="text-sm font-semibold">
-                  Video Type
-                </Label>
-            <Select
-              value={formData.videoType}
-              onValueChange={(value) => setFormData(prev => ({ ...prev, videoType: value }))}
-            >
-                  <SelectTrigger className="h-11">
-                <SelectValue placeholder="Select video type" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value={VideoType.NONE}>None</SelectItem>
-                <SelectItem value={VideoType.MUSIC_VIDEO}>Music Video</SelectItem>
-                <SelectItem value={VideoType.LYRICS_VIDEO}>Lyrics Video</SelectItem>
-              </SelectContent>
-            </Select>
-              </div>
+          {releasePermissions.canView('copyrightStatus') && (
+            <div className="space-y-2">
+                  <Label htmlFor="copyrightStatus" className="text-sm font-semibold">
+                    Copyright Status {releasePermissions.isRequired('copyrightStatus') && <span className="text-destructive">*</span>}
+                  </Label>
+              <Select
+                value={formData.copyrightStatus}
+                disabled={!releasePermissions.canEdit('copyrightStatus')}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, copyrightStatus: value }))}
+              >
+                    <SelectTrigger className="h-11">
+                  <SelectValue placeholder="Select copyright status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  <SelectItem value={CopyrightStatus.ORIGINAL}>Original</SelectItem>
+                  <SelectItem value={CopyrightStatus.COVER}>Cover</SelectItem>
+                  <SelectItem value={CopyrightStatus.INTERNATIONAL}>International</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {releasePermissions.canView('videoType') && (
+            <div className="space-y-2">
+                  <Label htmlFor="videoType" className="text-sm font-semibold">
+                    Video Type {releasePermissions.isRequired('videoType') && <span className="text-destructive">*</span>}
+                  </Label>
+              <Select
+                value={formData.videoType}
+                disabled={!releasePermissions.canEdit('videoType')}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, videoType: value }))}
+              >
+                    <SelectTrigger className="h-11">
+                  <SelectValue placeholder="Select video type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={VideoType.NONE}>None</SelectItem>
+                  <SelectItem value={VideoType.MUSIC_VIDEO}>Music Video</SelectItem>
+                  <SelectItem value={VideoType.LYRICS_VIDEO}>Lyrics Video</SelectItem>
+                </SelectContent>
+              </Select>
+                </div>
+          )}
           </div>
 
           <div className="space-y-2">
@@ -751,9 +827,9 @@ export function ReleaseEditForm({ release, employees, allArtists, channelsByPlat
             <CardDescription>Request releases for specific platforms and channels</CardDescription>
         </CardHeader>
           <CardContent className="pt-6 space-y-4">
-          {PLATFORMS.map((platform) => {
+          {platforms.map((platform) => {
             const request = formData.platformRequests.find(pr => pr.platform === platform.key)
-              const channels = channelsByPlatform[platform.key as keyof typeof channelsByPlatform] || []
+              const channels = channelsByPlatform[platform.key] || []
               const hasChannels = channels.length > 0
 
             return (
@@ -0,0 +1,116 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Download, FileSpreadsheet } from 'lucide-react'
+import { formatDate } from '@/lib/utils'
+import type { ImportedValueDifference } from '@/lib/import-provenance'
+
+interface ReleaseImportSourceProps {
+  attachment: {
+    filename: string
+    rowNumber: number | null
+    fileKey: string | null
+    rawContent: string
+    importedAt: Date
+  }
+  // Null for attachments recorded before imported values were kept
+  differences: ImportedValueDifference[] | null
+  // Show the source file and the full row
+  showSource: boolean
+}
+
+function parseRow(rawContent: string): Record<string, string> {
+  try {
+    const row = JSON.parse(rawContent)
+    return row && typeof row === 'object' ? row : {}
+  } catch {
+    return {}
+  }
+}
+
+// Which file and row a release was imported from, and what has changed since
+export function ReleaseImportSource({ attachment, differences, showSource }: ReleaseImportSourceProps) {
+  const rowEntries = Object.entries(parseRow(attachment.rawContent)).filter(([, value]) => value && value.trim())
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileSpreadsheet className="h-5 w-5" />
+              Import Source
+            </CardTitle>
+            <CardDescription>
+              Imported from {attachment.filename}
+              {attachment.rowNumber ? ` row ${attachment.rowNumber}` : ''} on {formatDate(attachment.importedAt)}
+            </CardDescription>
+          </div>
+          {showSource && attachment.fileKey && (
+            <a
+              href={`/api/files/${attachment.fileKey}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm text-primary hover:underline flex items-center gap-1 shrink-0"
+            >
+              <Download className="h-4 w-4" />
+              Source file
+            </a>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {differences === null ? null : differences.length === 0 ? (
+          <div className="text-sm text-muted-foreground">The release still matches the imported row.</div>
+        ) : (
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[180px]">Field</TableHead>
+                  <TableHead>In the file</TableHead>
+                  <TableHead>Now</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {differences.map(difference => (
+                  <TableRow key={difference.field}>
+                    <TableCell className="font-medium text-sm">{difference.label}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground break-words">
+                      {difference.imported || <span className="italic">empty</span>}
+                    </TableCell>
+                    <TableCell className="text-sm break-words">
+                      {difference.current || <span className="italic text-muted-foreground">empty</span>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {showSource && rowEntries.length > 0 && (
+          <details className="text-sm">
+            <summary className="cursor-pointer text-muted-foreground hover:text-foreground">
+              Original row ({rowEntries.length} columns)
+            </summary>
+            <dl className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+              {rowEntries.map(([column, value]) => (
+                <div key={column}>
+                  <dt className="text-xs font-medium text-muted-foreground">{column}</dt>
+                  <dd className="break-words">{value}</dd>
+                </div>
+              ))}
+            </dl>
+          </details>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,433 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { UserRole } from '@prisma/client'
+import { useToast } from '@/hooks/use-toast'
+import { Bookmark, Loader2, Plus, Save, Star, Trash2, Users } from 'lucide-react'
+
+const SHARE_ROLES = [
+  { value: UserRole.ADMIN, label: 'Admin' },
+  { value: UserRole.MANAGER, label: 'Manager' },
+  { value: UserRole.A_R, label: 'A&R' },
+  { value: UserRole.DATA_TEAM, label: 'Data Team' },
+  { value: UserRole.PLATFORM_YOUTUBE, label: 'Platform - YouTube' },
+  { value: UserRole.PLATFORM_FLOW, label: 'Platform - Flow' },
+  { value: UserRole.PLATFORM_RINGTUNES, label: 'Platform - Ringtunes' },
+  { value: UserRole.PLATFORM_INTERNATIONAL_STREAMING, label: 'Platform - International Streaming' },
+  { value: UserRole.PLATFORM_FACEBOOK, label: 'Platform - Facebook' },
+  { value: UserRole.PLATFORM_TIKTOK, label: 'Platform - TikTok' },
+  { value: UserRole.PLATFORM_TEAM, label: 'Platform - Other Team' },
+]
+
+export interface SavedViewData {
+  id: string
+  name: string
+  table: string
+  filters: Record<string, string>
+  sort: { field: string; direction: string } | null
+  columns: string[]
+  isDefault: boolean
+  sharedWithRole: UserRole | null
+  sharedWithTeam: string | null
+  isOwner: boolean
+  user: {
+    id: string
+    name: string | null
+    email: string
+  }
+}
+
+interface SavedViewsMenuProps {
+  table: 'releases' | 'ar_releases'
+  // Current table state, saved when the user creates or updates a view
+  currentFilters: Record<string, string>
+  currentSort: { field: string; direction: string } | null
+  currentColumns: string[]
+  onApply: (view: SavedViewData) => void
+  // Apply the user's default view on load (only when no filters are set in the URL)
+  applyDefault?: boolean
+}
+
+const initialFormData = {
+  name: '',
+  sharedWithRole: 'none',
+  sharedWithTeam: 'none',
+  isDefault: false,
+}
+
+export function SavedViewsMenu({
+  table,
+  currentFilters,
+  currentSort,
+  currentColumns,
+  onApply,
+  applyDefault = false,
+}: SavedViewsMenuProps) {
+  const { toast } = useToast()
+  const [views, setViews] = useState<SavedViewData[]>([])
+  const [teams, setTeams] = useState<string[]>([])
+  const [activeViewId, setActiveViewId] = useState<string | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [formData, setFormData] = useState(initialFormData)
+  const defaultApplied = useRef(false)
+  // The default view is applied once, with whatever callback the parent passes at the time
+  const onApplyRef = useRef(onApply)
+  onApplyRef.current = onApply
+
+  const fetchViews = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/saved-views?table=${table}`)
+      if (!response.ok) return
+      const data = await response.json()
+      setViews(data.views || [])
+      setTeams(data.teams || [])
+      return data.views as SavedViewData[]
+    } catch (error) {
+      console.error('Failed to fetch saved views:', error)
+    }
+  }, [table])
+
+  useEffect(() => {
+    fetchViews().then(loaded => {
+      if (!applyDefault || defaultApplied.current || !loaded) return
+      defaultApplied.current = true
+      const defaultView = loaded.find(v => v.isDefault)
+      if (defaultView) {
+        setActiveViewId(defaultView.id)
+        onApplyRef.current(defaultView)
+      }
+    })
+  }, [fetchViews, applyDefault])
+
+  const applyView = (view: SavedViewData) => {
+    setActiveViewId(view.id)
+    onApply(view)
+  }
+
+  const activeView = views.find(v => v.id === activeViewId)
+
+  const handleCreate = async () => {
+    if (!formData.name.trim()) {
+      toast({
+        title: 'Error',
+        description: 'Please enter a name for this view',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    setSaving(true)
+    try {
+      const response = await fetch('/api/saved-views', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          table,
+          name: formData.name,
+          filters: currentFilters,
+          sort: currentSort,
+          columns: currentColumns,
+          isDefault: formData.isDefault,
+          sharedWithRole: formData.sharedWithRole === 'none' ? null : formData.sharedWithRole,
+          sharedWithTeam: formData.sharedWithTeam === 'none' ? null : formData.sharedWithTeam,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save view')
+      }
+
+      toast({
+        title: 'Success',
+        description: `Saved view "${data.view.name}"`,
+      })
+      setActiveViewId(data.view.id)
+      setDialogOpen(false)
+      fetchViews()
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save view',
+        variant: 'destructive',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const updateView = async (view: SavedViewData, patch: Record<string, any>, successMessage: string) => {
+    try {
+      const response = await fetch(`/api/saved-views/${view.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(patch),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update view')
+      }
+
+      toast({
+        title: 'Success',
+        description: successMessage,
+      })
+      fetchViews()
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update view',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const deleteView = async (view: SavedViewData) => {
+    if (!confirm(`Delete the saved view "${view.name}"?`)) return
+
+    try {
+      const response = await fetch(`/api/saved-views/${view.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to delete view')
+      }
+
+      if (activeViewId === view.id) {
+        setActiveViewId(null)
+      }
+      toast({
+        title: 'Success',
+        description: `Deleted view "${view.name}"`,
+      })
+      fetchViews()
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete view',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const getShareLabel = (view: SavedViewData) => {
+    const targets: string[] = []
+    if (view.sharedWithRole) {
+      targets.push(SHARE_ROLES.find(r => r.value === view.sharedWithRole)?.label || view.sharedWithRole)
+    }
+    if (view.sharedWithTeam) {
+      targets.push(`${view.sharedWithTeam} team`)
+    }
+    return targets.join(', ')
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2">
+            <Bookmark className="w-4 h-4" />
+            {activeView ? activeView.name : 'Views'}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-80">
+          <DropdownMenuLabel>Saved Views</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {views.length === 0 && (
+            <div className="px-2 py-3 text-sm text-muted-foreground">
+              No saved views yet
+            </div>
+          )}
+          {views.map(view => (
+            <DropdownMenuItem
+              key={view.id}
+              className="flex items-center gap-2"
+              onSelect={() => applyView(view)}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-1.5">
+                  <span className="truncate font-medium">{view.name}</span>
+                  {view.isDefault && (
+                    <Badge variant="secondary" className="text-[10px] px-1 py-0">Default</Badge>
+                  )}
+                </div>
+                {!view.isOwner ? (
+                  <div className="text-xs text-muted-foreground truncate">
+                    Shared by {view.user.name || view.user.email}
+                  </div>
+                ) : (view.sharedWithRole || view.sharedWithTeam) && (
+                  <div className="flex items-center gap-1 text-xs text-muted-foreground truncate">
+                    <Users className="w-3 h-3" />
+                    {getShareLabel(view)}
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center gap-0.5">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title={view.isDefault ? 'Remove as default' : 'Set as default'}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    updateView(
+                      view,
+                      { isDefault: !view.isDefault },
+                      view.isDefault ? `"${view.name}" is no longer your default view` : `"${view.name}" is now your default view`
+                    )
+                  }}
+                >
+                  <Star className={`w-3.5 h-3.5 ${view.isDefault ? 'fill-current text-yellow-500' : ''}`} />
+                </Button>
+                {view.isOwner && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-destructive"
+                    title="Delete view"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      deleteView(view)
+                    }}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                )}
+              </div>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          {activeView?.isOwner && (
+            <DropdownMenuItem
+              onSelect={() => updateView(
+                activeView,
+                { filters: currentFilters, sort: currentSort, columns: currentColumns },
+                `Updated view "${activeView.name}"`
+              )}
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Update &quot;{activeView.name}&quot;
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem
+            onSelect={() => {
+              setFormData(initialFormData)
+              setDialogOpen(true)
+            }}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Save current view...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>
+              Save the current filters, sort and columns so you can return to them later.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="view-name">Name</Label>
+              <Input
+                id="view-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. YouTube pending this week"
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    handleCreate()
+                  }
+                }}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Share with role</Label>
+              <Select
+                value={formData.sharedWithRole}
+                onValueChange={(value) => setFormData({ ...formData, sharedWithRole: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Don&apos;t share</SelectItem>
+                  {SHARE_ROLES.map(role => (
+                    <SelectItem key={role.value} value={role.value}>{role.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Share with team</Label>
+              <Select
+                value={formData.sharedWithTeam}
+                onValueChange={(value) => setFormData({ ...formData, sharedWithTeam: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Don&apos;t share</SelectItem>
+                  {teams.map(team => (
+                    <SelectItem key={team} value={team}>{team}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="view-default"
+                checked={formData.isDefault}
+                onCheckedChange={(checked) => setFormData({ ...formData, isDefault: checked === true })}
+              />
+              <Label htmlFor="view-default" className="font-normal">
+                Use as my default view
+              </Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save View
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
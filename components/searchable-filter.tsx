@@ -1,11 +1,12 @@
 'use client'
 
 import { useState, useEffect, useCallback, useRef } from 'react'
+import { useSearchParams } from 'next/navigation'
 import { Combobox } from '@/components/ui/combobox'
 import { useDebounce } from '@/hooks/use-debounce'
 
 interface SearchableFilterProps {
-  field: 'performer' | 'composer' | 'band' | 'studio' | 'label' | 'genre'
+  field: 'performer' | 'composer' | 'band' | 'studio' | 'label' | 'genre' | 'channel' | 'assignedAR'
   label: string
   value?: string
   onValueChange: (value: string | undefined) => void
@@ -25,6 +26,8 @@ export function SearchableFilter({
   const debouncedSearch = useDebounce(internalSearch, 300)
   const hasLoadedInitial = useRef(false)
   const abortControllerRef = useRef<AbortController | null>(null)
+  // Counts reflect the filters currently applied to the table
+  const appliedFilters = useSearchParams().toString()
 
   const fetchOptions = useCallback(async (searchTerm: string) => {
     // Cancel previous request if it exists
@@ -38,11 +41,12 @@ export function SearchableFilter({
 
     setLoading(true)
     try {
-      const params = new URLSearchParams({
-        field,
-        search: searchTerm,
-        limit: '50',
-      })
+      const params = new URLSearchParams(appliedFilters)
+      params.delete('page')
+      params.delete('pageSize')
+      params.set('field', field)
+      params.set('search', searchTerm)
+      params.set('limit', '50')
       const response = await fetch(`/api/releases/filter-options?${params}`, {
         signal: abortController.signal,
       })
@@ -53,7 +57,10 @@ export function SearchableFilter({
 
       const data = await response.json()
       if (data.options) {
-        setOptions(data.options)
+        setOptions(data.options.map((opt: { value: string; label: string; count?: number }) => ({
+          ...opt,
+          label: opt.count !== undefined ? `${opt.label} (${opt.count.toLocaleString()})` : opt.label,
+        })))
       } else {
         setOptions([])
       }
@@ -68,7 +75,7 @@ export function SearchableFilter({
         setLoading(false)
       }
     }
-  }, [field])
+  }, [field, appliedFilters])
 
   // Load initial options on mount
   useEffect(() => {
@@ -78,12 +85,12 @@ export function SearchableFilter({
     }
   }, []) // Empty deps - only run once
 
-  // Update options when search changes (debounced)
+  // Update options when search or the applied filters change (debounced)
   useEffect(() => {
     if (hasLoadedInitial.current) {
       fetchOptions(debouncedSearch)
     }
-  }, [debouncedSearch]) // Only depend on debouncedSearch
+  }, [debouncedSearch, appliedFilters]) // Only depend on search and applied filters
 
   // Ensure selected value is in options
   useEffect(() => {
@@ -14,6 +14,7 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog'
 import { useToast } from '@/hooks/use-toast'
+import { useFieldPermissions } from '@/hooks/use-field-permissions'
 import { Loader2 } from 'lucide-react'
 
 interface Track {
@@ -47,6 +48,7 @@ export function TrackQuickEditDialog({
   const [loading, setLoading] = useState(false)
   const [fetching, setFetching] = useState(false)
   const [track, setTrack] = useState<Track | null>(null)
+  const fieldPermissions = useFieldPermissions('track')
   const [formData, setFormData] = useState({
     name: '',
     trackNumber: '',
@@ -94,6 +96,21 @@ export function TrackQuickEditDialog({
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+
+    const missing = fieldPermissions.missingRequired(formData)
+    if (missing.length > 0) {
+      toast({
+        title: 'Error',
+        description: `Required fields cannot be empty: ${missing.join(', ')}`,
+        variant: 'destructive',
+      })
+      return
+    }
+
+    // Fields the role can't edit are left out so they are never overwritten
+    const editable = (fieldName: string, value: unknown) =>
+      fieldPermissions.canEdit(fieldName) ? value : undefined
+
     setLoading(true)
 
     try {
@@ -101,15 +118,15 @@ export function TrackQuickEditDialog({
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          name: formData.name,
-          trackNumber: formData.trackNumber ? parseInt(formData.trackNumber) : null,
-          performer: formData.performer || null,
-          composer: formData.composer || null,
-          band: formData.band || null,
-          musicProducer: formData.musicProducer || null,
-          studio: formData.studio || null,
-          recordLabel: formData.recordLabel || null,
-          genre: formData.genre || null,
+          name: editable('name', formData.name),
+          trackNumber: editable('trackNumber', formData.trackNumber ? parseInt(formData.trackNumber) : null),
+          performer: editable('performer', formData.performer || null),
+          composer: editable('composer', formData.composer || null),
+          band: editable('band', formData.band || null),
+          musicProducer: editable('musicProducer', formData.musicProducer || null),
+          studio: editable('studio', formData.studio || null),
+          recordLabel: editable('recordLabel', formData.recordLabel || null),
+          genre: editable('genre', formData.genre || null),
         }),
       })
 
@@ -161,97 +178,124 @@ export function TrackQuickEditDialog({
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="name">Track Name *</Label>
-            <Input
-              id="name"
-              value={formData.name}
-              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-              required
-            />
-          </div>
-
-          <div className="grid grid-cols-2 gap-4">
+          {fieldPermissions.canView('name') && (
             <div className="space-y-2">
-              <Label htmlFor="trackNumber">Track Number</Label>
+              <Label htmlFor="name">Track Name *</Label>
               <Input
-                id="trackNumber"
-                type="number"
-                min="1"
-                value={formData.trackNumber}
-                onChange={(e) => setFormData({ ...formData, trackNumber: e.target.value })}
+                id="name"
+                disabled={!fieldPermissions.canEdit('name')}
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                required
               />
             </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            {fieldPermissions.canView('trackNumber') && (
+              <div className="space-y-2">
+                <Label htmlFor="trackNumber">Track Number{fieldPermissions.isRequired('trackNumber') && ' *'}</Label>
+                <Input
+                  id="trackNumber"
+                  disabled={!fieldPermissions.canEdit('trackNumber')}
+                  type="number"
+                  min="1"
+                  value={formData.trackNumber}
+                  onChange={(e) => setFormData({ ...formData, trackNumber: e.target.value })}
+                />
+              </div>
+            )}
           </div>
 
           <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="performer">Artist</Label>
-              <Input
-                id="performer"
-                value={formData.performer}
-                onChange={(e) => setFormData({ ...formData, performer: e.target.value })}
-              />
-            </div>
+            {fieldPermissions.canView('performer') && (
+              <div className="space-y-2">
+                <Label htmlFor="performer">Artist{fieldPermissions.isRequired('performer') && ' *'}</Label>
+                <Input
+                  id="performer"
+                  disabled={!fieldPermissions.canEdit('performer')}
+                  value={formData.performer}
+                  onChange={(e) => setFormData({ ...formData, performer: e.target.value })}
+                />
+              </div>
+            )}
 
-            <div className="space-y-2">
-              <Label htmlFor="composer">Composer</Label>
-              <Input
-                id="composer"
-                value={formData.composer}
-                onChange={(e) => setFormData({ ...formData, composer: e.target.value })}
-              />
-            </div>
+            {fieldPermissions.canView('composer') && (
+              <div className="space-y-2">
+                <Label htmlFor="composer">Composer{fieldPermissions.isRequired('composer') && ' *'}</Label>
+                <Input
+                  id="composer"
+                  disabled={!fieldPermissions.canEdit('composer')}
+                  value={formData.composer}
+                  onChange={(e) => setFormData({ ...formData, composer: e.target.value })}
+                />
+              </div>
+            )}
           </div>
 
           <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="band">Band</Label>
-              <Input
-                id="band"
-                value={formData.band}
-                onChange={(e) => setFormData({ ...formData, band: e.target.value })}
-              />
-            </div>
+            {fieldPermissions.canView('band') && (
+              <div className="space-y-2">
+                <Label htmlFor="band">Band{fieldPermissions.isRequired('band') && ' *'}</Label>
+                <Input
+                  id="band"
+                  disabled={!fieldPermissions.canEdit('band')}
+                  value={formData.band}
+                  onChange={(e) => setFormData({ ...formData, band: e.target.value })}
+                />
+              </div>
+            )}
 
-            <div className="space-y-2">
-              <Label htmlFor="musicProducer">Music Producer</Label>
-              <Input
-                id="musicProducer"
-                value={formData.musicProducer}
-                onChange={(e) => setFormData({ ...formData, musicProducer: e.target.value })}
-              />
-            </div>
+            {fieldPermissions.canView('musicProducer') && (
+              <div className="space-y-2">
+                <Label htmlFor="musicProducer">Music Producer{fieldPermissions.isRequired('musicProducer') && ' *'}</Label>
+                <Input
+                  id="musicProducer"
+                  disabled={!fieldPermissions.canEdit('musicProducer')}
+                  value={formData.musicProducer}
+                  onChange={(e) => setFormData({ ...formData, musicProducer: e.target.value })}
+                />
+              </div>
+            )}
           </div>
 
           <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="studio">Studio</Label>
-              <Input
-                id="studio"
-                value={formData.studio}
-                onChange={(e) => setFormData({ ...formData, studio: e.target.value })}
-              />
-            </div>
+            {fieldPermissions.canView('studio') && (
+              <div className="space-y-2">
+                <Label htmlFor="studio">Studio{fieldPermissions.isRequired('studio') && ' *'}</Label>
+                <Input
+                  id="studio"
+                  disabled={!fieldPermissions.canEdit('studio')}
+                  value={formData.studio}
+                  onChange={(e) => setFormData({ ...formData, studio: e.target.value })}
+                />
+              </div>
+            )}
 
+            {fieldPermissions.canView('recordLabel') && (
+              <div className="space-y-2">
+                <Label htmlFor="recordLabel">Record Label{fieldPermissions.isRequired('recordLabel') && ' *'}</Label>
+                <Input
+                  id="recordLabel"
+                  disabled={!fieldPermissions.canEdit('recordLabel')}
+                  value={formData.recordLabel}
+                  onChange={(e) => setFormData({ ...formData, recordLabel: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+
+          {fieldPermissions.canView('genre') && (
             <div className="space-y-2">
-              <Label htmlFor="recordLabel">Record Label</Label>
+              <Label htmlFor="genre">Genre{fieldPermissions.isRequired('genre') && ' *'}</Label>
               <Input
-                id="recordLabel"
-                value={formData.recordLabel}
-                onChange={(e) => setFormData({ ...formData, recordLabel: e.target.value })}
+                id="genre"
+                disabled={!fieldPermissions.canEdit('genre')}
+                value={formData.genre}
+                onChange={(e) => setFormData({ ...formData, genre: e.target.value })}
               />
             </div>
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="genre">Genre</Label>
-            <Input
-              id="genre"
-              value={formData.genre}
-              onChange={(e) => setFormData({ ...formData, genre: e.target.value })}
-            />
-          </div>
+          )}
 
           <DialogFooter>
             <Button
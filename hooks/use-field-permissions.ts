@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react'
+import type { EntityType, FieldPermissionMap } from '@/lib/permissions'
+
+// Used until the matrix loads (and for fields without an entry); the API enforces the real rules
+const ALLOW_ALL = { canView: true, canEdit: true, isRequired: false }
+
+// Field permission matrix for the current user's role, mirroring what the APIs enforce
+export function useFieldPermissions(entityType: EntityType) {
+  const [permissions, setPermissions] = useState<FieldPermissionMap>({})
+
+  useEffect(() => {
+    const abortController = new AbortController()
+
+    fetch(`/api/permissions?entityType=${entityType}`, { signal: abortController.signal })
+      .then(res => res.json())
+      .then(data => setPermissions(data.permissions || {}))
+      .catch(error => {
+        if (error.name !== 'AbortError') {
+          console.error(`Failed to fetch ${entityType} field permissions:`, error)
+        }
+      })
+
+    return () => abortController.abort()
+  }, [entityType])
+
+  const get = (fieldName: string) => permissions[fieldName] || ALLOW_ALL
+
+  // Required fields (among the given name → value pairs) that are empty
+  const missingRequired = (values: Record<string, unknown>) =>
+    Object.entries(values)
+      .filter(([fieldName, value]) => {
+        if (!get(fieldName).isRequired) return false
+        return value === null || value === undefined || value === 'none' ||
+          (typeof value === 'string' && value.trim() === '') ||
+          (Array.isArray(value) && value.length === 0)
+      })
+      .map(([fieldName]) => fieldName)
+
+  return {
+    permissions,
+    canView: (fieldName: string) => get(fieldName).canView,
+    canEdit: (fieldName: string) => get(fieldName).canEdit,
+    isRequired: (fieldName: string) => get(fieldName).isRequired,
+    missingRequired,
+  }
+}
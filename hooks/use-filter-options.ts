@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+
+export interface FilterOption {
+  value: string
+  label: string
+  count: number
+}
+
+// Options (with counts under the applied URL filters) for one release facet
+export function useFilterOptions(field: string): FilterOption[] {
+  const appliedFilters = useSearchParams().toString()
+  const [options, setOptions] = useState<FilterOption[]>([])
+
+  useEffect(() => {
+    const abortController = new AbortController()
+    const params = new URLSearchParams(appliedFilters)
+    params.delete('page')
+    params.delete('pageSize')
+    params.set('field', field)
+
+    fetch(`/api/releases/filter-options?${params}`, { signal: abortController.signal })
+      .then(res => res.json())
+      .then(data => setOptions(data.options || []))
+      .catch(error => {
+        if (error.name !== 'AbortError') {
+          console.error(`Failed to fetch ${field} options:`, error)
+        }
+      })
+
+    return () => abortController.abort()
+  }, [field, appliedFilters])
+
+  return options
+}
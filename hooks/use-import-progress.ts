@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react'
+import type { ImportProgressEvent } from '@/lib/import-progress-events'
+
+// Live progress of an import from the progress stream; pass null to stop watching
+export function useImportProgress(sessionId: string | null): {
+  progress: ImportProgressEvent | null
+  connected: boolean
+} {
+  const [progress, setProgress] = useState<ImportProgressEvent | null>(null)
+  const [connected, setConnected] = useState(false)
+
+  useEffect(() => {
+    setProgress(null)
+    setConnected(false)
+    if (!sessionId) return
+
+    const source = new EventSource(`/api/import/csv/progress?sessionId=${encodeURIComponent(sessionId)}`)
+
+    source.onopen = () => setConnected(true)
+    source.addEventListener('progress', event => {
+      setProgress(JSON.parse((event as MessageEvent).data))
+    })
+    // The import has finished; close so the browser doesn't reconnect
+    source.addEventListener('end', () => {
+      source.close()
+      setConnected(false)
+    })
+    // EventSource retries on its own unless the server refused the stream
+    source.onerror = () => {
+      setConnected(source.readyState === EventSource.OPEN)
+    }
+
+    return () => source.close()
+  }, [sessionId])
+
+  return { progress, connected }
+}
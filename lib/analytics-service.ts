@@ -74,6 +74,15 @@ export interface PipelineHealth {
   averageTimeInPending: number
   averageTimeInUploaded: number
   bottleneckPlatforms: { platform: string; pendingCount: number }[]
+  slaBreaches: SlaBreachMetrics
+}
+
+export interface SlaBreachMetrics {
+  total: number
+  open: number
+  // Hours from the due date until the request was dealt with, or until now for open breaches
+  averageHoursLate: number
+  byPlatform: { platform: string; breaches: number; open: number; averageHoursLate: number }[]
 }
 
 export interface TimeTrend {
@@ -124,7 +133,8 @@ function buildWhereClause(filters: AnalyticsFilters) {
 }
 
 function buildPlatformRequestWhere(filters: AnalyticsFilters) {
-  const where: any = {}
+  // Track requests roll up into their release's request, which is the one counted
+  const where: any = { parentRequestId: null }
 
   if (filters.startDate || filters.endDate) {
     where.createdAt = {}
@@ -612,7 +622,7 @@ export async function getPipelineHealth(filters: AnalyticsFilters = {}): Promise
   const where = buildWhereClause(filters)
   const platformRequestWhere = buildPlatformRequestWhere(filters)
 
-  const [statusCounts, pendingRequests, uploadedRequests, platformBottlenecks] = await Promise.all([
+  const [statusCounts, pendingRequests, uploadedRequests, platformBottlenecks, slaBreaches] = await Promise.all([
     prisma.platformRequest.groupBy({
       by: ['status'],
       where: platformRequestWhere,
@@ -646,6 +656,7 @@ export async function getPipelineHealth(filters: AnalyticsFilters = {}): Promise
       },
       _count: true,
     }),
+    getSlaBreachMetrics(filters),
   ])
 
   const statusMap = new Map<string, number>()
@@ -681,6 +692,58 @@ export async function getPipelineHealth(filters: AnalyticsFilters = {}): Promise
     averageTimeInPending: Math.round(averageTimeInPending * 100) / 100,
     averageTimeInUploaded: Math.round(averageTimeInUploaded * 100) / 100,
     bottleneckPlatforms,
+    slaBreaches,
+  }
+}
+
+// Breach history recorded by the SLA check, by the due date falling in the filtered range
+async function getSlaBreachMetrics(filters: AnalyticsFilters): Promise<SlaBreachMetrics> {
+  const where: any = {}
+  if (filters.startDate || filters.endDate) {
+    where.dueAt = {}
+    if (filters.startDate) {
+      where.dueAt.gte = startOfDay(filters.startDate)
+    }
+    if (filters.endDate) {
+      where.dueAt.lte = endOfDay(filters.endDate)
+    }
+  }
+  if (filters.platform) {
+    where.platform = Array.isArray(filters.platform) ? { in: filters.platform } : filters.platform
+  }
+
+  const breaches = await prisma.platformSlaBreach.findMany({
+    where,
+    select: {
+      platform: true,
+      dueAt: true,
+      resolvedAt: true,
+    },
+  })
+
+  const now = new Date()
+  const hoursLate = (breach: { dueAt: Date; resolvedAt: Date | null }) =>
+    Math.max(0, differenceInHours(breach.resolvedAt || now, breach.dueAt))
+  const average = (values: number[]) =>
+    values.length > 0 ? Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 100) / 100 : 0
+
+  const platformMap = new Map<string, typeof breaches>()
+  breaches.forEach((breach) => {
+    platformMap.set(breach.platform, [...(platformMap.get(breach.platform) || []), breach])
+  })
+
+  return {
+    total: breaches.length,
+    open: breaches.filter((breach) => !breach.resolvedAt).length,
+    averageHoursLate: average(breaches.map(hoursLate)),
+    byPlatform: Array.from(platformMap.entries())
+      .map(([platform, platformBreaches]) => ({
+        platform,
+        breaches: platformBreaches.length,
+        open: platformBreaches.filter((breach) => !breach.resolvedAt).length,
+        averageHoursLate: average(platformBreaches.map(hoursLate)),
+      }))
+      .sort((a, b) => b.breaches - a.breaches),
   }
 }
 
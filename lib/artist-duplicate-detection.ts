@@ -1,3 +1,5 @@
+import { normalizeMyanmarText } from './myanmar-text'
+
 /**
  * Calculate Levenshtein distance between two strings
  */
@@ -43,13 +45,14 @@ function similarityRatio(str1: string, str2: string): number {
 }
 
 /**
- * Normalize string for comparison (remove extra spaces, special chars)
+ * Normalize string for comparison (Zawgyi to Unicode, remove extra spaces,
+ * special chars). Myanmar letters and marks are kept.
  */
 function normalizeString(str: string): string {
-  return str
+  return normalizeMyanmarText(str)
     .toLowerCase()
     .trim()
-    .replace(/[^\w\s]/g, '')
+    .replace(/[^\w\s\u1000-\u109f]/g, '')
     .replace(/\s+/g, ' ')
 }
 
@@ -88,6 +91,12 @@ export function findDuplicateArtists(
   const duplicates: ArtistDuplicate[] = []
   const processed = new Set<string>()
 
+  // Normalize once per artist rather than once per pair
+  const keys = artists.map(artist => ({
+    name: normalizeString(artist.name),
+    legalName: artist.legalName ? normalizeString(artist.legalName) : null,
+  }))
+
   for (let i = 0; i < artists.length; i++) {
     const artist1 = artists[i]
     if (processed.has(artist1.id)) continue
@@ -96,10 +105,10 @@ export function findDuplicateArtists(
       const artist2 = artists[j]
       if (processed.has(artist2.id)) continue
 
-      const name1 = normalizeString(artist1.name)
-      const name2 = normalizeString(artist2.name)
-      const legalName1 = artist1.legalName ? normalizeString(artist1.legalName) : null
-      const legalName2 = artist2.legalName ? normalizeString(artist2.legalName) : null
+      const name1 = keys[i].name
+      const name2 = keys[j].name
+      const legalName1 = keys[i].legalName
+      const legalName2 = keys[j].legalName
 
       // Check exact name match (case-insensitive)
       if (name1 === name2 && name1.length > 0) {
@@ -0,0 +1,124 @@
+import { UserRole } from '@prisma/client'
+
+// Mentions are stored inline in the comment content as @[Display Name](userId)
+export const MENTION_PATTERN = /@\[([^\]]+)\]\(([^)\s]+)\)/g
+
+export const MAX_COMMENT_LENGTH = 5000
+
+// Comments are internal notes: clients can't read, post or be mentioned in them
+export function canUseComments(role: UserRole | string | undefined): boolean {
+  return !!role && role !== UserRole.CLIENT
+}
+
+const commentUserSelect = {
+  id: true,
+  name: true,
+  email: true,
+}
+
+// Shape shared by the release detail page and the comments API
+export const commentInclude = {
+  user: {
+    select: commentUserSelect,
+  },
+  track: {
+    select: {
+      id: true,
+      name: true,
+      trackNumber: true,
+    },
+  },
+  mentions: {
+    include: {
+      user: {
+        select: commentUserSelect,
+      },
+    },
+  },
+}
+
+export const commentThreadInclude = {
+  ...commentInclude,
+  replies: {
+    include: commentInclude,
+    orderBy: { createdAt: 'asc' as const },
+  },
+}
+
+export function formatMention(name: string, userId: string): string {
+  return `@[${name.replace(/[\[\]]/g, '')}](${userId})`
+}
+
+export function extractMentionedUserIds(content: string): string[] {
+  const ids = new Set<string>()
+  for (const match of Array.from(content.matchAll(MENTION_PATTERN))) {
+    ids.add(match[2])
+  }
+  return Array.from(ids)
+}
+
+// Split content into plain text and mention parts for rendering
+export function splitMentions(content: string): Array<{ text: string; userId?: string }> {
+  const parts: Array<{ text: string; userId?: string }> = []
+  let lastIndex = 0
+
+  for (const match of Array.from(content.matchAll(MENTION_PATTERN))) {
+    const index = match.index ?? 0
+    if (index > lastIndex) {
+      parts.push({ text: content.slice(lastIndex, index) })
+    }
+    parts.push({ text: `@${match[1]}`, userId: match[2] })
+    lastIndex = index + match[0].length
+  }
+
+  if (lastIndex < content.length) {
+    parts.push({ text: content.slice(lastIndex) })
+  }
+
+  return parts
+}
+
+/**
+ * Replace the mention rows for a comment with the users referenced in its content.
+ * Unknown IDs and client users are ignored. Returns the IDs of users who were newly mentioned.
+ */
+export async function syncCommentMentions(
+  prisma: any,
+  commentId: string,
+  content: string
+): Promise<string[]> {
+  const mentionedIds = extractMentionedUserIds(content)
+
+  const [existingMentions, users] = await Promise.all([
+    prisma.commentMention.findMany({
+      where: { commentId },
+      select: { userId: true },
+    }),
+    mentionedIds.length > 0
+      ? prisma.user.findMany({
+          where: { id: { in: mentionedIds }, role: { not: UserRole.CLIENT } },
+          select: { id: true },
+        })
+      : Promise.resolve([]),
+  ])
+
+  const previousIds = new Set<string>(existingMentions.map((m: { userId: string }) => m.userId))
+  const validIds: string[] = users.map((u: { id: string }) => u.id)
+
+  await prisma.commentMention.deleteMany({
+    where: {
+      commentId,
+      userId: { notIn: validIds },
+    },
+  })
+
+  const newIds = validIds.filter(id => !previousIds.has(id))
+  if (newIds.length > 0) {
+    await prisma.commentMention.createMany({
+      data: newIds.map(userId => ({ commentId, userId })),
+      skipDuplicates: true,
+    })
+  }
+
+  return newIds
+}
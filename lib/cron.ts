@@ -0,0 +1,19 @@
+import { NextRequest } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { UserRole } from '@prisma/client'
+import { authOptions } from './auth'
+
+/**
+ * Scheduled jobs authenticate with `Authorization: Bearer $CRON_SECRET`
+ * (the header Vercel Cron sends). Admins can also trigger them manually
+ * from a signed-in session.
+ */
+export async function isCronAuthorized(req: NextRequest): Promise<boolean> {
+  const secret = process.env.CRON_SECRET
+  if (secret && req.headers.get('authorization') === `Bearer ${secret}`) {
+    return true
+  }
+
+  const session = await getServerSession(authOptions)
+  return session?.user?.role === UserRole.ADMIN
+}
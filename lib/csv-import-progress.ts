@@ -36,6 +36,46 @@ export function calculateProgress(
   }
 }
 
+export interface ProgressSample {
+  at: number // ms timestamp
+  rowsProcessed: number
+}
+
+// Recent speed predicts the rest of an import better than the average since it
+// started, which pauses and worker restarts drag down
+export const PROGRESS_RATE_WINDOW_MS = 60 * 1000
+
+/**
+ * Rows per second and seconds remaining from progress samples taken while
+ * watching an import, measured over the last PROGRESS_RATE_WINDOW_MS. Falls
+ * back to the average since `startTime` until two samples show movement.
+ */
+export function estimateFromSamples(
+  samples: ProgressSample[],
+  totalRows: number,
+  startTime?: Date
+): { rowsPerSecond: number; estimatedTimeRemaining: number | null } {
+  const latest = samples[samples.length - 1]
+  if (!latest) {
+    return { rowsPerSecond: 0, estimatedTimeRemaining: null }
+  }
+
+  const windowStart = latest.at - PROGRESS_RATE_WINDOW_MS
+  const first = samples.find(sample => sample.at >= windowStart) || latest
+  const elapsedSeconds = (latest.at - first.at) / 1000
+  let rowsPerSecond = elapsedSeconds > 0 ? (latest.rowsProcessed - first.rowsProcessed) / elapsedSeconds : 0
+
+  if (rowsPerSecond <= 0 && startTime) {
+    rowsPerSecond = calculateProgress(latest.rowsProcessed, totalRows, startTime, '').rowsPerSecond
+  }
+
+  const remainingRows = Math.max(totalRows - latest.rowsProcessed, 0)
+  return {
+    rowsPerSecond: Math.round(rowsPerSecond * 10) / 10,
+    estimatedTimeRemaining: rowsPerSecond > 0 ? Math.round(remainingRows / rowsPerSecond) : null,
+  }
+}
+
 export function formatTimeRemaining(seconds: number): string {
   if (isNaN(seconds) || seconds < 0) return 'Calculating...'
   if (seconds < 60) {
@@ -1,6 +1,7 @@
 // Session management utilities for CSV imports
 
 import { prisma } from './db'
+import { notifyImportFinished } from './notifications'
 import crypto from 'crypto'
 
 export interface ImportSessionData {
@@ -103,14 +104,18 @@ export async function completeImportSession(sessionId: string, result?: {
     }
   }
   
-  return await prisma.importSession.update({
+  const session = await prisma.importSession.update({
     where: { id: sessionId },
     data: updateData,
   })
+
+  await notifyImportFinished(prisma, session, result)
+
+  return session
 }
 
 export async function failImportSession(sessionId: string, error: string) {
-  return await prisma.importSession.update({
+  const session = await prisma.importSession.update({
     where: { id: sessionId },
     data: {
       status: 'failed',
@@ -118,6 +123,10 @@ export async function failImportSession(sessionId: string, error: string) {
       completedAt: new Date(),
     },
   })
+
+  await notifyImportFinished(prisma, session)
+
+  return session
 }
 
 export async function cancelImportSession(sessionId: string) {
@@ -1,5 +1,7 @@
 import { PrismaClient, Prisma, UserRole } from '@prisma/client'
-import { ReleaseType, CopyrightStatus, VideoType } from '@prisma/client'
+import { ReleaseType, CopyrightStatus, VideoType, PlatformRequestStatus } from '@prisma/client'
+import { normalizeMyanmarText } from './myanmar-text'
+import { DEFAULT_PLATFORMS } from './platforms'
 
 // Types
 export interface ParsedRow {
@@ -114,84 +116,121 @@ export function normalizeColumnName(name: string): string {
     .replace(/[^a-z0-9_]/g, '')
 }
 
-// Parse CSV with proper handling of multi-line cells and escaped quotes
-export function parseCSV(content: string): { headers: string[], rows: ParsedRow[] } {
-  if (!content || content.trim().length === 0) {
-    return { headers: [], rows: [] }
+// Incremental CSV tokenizer with proper handling of multi-line cells and escaped
+// quotes. Text can be pushed in chunks (e.g. from a file stream); completed
+// records are returned as soon as their line ends. Blank lines are dropped.
+export class CSVRecordParser {
+  private currentRow: string[] = []
+  private currentField = ''
+  private inQuotes = false
+  // A quote or carriage return at the end of a chunk waits for the next character
+  private carry = ''
+
+  push(chunk: string): string[][] {
+    return this.consume(this.carry + chunk, false)
   }
 
-  const rows: string[][] = []
-  let currentRow: string[] = []
-  let currentField = ''
-  let inQuotes = false
-  let i = 0
+  end(): string[][] {
+    const records = this.consume(this.carry, true)
+    if (this.currentField.length > 0 || this.currentRow.length > 0) {
+      this.currentRow.push(this.currentField)
+      this.pushRecord(records)
+    }
+    this.currentField = ''
+    this.currentRow = []
+    return records
+  }
 
-  while (i < content.length) {
-    const char = content[i]
-    const nextChar = content[i + 1]
+  private pushRecord(records: string[][]) {
+    if (this.currentRow.length > 0 && this.currentRow.some(field => field.trim().length > 0)) {
+      records.push(this.currentRow)
+    }
+  }
 
-    if (char === '"') {
-      if (inQuotes && nextChar === '"') {
-        currentField += '"'
-        i += 2
-        continue
-      } else {
-        inQuotes = !inQuotes
-        i++
-        continue
+  private consume(content: string, final: boolean): string[][] {
+    const records: string[][] = []
+    this.carry = ''
+    let i = 0
+
+    while (i < content.length) {
+      const char = content[i]
+      const nextChar = content[i + 1]
+
+      if (!final && nextChar === undefined && (char === '"' || char === '\r')) {
+        this.carry = char
+        break
       }
-    }
 
-    if (char === ',' && !inQuotes) {
-      currentRow.push(currentField)
-      currentField = ''
-      i++
-      continue
-    }
+      if (char === '"') {
+        if (this.inQuotes && nextChar === '"') {
+          this.currentField += '"'
+          i += 2
+          continue
+        } else {
+          this.inQuotes = !this.inQuotes
+          i++
+          continue
+        }
+      }
 
-    if ((char === '\n' || (char === '\r' && nextChar === '\n')) && !inQuotes) {
-      if (char === '\r' && nextChar === '\n') {
-        i += 2
-      } else {
+      if (char === ',' && !this.inQuotes) {
+        this.currentRow.push(this.currentField)
+        this.currentField = ''
         i++
+        continue
       }
-      
-      currentRow.push(currentField)
-      currentField = ''
-      
-      if (currentRow.length > 0 && currentRow.some(field => field.trim().length > 0)) {
-        rows.push(currentRow)
+
+      if ((char === '\n' || (char === '\r' && nextChar === '\n')) && !this.inQuotes) {
+        if (char === '\r' && nextChar === '\n') {
+          i += 2
+        } else {
+          i++
+        }
+
+        this.currentRow.push(this.currentField)
+        this.currentField = ''
+        this.pushRecord(records)
+        this.currentRow = []
+        continue
       }
-      currentRow = []
-      continue
+
+      this.currentField += char
+      i++
     }
 
-    currentField += char
-    i++
+    return records
   }
+}
 
-  if (currentField.length > 0 || currentRow.length > 0) {
-    currentRow.push(currentField)
-    if (currentRow.length > 0 && currentRow.some(field => field.trim().length > 0)) {
-      rows.push(currentRow)
-    }
-  }
+// Split CSV text into records (arrays of raw cell values)
+export function parseCSVRecords(content: string): string[][] {
+  const parser = new CSVRecordParser()
+  return [...parser.push(content), ...parser.end()]
+}
 
-  if (rows.length === 0) {
+/**
+ * Turn raw records (from CSV or a spreadsheet sheet) into ParsedRows.
+ * headerRowIndex picks the record holding the column names; anything
+ * above it (titles, notes) is ignored.
+ */
+export function buildParsedRows(records: string[][], headerRowIndex = 0): { headers: string[], rows: ParsedRow[] } {
+  if (records.length <= headerRowIndex) {
     return { headers: [], rows: [] }
   }
 
-  const rawHeaders = rows[0].map(h => h.trim())
+  const rawHeaders = records[headerRowIndex].map(h => String(h ?? '').trim())
   const headers = rawHeaders.map(cleanHeader)
 
   const parsedRows: ParsedRow[] = []
-  for (let i = 1; i < rows.length; i++) {
-    const values = rows[i]
+  for (let i = headerRowIndex + 1; i < records.length; i++) {
+    const values = records[i]
     const row: ParsedRow = {}
     headers.forEach((header, index) => {
       const normalizedKey = normalizeColumnName(header)
-      row[normalizedKey] = (values[index] || '').trim()
-      row[header] = (values[index] || '').trim()
+      // Zawgyi cells are converted to Unicode here, so every import path sees Unicode
+      const value = normalizeMyanmarText(String(values[index] ?? '').trim())
+      row[normalizedKey] = value
+      row[header] = value
     })
     parsedRows.push(row)
   }
@@ -199,6 +238,15 @@ export function parseCSV(content: string): { headers: string[], rows: ParsedRow[
   return { headers, rows: parsedRows }
 }
 
+// Parse CSV with proper handling of multi-line cells and escaped quotes
+export function parseCSV(content: string, options?: { headerRowIndex?: number }): { headers: string[], rows: ParsedRow[] } {
+  if (!content || content.trim().length === 0) {
+    return { headers: [], rows: [] }
+  }
+
+  return buildParsedRows(parseCSVRecords(content), options?.headerRowIndex || 0)
+}
+
 // Parse comma-separated list (handles commas, "ft.", "feat.", "featuring", "&", "/" and other dividers)
 export function parseCommaSeparatedList(value: string | null | undefined): string[] {
   if (!value || isEmpty(value)) return []
@@ -261,6 +309,104 @@ export function parsePlatformChannels(channelString: string | null | undefined):
   return parseCommaSeparatedList(channelString)
 }
 
+// Submission fields that carry a platform's request flag, status and channels
+export interface ImportPlatformFields {
+  key: string
+  platform: string
+  name: string
+  supportsChannels: boolean
+  trackRequests: boolean
+  statusKey: string
+  channelKey: string
+}
+
+// Field names the original platforms were mapped to before the registry existed
+const LEGACY_IMPORT_PLATFORM_KEYS: Record<string, { key: string; statusKey: string; channelKey: string }> = {
+  youtube: { key: 'youtubeRequest', statusKey: 'youtube', channelKey: 'youtubeChannel' },
+  flow: { key: 'flowRequest', statusKey: 'flow', channelKey: 'flowChannel' },
+  tiktok: { key: 'tiktokRequest', statusKey: 'tiktok', channelKey: 'tiktokChannel' },
+  facebook: { key: 'fbRequest', statusKey: 'fb', channelKey: 'facebookChannel' },
+  international_streaming: { key: 'intlStreamingRequest', statusKey: 'intlStreaming', channelKey: 'intlStreamingChannel' },
+  ringtunes: { key: 'ringtunesRequest', statusKey: 'ringtunes', channelKey: 'ringtunesChannel' },
+}
+
+/**
+ * Import fields of each registry platform. Platforms added later get
+ * camelCase fields from their slug, e.g. "joox_music" maps "jooxMusicRequest",
+ * "jooxMusic" and "jooxMusicChannel".
+ */
+export function getImportPlatformFields(
+  platforms: Array<{ slug: string; name: string; supportsChannels: boolean; trackRequests?: boolean }>
+): ImportPlatformFields[] {
+  return platforms.map(platform => {
+    const base = platform.slug.replace(/[_-]+([a-z0-9])/g, (_, letter: string) => letter.toUpperCase())
+    const keys = LEGACY_IMPORT_PLATFORM_KEYS[platform.slug] || {
+      key: `${base}Request`,
+      statusKey: base,
+      channelKey: `${base}Channel`,
+    }
+    return {
+      ...keys,
+      platform: platform.slug,
+      name: platform.name,
+      supportsChannels: platform.supportsChannels,
+      trackRequests: !!platform.trackRequests,
+    }
+  })
+}
+
+// Fields of the original platforms, for callers that don't load the registry
+export const IMPORT_PLATFORM_FIELDS = getImportPlatformFields(DEFAULT_PLATFORMS)
+
+// Read one platform's request, status and channels from extracted submission data
+export function parsePlatformRequestFields(
+  submission: SubmissionRecord,
+  fields: ImportPlatformFields
+): {
+  isRequested: boolean
+  hasStatus: boolean
+  status: PlatformRequestStatus
+  // "checked"/"completed" marks every channel of the platform as uploaded
+  isChecked: boolean
+  channelNames: string[]
+} {
+  // Fields without a SubmissionRecord property (newer platforms) are kept with the unmapped fields
+  const fieldValue = (key: string) =>
+    (submission[key as keyof SubmissionRecord] ?? submission.rawRow?.unmappedFields?.[key]) as string | undefined
+  const requestValue = fieldValue(fields.key)
+  const statusValue = fieldValue(fields.statusKey)
+  const channelValue = fieldValue(fields.channelKey)
+
+  // Any non-empty value means requested
+  const isRequested = !!requestValue && requestValue.trim().length > 0
+  const statusLower = statusValue ? statusValue.toLowerCase().trim() : ''
+
+  // Handle "checked" and "completed" as approved
+  let status: PlatformRequestStatus = PlatformRequestStatus.PENDING
+  if (statusLower.length > 0) {
+    if (statusLower.includes('uploaded') ||
+        statusLower.includes('approved') ||
+        statusLower.includes('checked') ||
+        statusLower.includes('completed') ||
+        statusLower === 'yes' ||
+        statusLower === 'y' ||
+        statusLower === '1' ||
+        statusLower === 'true') {
+      status = PlatformRequestStatus.UPLOADED
+    } else if (statusLower.includes('rejected')) {
+      status = PlatformRequestStatus.REJECTED
+    }
+  }
+
+  return {
+    isRequested,
+    hasStatus: statusLower.length > 0,
+    status,
+    isChecked: statusLower.includes('checked') || statusLower.includes('completed'),
+    channelNames: channelValue ? parsePlatformChannels(channelValue) : [],
+  }
+}
+
 // Clean A&R name (remove URLs in brackets, etc.)
 export function cleanARName(name: string): string {
   if (!name) return ''
@@ -275,14 +421,15 @@ export function cleanARName(name: string): string {
 export async function findOrCreateArtists(
   artistNames: string[],
   prisma: PrismaClient | Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>,
-  cache?: Map<string, { id: string; name: string }>
+  cache?: Map<string, { id: string; name: string }>,
+  onCreate?: (id: string) => Promise<unknown> // Called for each artist created
 ): Promise<Array<{ id: string; name: string }>> {
   const artists = []
   
   for (const name of artistNames) {
     if (!name || name.trim().length === 0) continue
     
-    const trimmedName = name.trim()
+    const trimmedName = normalizeMyanmarText(name.trim())
     const cacheKey = trimmedName.toLowerCase()
     
     // Check cache first
@@ -292,13 +439,15 @@ export async function findOrCreateArtists(
       continue
     }
     
-    // Try to find existing artist
+    // Try to find existing artist (also as originally typed, for Zawgyi names not yet backfilled)
     let artist = await prisma.artist.findFirst({
     where: {
-      name: {
-          equals: trimmedName,
-        mode: 'insensitive',
-      },
+      OR: Array.from(new Set([trimmedName, name.trim()])).map(candidate => ({
+        name: {
+          equals: candidate,
+          mode: 'insensitive' as const,
+        },
+      })),
     },
     })
     
@@ -309,6 +458,7 @@ export async function findOrCreateArtists(
           name: trimmedName,
         },
       })
+      await onCreate?.(artist.id)
     }
     
     // Update cache
@@ -326,11 +476,12 @@ export async function findOrCreateArtists(
 export async function findOrCreateEmployeeByName(
   name: string,
   prisma: PrismaClient | Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>,
-  cache?: Map<string, string>
+  cache?: Map<string, string>,
+  onCreate?: (userId: string) => Promise<unknown> // Called with the new user's ID
 ): Promise<string | null> {
   if (!name || name.trim().length === 0) return null
   
-  const trimmedName = name.trim()
+  const trimmedName = normalizeMyanmarText(name.trim())
   const cacheKey = trimmedName.toLowerCase()
   
   // Check cache first
@@ -338,15 +489,17 @@ export async function findOrCreateEmployeeByName(
     return cache.get(cacheKey)!
   }
   
-  // Try to find existing employee by user name
+  // Try to find existing employee by user name (also as originally typed)
   const employee = await prisma.employee.findFirst({
     where: {
-      user: {
-        name: {
-          equals: trimmedName,
-          mode: 'insensitive',
+      OR: Array.from(new Set([trimmedName, name.trim()])).map(candidate => ({
+        user: {
+          name: {
+            equals: candidate,
+            mode: 'insensitive' as const,
+          },
         },
-      },
+      })),
     },
     include: {
       user: true,
@@ -398,6 +551,7 @@ export async function findOrCreateEmployeeByName(
       status: 'ACTIVE',
     },
   })
+  await onCreate?.(user.id)
   
   // Update cache
   if (cache) {
@@ -412,7 +566,8 @@ export async function findOrCreatePlatformChannel(
   platform: string,
   channelName: string,
   prisma: PrismaClient | Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>,
-  cache?: Map<string, { id: string; name: string; platform: string }>
+  cache?: Map<string, { id: string; name: string; platform: string }>,
+  onCreate?: (id: string) => Promise<unknown> // Called when the channel is created
 ): Promise<{ id: string; name: string; platform: string } | null> {
   if (!channelName || channelName.trim().length === 0) return null
   if (!platform || platform.trim().length === 0) return null
@@ -446,6 +601,7 @@ export async function findOrCreatePlatformChannel(
         active: true,
       },
     })
+    await onCreate?.(channel.id)
   }
   
   const result = {
@@ -462,9 +618,9 @@ export async function findOrCreatePlatformChannel(
   return result
 }
 
-// Normalize name for cache key (lowercase, trimmed)
+// Normalize name for cache key (Unicode Myanmar, lowercase, trimmed)
 function normalizeName(name: string): string {
-  return name.trim().toLowerCase()
+  return normalizeMyanmarText(name.trim()).toLowerCase()
 }
 
 // Batch find or create artists with caching
@@ -486,7 +642,7 @@ export async function batchFindOrCreateArtists(
     if (cached) {
       result.set(normalized, cached)
     } else {
-      toCreate.push(name.trim())
+      toCreate.push(normalizeMyanmarText(name.trim()))
     }
   }
   
@@ -579,7 +735,7 @@ export async function batchFindEmployees(
     if (cached) {
       result.set(normalized, cached)
     } else {
-      toLookup.push(name.trim())
+      toLookup.push(normalizeMyanmarText(name.trim()))
     }
   }
   
@@ -662,6 +818,33 @@ export function parseBoolean(value: string | null | undefined): boolean {
   return lower === 'true' || lower === 'yes' || lower === '1' || lower === 'y'
 }
 
+// Value of a mapped column in a parsed row, or '' when the row doesn't have it
+export function readMappedValue(row: ParsedRow, columnName: string): string {
+  // Use the exact column name from the mapping first (strict column mapping)
+  // Fall back to normalized version only for case/whitespace variations
+  // Try exact match first, then normalized, then check if column exists in row at all
+  let value = row[columnName]
+  if (value === undefined || value === null || value === '') {
+    value = row[normalizeColumnName(columnName)]
+  }
+  if (value === undefined || value === null || value === '') {
+    // Last resort: check if any key in row matches (case-insensitive)
+    const normalizedTarget = normalizeColumnName(columnName)
+    for (const key in row) {
+      if (normalizeColumnName(key) === normalizedTarget) {
+        value = row[key]
+        if (value && value !== '') break
+      }
+    }
+  }
+  // Also try trimming the column name in case there are extra spaces
+  if ((value === undefined || value === null || value === '') && columnName.trim() !== columnName) {
+    value = row[columnName.trim()]
+  }
+  // Default to empty string if still not found
+  return value ?? ''
+}
+
 // Extract submission data from a parsed row
 // Uses strict column mapping - only processes explicitly mapped columns
 export function extractSubmissionData(
@@ -677,30 +860,7 @@ export function extractSubmissionData(
   for (const mapping of mappings) {
     if (mapping.fieldType !== 'submission') continue
     
-    // Use the exact column name from the mapping first (strict column mapping)
-    // Fall back to normalized version only for case/whitespace variations
-    const columnName = mapping.csvColumn
-    // Try exact match first, then normalized, then check if column exists in row at all
-    let value = row[columnName]
-    if (value === undefined || value === null || value === '') {
-      value = row[normalizeColumnName(columnName)]
-    }
-    if (value === undefined || value === null || value === '') {
-      // Last resort: check if any key in row matches (case-insensitive)
-      const normalizedTarget = normalizeColumnName(columnName)
-      for (const key in row) {
-        if (normalizeColumnName(key) === normalizedTarget) {
-          value = row[key]
-          if (value && value !== '') break
-        }
-      }
-    }
-    // Also try trimming the column name in case there are extra spaces
-    if ((value === undefined || value === null || value === '') && columnName.trim() !== columnName) {
-      value = row[columnName.trim()]
-    }
-    // Default to empty string if still not found
-    value = value ?? ''
+    const value = readMappedValue(row, mapping.csvColumn)
     
     // If this field doesn't have a specific case handler, store it in unmappedFields
     // We'll check this after the switch statement
@@ -1083,8 +1243,30 @@ export function extractSongs(
   return songs
 }
 
-// Auto-detect column mappings
-export function autoDetectMappings(headers: string[]): ColumnMapping[] {
+// Column name patterns of platforms added through the registry, e.g. "JOOX Request"
+function buildPlatformFieldPatterns(
+  platformFields: ImportPlatformFields[]
+): Array<{ pattern: RegExp; field: string; type: 'submission' }> {
+  return platformFields
+    .filter(fields => !LEGACY_IMPORT_PLATFORM_KEYS[fields.platform])
+    .flatMap(fields => {
+      const name = Array.from(new Set([fields.name, fields.platform]))
+        .map(value => value
+          .split(/[\s_-]+/)
+          .filter(Boolean)
+          .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+          .join('[_\\s]*'))
+        .join('|')
+      return [
+        { pattern: new RegExp(`^(?:${name})[_\\s]*request$`, 'i'), field: fields.key, type: 'submission' as const },
+        { pattern: new RegExp(`^(?:${name})[_\\s]*(?:request[_\\s]*)?channel$`, 'i'), field: fields.channelKey, type: 'submission' as const },
+        { pattern: new RegExp(`^(?:${name})[_\\s]*(?:status)?$`, 'i'), field: fields.statusKey, type: 'submission' as const },
+      ]
+    })
+}
+
+// Auto-detect column mappings. Pass the registry's platform fields to also detect newer platforms' columns.
+export function autoDetectMappings(headers: string[], platformFields: ImportPlatformFields[] = []): ColumnMapping[] {
   const mappings: ColumnMapping[] = []
   
   // Comprehensive field patterns - order matters (most specific first)
@@ -1258,6 +1440,7 @@ export function autoDetectMappings(headers: string[]): ColumnMapping[] {
     { pattern: /^performer[_\s]*name$/i, field: 'performerName', type: 'song' },
     { pattern: /^performer$/i, field: 'performerName', type: 'song' },
   ]
+  fieldPatterns.unshift(...buildPlatformFieldPatterns(platformFields))
   
   const matchedHeaders = new Set<string>()
   
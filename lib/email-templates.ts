@@ -0,0 +1,191 @@
+// Email templates for submitters and staff, translated via messages/{en,my}.json
+
+import en from '../messages/en.json'
+import my from '../messages/my.json'
+
+export type EmailLocale = 'en' | 'my'
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+const MESSAGES = { en, my }
+
+export function normalizeEmailLocale(locale: string | null | undefined): EmailLocale {
+  return locale === 'my' ? 'my' : 'en'
+}
+
+export function getAppUrl(): string {
+  return (process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/$/, '')
+}
+
+// Look up a dotted message key and fill in {placeholders}
+function t(locale: EmailLocale, key: string, values: Record<string, string | number> = {}): string {
+  const message = key.split('.').reduce<any>((node, part) => node?.[part], MESSAGES[locale])
+    ?? key.split('.').reduce<any>((node, part) => node?.[part], MESSAGES.en)
+
+  if (typeof message !== 'string') {
+    return key
+  }
+
+  return message.replace(/\{(\w+)\}/g, (match, name) =>
+    values[name] !== undefined ? String(values[name]) : match
+  )
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function platformName(locale: EmailLocale, platform: string): string {
+  const name = t(locale, `platform.${platform}`)
+  return name === `platform.${platform}` ? platform : name
+}
+
+type Block =
+  | { type: 'p'; text: string }
+  | { type: 'muted'; text: string }
+  | { type: 'link'; text: string; href: string }
+  | { type: 'list'; title: string; items: string[]; empty: string }
+
+// Render the same blocks as a simple HTML email and a plain-text alternative
+function layout(locale: EmailLocale, subject: string, blocks: Block[]): RenderedEmail {
+  const appName = t(locale, 'common.appName')
+  const footer = t(locale, 'email.footer', { appName })
+
+  const htmlBlocks = blocks.map(block => {
+    switch (block.type) {
+      case 'p':
+        return `<p style="margin:0 0 16px">${escapeHtml(block.text)}</p>`
+      case 'muted':
+        return `<p style="margin:0 0 16px;color:#6b7280;font-size:13px">${escapeHtml(block.text)}</p>`
+      case 'link':
+        return `<p style="margin:0 0 16px"><a href="${escapeHtml(block.href)}" style="display:inline-block;padding:10px 16px;background:#5b5bff;color:#ffffff;border-radius:6px;text-decoration:none">${escapeHtml(block.text)}</a></p>`
+      case 'list':
+        return `<h3 style="margin:24px 0 8px;font-size:15px">${escapeHtml(block.title)}</h3>` + (
+          block.items.length > 0
+            ? `<ul style="margin:0 0 16px;padding-left:20px">${block.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+            : `<p style="margin:0 0 16px;color:#6b7280">${escapeHtml(block.empty)}</p>`
+        )
+    }
+  })
+
+  const html = `<!DOCTYPE html>
+<html lang="${locale}">
+<head><meta charset="utf-8"><title>${escapeHtml(subject)}</title></head>
+<body style="margin:0;padding:24px;background:#f4f4f5;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,'Padauk','Myanmar Text',sans-serif;color:#111827;line-height:1.6">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px">
+<div style="font-weight:600;font-size:18px;margin-bottom:24px">${escapeHtml(appName)}</div>
+${htmlBlocks.join('\n')}
+<hr style="border:none;border-top:1px solid #e5e7eb;margin:24px 0">
+<p style="margin:0;color:#9ca3af;font-size:12px">${escapeHtml(footer)}</p>
+</div>
+</body>
+</html>`
+
+  const textBlocks = blocks.map(block => {
+    switch (block.type) {
+      case 'p':
+      case 'muted':
+        return block.text
+      case 'link':
+        return `${block.text}: ${block.href}`
+      case 'list':
+        return [
+          `${block.title}:`,
+          ...(block.items.length > 0 ? block.items.map(item => `- ${item}`) : [block.empty]),
+        ].join('\n')
+    }
+  })
+
+  return {
+    subject,
+    html,
+    text: [...textBlocks, '--', footer].join('\n\n'),
+  }
+}
+
+export function renderSubmissionReceipt(
+  locale: EmailLocale,
+  data: { releaseId: string; title: string; artistName: string; recipientName?: string | null }
+): RenderedEmail {
+  const subject = t(locale, 'email.submissionReceipt.subject', { title: data.title })
+
+  return layout(locale, subject, [
+    { type: 'p', text: t(locale, 'email.submissionReceipt.greeting', { name: data.recipientName || data.artistName }) },
+    { type: 'p', text: t(locale, 'email.submissionReceipt.body', { title: data.title, artist: data.artistName }) },
+    { type: 'p', text: t(locale, 'email.submissionReceipt.statusIntro') },
+    { type: 'link', text: t(locale, 'email.submissionReceipt.statusLink'), href: `${getAppUrl()}/status/${data.releaseId}` },
+    { type: 'muted', text: t(locale, 'email.submissionReceipt.reference', { id: data.releaseId }) },
+  ])
+}
+
+export function renderPlatformUpdate(
+  locale: EmailLocale,
+  data: {
+    releaseId: string
+    title: string
+    platform: string
+    status: 'UPLOADED' | 'REJECTED'
+    uploadLink?: string | null
+    reason?: string | null
+  }
+): RenderedEmail {
+  const platform = platformName(locale, data.platform)
+  const statusLink: Block = {
+    type: 'link',
+    text: t(locale, 'email.platformUpdate.statusLink'),
+    href: `${getAppUrl()}/status/${data.releaseId}`,
+  }
+
+  if (data.status === 'UPLOADED') {
+    const blocks: Block[] = [
+      { type: 'p', text: t(locale, 'email.platformUpdate.uploadedBody', { title: data.title, platform }) },
+    ]
+    if (data.uploadLink) {
+      blocks.push({ type: 'link', text: t(locale, 'email.platformUpdate.uploadLink', { platform }), href: data.uploadLink })
+    }
+    blocks.push(statusLink)
+    return layout(locale, t(locale, 'email.platformUpdate.uploadedSubject', { title: data.title, platform }), blocks)
+  }
+
+  const blocks: Block[] = [
+    { type: 'p', text: t(locale, 'email.platformUpdate.rejectedBody', { title: data.title, platform }) },
+  ]
+  if (data.reason) {
+    blocks.push({ type: 'p', text: t(locale, 'email.platformUpdate.reason', { reason: data.reason }) })
+  }
+  blocks.push(statusLink)
+  return layout(locale, t(locale, 'email.platformUpdate.rejectedSubject', { title: data.title, platform }), blocks)
+}
+
+export interface A_RDigestData {
+  recipientName: string
+  weekOf: string
+  activeCount: number
+  newAssignments: string[]
+  pending: string[]
+  uploaded: string[]
+  rejected: string[]
+}
+
+export function renderA_RDigest(locale: EmailLocale, data: A_RDigestData): RenderedEmail {
+  const none = t(locale, 'email.arDigest.none')
+
+  return layout(locale, t(locale, 'email.arDigest.subject', { count: data.activeCount }), [
+    { type: 'p', text: t(locale, 'email.arDigest.greeting', { name: data.recipientName }) },
+    { type: 'p', text: t(locale, 'email.arDigest.intro', { weekOf: data.weekOf }) },
+    { type: 'list', title: t(locale, 'email.arDigest.newAssignments'), items: data.newAssignments, empty: none },
+    { type: 'list', title: t(locale, 'email.arDigest.pending'), items: data.pending, empty: none },
+    { type: 'list', title: t(locale, 'email.arDigest.uploaded'), items: data.uploaded, empty: none },
+    { type: 'list', title: t(locale, 'email.arDigest.rejected'), items: data.rejected, empty: none },
+    { type: 'link', text: t(locale, 'email.arDigest.openReleases'), href: `${getAppUrl()}/ar/releases` },
+  ])
+}
@@ -0,0 +1,468 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import nodemailer from 'nodemailer'
+import { EmailStatus, PlatformRequestStatus } from '@prisma/client'
+import {
+  EmailLocale,
+  RenderedEmail,
+  normalizeEmailLocale,
+  renderA_RDigest,
+  renderPlatformUpdate,
+  renderSubmissionReceipt,
+} from './email-templates'
+
+/**
+ * Outbound email is queued in the EmailMessage table and delivered by
+ * processEmailQueue, so sends survive restarts and failed sends are retried.
+ *
+ * EMAIL_TRANSPORT selects how messages leave the app:
+ * - smtp:    deliver through SMTP_HOST (default when SMTP_HOST is set)
+ * - file:    write .eml files to EMAIL_FILE_DIR for inspection in dev and tests
+ * - console: log the message (default otherwise)
+ */
+
+export interface OutgoingEmail {
+  to: string
+  subject: string
+  html: string
+  text: string
+}
+
+export interface EmailTransport {
+  name: string
+  send(email: OutgoingEmail): Promise<void>
+}
+
+const DEFAULT_FROM = 'Master Song Data <no-reply@localhost>'
+
+// A claimed message that hasn't finished within this window is assumed abandoned
+const STALE_LOCK_MS = 10 * 60 * 1000
+
+// Retry delays after each failed attempt: 1m, 5m, 30m, 2h
+const RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000, 2 * 60 * 60 * 1000]
+
+function getFromAddress(): string {
+  return process.env.EMAIL_FROM || DEFAULT_FROM
+}
+
+function createSmtpTransport(): EmailTransport {
+  const port = parseInt(process.env.SMTP_PORT || '587', 10)
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD || '' }
+      : undefined,
+  })
+
+  return {
+    name: 'smtp',
+    async send(email) {
+      await transporter.sendMail({ from: getFromAddress(), ...email })
+    },
+  }
+}
+
+function createFileTransport(): EmailTransport {
+  const dir = path.resolve(process.env.EMAIL_FILE_DIR || '.emails')
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' })
+
+  return {
+    name: 'file',
+    async send(email) {
+      const info = await transporter.sendMail({ from: getFromAddress(), ...email })
+      const safeTo = email.to.replace(/[^a-zA-Z0-9@._-]/g, '_')
+      await fs.mkdir(dir, { recursive: true })
+      await fs.writeFile(path.join(dir, `${Date.now()}-${safeTo}.eml`), info.message as Buffer)
+    },
+  }
+}
+
+function createConsoleTransport(): EmailTransport {
+  return {
+    name: 'console',
+    async send(email) {
+      console.log(`[email] To: ${email.to}\n[email] Subject: ${email.subject}\n${email.text}`)
+    },
+  }
+}
+
+let transportOverride: EmailTransport | null = null
+let cachedTransport: EmailTransport | null = null
+
+// Swap the transport at runtime, e.g. to capture sends in a script. Pass null to reset.
+export function setEmailTransport(transport: EmailTransport | null) {
+  transportOverride = transport
+}
+
+export function getEmailTransport(): EmailTransport {
+  if (transportOverride) {
+    return transportOverride
+  }
+  if (cachedTransport) {
+    return cachedTransport
+  }
+
+  const name = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console')
+  switch (name) {
+    case 'smtp':
+      cachedTransport = createSmtpTransport()
+      break
+    case 'file':
+      cachedTransport = createFileTransport()
+      break
+    case 'console':
+      cachedTransport = createConsoleTransport()
+      break
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${name}". Use smtp, file or console.`)
+  }
+  return cachedTransport
+}
+
+export interface EnqueueEmailInput {
+  to: string
+  template: string
+  locale: EmailLocale
+  content: RenderedEmail
+  releaseId?: string | null
+  // Messages sharing a dedupe key are only queued once
+  dedupeKey?: string | null
+}
+
+/**
+ * Add a rendered email to the queue. Never throws - a failed enqueue must not
+ * fail the request that triggered it. Returns false when nothing was queued.
+ */
+export async function enqueueEmail(prisma: any, input: EnqueueEmailInput): Promise<boolean> {
+  try {
+    await prisma.emailMessage.create({
+      data: {
+        to: input.to,
+        subject: input.content.subject,
+        html: input.content.html,
+        text: input.content.text,
+        template: input.template,
+        locale: input.locale,
+        releaseId: input.releaseId || null,
+        dedupeKey: input.dedupeKey || null,
+      },
+    })
+    return true
+  } catch (error: any) {
+    if (error?.code === 'P2002') {
+      return false
+    }
+    console.warn('Failed to enqueue email:', error?.message || error)
+    return false
+  }
+}
+
+export interface EmailQueueResult {
+  processed: number
+  sent: number
+  failed: number
+  retrying: number
+}
+
+/**
+ * Deliver due messages. Each message is claimed with a conditional update so
+ * overlapping runs never send the same message twice.
+ */
+export async function processEmailQueue(
+  prisma: any,
+  options: { limit?: number; now?: Date } = {}
+): Promise<EmailQueueResult> {
+  const now = options.now || new Date()
+  const staleBefore = new Date(now.getTime() - STALE_LOCK_MS)
+  const result: EmailQueueResult = { processed: 0, sent: 0, failed: 0, retrying: 0 }
+
+  const dueFilter = {
+    OR: [
+      { status: EmailStatus.PENDING, nextAttemptAt: { lte: now } },
+      { status: EmailStatus.SENDING, lockedAt: { lt: staleBefore } },
+    ],
+  }
+
+  const candidates: Array<{ id: string }> = await prisma.emailMessage.findMany({
+    where: dueFilter,
+    orderBy: { nextAttemptAt: 'asc' },
+    take: options.limit || 25,
+    select: { id: true },
+  })
+
+  const transport = getEmailTransport()
+
+  for (const candidate of candidates) {
+    const claimed = await prisma.emailMessage.updateMany({
+      where: { id: candidate.id, ...dueFilter },
+      data: {
+        status: EmailStatus.SENDING,
+        lockedAt: now,
+        attempts: { increment: 1 },
+      },
+    })
+    if (claimed.count === 0) {
+      continue
+    }
+
+    const message = await prisma.emailMessage.findUnique({ where: { id: candidate.id } })
+    result.processed++
+
+    try {
+      await transport.send({
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+      })
+
+      await prisma.emailMessage.update({
+        where: { id: message.id },
+        data: {
+          status: EmailStatus.SENT,
+          sentAt: new Date(),
+          lockedAt: null,
+          lastError: null,
+        },
+      })
+      result.sent++
+    } catch (error: any) {
+      const exhausted = message.attempts >= message.maxAttempts
+      const delay = RETRY_DELAYS_MS[Math.min(message.attempts - 1, RETRY_DELAYS_MS.length - 1)]
+
+      await prisma.emailMessage.update({
+        where: { id: message.id },
+        data: {
+          status: exhausted ? EmailStatus.FAILED : EmailStatus.PENDING,
+          lockedAt: null,
+          lastError: String(error?.message || error).slice(0, 1000),
+          nextAttemptAt: exhausted ? message.nextAttemptAt : new Date(Date.now() + delay),
+        },
+      })
+
+      if (exhausted) {
+        console.error(`Email ${message.id} to ${message.to} failed permanently:`, error?.message || error)
+        result.failed++
+      } else {
+        result.retrying++
+      }
+    }
+  }
+
+  return result
+}
+
+// Kick off delivery after enqueueing without holding up the response
+export function flushEmailQueue(prisma: any) {
+  processEmailQueue(prisma).catch(error => {
+    console.warn('Email queue processing failed:', error?.message || error)
+  })
+}
+
+export async function enqueueSubmissionReceipt(
+  prisma: any,
+  release: {
+    id: string
+    title: string
+    contactEmail: string | null
+    contactLocale: string | null
+    artistName: string
+    recipientName?: string | null
+  }
+): Promise<boolean> {
+  if (!release.contactEmail) {
+    return false
+  }
+
+  const locale = normalizeEmailLocale(release.contactLocale)
+  return enqueueEmail(prisma, {
+    to: release.contactEmail,
+    template: 'submission_receipt',
+    locale,
+    releaseId: release.id,
+    dedupeKey: `submission-receipt:${release.id}`,
+    content: renderSubmissionReceipt(locale, {
+      releaseId: release.id,
+      title: release.title,
+      artistName: release.artistName,
+      recipientName: release.recipientName,
+    }),
+  })
+}
+
+/**
+ * Email the submitter when a platform request on their release is uploaded or
+ * rejected. Other statuses are ignored.
+ */
+export async function enqueuePlatformUpdate(
+  prisma: any,
+  data: {
+    platformRequestId: string
+    releaseId: string | null
+    platform: string
+    status: string
+    uploadLink?: string | null
+    reason?: string | null
+  }
+): Promise<boolean> {
+  if (
+    !data.releaseId ||
+    (data.status !== PlatformRequestStatus.UPLOADED && data.status !== PlatformRequestStatus.REJECTED)
+  ) {
+    return false
+  }
+
+  try {
+    const release = await prisma.release.findUnique({
+      where: { id: data.releaseId },
+      select: { id: true, title: true, contactEmail: true, contactLocale: true },
+    })
+    if (!release?.contactEmail) {
+      return false
+    }
+
+    const locale = normalizeEmailLocale(release.contactLocale)
+    return enqueueEmail(prisma, {
+      to: release.contactEmail,
+      template: 'platform_update',
+      locale,
+      releaseId: release.id,
+      dedupeKey: `platform-update:${data.platformRequestId}:${data.status}`,
+      content: renderPlatformUpdate(locale, {
+        releaseId: release.id,
+        title: release.title,
+        platform: data.platform,
+        status: data.status,
+        uploadLink: data.uploadLink,
+        reason: data.reason,
+      }),
+    })
+  } catch (error: any) {
+    console.warn('Failed to enqueue platform update email:', error?.message || error)
+    return false
+  }
+}
+
+// Monday 00:00 UTC of the week containing the given date
+export function getWeekStart(date: Date): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  const day = start.getUTCDay()
+  start.setUTCDate(start.getUTCDate() - ((day + 6) % 7))
+  return start
+}
+
+/**
+ * Queue a digest for every active A&R employee covering the previous week:
+ * new assignments, releases still waiting on platforms, and platform
+ * uploads/rejections. Safe to run repeatedly - each employee gets one digest
+ * per week.
+ */
+export async function enqueueWeeklyA_RDigests(
+  prisma: any,
+  now: Date = new Date()
+): Promise<{ queued: number; skipped: number }> {
+  const periodEnd = getWeekStart(now)
+  const periodStart = new Date(periodEnd.getTime() - 7 * 24 * 60 * 60 * 1000)
+  const weekOf = periodStart.toISOString().slice(0, 10)
+
+  const employees: Array<{
+    id: string
+    user: { email: string; name: string | null; preferences: any }
+  }> = await prisma.employee.findMany({
+    where: {
+      status: 'ACTIVE',
+      user: { role: 'A_R' },
+    },
+    select: {
+      id: true,
+      user: { select: { email: true, name: true, preferences: true } },
+    },
+  })
+
+  let queued = 0
+  let skipped = 0
+
+  for (const employee of employees) {
+    const assignedToEmployee = {
+      OR: [
+        { assignedA_RId: employee.id },
+        { assignedA_Rs: { some: { employeeId: employee.id } } },
+      ],
+    }
+
+    const [newAssignments, pendingReleases, decisions] = await Promise.all([
+      prisma.releaseA_R.findMany({
+        where: {
+          employeeId: employee.id,
+          assignedAt: { gte: periodStart, lt: periodEnd },
+        },
+        select: { release: { select: { title: true } } },
+        orderBy: { assignedAt: 'asc' },
+      }),
+      prisma.release.findMany({
+        where: {
+          ...assignedToEmployee,
+          platformRequests: { some: { status: PlatformRequestStatus.PENDING } },
+        },
+        select: { title: true },
+        orderBy: { createdAt: 'asc' },
+        take: 50,
+      }),
+      prisma.platformDecision.findMany({
+        where: {
+          createdAt: { gte: periodStart, lt: periodEnd },
+          status: { in: [PlatformRequestStatus.UPLOADED, PlatformRequestStatus.REJECTED] },
+          platformRequest: { release: assignedToEmployee },
+        },
+        select: {
+          status: true,
+          platformRequest: {
+            select: {
+              platform: true,
+              release: { select: { title: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ])
+
+    const describeDecision = (d: any) => `${d.platformRequest.release?.title || 'Untitled'} (${d.platformRequest.platform})`
+    const uploaded = decisions.filter((d: any) => d.status === PlatformRequestStatus.UPLOADED).map(describeDecision)
+    const rejected = decisions.filter((d: any) => d.status === PlatformRequestStatus.REJECTED).map(describeDecision)
+    const assigned = newAssignments.map((a: any) => a.release.title)
+    const pending = pendingReleases.map((r: any) => r.title)
+
+    if (assigned.length + pending.length + uploaded.length + rejected.length === 0) {
+      skipped++
+      continue
+    }
+
+    const locale = normalizeEmailLocale(employee.user.preferences?.locale)
+    const wasQueued = await enqueueEmail(prisma, {
+      to: employee.user.email,
+      template: 'ar_digest',
+      locale,
+      dedupeKey: `ar-digest:${employee.id}:${weekOf}`,
+      content: renderA_RDigest(locale, {
+        recipientName: employee.user.name || employee.user.email,
+        weekOf,
+        activeCount: pending.length,
+        newAssignments: assigned,
+        pending,
+        uploaded,
+        rejected,
+      }),
+    })
+
+    if (wasQueued) {
+      queued++
+    } else {
+      skipped++
+    }
+  }
+
+  return { queued, skipped }
+}
@@ -0,0 +1,294 @@
+// Change log of what each import wrote, and rolling an import back from it
+
+import { Prisma } from '@prisma/client'
+
+export type ImportChangeEntity = 'release' | 'artist' | 'user' | 'platform_channel'
+
+// Prisma delegate for each logged entity type
+const ENTITY_MODELS: Record<ImportChangeEntity, string> = {
+  release: 'release',
+  artist: 'artist',
+  user: 'user',
+  platform_channel: 'platformChannel',
+}
+
+export const IMPORT_ROLLED_BACK_STATUS = 'rolled_back'
+
+/**
+ * Log a record the import created, or the fields it overwrote. Called inside
+ * the row's transaction so the log entry is dropped along with a failed row.
+ */
+export async function recordImportChange(
+  tx: any,
+  sessionId: string | null | undefined,
+  change: {
+    entityType: ImportChangeEntity
+    entityId: string
+    action: 'create' | 'update'
+    before?: Record<string, unknown>
+    after?: Record<string, unknown>
+  }
+) {
+  if (!sessionId) return
+
+  await tx.importChange.create({
+    data: {
+      sessionId,
+      entityType: change.entityType,
+      entityId: change.entityId,
+      action: change.action,
+      before: (change.before as Prisma.InputJsonValue) ?? Prisma.DbNull,
+      after: (change.after as Prisma.InputJsonValue) ?? Prisma.DbNull,
+    },
+  })
+}
+
+export interface ImportRollbackPlan {
+  sessionId: string
+  fileName: string
+  status: string
+  rolledBackAt: Date | null
+  // False for sessions imported before changes were logged
+  tracked: boolean
+  // Releases edited since the import are kept, so those edits aren't lost
+  releases: Array<{ id: string; title: string; editedSinceImport: boolean }>
+  tracks: number
+  platformRequests: number
+  artists: { delete: Array<{ id: string; name: string }>; keep: Array<{ id: string; name: string }> }
+  users: { delete: Array<{ id: string; name: string | null }>; keep: Array<{ id: string; name: string | null }> }
+  channels: { delete: Array<{ id: string; name: string }>; keep: Array<{ id: string; name: string }> }
+  restores: Array<{
+    entityType: ImportChangeEntity
+    entityId: string
+    label: string
+    before: Record<string, unknown>
+    // Someone changed the record again after the import; it is left alone
+    conflict: boolean
+  }>
+}
+
+function sameValues(current: Record<string, unknown>, expected: Record<string, unknown>): boolean {
+  return Object.keys(expected).every(key => {
+    const a = current[key] instanceof Date ? (current[key] as Date).toISOString() : current[key] ?? null
+    return a === (expected[key] ?? null)
+  })
+}
+
+/**
+ * Work out what rolling back a session would do. Records the import created
+ * are deleted unless they were edited since or something outside the import
+ * now uses them; fields it overwrote are restored unless they have changed
+ * again since.
+ */
+export async function planImportRollback(prisma: any, sessionId: string): Promise<ImportRollbackPlan | null> {
+  const session = await prisma.importSession.findUnique({
+    where: { id: sessionId },
+    include: { changes: { orderBy: { createdAt: 'asc' } } },
+  })
+  if (!session) return null
+
+  const created = (entityType: ImportChangeEntity) => session.changes
+    .filter((c: any) => c.entityType === entityType && c.action === 'create')
+    .map((c: any) => c.entityId as string)
+
+  const changeTime = new Map<string, Date>(session.changes.map((c: any) => [c.entityId, c.createdAt]))
+
+  // Releases
+  const releaseRows = await prisma.release.findMany({
+    where: { id: { in: created('release') } },
+    select: { id: true, title: true },
+    orderBy: { title: 'asc' },
+  })
+  const releaseIds: string[] = releaseRows.map((r: any) => r.id)
+
+  const edits = await prisma.auditLog.findMany({
+    where: { releaseId: { in: releaseIds } },
+    select: { releaseId: true, createdAt: true },
+  })
+  const editedIds = new Set(edits
+    .filter((e: any) => e.createdAt > (changeTime.get(e.releaseId) || session.startedAt))
+    .map((e: any) => e.releaseId))
+  const deletedReleaseIds = releaseIds.filter(id => !editedIds.has(id))
+
+  const [tracks, platformRequests] = await Promise.all([
+    prisma.track.count({ where: { releaseId: { in: deletedReleaseIds } } }),
+    prisma.platformRequest.count({ where: { releaseId: { in: deletedReleaseIds } } }),
+  ])
+
+  // Anything still used by a release that stays (including edited imported ones) is kept
+  const outsideImport = { notIn: deletedReleaseIds }
+
+  // Artists: keep any still used by a release that is not being removed
+  const artistRows = await prisma.artist.findMany({
+    where: { id: { in: created('artist') } },
+    select: {
+      id: true,
+      name: true,
+      userId: true,
+      _count: {
+        select: {
+          releases: { where: { id: outsideImport } },
+          releaseArtists: { where: { releaseId: outsideImport } },
+          trackArtists: { where: { track: { releaseId: outsideImport } } },
+        },
+      },
+    },
+  })
+  const artists = { delete: [] as Array<{ id: string; name: string }>, keep: [] as Array<{ id: string; name: string }> }
+  artistRows.forEach((a: any) => {
+    const inUse = a.userId || a._count.releases > 0 || a._count.releaseArtists > 0 || a._count.trackArtists > 0
+    artists[inUse ? 'keep' : 'delete'].push({ id: a.id, name: a.name })
+  })
+
+  // A&R users: keep accounts someone has set up or that are assigned elsewhere
+  const userRows = await prisma.user.findMany({
+    where: { id: { in: created('user') } },
+    select: {
+      id: true,
+      name: true,
+      passwordHash: true,
+      googleId: true,
+      employee: {
+        select: {
+          _count: {
+            select: {
+              assignedReleaseA_Rs: { where: { releaseId: outsideImport } },
+              assignedReleases: { where: { id: outsideImport } },
+            },
+          },
+        },
+      },
+    },
+  })
+  const users = { delete: [] as Array<{ id: string; name: string | null }>, keep: [] as Array<{ id: string; name: string | null }> }
+  userRows.forEach((u: any) => {
+    const counts = u.employee?._count
+    const inUse = u.passwordHash || u.googleId || (counts && (counts.assignedReleaseA_Rs > 0 || counts.assignedReleases > 0))
+    users[inUse ? 'keep' : 'delete'].push({ id: u.id, name: u.name })
+  })
+
+  // Channels: keep any with requests on other releases
+  const channelRows = await prisma.platformChannel.findMany({
+    where: { id: { in: created('platform_channel') } },
+    select: {
+      id: true,
+      name: true,
+      platform: true,
+      _count: { select: { platformRequests: { where: { releaseId: outsideImport } } } },
+    },
+  })
+  const channels = { delete: [] as Array<{ id: string; name: string }>, keep: [] as Array<{ id: string; name: string }> }
+  channelRows.forEach((c: any) => {
+    channels[c._count.platformRequests > 0 ? 'keep' : 'delete'].push({ id: c.id, name: `${c.platform}: ${c.name}` })
+  })
+
+  // Overwritten fields, per record: each field goes back to its value before the
+  // import's first change to it, unless the record no longer holds the last value written
+  const updatesByEntity = new Map<string, any[]>()
+  session.changes
+    .filter((c: any) => c.action === 'update' && c.before)
+    .forEach((c: any) => {
+      const key = `${c.entityType}:${c.entityId}`
+      updatesByEntity.set(key, [...(updatesByEntity.get(key) || []), c])
+    })
+
+  const restores: ImportRollbackPlan['restores'] = []
+  for (const changes of Array.from(updatesByEntity.values())) {
+    const { entityType, entityId } = changes[0]
+    const model = ENTITY_MODELS[entityType as ImportChangeEntity]
+    if (!model) continue
+
+    // Changes are oldest first: the first before and the last after of each field count
+    const before: Record<string, unknown> = {}
+    const after: Record<string, unknown> = {}
+    let hasAfter = false
+    changes.forEach((change: any) => {
+      Object.entries(change.before as Record<string, unknown>).forEach(([key, value]) => {
+        if (!(key in before)) before[key] = value
+      })
+      if (change.after) {
+        hasAfter = true
+        Object.assign(after, change.after)
+      }
+    })
+
+    const select = Object.fromEntries(Object.keys(before).map(key => [key, true]))
+    const current = await prisma[model].findUnique({
+      where: { id: entityId },
+      select: { ...select, ...(entityType === 'release' ? { title: true } : { name: true }) },
+    })
+    if (!current) continue
+    restores.push({
+      entityType,
+      entityId,
+      label: current.title || current.name || entityId,
+      before,
+      conflict: hasAfter && !sameValues(current, after),
+    })
+  }
+
+  return {
+    sessionId: session.id,
+    fileName: session.fileName,
+    status: session.status,
+    rolledBackAt: session.rolledBackAt,
+    tracked: session.changes.length > 0,
+    releases: releaseRows.map((r: any) => ({ ...r, editedSinceImport: editedIds.has(r.id) })),
+    tracks,
+    platformRequests,
+    artists,
+    users,
+    channels,
+    restores,
+  }
+}
+
+/**
+ * Roll back a session in one transaction: restore overwritten fields, delete
+ * created releases nobody has edited since (tracks, requests and assignments
+ * go with them), then the artists, channels and A&R users nothing else uses.
+ */
+export async function rollbackImport(prisma: any, plan: ImportRollbackPlan, userId: string) {
+  return prisma.$transaction(async (tx: any) => {
+    for (const restore of plan.restores) {
+      if (restore.conflict) continue
+      await tx[ENTITY_MODELS[restore.entityType]].update({
+        where: { id: restore.entityId },
+        data: restore.before,
+      })
+    }
+
+    const releases = await tx.release.deleteMany({
+      where: { id: { in: plan.releases.filter(r => !r.editedSinceImport).map(r => r.id) } },
+    })
+    const artists = await tx.artist.deleteMany({
+      where: { id: { in: plan.artists.delete.map(a => a.id) } },
+    })
+    const channels = await tx.platformChannel.deleteMany({
+      where: { id: { in: plan.channels.delete.map(c => c.id) } },
+    })
+    const users = await tx.user.deleteMany({
+      where: { id: { in: plan.users.delete.map(u => u.id) } },
+    })
+
+    await tx.importSession.update({
+      where: { id: plan.sessionId },
+      data: {
+        status: IMPORT_ROLLED_BACK_STATUS,
+        rolledBackAt: new Date(),
+        rolledBackById: userId,
+      },
+    })
+
+    return {
+      releases: releases.count,
+      artists: artists.count,
+      channels: channels.count,
+      users: users.count,
+      restored: plan.restores.filter(r => !r.conflict).length,
+    }
+  }, {
+    timeout: 120000, // Large imports delete thousands of rows
+    maxWait: 10000,
+  })
+}
@@ -0,0 +1,340 @@
+// Read-only preview of what an import would do, row by row, without writing
+
+import { PlatformRequestStatus, ReleaseType } from '@prisma/client'
+import {
+  extractSubmissionData,
+  extractSongs,
+  parseArtists,
+  parseCommaSeparatedList,
+  getImportPlatformFields,
+  parsePlatformRequestFields,
+} from './csv-importer'
+import { loadImportValidationSettings, validateImportRow } from './import-validation'
+import { getPlatforms } from './platforms'
+import type { MappingConfig, ParsedRow } from './csv-importer'
+import type { RowValidationReport } from './import-validation'
+
+export type DryRunAction = 'create' | 'skip' | 'error'
+
+export interface DryRunFieldChange {
+  field: string
+  current: string | null
+  incoming: string | null
+}
+
+export interface DryRunPlatformChange {
+  platform: string
+  channel: string | null
+  from: PlatformRequestStatus | null
+  to: PlatformRequestStatus
+}
+
+export interface DryRunRow {
+  row: number
+  action: DryRunAction
+  title: string | null
+  artist: string | null
+  releaseType: ReleaseType | null
+  error?: string
+  validation: RowValidationReport
+  // Release the row matches; matching rows are skipped by the importer
+  existingRelease?: { id: string; title: string }
+  duplicateOfRow?: number
+  // For skipped rows these are differences between the file and the database that will NOT be applied
+  fieldChanges: DryRunFieldChange[]
+  tracks: { added: string[]; removed: string[]; unchanged: number }
+  platformChanges: DryRunPlatformChange[]
+  newArtists: string[]
+  unknownARs: string[]
+  newChannels: string[]
+}
+
+export interface DryRunSummary {
+  totalRows: number
+  create: number
+  skipExisting: number
+  skipDuplicateInFile: number
+  errors: number
+  validationErrors: number // Rows a validation rule would reject
+  validationWarnings: number // Rows with warnings only
+  rowsWithDifferences: number
+  tracksAdded: number
+  platformRequests: number
+  newArtists: string[]
+  unknownARs: string[]
+  newChannels: string[]
+}
+
+export interface DryRunResult {
+  summary: DryRunSummary
+  rows: DryRunRow[]
+}
+
+// What a skipped row is compared against
+const existingReleaseInclude = {
+  artist: { select: { name: true } },
+  tracks: { select: { name: true }, orderBy: { trackNumber: 'asc' } },
+  platformRequests: { where: { parentRequestId: null }, select: { platform: true, channelName: true, status: true } },
+}
+
+function formatValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null
+  if (value instanceof Date) return value.toISOString().slice(0, 10)
+  return String(value)
+}
+
+/**
+ * Walk the rows the way processRow does and report each row's outcome:
+ * validation problems, releases that would be created or skipped as existing,
+ * tracks, new artists, A&R names that would become new users, new channels and
+ * platform request statuses. Only reads from the database.
+ */
+export async function dryRunImport(
+  prisma: any,
+  rows: ParsedRow[],
+  mappingConfig: MappingConfig
+): Promise<DryRunResult> {
+  const mappings = mappingConfig.columns
+  const validationSettings = await loadImportValidationSettings(prisma)
+  const importPlatformFields = getImportPlatformFields(await getPlatforms(prisma))
+
+  // Names looked up in the database (lowercased), and ones earlier rows would create
+  const artistCache = new Map<string, { id: string; name: string } | null>()
+  const employeeCache = new Map<string, boolean>()
+  const channelCache = new Map<string, boolean>()
+  const pendingArtists = new Set<string>()
+  const pendingARs = new Set<string>()
+  const pendingChannels = new Set<string>()
+  const pendingReleases = new Map<string, number>()
+
+  const findArtist = async (name: string) => {
+    const key = name.toLowerCase()
+    if (!artistCache.has(key)) {
+      const artist = await prisma.artist.findFirst({
+        where: { name: { equals: name, mode: 'insensitive' } },
+        select: { id: true, name: true },
+      })
+      artistCache.set(key, artist)
+    }
+    return artistCache.get(key)
+  }
+
+  // Add the names that match no artist in the database to `into`
+  const collectNewArtists = async (names: string[], into: string[]) => {
+    for (const name of names) {
+      const key = name.toLowerCase()
+      if (await findArtist(name)) continue
+      if (!into.some(n => n.toLowerCase() === key)) into.push(name)
+    }
+  }
+
+  const employeeExists = async (name: string) => {
+    const key = name.toLowerCase()
+    if (!employeeCache.has(key)) {
+      const employee = await prisma.employee.findFirst({
+        where: { user: { name: { equals: name, mode: 'insensitive' } } },
+        select: { id: true },
+      })
+      employeeCache.set(key, !!employee)
+    }
+    return employeeCache.get(key)
+  }
+
+  const channelExists = async (platform: string, name: string) => {
+    const key = `${platform}:${name.toLowerCase()}`
+    if (!channelCache.has(key)) {
+      const channel = await prisma.platformChannel.findFirst({
+        where: { platform, name: { equals: name, mode: 'insensitive' } },
+        select: { id: true },
+      })
+      channelCache.set(key, !!channel)
+    }
+    return channelCache.get(key)
+  }
+
+  const results: DryRunRow[] = []
+
+  for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+    const rowNumber = rowIndex + 1
+    const result: DryRunRow = {
+      row: rowNumber,
+      action: 'create',
+      title: null,
+      artist: null,
+      releaseType: null,
+      validation: { errors: 0, warnings: 0, issues: [] },
+      fieldChanges: [],
+      tracks: { added: [], removed: [], unchanged: 0 },
+      platformChanges: [],
+      newArtists: [],
+      unknownARs: [],
+      newChannels: [],
+    }
+    results.push(result)
+
+    try {
+      const submission = extractSubmissionData(rows[rowIndex], mappings)
+      const title = submission.releaseTitle?.trim()
+      result.title = title || null
+
+      // The importer skips rows that break a rule set to ERROR (a missing title always does)
+      result.validation = validateImportRow(rows[rowIndex], mappings, validationSettings, importPlatformFields)
+      if (!title || result.validation.errors > 0) {
+        result.action = 'error'
+        result.error = 'Validation failed'
+        continue
+      }
+
+      const songs = extractSongs(rows[rowIndex], mappings).filter(song => song.name && song.name.trim())
+      const artistNames = submission.artistName && parseArtists(submission.artistName).length > 0
+        ? parseArtists(submission.artistName)
+        : ['Unknown Artist']
+      result.artist = artistNames[0]
+      result.releaseType = submission.releaseType || (songs.length >= 2 ? ReleaseType.ALBUM : ReleaseType.SINGLE)
+
+      // Same exact-match rules as processRow: submission ID, otherwise title + primary artist
+      const primaryArtist = await findArtist(artistNames[0])
+      const releaseKey = submission.submissionId
+        ? `submission:${submission.submissionId}`
+        : `title:${title}|${artistNames[0].toLowerCase()}`
+
+      let existing: any = null
+      if (submission.submissionId) {
+        existing = await prisma.release.findFirst({
+          where: { submissionId: submission.submissionId },
+          include: existingReleaseInclude,
+        })
+      } else if (primaryArtist) {
+        existing = await prisma.release.findFirst({
+          where: { title, artistId: primaryArtist.id },
+          include: existingReleaseInclude,
+        })
+      }
+
+      if (!existing && pendingReleases.has(releaseKey)) {
+        result.action = 'skip'
+        result.duplicateOfRow = pendingReleases.get(releaseKey)
+        continue
+      }
+
+      const fileTrackNames = songs.map(song => song.name!.trim())
+
+      if (existing) {
+        result.action = 'skip'
+        result.existingRelease = { id: existing.id, title: existing.title }
+
+        const compare = (field: string, current: unknown, incoming: unknown) => {
+          const incomingValue = formatValue(incoming)
+          const currentValue = formatValue(current)
+          if (incomingValue !== null && incomingValue.toLowerCase() !== (currentValue || '').toLowerCase()) {
+            result.fieldChanges.push({ field, current: currentValue, incoming: incomingValue })
+          }
+        }
+        compare('title', existing.title, title)
+        compare('type', existing.type, result.releaseType)
+        compare('artist', existing.artist?.name, submission.artistName ? artistNames[0] : null)
+        compare('copyrightStatus', existing.copyrightStatus, submission.copyrightStatus)
+        compare('videoType', existing.videoType, submission.videoType)
+        compare('artistsChosenDate', existing.artistsChosenDate, submission.artistsChosenDate || submission.releasedDate)
+        compare('legacyReleaseDate', existing.legacyReleaseDate, submission.legacyReleaseDate)
+        compare('paymentRemarks', existing.paymentRemarks, submission.paymentRemarks)
+        compare('notes', existing.notes, submission.notes)
+
+        if (fileTrackNames.length > 0) {
+          const currentTracks = existing.tracks.map((t: { name: string }) => t.name)
+          const currentKeys = new Set(currentTracks.map((name: string) => name.toLowerCase()))
+          const fileKeys = new Set(fileTrackNames.map(name => name.toLowerCase()))
+          result.tracks.added = fileTrackNames.filter(name => !currentKeys.has(name.toLowerCase()))
+          result.tracks.removed = currentTracks.filter((name: string) => !fileKeys.has(name.toLowerCase()))
+          result.tracks.unchanged = fileTrackNames.length - result.tracks.added.length
+        }
+      } else {
+        pendingReleases.set(releaseKey, rowNumber)
+        result.tracks.added = fileTrackNames
+
+        const newArtists: string[] = []
+        await collectNewArtists(artistNames, newArtists)
+        for (const song of songs) {
+          if (song.artistName) {
+            await collectNewArtists(parseArtists(song.artistName), newArtists)
+          }
+        }
+        result.newArtists = newArtists.filter(name => !pendingArtists.has(name.toLowerCase()))
+        newArtists.forEach(name => pendingArtists.add(name.toLowerCase()))
+
+        if (submission.assignedAR) {
+          for (const name of parseCommaSeparatedList(submission.assignedAR)) {
+            const trimmed = name.trim()
+            if (!trimmed || await employeeExists(trimmed)) continue
+            if (!pendingARs.has(trimmed.toLowerCase())) {
+              result.unknownARs.push(trimmed)
+              pendingARs.add(trimmed.toLowerCase())
+            }
+          }
+        }
+      }
+
+      // Platform requests, as processRow would write them (or how they differ, for existing releases)
+      for (const platformFields of importPlatformFields) {
+        const { platform, supportsChannels } = platformFields
+        const { isRequested, hasStatus, status, isChecked, channelNames } = parsePlatformRequestFields(submission, platformFields)
+        if (!isRequested && !hasStatus) continue
+
+        const currentRequests: Array<{ platform: string; channelName: string | null; status: PlatformRequestStatus }> =
+          existing ? existing.platformRequests.filter((r: { platform: string }) => r.platform === platform) : []
+        const addChange = (channel: string | null, to: PlatformRequestStatus) => {
+          const current = currentRequests.find(r =>
+            (r.channelName || '').toLowerCase() === (channel || '').toLowerCase()
+          )
+          if (!current || current.status !== to) {
+            result.platformChanges.push({ platform, channel, from: current?.status || null, to })
+          }
+        }
+
+        if (channelNames.length > 0) {
+          for (const channelName of channelNames) {
+            addChange(channelName, isChecked ? PlatformRequestStatus.UPLOADED : status)
+            const channelKey = `${platform}:${channelName.toLowerCase()}`
+            if (!existing && !(await channelExists(platform, channelName)) && !pendingChannels.has(channelKey)) {
+              result.newChannels.push(`${platform}: ${channelName}`)
+              pendingChannels.add(channelKey)
+            }
+          }
+        } else if (supportsChannels && isChecked) {
+          // Checked without channels only updates existing channel requests
+          currentRequests
+            .filter(r => r.channelName)
+            .forEach(r => addChange(r.channelName, PlatformRequestStatus.UPLOADED))
+        } else {
+          addChange(null, status)
+        }
+      }
+    } catch (error: any) {
+      result.action = 'error'
+      result.error = error.message || 'Unknown error'
+    }
+  }
+
+  const unique = (lists: string[][]) => Array.from(new Set(lists.flat()))
+
+  return {
+    summary: {
+      totalRows: rows.length,
+      create: results.filter(r => r.action === 'create').length,
+      skipExisting: results.filter(r => r.action === 'skip' && r.existingRelease).length,
+      skipDuplicateInFile: results.filter(r => r.action === 'skip' && r.duplicateOfRow).length,
+      errors: results.filter(r => r.action === 'error').length,
+      validationErrors: results.filter(r => r.validation.errors > 0).length,
+      validationWarnings: results.filter(r => r.validation.errors === 0 && r.validation.warnings > 0).length,
+      rowsWithDifferences: results.filter(r =>
+        r.existingRelease && (r.fieldChanges.length > 0 || r.tracks.added.length > 0 || r.tracks.removed.length > 0 || r.platformChanges.length > 0)
+      ).length,
+      tracksAdded: results.filter(r => r.action === 'create').reduce((sum, r) => sum + r.tracks.added.length, 0),
+      platformRequests: results.filter(r => r.action === 'create').reduce((sum, r) => sum + r.platformChanges.length, 0),
+      newArtists: unique(results.map(r => r.newArtists)),
+      unknownARs: unique(results.map(r => r.unknownARs)),
+      newChannels: unique(results.map(r => r.newChannels)),
+    },
+    rows: results,
+  }
+}
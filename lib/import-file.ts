@@ -0,0 +1,234 @@
+// Reads uploaded import files (CSV, XLSX, ODS) into records for the CSV pipeline
+
+import * as XLSX from 'xlsx'
+import { CSVRecordParser } from './csv-importer'
+import { countZawgyiCells } from './myanmar-text'
+
+export type ImportFileType = 'csv' | 'xlsx' | 'xls' | 'ods'
+export type ImportTextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252'
+
+export const IMPORT_FILE_EXTENSIONS = ['.csv', '.xlsx', '.xls', '.ods']
+export const IMPORT_TEXT_ENCODINGS: ImportTextEncoding[] = ['utf-8', 'utf-16le', 'utf-16be', 'windows-1252']
+
+// Largest upload read, since spreadsheets are held in memory whole
+export const MAX_IMPORT_FILE_MB = 50
+const MAX_IMPORT_FILE_BYTES = MAX_IMPORT_FILE_MB * 1024 * 1024
+
+// Rows scanned when guessing the header row, and returned so the user can pick another
+export const HEADER_SCAN_ROWS = 10
+
+export interface ImportFileReadResult {
+  fileType: ImportFileType
+  encoding: ImportTextEncoding | null // CSV only
+  sheets: string[] // Spreadsheets only
+  sheet: string | null
+  records: string[][]
+  zawgyiCells: number
+}
+
+export function getImportFileType(fileName: string): ImportFileType | null {
+  const extension = fileName.toLowerCase().match(/\.[a-z]+$/)?.[0]
+  switch (extension) {
+    case '.csv':
+      return 'csv'
+    case '.xlsx':
+    case '.xls':
+    case '.ods':
+      return extension.slice(1) as ImportFileType
+    default:
+      return null
+  }
+}
+
+/**
+ * Work out how CSV bytes are encoded from the start of the file. A byte-order
+ * mark wins; otherwise zero bytes in alternating positions mean UTF-16 without
+ * one, and bytes that are not valid UTF-8 mean an old Windows export.
+ */
+export function detectTextEncoding(bytes: Uint8Array): ImportTextEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8'
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le'
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be'
+
+  const sample = bytes.subarray(0, 4096)
+  let evenZeros = 0
+  let oddZeros = 0
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++
+      else oddZeros++
+    }
+  }
+  const threshold = sample.length / 8
+  if (oddZeros > threshold && evenZeros < oddZeros / 4) return 'utf-16le'
+  if (evenZeros > threshold && oddZeros < evenZeros / 4) return 'utf-16be'
+
+  try {
+    // stream: true so a character cut off at the end of the sample is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true })
+    return 'utf-8'
+  } catch {
+    return 'windows-1252'
+  }
+}
+
+/**
+ * Decode and parse a CSV upload chunk by chunk, so the raw file text is
+ * never held in memory as one string.
+ */
+export async function readCSVStream(
+  stream: ReadableStream<Uint8Array>,
+  encoding?: ImportTextEncoding
+): Promise<{ records: string[][]; encoding: ImportTextEncoding }> {
+  const reader = stream.getReader()
+  const parser = new CSVRecordParser()
+  const records: string[][] = []
+  let decoder: TextDecoder | null = null
+  let detected: ImportTextEncoding = encoding || 'utf-8'
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    if (!value || value.length === 0) continue
+
+    if (!decoder) {
+      detected = encoding || detectTextEncoding(value)
+      decoder = new TextDecoder(detected)
+    }
+    parser.push(decoder.decode(value, { stream: true })).forEach(record => records.push(record))
+  }
+
+  if (decoder) {
+    parser.push(decoder.decode()).forEach(record => records.push(record))
+  }
+  parser.end().forEach(record => records.push(record))
+
+  return { records, encoding: detected }
+}
+
+export function listWorkbookSheets(workbook: XLSX.WorkBook): string[] {
+  return workbook.SheetNames.filter(name => !!workbook.Sheets[name])
+}
+
+/**
+ * Cell text for every non-blank row of a sheet, as it is displayed in the
+ * spreadsheet. Dates come out as yyyy-mm-dd so the importer reads them the
+ * same way as CSV dates.
+ */
+export function readSheetRecords(workbook: XLSX.WorkBook, sheetName: string): string[][] {
+  const sheet = workbook.Sheets[sheetName]
+  if (!sheet) return []
+
+  // Date cells keep their own display format unless told otherwise
+  Object.keys(sheet).forEach(address => {
+    const cell = sheet[address] as XLSX.CellObject
+    if (address[0] !== '!' && cell.t === 'd') {
+      cell.z = 'yyyy-mm-dd'
+      delete cell.w
+    }
+  })
+
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    raw: false,
+    defval: '',
+    blankrows: false,
+  })
+
+  return rows
+    .map(row => row.map(cell => (cell === null || cell === undefined ? '' : String(cell))))
+    .filter(row => row.some(cell => cell.trim().length > 0))
+}
+
+// Pass the stream through, failing once more than the upload limit has come in
+function limitStreamSize(stream: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+  let total = 0
+  return stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      total += chunk.length
+      if (total > MAX_IMPORT_FILE_BYTES) {
+        controller.error(new Error(`File size must be less than ${MAX_IMPORT_FILE_MB}MB`))
+        return
+      }
+      controller.enqueue(chunk)
+    },
+  }))
+}
+
+/**
+ * Read an upload into records. CSV is streamed; spreadsheets are zip (or
+ * binary) containers that have to be read whole, then one sheet is taken
+ * (the first one unless `sheet` names another).
+ */
+export async function readImportFile(
+  stream: ReadableStream<Uint8Array>,
+  fileType: ImportFileType,
+  options: { sheet?: string | null; encoding?: ImportTextEncoding } = {}
+): Promise<ImportFileReadResult> {
+  stream = limitStreamSize(stream)
+  if (fileType === 'csv') {
+    const { records, encoding } = await readCSVStream(stream, options.encoding)
+    return {
+      fileType,
+      encoding,
+      sheets: [],
+      sheet: null,
+      records,
+      zawgyiCells: countZawgyiCells(records),
+    }
+  }
+
+  const chunks: Uint8Array[] = []
+  const reader = stream.getReader()
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    if (value) chunks.push(value)
+  }
+
+  const workbook = XLSX.read(Buffer.concat(chunks), {
+    type: 'buffer',
+    cellDates: true,
+  })
+  const sheets = listWorkbookSheets(workbook)
+  if (sheets.length === 0) {
+    throw new Error('The file has no sheets')
+  }
+  if (options.sheet && !sheets.includes(options.sheet)) {
+    throw new Error(`Sheet "${options.sheet}" not found`)
+  }
+
+  const sheet = options.sheet || sheets[0]
+  const records = readSheetRecords(workbook, sheet)
+
+  return {
+    fileType,
+    encoding: null,
+    sheets,
+    sheet,
+    records,
+    zawgyiCells: countZawgyiCells(records),
+  }
+}
+
+/**
+ * Guess which of the first rows holds the column names: the first row that
+ * fills at least half as many cells as the widest row. Title rows and notes
+ * above the table usually fill only one or two cells.
+ */
+export function detectHeaderRowIndex(records: string[][]): number {
+  const scanned = records.slice(0, HEADER_SCAN_ROWS)
+  const filled = scanned.map(record => record.filter(cell => cell.trim().length > 0).length)
+  const widest = Math.max(0, ...filled)
+  const index = filled.findIndex(count => count >= widest / 2)
+  return index === -1 ? 0 : index
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+// Write records back out as CSV text for the rest of the import pipeline
+export function recordsToCSV(records: string[][]): string {
+  return records.map(record => record.map(csvCell).join(',')).join('\n')
+}
@@ -0,0 +1,180 @@
+import { autoDetectMappings, normalizeColumnName } from './csv-importer'
+import type { ColumnMapping, ImportPlatformFields, MappingConfig } from './csv-importer'
+
+// Minimum header similarity (0-1) before a template is suggested for a new file
+export const MAPPING_TEMPLATE_SUGGEST_THRESHOLD = 0.8
+
+export const mappingTemplateInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+}
+
+// Normalized column name with any song number collapsed, so "Song 3 Genre" and "Song 12 Genre" compare equal
+function headerKey(header: string): string {
+  return normalizeColumnName(header).replace(/^song_?\d+_?/, 'song_n_')
+}
+
+function songNumber(header: string): number | undefined {
+  const match = header.match(/^song[_\s]*(\d+)/i)
+  return match ? parseInt(match[1], 10) : undefined
+}
+
+/**
+ * Signature of a file layout: sorted, de-duplicated header keys. Files that
+ * only differ in how many songs they carry share a signature.
+ */
+export function getHeaderSignature(headers: string[]): string[] {
+  return Array.from(new Set(headers.map(headerKey).filter(Boolean))).sort()
+}
+
+// Jaccard similarity of two header signatures, 1 when identical
+export function scoreHeaderSignature(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 1
+
+  const setA = new Set(a)
+  const setB = new Set(b)
+  const shared = Array.from(setA).filter(key => setB.has(key)).length
+  const union = new Set([...a, ...b]).size
+
+  return union === 0 ? 0 : shared / union
+}
+
+/**
+ * Map a new file's headers using a saved template. Columns are matched by exact
+ * name, then normalized name, then as the same field of another song number.
+ * Columns the template does not know fall back to auto-detection.
+ */
+export function applyMappingTemplate(
+  headers: string[],
+  config: MappingConfig,
+  platformFields: ImportPlatformFields[] = []
+): ColumnMapping[] {
+  const templateColumns: ColumnMapping[] = Array.isArray(config?.columns) ? config.columns : []
+  const byName = new Map<string, ColumnMapping>()
+  const byNormalized = new Map<string, ColumnMapping>()
+  const byKey = new Map<string, ColumnMapping>()
+
+  templateColumns.forEach(column => {
+    if (!column || typeof column.csvColumn !== 'string') return
+    if (!byName.has(column.csvColumn)) byName.set(column.csvColumn, column)
+    const normalized = normalizeColumnName(column.csvColumn)
+    if (!byNormalized.has(normalized)) byNormalized.set(normalized, column)
+    const key = headerKey(column.csvColumn)
+    if (!byKey.has(key)) byKey.set(key, column)
+  })
+
+  const autoMappings = autoDetectMappings(headers, platformFields)
+
+  return headers.map((header, index) => {
+    const exact = byName.get(header) || byNormalized.get(normalizeColumnName(header))
+    if (exact) {
+      return {
+        csvColumn: header,
+        targetField: exact.targetField,
+        fieldType: exact.fieldType,
+        songIndex: exact.songIndex,
+      }
+    }
+
+    const number = songNumber(header)
+    const sameField = number !== undefined ? byKey.get(headerKey(header)) : undefined
+    if (sameField) {
+      return {
+        csvColumn: header,
+        targetField: sameField.targetField,
+        fieldType: sameField.fieldType,
+        songIndex: sameField.fieldType === 'song' ? number : sameField.songIndex,
+      }
+    }
+
+    return autoMappings[index]
+  })
+}
+
+// Validate the template body shared by POST and PATCH; returns an error message or the data to write
+export function parseMappingTemplateBody(body: any, partial: boolean): { error: string } | { data: Record<string, any> } {
+  const data: Record<string, any> = {}
+
+  if (!partial || body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return { error: 'Template name is required' }
+    }
+    data.name = body.name.trim().slice(0, 100)
+  }
+
+  if (body.description !== undefined) {
+    data.description = typeof body.description === 'string' && body.description.trim()
+      ? body.description.trim().slice(0, 1000)
+      : null
+  }
+
+  if (body.isShared !== undefined) {
+    data.isShared = !!body.isShared
+  }
+
+  if (!partial || body.mappingConfig !== undefined) {
+    const config = body.mappingConfig
+    if (!config || typeof config !== 'object' || !Array.isArray(config.columns)) {
+      return { error: 'Mapping config with columns is required' }
+    }
+    if (!Array.isArray(body.headers) || body.headers.length === 0) {
+      return { error: 'File headers are required with a mapping config' }
+    }
+
+    const columns = config.columns
+      .filter((column: any) => column && typeof column.csvColumn === 'string')
+      .map((column: any) => ({
+        csvColumn: column.csvColumn,
+        targetField: typeof column.targetField === 'string' ? column.targetField : null,
+        fieldType: column.fieldType,
+        songIndex: typeof column.songIndex === 'number' ? column.songIndex : undefined,
+      }))
+
+    data.mappingConfig = {
+      columns,
+      songPatterns: config.songPatterns && typeof config.songPatterns === 'object' ? config.songPatterns : {},
+    }
+    data.headerSignature = getHeaderSignature(body.headers.filter((h: unknown) => typeof h === 'string'))
+  }
+
+  return { data }
+}
+
+/**
+ * Templates visible to the user that match the headers closely enough to
+ * suggest, best match first.
+ */
+export async function suggestMappingTemplates(prisma: any, userId: string, headers: string[]) {
+  const signature = getHeaderSignature(headers)
+
+  const templates = await prisma.importMappingTemplate.findMany({
+    where: {
+      OR: [{ userId }, { isShared: true }],
+    },
+    select: {
+      id: true,
+      name: true,
+      version: true,
+      headerSignature: true,
+      lastUsedAt: true,
+      user: { select: { id: true, name: true, email: true } },
+    },
+  })
+
+  return templates
+    .map((template: any) => ({
+      id: template.id,
+      name: template.name,
+      version: template.version,
+      owner: template.user?.name || template.user?.email || null,
+      isOwner: template.user?.id === userId,
+      score: Math.round(scoreHeaderSignature(signature, template.headerSignature) * 100) / 100,
+    }))
+    .filter((template: any) => template.score >= MAPPING_TEMPLATE_SUGGEST_THRESHOLD)
+    .sort((a: any, b: any) => b.score - a.score)
+}
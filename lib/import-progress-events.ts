@@ -0,0 +1,127 @@
+// Progress snapshots for the import progress stream (/api/import/csv/progress)
+
+import { ImportRowIssueType } from '@prisma/client'
+import { estimateFromSamples, PROGRESS_RATE_WINDOW_MS, type ProgressSample } from './csv-import-progress'
+
+// Statuses after which an import makes no more progress
+export const FINISHED_IMPORT_STATUSES = ['completed', 'failed', 'cancelled', 'rolled_back']
+
+// How many of the latest row errors each event carries
+const RECENT_ERRORS = 5
+
+const ISSUE_TYPE_LABELS: Record<ImportRowIssueType, string> = {
+  FAILED: 'Failed',
+  DUPLICATE: 'Duplicate',
+  VALIDATION: 'Validation',
+}
+
+export interface ImportProgressEvent {
+  sessionId: string
+  fileName: string
+  status: string
+  totalRows: number
+  rowsProcessed: number
+  percentage: number
+  releasesCreated: number
+  tracksCreated: number
+  errorCount: number
+  errorCounts: Record<string, number> // By row issue type
+  recentErrors: Array<{ row: number; message: string }>
+  rowsPerSecond: number
+  estimatedTimeRemaining: number | null // Seconds; null until there is a rate to go on
+  error: string | null
+  workerHeartbeatAt: string | null
+}
+
+/**
+ * Current progress of an import. Counts come from the import job, which the
+ * worker updates after every row, so watchers see progress between the
+ * session's checkpoints. `samples` collects one entry per call for the ETA.
+ */
+export async function loadImportProgress(
+  prisma: any,
+  sessionId: string,
+  samples: ProgressSample[] = []
+): Promise<ImportProgressEvent | null> {
+  const importSession = await prisma.importSession.findUnique({
+    where: { id: sessionId },
+    select: {
+      id: true,
+      fileName: true,
+      status: true,
+      totalRows: true,
+      rowsProcessed: true,
+      startedAt: true,
+      error: true,
+      job: {
+        select: {
+          nextRow: true,
+          submissionsCreated: true,
+          songsCreated: true,
+          rowsSkipped: true,
+          heartbeatAt: true,
+        },
+      },
+    },
+  })
+  if (!importSession) {
+    return null
+  }
+
+  const [issueGroups, recentIssues] = await Promise.all([
+    prisma.importRowIssue.groupBy({
+      by: ['type'],
+      where: { sessionId },
+      _count: { _all: true },
+    }),
+    prisma.importRowIssue.findMany({
+      where: { sessionId },
+      orderBy: { rowNumber: 'desc' },
+      take: RECENT_ERRORS,
+      select: { rowNumber: true, error: true },
+    }),
+  ])
+
+  const job = importSession.job
+  const rowsProcessed = Math.min(
+    Math.max(job?.nextRow ?? 0, importSession.rowsProcessed),
+    importSession.totalRows
+  )
+  const errorCounts: Record<string, number> = {}
+  issueGroups.forEach((group: { type: ImportRowIssueType; _count: { _all: number } }) => {
+    errorCounts[ISSUE_TYPE_LABELS[group.type] || group.type] = group._count._all
+  })
+
+  const finished = FINISHED_IMPORT_STATUSES.includes(importSession.status)
+  if (!finished && importSession.status !== 'paused') {
+    const now = Date.now()
+    samples.push({ at: now, rowsProcessed })
+    while (samples.length > 2 && samples[1].at < now - PROGRESS_RATE_WINDOW_MS) {
+      samples.shift()
+    }
+  }
+  const estimate = finished
+    ? { rowsPerSecond: 0, estimatedTimeRemaining: 0 }
+    : estimateFromSamples(samples, importSession.totalRows, importSession.startedAt)
+
+  return {
+    sessionId: importSession.id,
+    fileName: importSession.fileName,
+    status: importSession.status,
+    totalRows: importSession.totalRows,
+    rowsProcessed,
+    percentage: importSession.totalRows > 0 ? Math.round((rowsProcessed / importSession.totalRows) * 100) : 0,
+    releasesCreated: job?.submissionsCreated ?? 0,
+    tracksCreated: job?.songsCreated ?? 0,
+    errorCount: job?.rowsSkipped ?? 0,
+    errorCounts,
+    recentErrors: recentIssues.map((issue: { rowNumber: number; error: string }) => ({
+      row: issue.rowNumber,
+      message: issue.error,
+    })),
+    rowsPerSecond: estimate.rowsPerSecond,
+    estimatedTimeRemaining: estimate.estimatedTimeRemaining,
+    error: importSession.error,
+    workerHeartbeatAt: job?.heartbeatAt ? job.heartbeatAt.toISOString() : null,
+  }
+}
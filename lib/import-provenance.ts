@@ -0,0 +1,182 @@
+// Where imported releases came from: the stored source file, the row and what it said
+
+import { ReleaseType, VideoType } from '@prisma/client'
+import {
+  extractSubmissionData,
+  extractSongs,
+  normalizeColumnName,
+  parseArtists,
+} from './csv-importer'
+import { uploadFile } from './storage'
+import type { MappingConfig, ParsedRow } from './csv-importer'
+
+// Release values as read from the import row; dates are YYYY-MM-DD
+export interface ImportedReleaseValues {
+  title: string | null
+  type: ReleaseType | null
+  artist: string | null
+  artistsChosenDate: string | null
+  legacyReleaseDate: string | null
+  copyrightStatus: string | null
+  videoType: string | null
+  paymentRemarks: string | null
+  notes: string | null
+  tracks: string[]
+}
+
+export interface ImportedValueDifference {
+  field: keyof ImportedReleaseValues
+  label: string
+  imported: string | null
+  current: string | null
+}
+
+const FIELD_LABELS: Record<keyof ImportedReleaseValues, string> = {
+  title: 'Title',
+  type: 'Type',
+  artist: 'Artist',
+  artistsChosenDate: "Artist's Chosen Date",
+  legacyReleaseDate: 'Legacy Release Date',
+  copyrightStatus: 'Copyright',
+  videoType: 'Video Type',
+  paymentRemarks: 'Payment Remarks',
+  notes: 'Notes',
+  tracks: 'Tracks',
+}
+
+function formatDay(date: Date | string | null | undefined): string | null {
+  if (!date) return null
+  const d = typeof date === 'string' ? new Date(date) : date
+  return isNaN(d.getTime()) ? null : d.toISOString().slice(0, 10)
+}
+
+/**
+ * Upload an import's source file so releases can link back to it. Returns the
+ * storage key, or null when storage isn't available; the import doesn't
+ * depend on it.
+ */
+export async function storeImportSourceFile(
+  sessionId: string,
+  fileName: string,
+  content: string
+): Promise<string | null> {
+  // The browser sends spreadsheets converted to CSV, so that's what is stored
+  const baseName = fileName.replace(/\.[^.]+$/, '').replace(/[^a-zA-Z0-9._-]+/g, '_') || 'import'
+  const key = `imports/${sessionId}/${baseName}.csv`
+  try {
+    await uploadFile(key, Buffer.from(content, 'utf-8'), 'text/csv; charset=utf-8')
+    return key
+  } catch (error: any) {
+    console.warn(`Failed to store source file of import ${sessionId}:`, error?.message || error)
+    return null
+  }
+}
+
+/**
+ * A parsed row without the normalized duplicate keys buildParsedRows adds,
+ * so only the file's own column names are left.
+ */
+export function originalRowColumns(row: ParsedRow): Record<string, string> {
+  const keys = Object.keys(row)
+  const aliases = new Set(
+    keys
+      .map(key => normalizeColumnName(key))
+      .filter(normalized => keys.some(key => key !== normalized && normalizeColumnName(key) === normalized))
+  )
+  return Object.fromEntries(keys.filter(key => !aliases.has(key)).map(key => [key, row[key]]))
+}
+
+// Read the release values out of a row the way processRow does
+export function readImportedValues(row: ParsedRow, mappings: MappingConfig['columns']): ImportedReleaseValues {
+  const submission = extractSubmissionData(row, mappings)
+  const tracks = extractSongs(row, mappings)
+    .filter(song => song.name && song.name.trim())
+    .map(song => song.name!.trim())
+  const artists = submission.artistName ? parseArtists(submission.artistName) : []
+
+  return {
+    title: submission.releaseTitle?.trim() || null,
+    type: submission.releaseType || (tracks.length >= 2 ? ReleaseType.ALBUM : ReleaseType.SINGLE),
+    artist: artists[0] || 'Unknown Artist',
+    artistsChosenDate: formatDay(submission.artistsChosenDate || submission.releasedDate),
+    legacyReleaseDate: formatDay(submission.legacyReleaseDate),
+    copyrightStatus: submission.copyrightStatus || null,
+    videoType: submission.videoType || VideoType.NONE,
+    paymentRemarks: submission.paymentRemarks || null,
+    notes: submission.notes || null,
+    tracks,
+  }
+}
+
+/**
+ * Link a release to the file row it was imported from. Called in the row's
+ * transaction, so the link is rolled back with the release.
+ */
+export async function recordImportAttachment(
+  tx: any,
+  data: {
+    releaseId: string
+    sessionId: string
+    rowNumber: number
+    row: ParsedRow
+    mappings: MappingConfig['columns']
+    fileName: string
+    fileKey: string | null
+  }
+): Promise<void> {
+  await tx.importAttachment.create({
+    data: {
+      releaseId: data.releaseId,
+      sessionId: data.sessionId,
+      rowNumber: data.rowNumber,
+      filename: data.fileName,
+      fileKey: data.fileKey,
+      rawContent: JSON.stringify(originalRowColumns(data.row)),
+      importedValues: readImportedValues(data.row, data.mappings) as any,
+    },
+  })
+}
+
+/**
+ * Fields whose current value differs from what the import row said. Text is
+ * compared ignoring case and surrounding whitespace.
+ */
+export function diffImportedValues(
+  imported: ImportedReleaseValues,
+  release: {
+    title: string
+    type: ReleaseType
+    artist: { name: string }
+    artistsChosenDate: Date | null
+    legacyReleaseDate: Date | null
+    copyrightStatus: string | null
+    videoType: string | null
+    paymentRemarks: string | null
+    notes: string | null
+    tracks: Array<{ name: string }>
+  }
+): ImportedValueDifference[] {
+  const current: Record<keyof ImportedReleaseValues, string | null> = {
+    title: release.title,
+    type: release.type,
+    artist: release.artist.name,
+    artistsChosenDate: formatDay(release.artistsChosenDate),
+    legacyReleaseDate: formatDay(release.legacyReleaseDate),
+    copyrightStatus: release.copyrightStatus,
+    videoType: release.videoType,
+    paymentRemarks: release.paymentRemarks,
+    notes: release.notes,
+    tracks: release.tracks.map(track => track.name).join(', ') || null,
+  }
+
+  const differences: ImportedValueDifference[] = []
+  ;(Object.keys(FIELD_LABELS) as Array<keyof ImportedReleaseValues>).forEach(field => {
+    const value = imported[field]
+    const importedValue = Array.isArray(value) ? value.join(', ') || null : value ?? null
+    const same = (importedValue || '').trim().toLowerCase() === (current[field] || '').trim().toLowerCase()
+    if (!same) {
+      differences.push({ field, label: FIELD_LABELS[field], imported: importedValue, current: current[field] })
+    }
+  })
+  return differences
+}
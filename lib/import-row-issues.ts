@@ -0,0 +1,164 @@
+import { ImportRowIssueType, Prisma, UserRole } from '@prisma/client'
+import { normalizeColumnName } from './csv-importer'
+import { normalizeMyanmarText } from './myanmar-text'
+import type { MappingConfig, ParsedRow } from './csv-importer'
+
+// Roles that may review rows from imports started by someone else
+export const IMPORT_REVIEW_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.MANAGER, UserRole.DATA_TEAM]
+
+export interface SuggestedRowFix {
+  message: string
+  // Column -> proposed value, applied when the reviewer accepts the suggestion
+  changes?: Record<string, string>
+}
+
+export function canReviewImportSession(
+  user: { id: string; role: string },
+  importSession: { userId: string }
+): boolean {
+  return importSession.userId === user.id || IMPORT_REVIEW_ROLES.includes(user.role as UserRole)
+}
+
+export function classifyRowError(error: string): ImportRowIssueType {
+  if (/^Validation failed/.test(error)) {
+    return ImportRowIssueType.VALIDATION
+  }
+  return /already exists|exact match|duplicate/i.test(error)
+    ? ImportRowIssueType.DUPLICATE
+    : ImportRowIssueType.FAILED
+}
+
+function findColumn(mappings: MappingConfig['columns'], targetField: string, songIndex?: number) {
+  return mappings.find(m =>
+    m.targetField === targetField &&
+    (songIndex === undefined ? m.fieldType === 'submission' : m.fieldType === 'song' && (m.songIndex || 1) === songIndex)
+  )?.csvColumn
+}
+
+/**
+ * Propose a fix for a failed row from its error message. Only the release title
+ * gets a concrete value (the first song name, as singles are usually titled
+ * after their track); everything else is advice for the reviewer.
+ */
+export function suggestRowFix(row: ParsedRow, mappings: MappingConfig['columns'], error: string): SuggestedRowFix | null {
+  if (/releaseTitle/.test(error)) {
+    const titleColumn = findColumn(mappings, 'releaseTitle')
+    const songColumn = findColumn(mappings, 'name', 1)
+    const songName = songColumn ? (row[songColumn] || '').trim() : ''
+
+    if (titleColumn && songName) {
+      return {
+        message: `Release title is empty. Use the first song name "${songName}" as the title.`,
+        changes: { [titleColumn]: songName },
+      }
+    }
+    return {
+      message: titleColumn
+        ? `Release title is empty. Fill in "${titleColumn}".`
+        : 'No column is mapped to the release title. Fix the column mapping and import again.',
+    }
+  }
+
+  if (classifyRowError(error) === ImportRowIssueType.VALIDATION) {
+    return {
+      message: 'Fix the values flagged by validation, or ask an admin to lower the rule\'s severity.',
+    }
+  }
+
+  if (classifyRowError(error) === ImportRowIssueType.DUPLICATE) {
+    return {
+      message: 'This release already exists. Discard the row, or change the title or submission ID if it is a different release.',
+    }
+  }
+
+  if (/artist/i.test(error)) {
+    const artistColumn = findColumn(mappings, 'artistName')
+    return {
+      message: artistColumn
+        ? `Check the artist names in "${artistColumn}".`
+        : 'Check the artist names for this row.',
+    }
+  }
+
+  if (/Transaction failed|timed out|timeout/i.test(error)) {
+    return { message: 'The row failed on a temporary database error. Approve it to try again.' }
+  }
+
+  return null
+}
+
+/**
+ * Apply edited values to a parsed row. Rows carry every value under both the
+ * header and its normalized name, so both keys are updated.
+ */
+export function applyRowEdits(row: ParsedRow, changes: Record<string, unknown>): ParsedRow {
+  const edited: ParsedRow = { ...row }
+  Object.keys(changes).forEach(column => {
+    const value = changes[column] === null || changes[column] === undefined
+      ? ''
+      : normalizeMyanmarText(String(changes[column]).trim())
+    edited[column] = value
+    const normalized = normalizeColumnName(column)
+    if (normalized && normalized !== column && normalized in edited) {
+      edited[normalized] = value
+    }
+  })
+  return edited
+}
+
+/**
+ * Keep a failed row for review. Re-running the same session row replaces the
+ * earlier issue. Never throws, so a failing write cannot stop an import.
+ */
+export async function recordImportRowIssue(
+  prisma: any,
+  data: {
+    sessionId: string
+    rowNumber: number
+    row: ParsedRow
+    error: string
+    mappings: MappingConfig['columns']
+  }
+): Promise<void> {
+  try {
+    const fields = {
+      rawRow: data.row,
+      error: data.error,
+      type: classifyRowError(data.error),
+      suggestedFix: suggestRowFix(data.row, data.mappings, data.error) ?? Prisma.DbNull,
+    }
+
+    await prisma.importRowIssue.upsert({
+      where: {
+        sessionId_rowNumber: {
+          sessionId: data.sessionId,
+          rowNumber: data.rowNumber,
+        },
+      },
+      create: {
+        sessionId: data.sessionId,
+        rowNumber: data.rowNumber,
+        ...fields,
+      },
+      update: fields,
+    })
+  } catch (error: any) {
+    console.warn(`Failed to record import row issue for row ${data.rowNumber}:`, error?.message)
+  }
+}
+
+export const importRowIssueInclude = {
+  resolvedBy: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+  release: {
+    select: {
+      id: true,
+      title: true,
+    },
+  },
+}
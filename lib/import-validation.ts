@@ -0,0 +1,479 @@
+// Declarative checks every import row goes through before processRow
+
+import { ImportValidationSeverity, ReleaseType } from '@prisma/client'
+import {
+  extractSubmissionData,
+  extractSongs,
+  readMappedValue,
+  IMPORT_PLATFORM_FIELDS,
+} from './csv-importer'
+import type { ImportPlatformFields, MappingConfig, ParsedRow, SongRecord, SubmissionRecord } from './csv-importer'
+
+export interface ImportValidationRuleParam {
+  key: string
+  label: string
+  default: number
+}
+
+export interface ImportValidationRuleDefinition {
+  code: string
+  label: string
+  description: string
+  category: 'required' | 'dates' | 'titles' | 'tracks' | 'values' | 'cross-field'
+  defaultSeverity: ImportValidationSeverity
+  // The importer can't work without it, so admins can't lower the severity
+  fixedSeverity?: boolean
+  params?: ImportValidationRuleParam[]
+}
+
+export interface RowValidationIssue {
+  code: string
+  label: string
+  severity: ImportValidationSeverity
+  message: string
+  field?: string
+}
+
+export interface RowValidationReport {
+  errors: number
+  warnings: number
+  issues: RowValidationIssue[]
+}
+
+// Effective severity and params of each rule, keyed by rule code
+export type ImportValidationSettings = Record<string, {
+  severity: ImportValidationSeverity
+  params: Record<string, number>
+}>
+
+interface RowContext {
+  row: ParsedRow
+  mappings: MappingConfig['columns']
+  submission: SubmissionRecord
+  songs: SongRecord[] // Songs with a name
+  platformFields: ImportPlatformFields[]
+  // Trimmed value of the column mapped to a submission field ('' if unmapped or empty)
+  value: (targetField: string) => string
+}
+
+type RuleCheck = (
+  context: RowContext,
+  params: Record<string, number>
+) => Array<{ message: string; field?: string }>
+
+const DATE_FIELDS = [
+  'submittedAt',
+  'createdTime',
+  'artistsChosenDate',
+  'releasedDate',
+  'legacyReleaseDate',
+  'larsReleasedDate',
+]
+
+// Platform statuses parsePlatformRequestFields understands
+const PLATFORM_STATUS_PATTERN = /uploaded|approved|checked|completed|rejected|pending|^(yes|y|1|true|no|n|0|false)$/
+
+// Video type values that mean "no video"
+const NO_VIDEO_VALUES = ['none', 'no', 'n', '-', 'n/a', 'na']
+
+/**
+ * Whether a title looks like it came from the wrong column: notes, payment
+ * remarks, platform statuses, dates, codes, URLs or lists.
+ */
+export function looksLikeWrongColumn(title: string): boolean {
+  if (!title) return false
+
+  const lowerTitle = title.toLowerCase()
+
+  // Patterns that indicate notes content
+  const notesPatterns = [
+    'will whitelist',
+    'p.s.',
+    'copyright',
+    'note:',
+    'please',
+    'important',
+    'warning',
+    'reminder',
+    'youtube တွင်', // Burmese text from user's example
+    'cannot upload',
+    'due to',
+  ]
+
+  // Patterns that indicate payment remarks
+  const paymentPatterns = [
+    'payment',
+    'royalty',
+    'receive method',
+    'bank',
+    'account',
+    'transfer',
+  ]
+
+  // Patterns that indicate platform status
+  const platformPatterns = [
+    'uploaded',
+    'pending',
+    'rejected',
+    'monetization',
+    'the licensee will be',
+    'youtube',
+    'facebook',
+    'tiktok',
+    'flow',
+    'ringtunes',
+  ]
+
+  // Patterns that indicate dates (but not release dates)
+  const datePatterns = [
+    /^\d{1,2}[-\/]\d{1,2}[-\/]\d{2,4}$/, // DD-MM-YY or similar
+    /^(january|february|march|april|may|june|july|august|september|october|november|december)/i,
+  ]
+
+  // Patterns that indicate status codes or IDs
+  const codePatterns = [
+    /^[a-z0-9]{4,10}$/i, // Short codes
+    /^id=/i, // ID patterns
+    /accessToken/i,
+  ]
+
+  // Check if title is very long (likely notes or other text field)
+  if (title.length > 100) return true
+
+  // Check if it contains multiple sentences (likely notes)
+  if (title.includes('. ') && title.split('. ').length > 2) return true
+
+  // Check for notes patterns
+  if (notesPatterns.some(pattern => lowerTitle.includes(pattern))) return true
+
+  // Check for payment remarks patterns
+  if (paymentPatterns.some(pattern => lowerTitle.includes(pattern))) return true
+
+  // Check for platform status patterns (but not if it's a valid release title)
+  if (platformPatterns.some(pattern => lowerTitle.includes(pattern)) &&
+      !lowerTitle.includes('platform') &&
+      title.length < 50) return true
+
+  // Check if it's just a date
+  if (datePatterns.some(pattern => pattern.test(title.trim()))) return true
+
+  // Check if it's just a code/ID
+  if (codePatterns.some(pattern => pattern.test(title.trim()))) return true
+
+  // Check if it contains URLs or access tokens
+  if (/https?:\/\/|www\.|accessToken|id=/i.test(title)) return true
+
+  // Check if it's mostly special characters, numbers, or commas (likely concatenated data)
+  if (/^[,;\s\d\-_]+$/.test(title) || (title.split(',').length > 3 && title.length < 50)) return true
+
+  return false
+}
+
+const RULES: Array<ImportValidationRuleDefinition & { check: RuleCheck }> = [
+  {
+    code: 'missing_release_title',
+    label: 'Release title required',
+    description: 'The row has no release title. Rows without a title cannot be imported.',
+    category: 'required',
+    defaultSeverity: ImportValidationSeverity.ERROR,
+    fixedSeverity: true,
+    check: ({ submission }) =>
+      submission.releaseTitle && submission.releaseTitle.trim()
+        ? []
+        : [{ message: 'Missing required field: releaseTitle', field: 'releaseTitle' }],
+  },
+  {
+    code: 'missing_artist_name',
+    label: 'Artist name required',
+    description: 'The row has no artist name, so the release is credited to "Unknown Artist".',
+    category: 'required',
+    defaultSeverity: ImportValidationSeverity.WARN,
+    check: ({ submission }) =>
+      submission.artistName
+        ? []
+        : [{ message: 'No artist name; the release will be credited to Unknown Artist', field: 'artistName' }],
+  },
+  {
+    code: 'missing_tracks',
+    label: 'At least one track',
+    description: 'None of the song name columns have a value.',
+    category: 'required',
+    defaultSeverity: ImportValidationSeverity.WARN,
+    check: ({ songs }) => songs.length > 0 ? [] : [{ message: 'No track names' }],
+  },
+  {
+    code: 'invalid_date',
+    label: 'Unreadable dates',
+    description: 'A date column has a value that is not a date. The importer leaves such dates empty.',
+    category: 'dates',
+    defaultSeverity: ImportValidationSeverity.WARN,
+    check: ({ value }) => DATE_FIELDS
+      .filter(field => value(field) && isNaN(new Date(value(field)).getTime()))
+      .map(field => ({ message: `${field} "${value(field)}" is not a date and will be left empty`, field })),
+  },
+  {
+    code: 'date_out_of_range',
+    label: 'Dates in a plausible range',
+    description: 'A date is before the earliest year or too far in the future, which usually means a typo or a swapped day and month.',
+    category: 'dates',
+    defaultSeverity: ImportValidationSeverity.WARN,
+    params: [
+      { key: 'minYear', label: 'Earliest year', default: 1950 },
+      { key: 'maxFutureDays', label: 'Days ahead allowed', default: 365 },
+    ],
+    check: ({ value }, params) => {
+      const latest = Date.now() + params.maxFutureDays * 24 * 60 * 60 * 1000
+      return DATE_FIELDS.flatMap(field => {
+        const date = value(field) ? new Date(value(field)) : null
+        if (!date || isNaN(date.getTime())) return []
+        if (date.getFullYear() < params.minYear) {
+          return [{ message: `${field} ${date.toISOString().slice(0, 10)} is before ${params.minYear}`, field }]
+        }
+        if (date.getTime() > latest) {
+          return [{ message: `${field} ${date.toISOString().slice(0, 10)} is more than ${params.maxFutureDays} days ahead`, field }]
+        }
+        return []
+      })
+    },
+  },
+  {
+    code: 'title_looks_like_note',
+    label: 'Titles that look like other columns',
+    description: 'A release or track title looks like notes, payment remarks, a platform status, a date, a code or a URL, which usually means the columns are shifted.',
+    category: 'titles',
+    defaultSeverity: ImportValidationSeverity.WARN,
+    check: ({ submission, songs }) => {
+      const issues: Array<{ message: string; field?: string }> = []
+      if (submission.releaseTitle && looksLikeWrongColumn(submission.releaseTitle)) {
+        issues.push({ message: `Release title "${truncate(submission.releaseTitle)}" looks like it belongs in another column`, field: 'releaseTitle' })
+      }
+      songs
+        .filter(song => looksLikeWrongColumn(song.name!.trim()))
+        .forEach(song => issues.push({ message: `Track name "${truncate(song.name!)}" looks like it belongs in another column`, field: 'name' }))
+      return issues
+    },
+  },
+  {
+    code: 'max_tracks',
+    label: 'Track count limit',
+    description: 'The row has more tracks than any release should.',
+    category: 'tracks',
+    defaultSeverity: ImportValidationSeverity.WARN,
+    params: [{ key: 'max', label: 'Maximum tracks', default: 50 }],
+    check: ({ songs }, params) =>
+      songs.length > params.max ? [{ message: `${songs.length} tracks (limit ${params.max})` }] : [],
+  },
+  {
+    code: 'duplicate_track_names',
+    label: 'Duplicate track names',
+    description: 'The same track name appears more than once in the row.',
+    category: 'tracks',
+    defaultSeverity: ImportValidationSeverity.WARN,
+    check: ({ songs }) => {
+      const seen = new Set<string>()
+      const duplicates = new Set<string>()
+      songs.forEach(song => {
+        const key = song.name!.trim().toLowerCase()
+        if (seen.has(key)) duplicates.add(song.name!.trim())
+        seen.add(key)
+      })
+      return Array.from(duplicates).map(name => ({ message: `Track "${name}" is listed more than once`, field: 'name' }))
+    },
+  },
+  {
+    code: 'unknown_release_type',
+    label: 'Unknown release type',
+    description: 'The release type is neither album nor single. The importer treats anything that is not an album as a single.',
+    category: 'values',
+    defaultSeverity: ImportValidationSeverity.WARN,
+    check: ({ value }) => {
+      const type = value('releaseType')
+      return type && !/album|single/i.test(type)
+        ? [{ message: `Release type "${type}" is not Album or Single; it will be imported as a single`, field: 'releaseType' }]
+        : []
+    },
+  },
+  {
+    code: 'unknown_copyright_status',
+    label: 'Unknown copyright status',
+    description: 'The copyright status is not original, cover or international, so it is left empty.',
+    category: 'values',
+    defaultSeverity: ImportValidationSeverity.WARN,
+    check: ({ value }) => {
+      const status = value('copyrightStatus')
+      return status && !/original|cover|international/i.test(status)
+        ? [{ message: `Copyright status "${status}" is not recognised and will be left empty`, field: 'copyrightStatus' }]
+        : []
+    },
+  },
+  {
+    code: 'unknown_video_type',
+    label: 'Unknown video type',
+    description: 'The video type is not a music or lyrics video, so it is imported as no video.',
+    category: 'values',
+    defaultSeverity: ImportValidationSeverity.WARN,
+    check: ({ value }) => {
+      const type = value('videoType')
+      return type && !/music|mv|lyrics/i.test(type) && !NO_VIDEO_VALUES.includes(type.toLowerCase())
+        ? [{ message: `Video type "${type}" is not recognised; it will be imported as no video`, field: 'videoType' }]
+        : []
+    },
+  },
+  {
+    code: 'unknown_platform_status',
+    label: 'Unknown platform status',
+    description: 'A platform status is not one the importer understands, so the request is imported as pending.',
+    category: 'values',
+    defaultSeverity: ImportValidationSeverity.WARN,
+    check: ({ value, platformFields }) => platformFields
+      .filter(fields => value(fields.statusKey) && !PLATFORM_STATUS_PATTERN.test(value(fields.statusKey).toLowerCase()))
+      .map(fields => ({
+        message: `${fields.name} status "${value(fields.statusKey)}" is not recognised; the request will be pending`,
+        field: fields.statusKey,
+      })),
+  },
+  {
+    code: 'single_with_many_tracks',
+    label: 'Singles with many tracks',
+    description: 'The row is marked as a single but has more tracks than a single usually has.',
+    category: 'cross-field',
+    defaultSeverity: ImportValidationSeverity.WARN,
+    params: [{ key: 'max', label: 'Most tracks on a single', default: 3 }],
+    check: ({ value, songs }, params) =>
+      value('releaseType') && !/album/i.test(value('releaseType')) && songs.length > params.max
+        ? [{ message: `Marked as a single but has ${songs.length} tracks`, field: 'releaseType' }]
+        : [],
+  },
+  {
+    code: 'album_with_one_track',
+    label: 'Albums with one track',
+    description: 'The row is marked as an album but has a single track.',
+    category: 'cross-field',
+    defaultSeverity: ImportValidationSeverity.IGNORE,
+    check: ({ submission, songs }) =>
+      submission.releaseType === ReleaseType.ALBUM && songs.length === 1
+        ? [{ message: 'Marked as an album but has one track', field: 'releaseType' }]
+        : [],
+  },
+]
+
+// Rule metadata for the admin page and reports (without the checks)
+export const IMPORT_VALIDATION_RULES: ImportValidationRuleDefinition[] = RULES.map(({ check, ...rule }) => rule)
+
+function truncate(text: string, length = 60): string {
+  const trimmed = text.trim()
+  return trimmed.length > length ? `${trimmed.slice(0, length)}…` : trimmed
+}
+
+// Default params of a rule, overridden by the numeric values in `overrides`
+function resolveParams(rule: ImportValidationRuleDefinition, overrides: unknown): Record<string, number> {
+  const params: Record<string, number> = {}
+  const values = overrides && typeof overrides === 'object' ? overrides as Record<string, unknown> : {}
+  ;(rule.params || []).forEach(param => {
+    const value = Number(values[param.key])
+    params[param.key] = values[param.key] !== undefined && values[param.key] !== null && !isNaN(value)
+      ? value
+      : param.default
+  })
+  return params
+}
+
+/**
+ * Severity and params of every rule: the defaults above, with the admin
+ * overrides stored in ImportValidationRule applied on top.
+ */
+export function buildImportValidationSettings(
+  overrides: Array<{ code: string; severity: ImportValidationSeverity; params: unknown }> = []
+): ImportValidationSettings {
+  const settings: ImportValidationSettings = {}
+  RULES.forEach(rule => {
+    const override = overrides.find(o => o.code === rule.code)
+    settings[rule.code] = {
+      severity: override && !rule.fixedSeverity ? override.severity : rule.defaultSeverity,
+      params: resolveParams(rule, override?.params),
+    }
+  })
+  return settings
+}
+
+export async function loadImportValidationSettings(prisma: any): Promise<ImportValidationSettings> {
+  const overrides = await prisma.importValidationRule.findMany({
+    select: { code: true, severity: true, params: true },
+  })
+  return buildImportValidationSettings(overrides)
+}
+
+export interface ImportValidationRuleState extends ImportValidationRuleDefinition {
+  severity: ImportValidationSeverity
+  paramValues: Record<string, number>
+  overridden: boolean // An admin has changed the defaults
+}
+
+// Every rule with its current settings, for the admin page
+export async function loadImportValidationRuleStates(prisma: any): Promise<ImportValidationRuleState[]> {
+  const overrides = await prisma.importValidationRule.findMany({
+    select: { code: true, severity: true, params: true },
+  })
+  const settings = buildImportValidationSettings(overrides)
+  return IMPORT_VALIDATION_RULES.map(rule => ({
+    ...rule,
+    severity: settings[rule.code].severity,
+    paramValues: settings[rule.code].params,
+    overridden: overrides.some((o: { code: string }) => o.code === rule.code),
+  }))
+}
+
+/**
+ * Run every rule that isn't ignored against a row. A row with `errors` must
+ * not be imported; warnings are only reported. `platformFields` are the
+ * registry's platforms, defaulting to the original ones.
+ */
+export function validateImportRow(
+  row: ParsedRow,
+  mappings: MappingConfig['columns'],
+  settings: ImportValidationSettings = buildImportValidationSettings(),
+  platformFields: ImportPlatformFields[] = IMPORT_PLATFORM_FIELDS
+): RowValidationReport {
+  const submissionColumns = new Map<string, string>()
+  mappings.forEach(mapping => {
+    if (mapping.fieldType === 'submission' && mapping.targetField && !submissionColumns.has(mapping.targetField)) {
+      submissionColumns.set(mapping.targetField, mapping.csvColumn)
+    }
+  })
+
+  const context: RowContext = {
+    row,
+    mappings,
+    submission: extractSubmissionData(row, mappings),
+    songs: extractSongs(row, mappings).filter(song => song.name && song.name.trim()),
+    platformFields,
+    value: (targetField: string) => {
+      const column = submissionColumns.get(targetField)
+      return column ? readMappedValue(row, column).trim() : ''
+    },
+  }
+
+  const issues: RowValidationIssue[] = []
+  RULES.forEach(rule => {
+    const { severity, params } = settings[rule.code] || { severity: rule.defaultSeverity, params: resolveParams(rule, null) }
+    if (severity === ImportValidationSeverity.IGNORE) return
+
+    rule.check(context, params).forEach(result => {
+      issues.push({ code: rule.code, label: rule.label, severity, ...result })
+    })
+  })
+
+  return {
+    errors: issues.filter(issue => issue.severity === ImportValidationSeverity.ERROR).length,
+    warnings: issues.filter(issue => issue.severity === ImportValidationSeverity.WARN).length,
+    issues,
+  }
+}
+
+// Row error recorded when a row is rejected by validation
+export function formatValidationFailure(report: RowValidationReport): string {
+  const messages = report.issues
+    .filter(issue => issue.severity === ImportValidationSeverity.ERROR)
+    .map(issue => issue.message)
+  return `Validation failed: ${messages.join('; ')}`
+}
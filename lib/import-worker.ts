@@ -0,0 +1,437 @@
+import crypto from 'crypto'
+import os from 'os'
+import { ImportJobStatus } from '@prisma/client'
+import { processRow } from '@/app/api/import/csv/route'
+import { parseCSV, getImportPlatformFields, type MappingConfig, type ParsedRow } from './csv-importer'
+import { updateImportSessionProgress, completeImportSession, failImportSession } from './csv-import-session'
+import { recordImportRowIssue } from './import-row-issues'
+import { formatValidationFailure, loadImportValidationSettings, validateImportRow } from './import-validation'
+import { recordImportAttachment } from './import-provenance'
+import { getPlatforms } from './platforms'
+
+/**
+ * Imports run on the server, independently of the browser. Every import
+ * session gets an ImportJob row; a worker claims it with a conditional update,
+ * works through the rows stored on the session and records its position after
+ * each row, so closing the tab doesn't stall the import and a worker that dies
+ * is replaced once its heartbeat goes stale.
+ *
+ * Workers are started right after an import is queued (startImportWorker) and
+ * by the /api/cron/import-worker schedule, which also picks up abandoned jobs.
+ */
+
+// A running job whose heartbeat is older than this is assumed abandoned
+const STALE_HEARTBEAT_MS = 2 * 60 * 1000
+
+// Session progress is written every this many rows; the job row holds the counters
+const CHECKPOINT_ROWS = 10
+
+// Serverless functions are stopped after about a minute, so hand the job back
+// before then; elsewhere a worker keeps going until the import is done
+const DEFAULT_TIME_BUDGET_MS = process.env.VERCEL === '1' ? 50 * 1000 : null
+
+export interface ImportWorkerResult {
+  jobsRun: number
+  rowsProcessed: number
+  completed: number
+  failed: number
+  released: number // Handed back unfinished (paused or out of time)
+}
+
+interface ClaimedJob {
+  id: string
+  sessionId: string
+  nextRow: number
+  submissionsCreated: number
+  songsCreated: number
+  rowsSkipped: number
+  attempts: number
+  maxAttempts: number
+}
+
+class LostImportJobLockError extends Error {
+  constructor() {
+    super('Import job was claimed by another worker')
+  }
+}
+
+function createWorkerId(): string {
+  return `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`
+}
+
+/**
+ * Queue an import session for the worker, starting at `startRow`. An existing
+ * job is put back in the queue unless a worker is holding it; its counters are
+ * kept so a resumed import reports totals for the whole file.
+ */
+export async function enqueueImportJob(prisma: any, sessionId: string, startRow = 0) {
+  const existing = await prisma.importJob.findUnique({ where: { sessionId } })
+  if (!existing) {
+    return prisma.importJob.create({
+      data: { sessionId, nextRow: startRow },
+    })
+  }
+
+  const staleBefore = new Date(Date.now() - STALE_HEARTBEAT_MS)
+  const isHeld = existing.status === ImportJobStatus.RUNNING && existing.heartbeatAt && existing.heartbeatAt >= staleBefore
+  if (isHeld) {
+    return existing
+  }
+
+  return prisma.importJob.update({
+    where: { id: existing.id },
+    data: {
+      status: ImportJobStatus.QUEUED,
+      lockedBy: null,
+      lockedAt: null,
+      attempts: 0,
+      completedAt: null,
+    },
+  })
+}
+
+/**
+ * Claim the next runnable job: queued, or running with a stale heartbeat.
+ * Jobs whose session is paused or finished are left alone.
+ */
+async function claimImportJob(
+  prisma: any,
+  workerId: string,
+  sessionId?: string
+): Promise<ClaimedJob | null> {
+  const now = new Date()
+  const staleBefore = new Date(now.getTime() - STALE_HEARTBEAT_MS)
+
+  const dueFilter = {
+    ...(sessionId ? { sessionId } : {}),
+    session: { is: { status: 'in_progress' } },
+    OR: [
+      { status: ImportJobStatus.QUEUED },
+      { status: ImportJobStatus.RUNNING, heartbeatAt: { lt: staleBefore } },
+    ],
+  }
+
+  const candidates: Array<{ id: string }> = await prisma.importJob.findMany({
+    where: dueFilter,
+    orderBy: { createdAt: 'asc' },
+    take: 5,
+    select: { id: true },
+  })
+
+  for (const candidate of candidates) {
+    const claimed = await prisma.importJob.updateMany({
+      where: { id: candidate.id, ...dueFilter },
+      data: {
+        status: ImportJobStatus.RUNNING,
+        lockedBy: workerId,
+        lockedAt: now,
+        heartbeatAt: now,
+        attempts: { increment: 1 },
+      },
+    })
+    if (claimed.count === 0) {
+      continue
+    }
+
+    return prisma.importJob.findUnique({ where: { id: candidate.id } })
+  }
+
+  return null
+}
+
+// Hand a job back to the queue after a clean stop
+async function releaseImportJob(prisma: any, jobId: string, workerId: string) {
+  await prisma.importJob.updateMany({
+    where: { id: jobId, lockedBy: workerId },
+    data: {
+      status: ImportJobStatus.QUEUED,
+      lockedBy: null,
+      lockedAt: null,
+      attempts: 0,
+    },
+  })
+}
+
+async function finishImportJob(
+  prisma: any,
+  jobId: string,
+  workerId: string,
+  status: ImportJobStatus,
+  lastError?: string
+) {
+  await prisma.importJob.updateMany({
+    where: { id: jobId, lockedBy: workerId },
+    data: {
+      status,
+      lockedBy: null,
+      lockedAt: null,
+      completedAt: new Date(),
+      ...(lastError ? { lastError: lastError.slice(0, 1000) } : {}),
+    },
+  })
+}
+
+function loadSessionRows(mappingConfig: any): ParsedRow[] {
+  if (Array.isArray(mappingConfig?._csvRows)) {
+    return mappingConfig._csvRows
+  }
+  if (typeof mappingConfig?._csvContent === 'string') {
+    return parseCSV(mappingConfig._csvContent).rows
+  }
+  throw new Error('Import session has no stored rows to process')
+}
+
+/**
+ * Process a claimed job until its rows run out, its session stops being
+ * in_progress, or the deadline passes. Each row's writes and the job's new
+ * position are committed together, so a row is never imported twice. Rows
+ * that break a validation rule set to ERROR are skipped without importing.
+ */
+async function runImportJob(
+  prisma: any,
+  job: ClaimedJob,
+  workerId: string,
+  deadline: number | null
+): Promise<{ outcome: 'completed' | 'released' | 'stopped'; rowsProcessed: number }> {
+  const importSession = await prisma.importSession.findUnique({
+    where: { id: job.sessionId },
+    select: { mappingConfig: true, fileName: true, sourceFileKey: true },
+  })
+  const mappingConfig = (importSession?.mappingConfig || {}) as MappingConfig & Record<string, any>
+  const rows = loadSessionRows(mappingConfig)
+  const mappings = mappingConfig.columns
+  const validationSettings = await loadImportValidationSettings(prisma)
+  // Rows that failed in earlier runs of this job, for the final result
+  const earlierIssues: Array<{ rowNumber: number; error: string }> = await prisma.importRowIssue.findMany({
+    where: { sessionId: job.sessionId },
+    select: { rowNumber: true, error: true },
+    orderBy: { rowNumber: 'asc' },
+  })
+  const errors: Array<{ row: number; message: string }> = earlierIssues.map(issue => ({
+    row: issue.rowNumber,
+    message: issue.error,
+  }))
+
+  const caches = {
+    artistCache: new Map<string, { id: string; name: string }>(),
+    employeeCache: new Map<string, string>(),
+    channelCache: new Map<string, { id: string; name: string; platform: string }>(),
+    platformFields: getImportPlatformFields(await getPlatforms(prisma)),
+  }
+  const counts = {
+    submissionsCreated: job.submissionsCreated,
+    songsCreated: job.songsCreated,
+    rowsSkipped: job.rowsSkipped,
+  }
+  let rowsProcessed = 0
+
+  // Progress display only; the job row holds the real position and counters
+  const checkpoint = (nextRow: number) => updateImportSessionProgress(job.sessionId, nextRow)
+
+  console.log(`🚀 Import worker ${workerId} picked up session ${job.sessionId} at row ${job.nextRow + 1} of ${rows.length}`)
+
+  for (let rowIndex = job.nextRow; rowIndex < rows.length; rowIndex++) {
+    const session = await prisma.importSession.findUnique({
+      where: { id: job.sessionId },
+      select: { status: true },
+    })
+
+    if (session?.status === 'paused') {
+      await checkpoint(rowIndex)
+      await releaseImportJob(prisma, job.id, workerId)
+      console.log(`⏸️ Import ${job.sessionId} paused at row ${rowIndex + 1}`)
+      return { outcome: 'released', rowsProcessed }
+    }
+    if (session?.status !== 'in_progress') {
+      await checkpoint(rowIndex)
+      await finishImportJob(prisma, job.id, workerId, ImportJobStatus.CANCELLED)
+      console.log(`⏹️ Import ${job.sessionId} is ${session?.status || 'gone'}. Stopping at row ${rowIndex + 1}.`)
+      return { outcome: 'stopped', rowsProcessed }
+    }
+    if (deadline !== null && Date.now() >= deadline) {
+      await checkpoint(rowIndex)
+      await releaseImportJob(prisma, job.id, workerId)
+      return { outcome: 'released', rowsProcessed }
+    }
+
+    const row = rows[rowIndex]
+    let rowError: string | null = null
+
+    // Skip the row without importing it; false if another worker has taken the job
+    const skipRow = async () => {
+      const advanced = await prisma.importJob.updateMany({
+        where: { id: job.id, lockedBy: workerId },
+        data: {
+          nextRow: rowIndex + 1,
+          heartbeatAt: new Date(),
+          rowsSkipped: { increment: 1 },
+        },
+      })
+      if (advanced.count === 0) {
+        return false
+      }
+      counts.rowsSkipped++
+      return true
+    }
+
+    const validation = validateImportRow(row, mappings, validationSettings, caches.platformFields)
+
+    if (validation.errors > 0) {
+      rowError = formatValidationFailure(validation)
+      if (!(await skipRow())) {
+        return { outcome: 'stopped', rowsProcessed }
+      }
+    } else {
+      try {
+        await prisma.$transaction(async (tx: any) => {
+          const result = await processRow(row, rowIndex, mappings, tx, caches, job.sessionId)
+          if (result.success && result.releaseCreated && result.releaseId) {
+            await recordImportAttachment(tx, {
+              releaseId: result.releaseId,
+              sessionId: job.sessionId,
+              rowNumber: rowIndex + 1,
+              row,
+              mappings,
+              fileName: importSession?.fileName || 'import.csv',
+              fileKey: importSession?.sourceFileKey || null,
+            })
+          }
+          const delta = result.success
+            ? { submissionsCreated: result.releaseCreated ? 1 : 0, songsCreated: result.tracksCreated || 0, rowsSkipped: 0 }
+            : { submissionsCreated: 0, songsCreated: 0, rowsSkipped: 1 }
+
+          const advanced = await tx.importJob.updateMany({
+            where: { id: job.id, lockedBy: workerId },
+            data: {
+              nextRow: rowIndex + 1,
+              heartbeatAt: new Date(),
+              submissionsCreated: { increment: delta.submissionsCreated },
+              songsCreated: { increment: delta.songsCreated },
+              rowsSkipped: { increment: delta.rowsSkipped },
+            },
+          })
+          if (advanced.count === 0) {
+            throw new LostImportJobLockError()
+          }
+
+          counts.submissionsCreated += delta.submissionsCreated
+          counts.songsCreated += delta.songsCreated
+          counts.rowsSkipped += delta.rowsSkipped
+          if (!result.success) {
+            rowError = result.error || 'Unknown error'
+          }
+        }, {
+          timeout: 30000,
+          maxWait: 5000,
+        })
+      } catch (error: any) {
+        if (error instanceof LostImportJobLockError) {
+          console.warn(`Import worker ${workerId} lost session ${job.sessionId} at row ${rowIndex + 1}`)
+          return { outcome: 'stopped', rowsProcessed }
+        }
+
+        // The row's writes were rolled back; skip it and move on
+        console.error(`❌ Row ${rowIndex + 1} failed:`, error.message || 'Unknown error')
+        rowError = `Transaction failed: ${error.message || 'Unknown error'}`
+        if (!(await skipRow())) {
+          return { outcome: 'stopped', rowsProcessed }
+        }
+      }
+    }
+
+    rowsProcessed++
+
+    // Keep the row for the review queue
+    if (rowError) {
+      errors.push({ row: rowIndex + 1, message: rowError })
+      await recordImportRowIssue(prisma, { sessionId: job.sessionId, rowNumber: rowIndex + 1, row, error: rowError, mappings })
+    }
+
+    if ((rowIndex + 1) % CHECKPOINT_ROWS === 0) {
+      await checkpoint(rowIndex + 1)
+    }
+  }
+
+  await checkpoint(rows.length)
+  await finishImportJob(prisma, job.id, workerId, ImportJobStatus.COMPLETED)
+
+  console.log(`✅ Import complete: ${counts.submissionsCreated} created, ${counts.songsCreated} tracks, ${counts.rowsSkipped} skipped`)
+
+  await completeImportSession(job.sessionId, {
+    ...counts,
+    errors: errors.length > 0 ? errors : undefined,
+  })
+
+  return { outcome: 'completed', rowsProcessed }
+}
+
+/**
+ * Claim and run import jobs one after another until none are left or the
+ * time budget is spent. Pass `sessionId` to only work on that import.
+ */
+export async function runImportWorker(
+  prisma: any,
+  options: { sessionId?: string; timeBudgetMs?: number | null; workerId?: string } = {}
+): Promise<ImportWorkerResult> {
+  const workerId = options.workerId || createWorkerId()
+  const timeBudgetMs = options.timeBudgetMs === undefined ? DEFAULT_TIME_BUDGET_MS : options.timeBudgetMs
+  const deadline = timeBudgetMs ? Date.now() + timeBudgetMs : null
+  const result: ImportWorkerResult = { jobsRun: 0, rowsProcessed: 0, completed: 0, failed: 0, released: 0 }
+
+  while (deadline === null || Date.now() < deadline) {
+    const job = await claimImportJob(prisma, workerId, options.sessionId)
+    if (!job) {
+      break
+    }
+    result.jobsRun++
+
+    // A job that keeps killing its worker is given up on
+    if (job.attempts > job.maxAttempts) {
+      const message = `Import stopped after ${job.maxAttempts} failed attempts`
+      await finishImportJob(prisma, job.id, workerId, ImportJobStatus.FAILED, message)
+      await failImportSession(job.sessionId, message)
+      result.failed++
+      continue
+    }
+
+    try {
+      const run = await runImportJob(prisma, job, workerId, deadline)
+      result.rowsProcessed += run.rowsProcessed
+      if (run.outcome === 'completed') result.completed++
+      if (run.outcome === 'released') result.released++
+    } catch (error: any) {
+      const message = String(error?.message || error)
+      console.error(`Import job ${job.id} failed:`, message)
+
+      if (job.attempts >= job.maxAttempts) {
+        await finishImportJob(prisma, job.id, workerId, ImportJobStatus.FAILED, message)
+        await failImportSession(job.sessionId, message || 'Import processing failed')
+        result.failed++
+      } else {
+        // Leave it for the next run; attempts are only reset by a clean stop
+        await prisma.importJob.updateMany({
+          where: { id: job.id, lockedBy: workerId },
+          data: {
+            status: ImportJobStatus.QUEUED,
+            lockedBy: null,
+            lockedAt: null,
+            lastError: message.slice(0, 1000),
+          },
+        })
+      }
+
+      if (options.sessionId) {
+        break
+      }
+    }
+  }
+
+  return result
+}
+
+// Start working on a queued import without holding up the response
+export function startImportWorker(prisma: any, sessionId?: string) {
+  runImportWorker(prisma, { sessionId }).catch(error => {
+    console.error('Import worker failed:', error?.message || error)
+  })
+}
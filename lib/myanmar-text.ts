@@ -0,0 +1,78 @@
+// Helpers for Myanmar (Burmese) text coming in from spreadsheets and forms.
+// Legacy data is often Zawgyi, a font encoding that reuses Unicode code points
+// with different meanings, so the same name can be stored two different ways.
+
+import { ZawgyiConverter, ZawgyiDetector } from 'myanmar-tools'
+
+// Myanmar block, used to skip text with no Burmese in it
+const MYANMAR_CHARS = /[\u1000-\u109f]/
+
+// Detector probability above which text is treated as Zawgyi and converted
+export const ZAWGYI_PROBABILITY_THRESHOLD = 0.95
+
+// Built on first use; the detector loads a model
+let detector: ZawgyiDetector | null = null
+let converter: ZawgyiConverter | null = null
+
+export function containsMyanmar(text: string | null | undefined): boolean {
+  return !!text && MYANMAR_CHARS.test(text)
+}
+
+export function isLikelyZawgyi(text: string | null | undefined): boolean {
+  if (!text || !containsMyanmar(text)) return false
+  if (!detector) detector = new ZawgyiDetector()
+  return detector.getZawgyiProbability(text) >= ZAWGYI_PROBABILITY_THRESHOLD
+}
+
+/**
+ * Convert Zawgyi text to Unicode and put Unicode text in normalized (NFC)
+ * form, so the same name always compares equal. Text without Myanmar
+ * characters is returned unchanged.
+ */
+export function normalizeMyanmarText(text: string): string
+export function normalizeMyanmarText(text: string | null | undefined): string | null | undefined
+export function normalizeMyanmarText(text: string | null | undefined): string | null | undefined {
+  if (!text || !containsMyanmar(text)) return text
+
+  let unicode = text
+  if (isLikelyZawgyi(text)) {
+    if (!converter) converter = new ZawgyiConverter()
+    unicode = converter.zawgyiToUnicode(text)
+  }
+  return unicode.normalize('NFC')
+}
+
+/**
+ * Normalize every string in a request body (nested objects and arrays
+ * included). Values without Myanmar text, like IDs and emails, are untouched.
+ */
+export function normalizeMyanmarInput<T>(value: T): T {
+  if (typeof value === 'string') {
+    return normalizeMyanmarText(value) as unknown as T
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => normalizeMyanmarInput(item)) as unknown as T
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const normalized: Record<string, unknown> = {}
+    Object.keys(value).forEach(key => {
+      normalized[key] = normalizeMyanmarInput((value as Record<string, unknown>)[key])
+    })
+    return normalized as T
+  }
+  return value
+}
+
+/**
+ * Count the cells that look Zawgyi-encoded in a sample of records, so an
+ * import can tell the user their file is being converted.
+ */
+export function countZawgyiCells(records: string[][], sampleSize = 500): number {
+  let count = 0
+  for (const record of records.slice(0, sampleSize)) {
+    for (const cell of record) {
+      if (isLikelyZawgyi(cell)) count++
+    }
+  }
+  return count
+}
@@ -0,0 +1,333 @@
+import { NotificationType, UserRole } from '@prisma/client'
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  [NotificationType.ASSIGNMENT]: 'A&R assignments',
+  [NotificationType.PLATFORM_DECISION]: 'Platform decisions on my releases',
+  [NotificationType.SUBMISSION]: 'New client submissions',
+  [NotificationType.MENTION]: 'Mentions in comments',
+  [NotificationType.IMPORT_COMPLETED]: 'Import completed',
+  [NotificationType.IMPORT_FAILED]: 'Import failed',
+  [NotificationType.SLA_BREACH]: 'Overdue platform requests',
+}
+
+export type NotificationPreferences = Record<NotificationType, boolean>
+
+// Roles that hear about new client submissions
+export const SUBMISSION_NOTIFY_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.MANAGER, UserRole.A_R]
+
+// Roles overdue platform requests are escalated to
+export const SLA_ESCALATION_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.MANAGER]
+
+/**
+ * Read notification preferences from User.preferences.notifications.
+ * Types without a stored value are enabled.
+ */
+export function getNotificationPreferences(preferences: unknown): NotificationPreferences {
+  const stored = preferences && typeof preferences === 'object'
+    ? (preferences as Record<string, any>).notifications
+    : null
+
+  const result = {} as NotificationPreferences
+  for (const type of Object.values(NotificationType)) {
+    result[type] = stored && typeof stored[type] === 'boolean' ? stored[type] : true
+  }
+  return result
+}
+
+export interface NotificationInput {
+  type: NotificationType
+  title: string
+  message?: string | null
+  link?: string | null
+  releaseId?: string | null
+  actorId?: string | null
+}
+
+/**
+ * Notify users about an event, skipping the user who caused it and anyone who
+ * turned this type off. Never throws - a failed notification must not fail the
+ * request that triggered it. Returns the number of notifications created.
+ */
+export async function createNotifications(
+  prisma: any,
+  userIds: Array<string | null | undefined>,
+  input: NotificationInput
+): Promise<number> {
+  try {
+    const recipientIds = Array.from(new Set(userIds.filter((id): id is string => !!id)))
+      .filter(id => id !== input.actorId)
+
+    if (recipientIds.length === 0) {
+      return 0
+    }
+
+    const users: Array<{ id: string; preferences: unknown }> = await prisma.user.findMany({
+      where: { id: { in: recipientIds } },
+      select: { id: true, preferences: true },
+    })
+
+    const enabled = users.filter(user => getNotificationPreferences(user.preferences)[input.type])
+    if (enabled.length === 0) {
+      return 0
+    }
+
+    await prisma.notification.createMany({
+      data: enabled.map(user => ({
+        userId: user.id,
+        type: input.type,
+        title: input.title,
+        message: input.message || null,
+        link: input.link || null,
+        releaseId: input.releaseId || null,
+        actorId: input.actorId || null,
+      })),
+    })
+
+    return enabled.length
+  } catch (error: any) {
+    console.warn('Failed to create notifications:', error?.message || error)
+    return 0
+  }
+}
+
+// User IDs of everyone assigned as A&R on a release (multi-assignment and the legacy field)
+export async function getReleaseA_RUserIds(prisma: any, releaseId: string): Promise<string[]> {
+  const release = await prisma.release.findUnique({
+    where: { id: releaseId },
+    select: {
+      assignedA_R: { select: { userId: true } },
+      assignedA_Rs: {
+        select: {
+          employee: { select: { userId: true } },
+        },
+      },
+    },
+  })
+
+  if (!release) {
+    return []
+  }
+
+  const userIds: string[] = release.assignedA_Rs.map((ar: any) => ar.employee.userId)
+  if (release.assignedA_R) {
+    userIds.push(release.assignedA_R.userId)
+  }
+  return Array.from(new Set(userIds))
+}
+
+/**
+ * Notify employees about releases newly assigned to them. Assignments are grouped
+ * per employee so a bulk edit produces one notification each.
+ */
+export async function notifyA_RAssignments(
+  prisma: any,
+  assignments: Array<{ employeeId: string; releaseId: string; releaseTitle: string | null }>,
+  actorId: string
+): Promise<void> {
+  if (assignments.length === 0) {
+    return
+  }
+
+  try {
+    const employeeIds = Array.from(new Set(assignments.map(a => a.employeeId)))
+    const employees: Array<{ id: string; userId: string }> = await prisma.employee.findMany({
+      where: { id: { in: employeeIds } },
+      select: { id: true, userId: true },
+    })
+
+    for (const employee of employees) {
+      const releases = assignments.filter(a => a.employeeId === employee.id)
+      const single = releases.length === 1 ? releases[0] : null
+
+      await createNotifications(prisma, [employee.userId], {
+        type: NotificationType.ASSIGNMENT,
+        title: single
+          ? `You were assigned to "${single.releaseTitle || 'Untitled'}"`
+          : `You were assigned to ${releases.length} releases`,
+        link: single ? `/releases/${single.releaseId}` : '/ar/releases',
+        releaseId: single?.releaseId,
+        actorId,
+      })
+    }
+  } catch (error: any) {
+    console.warn('Failed to notify A&R assignments:', error?.message || error)
+  }
+}
+
+// Tell a release's assigned A&Rs that a platform team recorded a decision on it
+export async function notifyPlatformDecision(
+  prisma: any,
+  data: {
+    releaseId: string | null
+    platformName: string
+    status: string
+    channelName?: string | null
+    trackNames?: string[]
+    notes?: string | null
+    actorId: string
+  }
+): Promise<void> {
+  if (!data.releaseId) {
+    return
+  }
+
+  try {
+    const [release, userIds] = await Promise.all([
+      prisma.release.findUnique({
+        where: { id: data.releaseId },
+        select: { title: true },
+      }),
+      getReleaseA_RUserIds(prisma, data.releaseId),
+    ])
+
+    const channel = data.channelName ? ` (${data.channelName})` : ''
+    const tracks = data.trackNames || []
+    const track = tracks.length === 1 ? ` track "${tracks[0]}"` : tracks.length > 1 ? ` (${tracks.length} tracks)` : ''
+
+    await createNotifications(prisma, userIds, {
+      type: NotificationType.PLATFORM_DECISION,
+      title: `${data.platformName}${channel} marked "${release?.title || 'Untitled'}"${track} as ${data.status.toLowerCase()}`,
+      message: data.notes || null,
+      link: `/releases/${data.releaseId}`,
+      releaseId: data.releaseId,
+      actorId: data.actorId,
+    })
+  } catch (error: any) {
+    console.warn('Failed to notify platform decision:', error?.message || error)
+  }
+}
+
+// Tell a release's assigned A&Rs that a rejected platform request was fixed and resubmitted
+export async function notifyResubmission(
+  prisma: any,
+  data: { releaseId: string; platformName: string; notes: string; actorId?: string | null }
+): Promise<void> {
+  try {
+    const [release, userIds] = await Promise.all([
+      prisma.release.findUnique({
+        where: { id: data.releaseId },
+        select: { title: true },
+      }),
+      getReleaseA_RUserIds(prisma, data.releaseId),
+    ])
+
+    await createNotifications(prisma, userIds, {
+      type: NotificationType.PLATFORM_DECISION,
+      title: `"${release?.title || 'Untitled'}" was resubmitted to ${data.platformName}`,
+      message: data.notes,
+      link: `/releases/${data.releaseId}`,
+      releaseId: data.releaseId,
+      actorId: data.actorId,
+    })
+  } catch (error: any) {
+    console.warn('Failed to notify resubmission:', error?.message || error)
+  }
+}
+
+// Tell the A&R team about a new client submission
+export async function notifySubmission(
+  prisma: any,
+  data: { releaseId: string; releaseTitle: string | null; artistName: string; actorId?: string | null }
+): Promise<void> {
+  try {
+    const users: Array<{ id: string }> = await prisma.user.findMany({
+      where: { role: { in: SUBMISSION_NOTIFY_ROLES } },
+      select: { id: true },
+    })
+
+    await createNotifications(prisma, users.map(user => user.id), {
+      type: NotificationType.SUBMISSION,
+      title: `New submission: "${data.releaseTitle || 'Untitled'}"`,
+      message: `Submitted by ${data.artistName}`,
+      link: `/releases/${data.releaseId}`,
+      releaseId: data.releaseId,
+      actorId: data.actorId,
+    })
+  } catch (error: any) {
+    console.warn('Failed to notify submission:', error?.message || error)
+  }
+}
+
+// Tell users they were @mentioned in a release comment
+export async function notifyMentions(
+  prisma: any,
+  userIds: string[],
+  data: { releaseId: string; commentId: string; content: string; actorId: string }
+): Promise<void> {
+  if (userIds.length === 0) {
+    return
+  }
+
+  try {
+    const [release, author] = await Promise.all([
+      prisma.release.findUnique({
+        where: { id: data.releaseId },
+        select: { title: true },
+      }),
+      prisma.user.findUnique({
+        where: { id: data.actorId },
+        select: { name: true, email: true },
+      }),
+    ])
+
+    const excerpt = data.content.replace(/@\[([^\]]+)\]\([^)\s]+\)/g, '@$1')
+
+    await createNotifications(prisma, userIds, {
+      type: NotificationType.MENTION,
+      title: `${author?.name || author?.email || 'Someone'} mentioned you on "${release?.title || 'Untitled'}"`,
+      message: excerpt.length > 200 ? `${excerpt.slice(0, 200)}…` : excerpt,
+      link: `/releases/${data.releaseId}#comment-${data.commentId}`,
+      releaseId: data.releaseId,
+      actorId: data.actorId,
+    })
+  } catch (error: any) {
+    console.warn('Failed to notify mentions:', error?.message || error)
+  }
+}
+
+// Tell the user who started an import that it finished or failed
+export async function notifyImportFinished(
+  prisma: any,
+  session: { userId: string; fileName: string; status: string; error?: string | null },
+  result?: { submissionsCreated?: number; rowsSkipped?: number }
+): Promise<void> {
+  const failed = session.status === 'failed'
+
+  await createNotifications(prisma, [session.userId], {
+    type: failed ? NotificationType.IMPORT_FAILED : NotificationType.IMPORT_COMPLETED,
+    title: failed ? `Import of ${session.fileName} failed` : `Import of ${session.fileName} completed`,
+    message: failed
+      ? session.error || null
+      : result
+        ? `${result.submissionsCreated ?? 0} releases created, ${result.rowsSkipped ?? 0} rows skipped`
+        : null,
+    link: '/import-csv',
+  })
+}
+
+// Escalate requests that just went past their platform's SLA to managers
+export async function notifySlaBreaches(
+  prisma: any,
+  breaches: Array<{ platformName: string; count: number }>
+): Promise<void> {
+  const total = breaches.reduce((sum, breach) => sum + breach.count, 0)
+  if (total === 0) {
+    return
+  }
+
+  try {
+    const users: Array<{ id: string }> = await prisma.user.findMany({
+      where: { role: { in: SLA_ESCALATION_ROLES } },
+      select: { id: true },
+    })
+
+    await createNotifications(prisma, users.map(user => user.id), {
+      type: NotificationType.SLA_BREACH,
+      title: `${total} platform request${total === 1 ? '' : 's'} went overdue`,
+      message: breaches.map(breach => `${breach.platformName}: ${breach.count}`).join(', '),
+      link: '/dashboard#overdue-requests',
+    })
+  } catch (error: any) {
+    console.warn('Failed to notify SLA breaches:', error?.message || error)
+  }
+}
@@ -1,5 +1,6 @@
 import { UserRole } from '@prisma/client'
 import { prisma } from './db'
+import { getPlatforms, getPlatformUploadFieldKeys, isPlatformTeamRole, type PlatformConfig } from './platforms'
 
 export type EntityType = 'release' | 'track' | 'platform_request'
 
@@ -9,6 +10,42 @@ export interface FieldPermission {
   isRequired: boolean
 }
 
+export type FieldPermissionMap = Record<string, FieldPermission>
+
+// Permission field names (as shown in the admin field permission manager) mapped
+// to the record/request keys they govern. The first key is the stored column.
+export const PERMISSION_FIELD_KEYS: Record<EntityType, Record<string, string[]>> = {
+  release: {
+    title: ['title'],
+    releaseType: ['type'],
+    artistsChosenDate: ['artistsChosenDate'],
+    legacyReleaseDate: ['legacyReleaseDate'],
+    copyrightStatus: ['copyrightStatus'],
+    videoType: ['videoType'],
+    assignedA_RId: ['assignedA_RId', 'assignedA_R', 'assignedA_Rs', 'assignedA_RIds'],
+  },
+  track: {
+    name: ['name'],
+    trackNumber: ['trackNumber'],
+    performer: ['performer'],
+    composer: ['composer'],
+    band: ['band'],
+    musicProducer: ['musicProducer'],
+    studio: ['studio'],
+    recordLabel: ['recordLabel'],
+    genre: ['genre'],
+  },
+  platform_request: {
+    platform: ['platform'],
+    status: ['status'],
+    uploadLink: ['uploadLink', 'uploadVideoId'],
+    channelName: ['channelName'],
+    channelId: ['channelId', 'channel'],
+    requestedAt: ['createdAt'],
+    uploadedAt: ['uploadedAt'],
+  },
+}
+
 export async function getFieldPermission(
   fieldName: string,
   entityType: EntityType,
@@ -33,13 +70,170 @@ export async function getFieldPermission(
   }
 
   // Default permissions based on role
-  return getDefaultPermissions(role, entityType, fieldName)
+  return getDefaultPermissions(role, entityType, fieldName, await getTeamPlatforms(role))
+}
+
+/**
+ * Resolve every governed field for an entity type and role in one query,
+ * falling back to the role defaults for fields without a FieldPermission row.
+ */
+export async function getFieldPermissions(
+  entityType: EntityType,
+  role: UserRole
+): Promise<FieldPermissionMap> {
+  const [rows, teamPlatforms] = await Promise.all([
+    prisma.fieldPermission.findMany({
+      where: { entityType, role },
+    }),
+    getTeamPlatforms(role),
+  ])
+
+  const permissions: FieldPermissionMap = {}
+  for (const fieldName of Object.keys(PERMISSION_FIELD_KEYS[entityType])) {
+    permissions[fieldName] = getDefaultPermissions(role, entityType, fieldName, teamPlatforms)
+  }
+  for (const row of rows) {
+    permissions[row.fieldName] = {
+      canView: row.canView,
+      canEdit: row.canEdit,
+      isRequired: row.isRequired,
+    }
+  }
+
+  return permissions
+}
+
+function getFieldKeys(entityType: EntityType, fieldName: string): string[] {
+  return PERMISSION_FIELD_KEYS[entityType][fieldName] || [fieldName]
+}
+
+// Remove the keys of fields the role can't view from a record (returns a copy)
+export function stripNonViewableFields<T extends Record<string, any>>(
+  record: T,
+  entityType: EntityType,
+  permissions: FieldPermissionMap
+): T {
+  const result: Record<string, any> = { ...record }
+  for (const [fieldName, permission] of Object.entries(permissions)) {
+    if (permission.canView) continue
+    for (const key of getFieldKeys(entityType, fieldName)) {
+      delete result[key]
+    }
+  }
+  return result as T
+}
+
+function isEmptyFieldValue(value: unknown): boolean {
+  if (value === null || value === undefined) return true
+  if (typeof value === 'string') return value.trim() === '' || value === 'none'
+  if (Array.isArray(value)) return value.length === 0
+  return false
+}
+
+function normalizeFieldValue(value: unknown): string | null {
+  if (isEmptyFieldValue(value)) return null
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  // Compare dates sent as ISO strings with stored Date values
+  const toComparable = (value: unknown) => {
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+      const date = new Date(value)
+      if (!isNaN(date.getTime())) return date.toISOString()
+    }
+    return normalizeFieldValue(value)
+  }
+  return toComparable(a) === toComparable(b)
+}
+
+export interface FieldPermissionError {
+  error: string
+  status: 400 | 403
+  fields: string[]
+}
+
+/**
+ * Check an update against the role's field permissions.
+ * `changes` holds the new values keyed like the record; values equal to the
+ * existing ones are not treated as edits, so forms can send unchanged fields.
+ * Returns 403 for edits to non-editable fields, 400 when a required field
+ * would be left empty, or null when the update is allowed.
+ */
+export function checkFieldEdits(
+  entityType: EntityType,
+  permissions: FieldPermissionMap,
+  changes: Record<string, unknown>,
+  existing: Record<string, any>
+): FieldPermissionError | null {
+  const notEditable: string[] = []
+  const missingRequired: string[] = []
+
+  for (const [fieldName, permission] of Object.entries(permissions)) {
+    const keys = getFieldKeys(entityType, fieldName)
+    // Rows for fields this entity doesn't have (e.g. stale admin entries) don't apply
+    if (!keys.some(key => key in changes || key in existing)) continue
+
+    const changedKeys = keys.filter(key => key in changes && !valuesEqual(changes[key], existing[key]))
+
+    if (changedKeys.length > 0 && !permission.canEdit) {
+      notEditable.push(fieldName)
+    }
+
+    if (permission.isRequired) {
+      const values = keys.map(key => (key in changes ? changes[key] : existing[key]))
+      if (values.every(isEmptyFieldValue)) {
+        missingRequired.push(fieldName)
+      }
+    }
+  }
+
+  if (notEditable.length > 0) {
+    return {
+      error: `You do not have permission to edit: ${notEditable.join(', ')}`,
+      status: 403,
+      fields: notEditable,
+    }
+  }
+
+  if (missingRequired.length > 0) {
+    return {
+      error: `Required fields cannot be empty: ${missingRequired.join(', ')}`,
+      status: 400,
+      fields: missingRequired,
+    }
+  }
+
+  return null
+}
+
+// The registry platforms a platform role is the team for
+async function getTeamPlatforms(role: UserRole): Promise<PlatformConfig[]> {
+  if (!isPlatformTeamRole(role)) return []
+  const platforms = await getPlatforms(prisma, { includeInactive: true })
+  return platforms.filter(platform => platform.teamRole === role)
+}
+
+// Request fields a platform role can edit: the decision, and the upload fields its platforms use
+function getPlatformTeamEditableFields(teamPlatforms: PlatformConfig[]): string[] {
+  const fields = ['status', 'uploadedAt']
+  teamPlatforms.forEach(platform => {
+    getPlatformUploadFieldKeys(platform).forEach(key => {
+      fields.push(key)
+      // The channel is picked as an ID and name pair
+      if (key === 'channelId') fields.push('channelName')
+    })
+  })
+  return fields
 }
 
 function getDefaultPermissions(
   role: UserRole,
   entityType: EntityType,
-  fieldName: string
+  fieldName: string,
+  teamPlatforms: PlatformConfig[] = []
 ): FieldPermission {
   // Admin and Manager have full access
   if (role === UserRole.ADMIN || role === UserRole.MANAGER) {
@@ -67,18 +261,24 @@ function getDefaultPermissions(
     }
   }
 
-  // Platform teams can view and edit their platform-specific fields
-  const platformFields: Record<string, string[]> = {
-    [UserRole.PLATFORM_YOUTUBE]: ['youtube', 'channelName', 'channelId', 'uploadLink'],
-    [UserRole.PLATFORM_FLOW]: ['flow'],
-    [UserRole.PLATFORM_RINGTUNES]: ['ringtunes'],
-    [UserRole.PLATFORM_INTERNATIONAL_STREAMING]: ['international_streaming'],
-    [UserRole.PLATFORM_FACEBOOK]: ['facebook'],
-    [UserRole.PLATFORM_TIKTOK]: ['tiktok'],
+  // Platform teams work the requests for their own platforms (the routes restrict which
+  // requests they can reach). PLATFORM_TEAM users join platforms one by one, so they can
+  // update everything but the platform itself; a platform's role gets the fields the
+  // registry says that platform uses.
+  if (entityType === 'platform_request' && role === UserRole.PLATFORM_TEAM) {
+    return {
+      canView: true,
+      canEdit: fieldName !== 'platform' && fieldName !== 'requestedAt',
+      isRequired: false,
+    }
   }
 
-  if (platformFields[role]?.some(pf => fieldName.toLowerCase().includes(pf))) {
-    return { canView: true, canEdit: true, isRequired: false }
+  if (entityType === 'platform_request' && isPlatformTeamRole(role)) {
+    return {
+      canView: true,
+      canEdit: getPlatformTeamEditableFields(teamPlatforms).includes(fieldName),
+      isRequired: false,
+    }
   }
 
   // A&R and Data Team have broader access
@@ -0,0 +1,279 @@
+// Platform work queues: team members claim pending requests, leads assign and distribute them.
+// A claim lapses once its assignee hasn't worked the request for the platform's claimExpiryHours;
+// claimedAt is refreshed by the assignee's own edits only, never by system writes.
+
+import { PlatformRequestStatus, Prisma, PrismaClient } from '@prisma/client'
+import { getPlatforms } from './platforms'
+import type { PlatformConfig } from './platforms'
+
+const HOUR_MS = 60 * 60 * 1000
+
+export const DISTRIBUTION_STRATEGIES = [
+  { value: 'round_robin', label: 'Round-robin' },
+  { value: 'least_loaded', label: 'Current load' },
+] as const
+
+export type DistributionStrategy = (typeof DISTRIBUTION_STRATEGIES)[number]['value']
+
+// Most requests one distribution hands out; the rest wait for the next run
+export const MAX_DISTRIBUTION_BATCH = 200
+
+// Queue tabs on the platform page
+export type PlatformQueue = 'mine' | 'unclaimed'
+
+export interface QueueMember {
+  id: string
+  name: string | null
+  email: string
+}
+
+// Claims made or last worked before this are expired
+export function getClaimCutoff(platform: Pick<PlatformConfig, 'claimExpiryHours'>, now: Date): Date {
+  return new Date(now.getTime() - platform.claimExpiryHours * HOUR_MS)
+}
+
+export function isClaimActive(
+  request: { assigneeId: string | null; claimedAt: Date | string | null },
+  cutoff: Date
+): boolean {
+  if (!request.assigneeId || !request.claimedAt) return false
+  return new Date(request.claimedAt).getTime() >= cutoff.getTime()
+}
+
+// Where clauses matching isClaimActive, for a claim held by anyone or by one user
+export function activeClaimWhere(cutoff: Date, assigneeId?: string) {
+  return {
+    assigneeId: assigneeId || { not: null },
+    claimedAt: { gte: cutoff },
+  }
+}
+
+export function unclaimedWhere(cutoff: Date) {
+  return {
+    OR: [
+      { assigneeId: null },
+      { claimedAt: null },
+      { claimedAt: { lt: cutoff } },
+    ],
+  }
+}
+
+// Pending requests in a queue tab. Track requests are worked under their release's claim.
+export function queueWhere(queue: PlatformQueue, cutoff: Date, userId: string) {
+  return {
+    status: PlatformRequestStatus.PENDING,
+    parentRequestId: null,
+    ...(queue === 'mine' ? activeClaimWhere(cutoff, userId) : unclaimedWhere(cutoff)),
+  }
+}
+
+/**
+ * Who gets each request. Round-robin continues after the last user assigned
+ * last time; current load gives each request to whoever holds the fewest
+ * active claims, counting the ones just handed out. Ties go to the user
+ * listed first, so the same input always gives the same plan.
+ */
+export function planDistribution(
+  requestIds: string[],
+  userIds: string[],
+  strategy: DistributionStrategy,
+  options: { loads?: Record<string, number>; lastAssignedUserId?: string | null } = {}
+): Array<{ requestId: string; userId: string }> {
+  if (userIds.length === 0) return []
+
+  if (strategy === 'round_robin') {
+    const start = (userIds.indexOf(options.lastAssignedUserId || '') + 1) % userIds.length
+    return requestIds.map((requestId, index) => ({
+      requestId,
+      userId: userIds[(start + index) % userIds.length],
+    }))
+  }
+
+  const loads = new Map(userIds.map(userId => [userId, options.loads?.[userId] || 0]))
+  return requestIds.map(requestId => {
+    const userId = userIds.reduce((best, candidate) =>
+      loads.get(candidate)! < loads.get(best)! ? candidate : best
+    )
+    loads.set(userId, loads.get(userId)! + 1)
+    return { requestId, userId }
+  })
+}
+
+/**
+ * The people who work a platform: holders of its team role and its members.
+ * Admins and managers are left out unless added as members.
+ */
+export async function getPlatformTeam(prisma: PrismaClient | Prisma.TransactionClient, platform: PlatformConfig): Promise<QueueMember[]> {
+  return prisma.user.findMany({
+    where: {
+      OR: [
+        ...(platform.teamRole ? [{ role: platform.teamRole }] : []),
+        { id: { in: platform.memberIds } },
+      ],
+    },
+    select: { id: true, name: true, email: true },
+    orderBy: [{ name: 'asc' }, { email: 'asc' }, { id: 'asc' }],
+  })
+}
+
+// Claim pending requests that are unclaimed or already the user's. Returns how many were claimed.
+export async function claimRequests(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  platform: PlatformConfig,
+  requestIds: string[],
+  userId: string,
+  now: Date
+): Promise<number> {
+  const cutoff = getClaimCutoff(platform, now)
+  const result = await prisma.platformRequest.updateMany({
+    where: {
+      id: { in: requestIds },
+      platform: platform.slug,
+      status: PlatformRequestStatus.PENDING,
+      parentRequestId: null,
+      OR: [...unclaimedWhere(cutoff).OR, { assigneeId: userId }],
+    },
+    data: { assigneeId: userId, claimedAt: now },
+  })
+  return result.count
+}
+
+// Give pending requests to a team member, whoever holds them now
+export async function assignRequests(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  platform: PlatformConfig,
+  requestIds: string[],
+  assigneeId: string,
+  now: Date
+): Promise<number> {
+  const result = await prisma.platformRequest.updateMany({
+    where: {
+      id: { in: requestIds },
+      platform: platform.slug,
+      status: PlatformRequestStatus.PENDING,
+      parentRequestId: null,
+    },
+    data: { assigneeId, claimedAt: now },
+  })
+  return result.count
+}
+
+// Put requests back in the unclaimed queue; without a user, any claim is released
+export async function releaseRequests(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  platform: PlatformConfig,
+  requestIds: string[],
+  userId: string | null
+): Promise<number> {
+  const result = await prisma.platformRequest.updateMany({
+    where: {
+      id: { in: requestIds },
+      platform: platform.slug,
+      assigneeId: userId || { not: null },
+    },
+    data: { assigneeId: null, claimedAt: null },
+  })
+  return result.count
+}
+
+/**
+ * Hand the unclaimed pending requests, oldest first, to the platform team,
+ * up to MAX_DISTRIBUTION_BATCH at a time. Claims are written one update per
+ * member, each re-checking that the requests are still unclaimed, so someone
+ * claiming at the same time keeps their claim.
+ */
+export async function distributeRequests(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  platform: PlatformConfig,
+  strategy: DistributionStrategy,
+  now: Date,
+  options: { limit?: number } = {}
+): Promise<{ assigned: number; byUser: Record<string, number> }> {
+  const cutoff = getClaimCutoff(platform, now)
+  const team = await getPlatformTeam(prisma, platform)
+  if (team.length === 0) {
+    return { assigned: 0, byUser: {} }
+  }
+
+  const userIds = team.map(member => member.id)
+  const [requests, loadCounts] = await Promise.all([
+    prisma.platformRequest.findMany({
+      where: { platform: platform.slug, ...queueWhere('unclaimed', cutoff, '') },
+      select: { id: true },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: Math.min(options.limit || MAX_DISTRIBUTION_BATCH, MAX_DISTRIBUTION_BATCH),
+    }),
+    prisma.platformRequest.groupBy({
+      by: ['assigneeId'],
+      where: {
+        platform: platform.slug,
+        status: PlatformRequestStatus.PENDING,
+        ...activeClaimWhere(cutoff),
+      },
+      _count: true,
+    }),
+  ])
+
+  const loads: Record<string, number> = {}
+  loadCounts.forEach((row: { assigneeId: string | null; _count: number }) => {
+    if (row.assigneeId) loads[row.assigneeId] = row._count
+  })
+
+  const plan = planDistribution(
+    requests.map((request: { id: string }) => request.id),
+    userIds,
+    strategy,
+    { loads, lastAssignedUserId: platform.lastAssignedUserId }
+  )
+
+  const requestIdsByUser = new Map<string, string[]>()
+  plan.forEach(({ requestId, userId }) => {
+    const requestIds = requestIdsByUser.get(userId) || []
+    requestIds.push(requestId)
+    requestIdsByUser.set(userId, requestIds)
+  })
+
+  const byUser: Record<string, number> = {}
+  for (const [userId, requestIds] of Array.from(requestIdsByUser.entries())) {
+    const result = await prisma.platformRequest.updateMany({
+      where: { id: { in: requestIds }, ...unclaimedWhere(cutoff) },
+      data: { assigneeId: userId, claimedAt: now },
+    })
+    if (result.count > 0) {
+      byUser[userId] = result.count
+    }
+  }
+
+  // Round-robin carries on after the last member in the plan who got anything
+  const lastAssigned = plan.filter(({ userId }) => byUser[userId]).pop()
+  const lastAssignedUserId = lastAssigned ? lastAssigned.userId : platform.lastAssignedUserId
+
+  if (lastAssignedUserId !== platform.lastAssignedUserId) {
+    await prisma.platform.update({
+      where: { id: platform.id },
+      data: { lastAssignedUserId },
+    })
+  }
+
+  return { assigned: Object.values(byUser).reduce((sum, count) => sum + count, 0), byUser }
+}
+
+// Clear claims that lapsed so they stop showing against their old assignee
+export async function expireClaims(prisma: PrismaClient | Prisma.TransactionClient, now: Date = new Date()): Promise<number> {
+  const platforms = await getPlatforms(prisma, { includeInactive: true })
+  let expired = 0
+  for (const platform of platforms) {
+    const cutoff = getClaimCutoff(platform, now)
+    const result = await prisma.platformRequest.updateMany({
+      where: {
+        platform: platform.slug,
+        status: PlatformRequestStatus.PENDING,
+        assigneeId: { not: null },
+        ...unclaimedWhere(cutoff),
+      },
+      data: { assigneeId: null, claimedAt: null },
+    })
+    expired += result.count
+  }
+  return expired
+}
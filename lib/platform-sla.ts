@@ -0,0 +1,272 @@
+// Platform SLA targets: when a pending request is due, and the breaches recorded once it isn't met.
+// Everything that depends on the time takes `now`, so results are the same for a given clock.
+
+import { PlatformRequestStatus, Prisma, PrismaClient } from '@prisma/client'
+import { getPlatforms, getPlatformPath } from './platforms'
+import { notifySlaBreaches } from './notifications'
+import type { PlatformConfig } from './platforms'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export type PlatformSla = Pick<PlatformConfig, 'slaDays' | 'slaBeforeReleaseDate'>
+
+export interface SlaRequest {
+  status: PlatformRequestStatus
+  createdAt: Date | string
+  release?: { legacyReleaseDate: Date | string | null } | null
+}
+
+export interface RequestSla {
+  dueAt: Date | null
+  overdue: boolean
+}
+
+export interface OverdueRequest {
+  id: string
+  platform: string
+  platformName: string
+  platformPath: string
+  dueAt: Date
+  hoursOverdue: number
+  releaseId: string | null
+  releaseTitle: string | null
+  artistName: string | null
+  trackName: string | null
+}
+
+export function hasSla(platform: PlatformSla): boolean {
+  return platform.slaDays !== null || platform.slaBeforeReleaseDate
+}
+
+// Only pending requests are on the clock; rejected ones are waiting on the client
+export function isOnSlaClock(status: PlatformRequestStatus): boolean {
+  return status === PlatformRequestStatus.PENDING
+}
+
+/**
+ * When a request has to be uploaded by: slaDays after it was requested, or
+ * the release's legacy release date when the platform counts it and it's
+ * sooner. Null when neither applies.
+ */
+export function getSlaDueAt(
+  platform: PlatformSla,
+  request: Pick<SlaRequest, 'createdAt' | 'release'>
+): Date | null {
+  const candidates: number[] = []
+  if (platform.slaDays !== null) {
+    candidates.push(new Date(request.createdAt).getTime() + platform.slaDays * DAY_MS)
+  }
+  if (platform.slaBeforeReleaseDate && request.release?.legacyReleaseDate) {
+    candidates.push(new Date(request.release.legacyReleaseDate).getTime())
+  }
+  return candidates.length > 0 ? new Date(Math.min(...candidates)) : null
+}
+
+export function getRequestSla(platform: PlatformSla, request: SlaRequest, now: Date): RequestSla {
+  const dueAt = getSlaDueAt(platform, request)
+  return {
+    dueAt,
+    overdue: !!dueAt && isOnSlaClock(request.status) && dueAt.getTime() < now.getTime(),
+  }
+}
+
+export function getHoursOverdue(dueAt: Date, now: Date): number {
+  return Math.max(0, Math.floor((now.getTime() - dueAt.getTime()) / HOUR_MS))
+}
+
+/**
+ * Where clause for pending requests past their due date on the given
+ * platforms. Matches exactly the requests getRequestSla flags as overdue.
+ */
+export function buildOverdueWhere(platforms: Array<PlatformSla & { slug: string }>, now: Date) {
+  const clauses = platforms.filter(hasSla).map(platform => {
+    const conditions: Prisma.PlatformRequestWhereInput[] = []
+    if (platform.slaDays !== null) {
+      conditions.push({ createdAt: { lt: new Date(now.getTime() - platform.slaDays * DAY_MS) } })
+    }
+    if (platform.slaBeforeReleaseDate) {
+      conditions.push({ release: { legacyReleaseDate: { lt: now } } })
+    }
+    return { platform: platform.slug, OR: conditions }
+  })
+
+  return {
+    status: PlatformRequestStatus.PENDING,
+    // Track requests are late along with their release's request
+    parentRequestId: null,
+    // An empty OR matches nothing, which is right when no platform has a target
+    OR: clauses,
+  }
+}
+
+// Fields needed to work out a request's due date and list it
+const overdueRequestSelect = {
+  id: true,
+  platform: true,
+  status: true,
+  createdAt: true,
+  releaseId: true,
+  release: {
+    select: {
+      title: true,
+      legacyReleaseDate: true,
+      artist: { select: { name: true } },
+    },
+  },
+  track: { select: { name: true } },
+} as const
+
+/**
+ * The overdue requests that can be among the `limit` most overdue: per
+ * platform, the first `limit` by each date its due date comes from. A request
+ * due sooner than these would itself be first by one of those dates.
+ */
+async function loadOverdueCandidates(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  platforms: PlatformConfig[],
+  now: Date,
+  limit: number
+) {
+  const queries = platforms.flatMap(platform => {
+    const where = buildOverdueWhere([platform], now)
+    const orders: Prisma.PlatformRequestOrderByWithRelationInput[][] = []
+    if (platform.slaDays !== null) {
+      orders.push([{ createdAt: 'asc' }, { id: 'asc' }])
+    }
+    if (platform.slaBeforeReleaseDate) {
+      orders.push([{ release: { legacyReleaseDate: 'asc' } }, { id: 'asc' }])
+    }
+    return orders.map(orderBy =>
+      prisma.platformRequest.findMany({ where, select: overdueRequestSelect, orderBy, take: limit })
+    )
+  })
+
+  const candidates = (await Promise.all(queries)).flat()
+  return Array.from(new Map(candidates.map(request => [request.id, request])).values())
+}
+
+/**
+ * Overdue requests across all platforms, most overdue first.
+ * Used for the managers' escalation list; with a limit, only a bounded set of
+ * candidates is loaded and the total is counted.
+ */
+export async function getOverdueRequests(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  now: Date,
+  options: { limit?: number } = {}
+): Promise<{ total: number; requests: OverdueRequest[] }> {
+  const platforms = (await getPlatforms(prisma, { includeInactive: true })).filter(hasSla)
+  if (platforms.length === 0) {
+    return { total: 0, requests: [] }
+  }
+
+  const where = buildOverdueWhere(platforms, now)
+  const requests = options.limit
+    ? await loadOverdueCandidates(prisma, platforms, now, options.limit)
+    : await prisma.platformRequest.findMany({ where, select: overdueRequestSelect })
+  const total = options.limit ? await prisma.platformRequest.count({ where }) : requests.length
+
+  const platformsBySlug = new Map(platforms.map(platform => [platform.slug, platform]))
+  const overdue = requests
+    .map(request => {
+      const platform = platformsBySlug.get(request.platform)!
+      const dueAt = getSlaDueAt(platform, request)!
+      return {
+        id: request.id,
+        platform: platform.slug,
+        platformName: platform.name,
+        platformPath: getPlatformPath(platform.slug),
+        dueAt,
+        hoursOverdue: getHoursOverdue(dueAt, now),
+        releaseId: request.releaseId,
+        releaseTitle: request.release?.title || null,
+        artistName: request.release?.artist?.name || null,
+        trackName: request.track?.name || null,
+      }
+    })
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime() || a.id.localeCompare(b.id))
+
+  return {
+    total,
+    requests: options.limit ? overdue.slice(0, options.limit) : overdue,
+  }
+}
+
+/**
+ * Record a breach for every request that is overdue now, and resolve the
+ * open breaches that no longer are (uploaded, rejected, or a due date that
+ * moved). Managers are notified about new breaches. Safe to run repeatedly.
+ */
+export async function recordSlaBreaches(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  now: Date = new Date()
+): Promise<{ overdue: number; breached: number; resolved: number }> {
+  const { requests } = await getOverdueRequests(prisma, now)
+  const key = (breach: { platformRequestId: string; dueAt: Date }) =>
+    `${breach.platformRequestId}:${breach.dueAt.getTime()}`
+
+  const current = requests.map(request => ({
+    platformRequestId: request.id,
+    platform: request.platform,
+    dueAt: request.dueAt,
+  }))
+  const currentKeys = new Set(current.map(key))
+
+  // Open breaches, plus resolved ones of requests that went back to pending
+  const knownBreaches: Array<{ id: string; platformRequestId: string; dueAt: Date; resolvedAt: Date | null }> =
+    await prisma.platformSlaBreach.findMany({
+      where: {
+        OR: [
+          { resolvedAt: null },
+          { platformRequestId: { in: current.map(breach => breach.platformRequestId) } },
+        ],
+      },
+      select: { id: true, platformRequestId: true, dueAt: true, resolvedAt: true },
+    })
+  const knownByKey = new Map(knownBreaches.map(breach => [key(breach), breach]))
+
+  const newBreaches = current.filter(breach => {
+    const known = knownByKey.get(key(breach))
+    return !known || known.resolvedAt !== null
+  })
+  const reopenIds = newBreaches
+    .map(breach => knownByKey.get(key(breach))?.id)
+    .filter((id): id is string => !!id)
+  const staleIds = knownBreaches
+    .filter(breach => breach.resolvedAt === null && !currentKeys.has(key(breach)))
+    .map(breach => breach.id)
+
+  const created = newBreaches.filter(breach => !knownByKey.has(key(breach)))
+  if (created.length > 0) {
+    await prisma.platformSlaBreach.createMany({
+      data: created.map(breach => ({ ...breach, detectedAt: now })),
+      skipDuplicates: true,
+    })
+  }
+  if (reopenIds.length > 0) {
+    await prisma.platformSlaBreach.updateMany({
+      where: { id: { in: reopenIds } },
+      data: { resolvedAt: null, detectedAt: now },
+    })
+  }
+  if (staleIds.length > 0) {
+    await prisma.platformSlaBreach.updateMany({
+      where: { id: { in: staleIds } },
+      data: { resolvedAt: now },
+    })
+  }
+
+  const platformNames = new Map(requests.map(request => [request.platform, request.platformName]))
+  const counts = new Map<string, number>()
+  newBreaches.forEach(breach => {
+    const platformName = platformNames.get(breach.platform) || breach.platform
+    counts.set(platformName, (counts.get(platformName) || 0) + 1)
+  })
+  await notifySlaBreaches(
+    prisma,
+    Array.from(counts.entries()).map(([platformName, count]) => ({ platformName, count }))
+  )
+
+  return { overdue: requests.length, breached: newBreaches.length, resolved: staleIds.length }
+}
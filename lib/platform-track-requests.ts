@@ -0,0 +1,135 @@
+// Track requests: on platforms that upload an album song by song, each track gets its own
+// request under the release's request, and the release's status rolls up from its tracks.
+
+import { PlatformRequestStatus, Prisma, PrismaClient } from '@prisma/client'
+
+export interface TrackRollup {
+  total: number
+  pending: number
+  uploaded: number
+  rejected: number
+}
+
+export function summarizeTracks(statuses: PlatformRequestStatus[]): TrackRollup {
+  return {
+    total: statuses.length,
+    pending: statuses.filter(status => status === PlatformRequestStatus.PENDING).length,
+    uploaded: statuses.filter(status =>
+      status === PlatformRequestStatus.UPLOADED || status === PlatformRequestStatus.APPROVED
+    ).length,
+    rejected: statuses.filter(status => status === PlatformRequestStatus.REJECTED).length,
+  }
+}
+
+/**
+ * The release's status from its tracks: pending while any track is, so it stays
+ * in the queue; then rejected while any track is, so a release with one track
+ * left out needs attention; uploaded only once every track went up.
+ */
+export function rollupStatus(statuses: PlatformRequestStatus[]): PlatformRequestStatus {
+  const summary = summarizeTracks(statuses)
+  if (summary.pending > 0) return PlatformRequestStatus.PENDING
+  return summary.rejected > 0 ? PlatformRequestStatus.REJECTED : PlatformRequestStatus.UPLOADED
+}
+
+/**
+ * Whether a track decision is emailed to the submitter. Every rejection is,
+ * since it needs fixing; uploads only once the whole release has rolled up.
+ */
+export function shouldEmailTrackDecision(
+  status: PlatformRequestStatus | string,
+  rollup: { to: PlatformRequestStatus } | null
+): boolean {
+  if (status === PlatformRequestStatus.REJECTED) return true
+  return status === PlatformRequestStatus.UPLOADED && rollup?.to === PlatformRequestStatus.UPLOADED
+}
+
+/**
+ * Give release requests on a track-request platform a request per track. Only
+ * releases with more than one track are split; tracks that already have a
+ * request are skipped, and new ones start from the release request's status.
+ * Returns how many track requests were created.
+ */
+export async function createTrackRequests(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  where: { platform: string; releaseId?: string | { in: string[] }; status?: PlatformRequestStatus }
+): Promise<number> {
+  const releaseRequests = await prisma.platformRequest.findMany({
+    where: {
+      ...where,
+      releaseId: where.releaseId || { not: null },
+      trackId: null,
+      parentRequestId: null,
+    },
+    select: {
+      id: true,
+      releaseId: true,
+      platform: true,
+      requested: true,
+      status: true,
+      uploadedAt: true,
+      channelId: true,
+      channelName: true,
+      trackRequests: { select: { trackId: true } },
+      release: { select: { tracks: { select: { id: true }, orderBy: { trackNumber: 'asc' } } } },
+    },
+  })
+
+  let created = 0
+  for (const request of releaseRequests) {
+    const tracks: Array<{ id: string }> = request.release?.tracks || []
+    if (tracks.length < 2) continue
+
+    const existing = new Set(request.trackRequests.map((trackRequest: { trackId: string | null }) => trackRequest.trackId))
+    const missing = tracks.filter(track => !existing.has(track.id))
+    if (missing.length === 0) continue
+
+    const result = await prisma.platformRequest.createMany({
+      data: missing.map(track => ({
+        releaseId: request.releaseId,
+        trackId: track.id,
+        parentRequestId: request.id,
+        platform: request.platform,
+        requested: request.requested,
+        status: request.status,
+        uploadedAt: request.uploadedAt,
+        channelId: request.channelId,
+        channelName: request.channelName,
+      })),
+    })
+    created += result.count
+  }
+  return created
+}
+
+/**
+ * Set a release request's status from its tracks. Returns the change, or null
+ * when the request has no tracks or its status already matches.
+ */
+export async function rollupReleaseRequest(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  parentRequestId: string,
+  now: Date = new Date()
+): Promise<{ from: PlatformRequestStatus; to: PlatformRequestStatus } | null> {
+  const parent = await prisma.platformRequest.findUnique({
+    where: { id: parentRequestId },
+    select: {
+      status: true,
+      uploadedAt: true,
+      trackRequests: { select: { status: true } },
+    },
+  })
+  if (!parent || parent.trackRequests.length === 0) return null
+
+  const status = rollupStatus(parent.trackRequests.map((track: { status: PlatformRequestStatus }) => track.status))
+  if (status === parent.status) return null
+
+  await prisma.platformRequest.update({
+    where: { id: parentRequestId },
+    data: {
+      status,
+      uploadedAt: status === PlatformRequestStatus.UPLOADED ? parent.uploadedAt || now : null,
+    },
+  })
+  return { from: parent.status, to: status }
+}
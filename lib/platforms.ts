@@ -0,0 +1,180 @@
+// The platform registry: which platforms requests can go to and who works them
+
+import { Prisma, PrismaClient, UserRole } from '@prisma/client'
+
+export interface PlatformConfig {
+  id: string
+  slug: string
+  name: string
+  supportsChannels: boolean
+  requiredUploadFields: string[]
+  teamRole: UserRole | null
+  // Days a pending request has to be uploaded in, and whether the release date can make it sooner
+  slaDays: number | null
+  slaBeforeReleaseDate: boolean
+  claimExpiryHours: number
+  lastAssignedUserId: string | null
+  // Albums get a request per track that the release's request rolls up from
+  trackRequests: boolean
+  active: boolean
+  sortOrder: number
+  memberIds: string[]
+  // Members who assign and distribute the queue
+  leadIds: string[]
+}
+
+// Request fields a platform can require before a request is marked uploaded
+export const PLATFORM_UPLOAD_FIELDS = [
+  { key: 'uploadLink', label: 'Upload link' },
+  { key: 'channelId', label: 'Channel' },
+]
+
+// The platforms the app started with, added by the seed script or from the admin platforms page
+export const DEFAULT_PLATFORMS = [
+  { slug: 'youtube', name: 'YouTube', supportsChannels: true, trackRequests: true, teamRole: UserRole.PLATFORM_YOUTUBE },
+  { slug: 'flow', name: 'Flow', supportsChannels: false, teamRole: UserRole.PLATFORM_FLOW },
+  { slug: 'ringtunes', name: 'Ringtunes', supportsChannels: false, teamRole: UserRole.PLATFORM_RINGTUNES },
+  {
+    slug: 'international_streaming',
+    name: 'International Streaming',
+    supportsChannels: false,
+    teamRole: UserRole.PLATFORM_INTERNATIONAL_STREAMING,
+  },
+  { slug: 'facebook', name: 'Facebook', supportsChannels: true, teamRole: UserRole.PLATFORM_FACEBOOK },
+  { slug: 'tiktok', name: 'TikTok', supportsChannels: false, teamRole: UserRole.PLATFORM_TIKTOK },
+].map((platform, index) => ({ ...platform, requiredUploadFields: [] as string[], sortOrder: index }))
+
+// Upload fields a platform's team fills in: the link, the channel where the platform has
+// channels, and whatever else it requires
+export function getPlatformUploadFieldKeys(platform: PlatformConfig): string[] {
+  const keys = ['uploadLink', ...platform.requiredUploadFields]
+  if (platform.supportsChannels) keys.push('channelId')
+  return PLATFORM_UPLOAD_FIELDS.map(field => field.key).filter(key => keys.includes(key))
+}
+
+// Keep only the upload fields the registry knows about
+export function normalizeRequiredUploadFields(fields: unknown): string[] {
+  if (!Array.isArray(fields)) return []
+  return PLATFORM_UPLOAD_FIELDS.map(field => field.key).filter(key => fields.includes(key))
+}
+
+// Whole days, or null for no target; anything else is rejected
+export function parseSlaDays(value: unknown): number | null | undefined {
+  if (value === null || value === '') return null
+  const days = Number(value)
+  return Number.isInteger(days) && days > 0 ? days : undefined
+}
+
+// Whole hours of at least one
+export function parseClaimExpiryHours(value: unknown): number | undefined {
+  const hours = Number(value)
+  return Number.isInteger(hours) && hours > 0 ? hours : undefined
+}
+
+// Roles a platform can be tied to; PLATFORM_TEAM users are added as members instead
+export function isPlatformTeamRole(role: string): boolean {
+  return role.startsWith('PLATFORM_') && role !== UserRole.PLATFORM_TEAM && role in UserRole
+}
+
+// Roles that work every platform's requests
+const PLATFORM_MANAGER_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.MANAGER, UserRole.A_R]
+
+function toPlatformConfig(platform: any): PlatformConfig {
+  return {
+    id: platform.id,
+    slug: platform.slug,
+    name: platform.name,
+    supportsChannels: platform.supportsChannels,
+    requiredUploadFields: platform.requiredUploadFields || [],
+    teamRole: platform.teamRole,
+    slaDays: platform.slaDays ?? null,
+    slaBeforeReleaseDate: !!platform.slaBeforeReleaseDate,
+    claimExpiryHours: platform.claimExpiryHours ?? 24,
+    lastAssignedUserId: platform.lastAssignedUserId ?? null,
+    trackRequests: !!platform.trackRequests,
+    active: platform.active,
+    sortOrder: platform.sortOrder,
+    memberIds: (platform.members || []).map((member: { userId: string }) => member.userId),
+    leadIds: (platform.members || [])
+      .filter((member: { isLead?: boolean }) => member.isLead)
+      .map((member: { userId: string }) => member.userId),
+  }
+}
+
+/**
+ * Platforms in display order. Inactive platforms are left out unless asked
+ * for; their existing requests can still be opened by slug.
+ */
+export async function getPlatforms(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  options: { includeInactive?: boolean } = {}
+): Promise<PlatformConfig[]> {
+  const platforms = await prisma.platform.findMany({
+    where: options.includeInactive ? {} : { active: true },
+    include: { members: { select: { userId: true, isLead: true } } },
+    orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+  })
+
+  return platforms.map(toPlatformConfig)
+}
+
+export async function getPlatformBySlug(prisma: PrismaClient | Prisma.TransactionClient, slug: string): Promise<PlatformConfig | null> {
+  const platforms = await getPlatforms(prisma, { includeInactive: true })
+  return platforms.find(platform => platform.slug === slug) || null
+}
+
+// URL segment of a platform's portal: "international_streaming" -> "international-streaming"
+export function getPlatformPath(slug: string): string {
+  return slug.replace(/_/g, '-')
+}
+
+export function findPlatformByPath(platforms: PlatformConfig[], path: string): PlatformConfig | null {
+  return platforms.find(platform => getPlatformPath(platform.slug) === path) || null
+}
+
+// Team members hold the platform's role or were added to it
+export function isPlatformTeamMember(
+  platform: PlatformConfig,
+  user: { id: string; role: UserRole }
+): boolean {
+  return (!!platform.teamRole && platform.teamRole === user.role) || platform.memberIds.includes(user.id)
+}
+
+// Admins, managers and A&R work every platform; everyone else only their team's
+export function canUpdatePlatformRequests(
+  platform: PlatformConfig,
+  user: { id: string; role: UserRole }
+): boolean {
+  return PLATFORM_MANAGER_ROLES.includes(user.role) || isPlatformTeamMember(platform, user)
+}
+
+// Admins and managers lead every platform; members can be made leads of theirs
+export function isPlatformLead(
+  platform: PlatformConfig,
+  user: { id: string; role: UserRole }
+): boolean {
+  return user.role === UserRole.ADMIN || user.role === UserRole.MANAGER || platform.leadIds.includes(user.id)
+}
+
+export function getUserPlatforms(
+  platforms: PlatformConfig[],
+  user: { id: string; role: UserRole }
+): PlatformConfig[] {
+  return platforms.filter(platform => isPlatformTeamMember(platform, user))
+}
+
+/**
+ * Labels of the platform's required upload fields a request is missing.
+ * A channel counts when either its ID or name is set.
+ */
+export function getMissingUploadFields(
+  platform: PlatformConfig,
+  request: { uploadLink?: string | null; channelId?: string | null; channelName?: string | null }
+): string[] {
+  return PLATFORM_UPLOAD_FIELDS
+    .filter(field => platform.requiredUploadFields.includes(field.key))
+    .filter(field => field.key === 'channelId'
+      ? !request.channelId && !request.channelName
+      : !request.uploadLink || !request.uploadLink.trim())
+    .map(field => field.label)
+}
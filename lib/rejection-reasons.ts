@@ -0,0 +1,171 @@
+import { PlatformRequestStatus } from '@prisma/client'
+import { rollupReleaseRequest } from './platform-track-requests'
+
+// Starting taxonomy, seeded for every platform. Admins can add platform-specific reasons.
+export const DEFAULT_REJECTION_REASONS = [
+  {
+    code: 'copyright_claim',
+    label: 'Copyright claim',
+    description: 'The platform found a copyright claim on this audio. Send proof that you own or licensed the rights, or replace the audio.',
+  },
+  {
+    code: 'audio_quality',
+    label: 'Audio quality',
+    description: 'The audio file did not meet quality requirements (clipping, low bitrate or silence). Provide a new master.',
+  },
+  {
+    code: 'metadata_mismatch',
+    label: 'Metadata mismatch',
+    description: 'Titles, artist names or credits do not match the audio or artwork. Check the spelling of every name and title.',
+  },
+  {
+    code: 'missing_artwork',
+    label: 'Missing or invalid artwork',
+    description: 'Cover artwork is missing, too small or contains text that is not allowed. Provide square artwork of at least 3000x3000 pixels.',
+  },
+  {
+    code: 'duplicate_content',
+    label: 'Duplicate content',
+    description: 'This release already exists on the platform.',
+  },
+  {
+    code: 'content_policy',
+    label: 'Content policy',
+    description: 'The content does not comply with the platform content policy.',
+  },
+  {
+    code: 'other',
+    label: 'Other',
+    description: null,
+  },
+]
+
+export interface RejectionReasonOption {
+  id: string
+  platform: string | null
+  code: string
+  label: string
+  description: string | null
+}
+
+export const rejectionReasonSelect = {
+  id: true,
+  platform: true,
+  code: true,
+  label: true,
+  description: true,
+}
+
+// Active reasons that apply to a platform: its own plus the ones shared by every platform
+export async function getRejectionReasons(prisma: any, platform: string): Promise<RejectionReasonOption[]> {
+  return prisma.rejectionReason.findMany({
+    where: {
+      active: true,
+      OR: [{ platform: null }, { platform }],
+    },
+    select: rejectionReasonSelect,
+    orderBy: [{ sortOrder: 'asc' }, { label: 'asc' }],
+  })
+}
+
+/**
+ * Validate the rejection reason sent with a status change. Returns an error
+ * message, or null when the reason is acceptable. A reason is required for
+ * rejections once the platform has any reasons configured.
+ */
+export async function validateRejectionReason(
+  prisma: any,
+  platform: string,
+  status: string | undefined,
+  rejectionReasonId: string | null | undefined
+): Promise<string | null> {
+  if (status !== PlatformRequestStatus.REJECTED) {
+    return rejectionReasonId ? 'A rejection reason can only be given when rejecting' : null
+  }
+
+  const reasons = await getRejectionReasons(prisma, platform)
+  if (!rejectionReasonId) {
+    return reasons.length > 0 ? 'A rejection reason is required' : null
+  }
+
+  if (!reasons.some(reason => reason.id === rejectionReasonId)) {
+    return 'Invalid rejection reason for this platform'
+  }
+
+  return null
+}
+
+// Include for decision history with the reason and the rejection a resubmission answers
+export const decisionHistoryInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+  rejectionReason: {
+    select: rejectionReasonSelect,
+  },
+  resubmissionOf: {
+    select: {
+      id: true,
+      createdAt: true,
+      rejectionReason: {
+        select: { label: true },
+      },
+    },
+  },
+}
+
+/**
+ * Send a rejected request back to the platform team. The new PENDING decision
+ * links to the rejection it answers so the history reads as one thread.
+ */
+export async function resubmitPlatformRequest(
+  prisma: any,
+  data: {
+    platformRequestId: string
+    notes: string | null
+    userId?: string | null
+    submitterEmail?: string | null
+  }
+) {
+  const lastRejection = await prisma.platformDecision.findFirst({
+    where: {
+      platformRequestId: data.platformRequestId,
+      status: PlatformRequestStatus.REJECTED,
+    },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true },
+  })
+
+  return prisma.$transaction(async (tx: any) => {
+    const platformRequest = await tx.platformRequest.update({
+      where: { id: data.platformRequestId },
+      data: {
+        status: PlatformRequestStatus.PENDING,
+        uploadedAt: null,
+        resubmissionCount: { increment: 1 },
+      },
+    })
+
+    const decision = await tx.platformDecision.create({
+      data: {
+        platformRequestId: data.platformRequestId,
+        userId: data.userId || null,
+        submitterEmail: data.userId ? null : data.submitterEmail || null,
+        status: PlatformRequestStatus.PENDING,
+        notes: data.notes,
+        resubmissionOfId: lastRejection?.id || null,
+      },
+    })
+
+    // A resubmitted track puts its release back in review
+    if (platformRequest.parentRequestId) {
+      await rollupReleaseRequest(tx, platformRequest.parentRequestId)
+    }
+
+    return { platformRequest, decision }
+  })
+}
@@ -0,0 +1,232 @@
+import { Prisma } from '@prisma/client'
+import { normalizeMyanmarText } from './myanmar-text'
+
+// Upper bound for "select all matching" and the bulk endpoints that act on it
+export const MAX_BULK_RELEASES = 5000
+
+// Filter params shared by the releases page, the A&R releases page and the
+// bulk endpoints (bulk-update, filtered-ids, filter-options). Values come
+// straight from the URL, so every field is an optional string and 'all'
+// means "no filter".
+export interface ReleaseFilterParams {
+  search?: string
+  type?: string
+  platform?: string
+  channel?: string
+  status?: string
+  performer?: string
+  composer?: string
+  band?: string
+  studio?: string
+  label?: string
+  genre?: string
+  startDate?: string
+  endDate?: string
+  assignedAR?: string
+  copyrightStatus?: string
+  videoType?: string
+  artist?: string
+  missingArtist?: string
+}
+
+export const RELEASE_FILTER_KEYS: Array<keyof ReleaseFilterParams> = [
+  'search',
+  'type',
+  'platform',
+  'channel',
+  'status',
+  'performer',
+  'composer',
+  'band',
+  'studio',
+  'label',
+  'genre',
+  'startDate',
+  'endDate',
+  'assignedAR',
+  'copyrightStatus',
+  'videoType',
+  'artist',
+  'missingArtist',
+]
+
+function isActive(value: string | undefined): value is string {
+  return !!value && value !== 'all'
+}
+
+/**
+ * Read the release filter params out of URLSearchParams (API routes) or a
+ * plain object (JSON bodies). Unknown keys are ignored.
+ */
+export function parseReleaseFilterParams(
+  source: URLSearchParams | Record<string, unknown> | null | undefined
+): ReleaseFilterParams {
+  const params: ReleaseFilterParams = {}
+  if (!source) return params
+
+  for (const key of RELEASE_FILTER_KEYS) {
+    const value = source instanceof URLSearchParams ? source.get(key) : source[key]
+    if (typeof value === 'string' && value !== '') {
+      params[key] = value
+    }
+  }
+  return params
+}
+
+/**
+ * Build the Prisma where clause for a set of release filters.
+ * Pass `omit` to leave one filter out, which is what facet counts need
+ * (the count for each performer ignores the currently selected performer).
+ */
+export function buildReleaseWhere(
+  params: ReleaseFilterParams,
+  omit: Array<keyof ReleaseFilterParams> = []
+): Prisma.ReleaseWhereInput {
+  const p: ReleaseFilterParams = { ...params }
+  for (const key of omit) {
+    delete p[key]
+  }
+
+  const where: Prisma.ReleaseWhereInput = {}
+  const and: Prisma.ReleaseWhereInput[] = []
+
+  // Search filter - optimized for large datasets
+  if (p.search) {
+    // Zawgyi searches also match Unicode titles, and the other way round until data is backfilled
+    const terms = Array.from(new Set([p.search, normalizeMyanmarText(p.search)]))
+    and.push({
+      OR: terms.flatMap((term): Prisma.ReleaseWhereInput[] => [
+        { title: { contains: term, mode: 'insensitive' } },
+        { artist: { name: { contains: term, mode: 'insensitive' } } },
+      ]),
+    })
+  }
+
+  // Type filter
+  const isEmptyTypeFilter = p.type === 'EMPTY'
+  if (isActive(p.type)) {
+    if (isEmptyTypeFilter) {
+      // Filter for releases with 0 tracks
+      where.tracks = { none: {} }
+    } else {
+      // Filter by type (SINGLE or ALBUM) and ensure they have tracks
+      where.type = p.type as Prisma.EnumReleaseTypeFilter['equals']
+      where.tracks = { some: {} }
+    }
+  }
+
+  // Platform, channel and status filters apply to the same platform request
+  const platformRequestFilter: Prisma.PlatformRequestWhereInput = {}
+  if (isActive(p.platform)) {
+    platformRequestFilter.platform = p.platform
+  }
+  if (isActive(p.channel)) {
+    platformRequestFilter.channelName = p.channel
+  }
+  if (isActive(p.status)) {
+    platformRequestFilter.status = p.status as Prisma.EnumPlatformRequestStatusFilter['equals']
+  }
+  if (Object.keys(platformRequestFilter).length > 0) {
+    where.platformRequests = { some: platformRequestFilter }
+  }
+
+  // Track-level filters - only apply if NOT filtering for empty releases
+  // (empty releases have no tracks, so track filters don't make sense)
+  if (!isEmptyTypeFilter) {
+    const trackFilters: Prisma.TrackWhereInput[] = []
+
+    if (isActive(p.performer)) {
+      trackFilters.push({ performer: p.performer })
+    }
+    if (isActive(p.composer)) {
+      trackFilters.push({ composer: p.composer })
+    }
+    if (isActive(p.band)) {
+      trackFilters.push({
+        OR: [
+          { band: p.band },
+          { musicProducer: p.band },
+        ],
+      })
+    }
+    if (isActive(p.studio)) {
+      trackFilters.push({ studio: p.studio })
+    }
+    if (isActive(p.label)) {
+      trackFilters.push({ recordLabel: p.label })
+    }
+    if (isActive(p.genre)) {
+      trackFilters.push({ genre: p.genre })
+    }
+
+    // All track filters must match the same track
+    if (trackFilters.length > 0) {
+      where.tracks = {
+        some: {
+          AND: trackFilters,
+        },
+      }
+    }
+  }
+
+  // Date range filter - filter by Legacy Release Date
+  if (p.startDate || p.endDate) {
+    const dateFilter: Prisma.DateTimeNullableFilter = {}
+    if (p.startDate) {
+      dateFilter.gte = new Date(p.startDate)
+    }
+    if (p.endDate) {
+      dateFilter.lte = new Date(p.endDate)
+    }
+    where.legacyReleaseDate = dateFilter
+  }
+
+  // Assigned A&R filter - matches both the ReleaseA_R junction table and the
+  // deprecated assignedA_RId column so older imports are still found
+  if (isActive(p.assignedAR)) {
+    if (p.assignedAR === 'unassigned') {
+      and.push({ assignedA_RId: null })
+      and.push({ assignedA_Rs: { none: {} } })
+    } else {
+      and.push({
+        OR: [
+          { assignedA_RId: p.assignedAR },
+          { assignedA_Rs: { some: { employeeId: p.assignedAR } } },
+        ],
+      })
+    }
+  }
+
+  // Copyright Status filter
+  if (isActive(p.copyrightStatus)) {
+    where.copyrightStatus = p.copyrightStatus as Prisma.EnumCopyrightStatusNullableFilter['equals']
+  }
+
+  // Video Type filter
+  if (isActive(p.videoType)) {
+    where.videoType = p.videoType as Prisma.EnumVideoTypeFilter['equals']
+  }
+
+  // Artist filter - search in both primary artist and releaseArtists
+  if (isActive(p.artist)) {
+    and.push({
+      OR: [
+        { artistId: p.artist },
+        { releaseArtists: { some: { artistId: p.artist } } },
+      ],
+    })
+  }
+
+  // Missing Album Artist filter - filter releases where primary artist is "Unknown Artist"
+  if (p.missingArtist === 'true') {
+    where.artist = {
+      name: 'Unknown Artist',
+    }
+  }
+
+  if (and.length > 0) {
+    where.AND = and
+  }
+
+  return where
+}
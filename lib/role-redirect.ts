@@ -1,22 +1,22 @@
 import { UserRole } from '@prisma/client'
+import { getPlatforms, getPlatformPath, getUserPlatforms } from './platforms'
 
-export const ROLE_REDIRECT_MAP: Record<UserRole, string> = {
+// Platform teams are sent to their platform's portal, looked up in the registry
+export const ROLE_REDIRECT_MAP: Partial<Record<UserRole, string>> = {
   [UserRole.A_R]: '/ar/releases',
-  [UserRole.PLATFORM_YOUTUBE]: '/platforms/youtube',
-  [UserRole.PLATFORM_FLOW]: '/platforms/flow',
-  [UserRole.PLATFORM_RINGTUNES]: '/platforms/ringtunes',
-  [UserRole.PLATFORM_INTERNATIONAL_STREAMING]: '/platforms/international-streaming',
-  [UserRole.PLATFORM_FACEBOOK]: '/platforms/facebook',
-  [UserRole.PLATFORM_TIKTOK]: '/platforms/tiktok',
   [UserRole.ADMIN]: '/dashboard',
   [UserRole.MANAGER]: '/dashboard',
   [UserRole.DATA_TEAM]: '/dashboard',
   [UserRole.CLIENT]: '/submit',
 }
 
-export function getRoleRedirectPath(role: UserRole): string {
-  return ROLE_REDIRECT_MAP[role] || '/dashboard'
-}
-
-
+export async function getRoleRedirectPath(
+  prisma: any,
+  user: { id: string; role: UserRole }
+): Promise<string> {
+  const path = ROLE_REDIRECT_MAP[user.role]
+  if (path) return path
 
+  const [platform] = getUserPlatforms(await getPlatforms(prisma), user)
+  return platform ? `/platforms/${getPlatformPath(platform.slug)}` : '/dashboard'
+}
@@ -0,0 +1,113 @@
+import { Prisma, PrismaClient, UserRole } from '@prisma/client'
+
+// Tables that support saved views
+export const SAVED_VIEW_TABLES = ['releases', 'ar_releases']
+
+export const savedViewInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+}
+
+// Views a user can see: their own plus views shared with their role or team
+export async function savedViewAccessWhere(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  user: { id: string; role: string }
+): Promise<Prisma.SavedViewWhereInput> {
+  const employee = await prisma.employee.findUnique({
+    where: { userId: user.id },
+    select: { team: true },
+  })
+
+  const visible: Prisma.SavedViewWhereInput[] = [
+    { userId: user.id },
+    { sharedWithRole: user.role as UserRole },
+  ]
+  if (employee?.team) {
+    visible.push({ sharedWithTeam: employee.team })
+  }
+  return { OR: visible }
+}
+
+export async function getDefaultViewId(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  userId: string,
+  table: string
+): Promise<string | null> {
+  const preference = await prisma.savedViewDefault.findUnique({
+    where: { userId_table: { userId, table } },
+    select: { viewId: true },
+  })
+  return preference?.viewId ?? null
+}
+
+// Make a view the user's default for its table (replacing any other), or stop it being the default
+export async function setDefaultView(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  userId: string,
+  view: { id: string; table: string },
+  isDefault: boolean
+) {
+  if (isDefault) {
+    await prisma.savedViewDefault.upsert({
+      where: { userId_table: { userId, table: view.table } },
+      create: { userId, table: view.table, viewId: view.id },
+      update: { viewId: view.id },
+    })
+  } else {
+    await prisma.savedViewDefault.deleteMany({
+      where: { userId, table: view.table, viewId: view.id },
+    })
+  }
+}
+
+// Validate the view body shared by POST and PATCH; returns an error message or the data to write
+export function parseSavedViewBody(body: any, partial: boolean): { error: string } | { data: Record<string, any> } {
+  const data: Record<string, any> = {}
+
+  if (!partial || body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return { error: 'View name is required' }
+    }
+    data.name = body.name.trim().slice(0, 100)
+  }
+
+  if (!partial || body.filters !== undefined) {
+    if (!body.filters || typeof body.filters !== 'object' || Array.isArray(body.filters)) {
+      return { error: 'Filters must be an object' }
+    }
+    data.filters = body.filters
+  }
+
+  if (!partial || body.columns !== undefined) {
+    if (!Array.isArray(body.columns)) {
+      return { error: 'Columns must be an array' }
+    }
+    data.columns = body.columns.filter((c: unknown) => typeof c === 'string')
+  }
+
+  if (body.sort !== undefined) {
+    data.sort = body.sort && body.sort.field
+      ? { field: String(body.sort.field), direction: String(body.sort.direction || 'asc') }
+      : Prisma.JsonNull
+  }
+
+  if (body.sharedWithRole !== undefined) {
+    if (body.sharedWithRole && !Object.values(UserRole).includes(body.sharedWithRole)) {
+      return { error: 'Invalid role' }
+    }
+    data.sharedWithRole = body.sharedWithRole || null
+  }
+
+  if (body.sharedWithTeam !== undefined) {
+    data.sharedWithTeam = typeof body.sharedWithTeam === 'string' && body.sharedWithTeam.trim()
+      ? body.sharedWithTeam.trim()
+      : null
+  }
+
+  return { data }
+}
@@ -0,0 +1,58 @@
+import { randomBytes } from 'crypto'
+import { Prisma, PrismaClient } from '@prisma/client'
+
+const DEFAULT_DRAFT_EXPIRY_DAYS = 30
+
+/**
+ * Days a /submit draft is kept after its last save.
+ * Configured with SUBMISSION_DRAFT_EXPIRY_DAYS.
+ */
+export function getDraftExpiryDays(): number {
+  const days = parseInt(process.env.SUBMISSION_DRAFT_EXPIRY_DAYS || '')
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_DRAFT_EXPIRY_DAYS
+}
+
+export function getDraftExpiresAt(from: Date = new Date()): Date {
+  return new Date(from.getTime() + getDraftExpiryDays() * 24 * 60 * 60 * 1000)
+}
+
+// URL-safe token the submitter can use to resume from another device
+export function generateResumeToken(): string {
+  return randomBytes(24).toString('base64url')
+}
+
+// Keep only the submit form fields so arbitrary payloads aren't stored
+export function sanitizeDraftData(body: any): Prisma.InputJsonObject {
+  const songs = Array.isArray(body.songs) ? body.songs : []
+
+  return {
+    step: typeof body.step === 'number' ? body.step : 1,
+    artistIds: Array.isArray(body.artistIds) ? body.artistIds.filter((id: unknown) => typeof id === 'string') : [],
+    legalName: String(body.legalName || ''),
+    contactEmail: String(body.contactEmail || ''),
+    contactPhone: String(body.contactPhone || ''),
+    releaseType: body.releaseType === 'ALBUM' ? 'ALBUM' : 'SINGLE',
+    releaseTitle: String(body.releaseTitle || ''),
+    artistsChosenDate: String(body.artistsChosenDate || ''),
+    songs: songs.map((song: any) => ({
+      name: String(song?.name || ''),
+      performer: String(song?.performer || ''),
+      composer: String(song?.composer || ''),
+      band: String(song?.band || ''),
+      musicProducer: String(song?.musicProducer || ''),
+      studio: String(song?.studio || ''),
+      recordLabel: String(song?.recordLabel || ''),
+      genre: String(song?.genre || ''),
+    })),
+  }
+}
+
+// Remove drafts past their expiry; called opportunistically on save
+export async function deleteExpiredDrafts(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  now: Date = new Date()
+) {
+  return prisma.submissionDraft.deleteMany({
+    where: { expiresAt: { lt: now } },
+  })
+}
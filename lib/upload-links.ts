@@ -0,0 +1,300 @@
+// Upload links and channel IDs per platform. Each parser checks that a link points at its
+// platform and pulls out the canonical video ID, so the same upload can be spotted on two requests.
+
+import { Prisma, PrismaClient } from '@prisma/client'
+
+// An error for a rejected link; otherwise the video ID, null when the link names no single video
+export interface UploadLinkResult {
+  error: string | null
+  videoId: string | null
+}
+
+export interface ChannelIdResult {
+  error: string | null
+  channelId: string | null
+}
+
+interface UploadLinkParser {
+  name: string
+  hosts: string[]
+  example: string
+  // The video ID, null for a valid link without one, undefined when the link isn't recognised
+  parse: (url: URL, host: string) => string | null | undefined
+}
+
+const YOUTUBE_VIDEO_ID = /^[A-Za-z0-9_-]{11}$/
+const YOUTUBE_CHANNEL_ID = /^UC[A-Za-z0-9_-]{22}$/
+const NUMERIC_ID = /^\d+$/
+const HANDLE = /^@[A-Za-z0-9._-]+$/
+const FACEBOOK_PAGE_NAME = /^[A-Za-z0-9.-]+$/
+
+// First-level Facebook paths that are never a page name
+const FACEBOOK_RESERVED_PATHS = ['watch', 'reel', 'share', 'video.php', 'profile.php', 'groups', 'events', 'stories', 'photo.php', 'story.php']
+
+function pathSegments(url: URL): string[] {
+  return url.pathname.split('/').filter(Boolean)
+}
+
+function youtubeVideoId(url: URL, host: string): string | undefined {
+  const segments = pathSegments(url)
+  const candidate = host === 'youtu.be'
+    ? segments[0]
+    : segments[0] === 'watch'
+      ? url.searchParams.get('v')
+      : ['shorts', 'embed', 'live', 'v'].includes(segments[0])
+        ? segments[1]
+        : undefined
+  return candidate && YOUTUBE_VIDEO_ID.test(candidate) ? candidate : undefined
+}
+
+function facebookVideoId(url: URL, host: string): string | null | undefined {
+  // fb.watch and share links redirect to a video we can't see without following them
+  if (host === 'fb.watch') return null
+  const segments = pathSegments(url)
+  if (segments.length === 0) return undefined
+  if (segments[0] === 'share') return segments.length > 2 ? null : undefined
+
+  const queryId = url.searchParams.get('v')
+  if (segments[0] === 'watch' || segments[0] === 'video.php') {
+    return queryId && NUMERIC_ID.test(queryId) ? queryId : undefined
+  }
+  if (segments[0] === 'reel') {
+    return segments[1] && NUMERIC_ID.test(segments[1]) ? segments[1] : undefined
+  }
+
+  // /{page}/videos/{id} and /{page}/videos/{title}/{id}
+  const videosIndex = segments.indexOf('videos')
+  if (videosIndex > 0) {
+    const id = segments.slice(videosIndex + 1).reverse().find(segment => NUMERIC_ID.test(segment))
+    return id || undefined
+  }
+
+  // A page link: valid, but it names no video
+  if (segments.length === 1 && !FACEBOOK_RESERVED_PATHS.includes(segments[0]) && FACEBOOK_PAGE_NAME.test(segments[0])) {
+    return null
+  }
+  return undefined
+}
+
+function tiktokVideoId(url: URL, host: string): string | null | undefined {
+  // vm./vt. short links and /t/ links redirect to a video we can't see without following them
+  if (host === 'vm.tiktok.com' || host === 'vt.tiktok.com') return null
+  const segments = pathSegments(url)
+  if (segments[0] === 't' && segments[1]) return null
+  const id = segments[0]?.startsWith('@') && segments[1] === 'video'
+    ? segments[2]
+    : segments[0] === 'embed'
+      ? segments[segments.length - 1]
+      : undefined
+  return id && NUMERIC_ID.test(id) ? id : undefined
+}
+
+const UPLOAD_LINK_PARSERS: Record<string, UploadLinkParser> = {
+  youtube: {
+    name: 'YouTube',
+    hosts: ['youtube.com', 'youtu.be', 'youtube-nocookie.com'],
+    example: 'https://youtu.be/dQw4w9WgXcQ',
+    parse: youtubeVideoId,
+  },
+  facebook: {
+    name: 'Facebook',
+    hosts: ['facebook.com', 'fb.com', 'fb.watch'],
+    example: 'https://www.facebook.com/yourpage/videos/1234567890',
+    parse: facebookVideoId,
+  },
+  tiktok: {
+    name: 'TikTok',
+    hosts: ['tiktok.com'],
+    example: 'https://www.tiktok.com/@account/video/1234567890123456789',
+    parse: tiktokVideoId,
+  },
+}
+
+function parseUrl(value: string): URL | null {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null
+  } catch {
+    return null
+  }
+}
+
+// The registered host the URL is on (youtube.com for m.youtube.com), or null when it's elsewhere
+function matchHost(url: URL, hosts: string[]): string | null {
+  const hostname = url.hostname.toLowerCase()
+  const host = hosts.find(candidate => hostname === candidate || hostname.endsWith(`.${candidate}`))
+  if (!host) return null
+  // Short-link subdomains are links of their own
+  return hostname === 'vm.tiktok.com' || hostname === 'vt.tiktok.com' ? hostname : host
+}
+
+// Placeholder text for the upload link input
+export function getUploadLinkExample(platform: string): string {
+  return UPLOAD_LINK_PARSERS[platform]?.example || 'https://...'
+}
+
+/**
+ * Check an upload link for a platform and extract its video ID. Platforms
+ * without a parser accept any http(s) link and have no video ID.
+ */
+export function parseUploadLink(platform: string, link: string): UploadLinkResult {
+  const url = parseUrl(link.trim())
+  if (!url) {
+    return { error: 'Upload link must be a full http(s) URL', videoId: null }
+  }
+
+  const parser = UPLOAD_LINK_PARSERS[platform]
+  if (!parser) {
+    return { error: null, videoId: null }
+  }
+
+  const host = matchHost(url, parser.hosts)
+  const videoId = host ? parser.parse(url, host) : undefined
+  if (videoId === undefined) {
+    return { error: `Not a ${parser.name} video link. Use a link like ${parser.example}`, videoId: null }
+  }
+  return { error: null, videoId }
+}
+
+/**
+ * Normalize a channel's platform ID: YouTube channel IDs (UC…) or @handles,
+ * Facebook page IDs or names and TikTok @handles, from the bare value or a
+ * link to the channel. Other platforms keep the text as entered.
+ */
+export function parseChannelId(platform: string, value: string): ChannelIdResult {
+  const trimmed = value.trim()
+  const url = parseUrl(trimmed)
+  const segments = url ? pathSegments(url) : []
+  const invalid = (name: string, expected: string): ChannelIdResult => ({
+    error: `Not a ${name} channel. Enter ${expected}, or a link to it`,
+    channelId: null,
+  })
+
+  switch (platform) {
+    case 'youtube': {
+      const candidate = !url
+        ? trimmed
+        : matchHost(url, UPLOAD_LINK_PARSERS.youtube.hosts) && segments[0] === 'channel'
+          ? segments[1]
+          : matchHost(url, UPLOAD_LINK_PARSERS.youtube.hosts) ? segments[0] : undefined
+      if (candidate && (YOUTUBE_CHANNEL_ID.test(candidate) || HANDLE.test(candidate))) {
+        return { error: null, channelId: candidate }
+      }
+      return invalid('YouTube', 'the channel ID (UC…) or @handle')
+    }
+    case 'facebook': {
+      const candidate = !url
+        ? trimmed
+        : !matchHost(url, UPLOAD_LINK_PARSERS.facebook.hosts)
+          ? undefined
+          : segments[0] === 'profile.php'
+            ? url.searchParams.get('id') || undefined
+            : segments.length === 1 && !FACEBOOK_RESERVED_PATHS.includes(segments[0]) ? segments[0] : undefined
+      if (candidate && (NUMERIC_ID.test(candidate) || FACEBOOK_PAGE_NAME.test(candidate))) {
+        return { error: null, channelId: candidate }
+      }
+      return invalid('Facebook', 'the page ID or page name')
+    }
+    case 'tiktok': {
+      const candidate = !url
+        ? (trimmed.startsWith('@') ? trimmed : `@${trimmed}`)
+        : matchHost(url, UPLOAD_LINK_PARSERS.tiktok.hosts) ? segments[0] : undefined
+      if (candidate && HANDLE.test(candidate)) {
+        return { error: null, channelId: candidate }
+      }
+      return invalid('TikTok', 'the @handle')
+    }
+    default:
+      return { error: null, channelId: trimmed }
+  }
+}
+
+export interface UploadConflict {
+  id: string
+  releaseId: string | null
+  releaseTitle: string | null
+  trackName: string | null
+}
+
+export interface DuplicateUpload {
+  requestId: string
+  videoId: string
+  conflicts: UploadConflict[]
+}
+
+interface UploadWork {
+  releaseId: string | null
+  trackId: string | null
+}
+
+// Requests for the same release share a video unless both name different tracks
+function isSameWork(a: UploadWork, b: UploadWork): boolean {
+  if (a.releaseId !== b.releaseId) return false
+  return !a.trackId || !b.trackId || a.trackId === b.trackId
+}
+
+/**
+ * Requests whose new video ID is already on a request for a different track,
+ * checked against each other and against the platform's other requests.
+ */
+export async function findDuplicateUploads(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  platform: string,
+  candidates: Array<{ id: string; uploadVideoId: string | null }>
+): Promise<DuplicateUpload[]> {
+  const videoIds = Array.from(new Set(candidates.map(c => c.uploadVideoId).filter((id): id is string => !!id)))
+  if (videoIds.length === 0) return []
+
+  const newVideoIds = new Map(candidates.map(c => [c.id, c.uploadVideoId]))
+  const rows: Array<UploadWork & {
+    id: string
+    uploadVideoId: string | null
+    release: { title: string | null } | null
+    track: { name: string } | null
+  }> = await prisma.platformRequest.findMany({
+    where: {
+      platform,
+      OR: [
+        { uploadVideoId: { in: videoIds } },
+        { id: { in: Array.from(newVideoIds.keys()) } },
+      ],
+    },
+    select: {
+      id: true,
+      releaseId: true,
+      trackId: true,
+      uploadVideoId: true,
+      release: { select: { title: true } },
+      track: { select: { name: true } },
+    },
+  })
+  const requests = rows.map(row =>
+    newVideoIds.has(row.id) ? { ...row, uploadVideoId: newVideoIds.get(row.id) ?? null } : row
+  )
+
+  const duplicates: DuplicateUpload[] = []
+  for (const request of requests) {
+    if (!newVideoIds.has(request.id) || !request.uploadVideoId) continue
+    const conflicts = requests
+      .filter(other =>
+        other.id !== request.id &&
+        other.uploadVideoId === request.uploadVideoId &&
+        !isSameWork(request, other)
+      )
+      .map(other => ({
+        id: other.id,
+        releaseId: other.releaseId,
+        releaseTitle: other.release?.title ?? null,
+        trackName: other.track?.name ?? null,
+      }))
+    if (conflicts.length > 0) {
+      duplicates.push({ requestId: request.id, videoId: request.uploadVideoId, conflicts })
+    }
+  }
+  return duplicates
+}
+
+// "Title • Track" for error messages
+export function describeConflict(conflict: UploadConflict): string {
+  return [conflict.releaseTitle || 'Untitled', conflict.trackName].filter(Boolean).join(' • ')
+}
@@ -1,5 +1,7 @@
 import { PrismaClient, UserRole } from '@prisma/client'
 import bcrypt from 'bcryptjs'
+import { DEFAULT_REJECTION_REASONS } from '../lib/rejection-reasons'
+import { DEFAULT_PLATFORMS } from '../lib/platforms'
 
 const prisma = new PrismaClient()
 
@@ -48,6 +50,32 @@ async function main() {
   })
 
   console.log('Seeded users:', { admin, ar, platform })
+
+  // Shared rejection reasons (platform-specific ones are managed in the admin panel)
+  for (let index = 0; index < DEFAULT_REJECTION_REASONS.length; index++) {
+    const reason = DEFAULT_REJECTION_REASONS[index]
+    const existing = await prisma.rejectionReason.findFirst({
+      where: { platform: null, code: reason.code },
+    })
+    if (!existing) {
+      await prisma.rejectionReason.create({
+        data: { ...reason, platform: null, sortOrder: index },
+      })
+    }
+  }
+
+  console.log(`Seeded ${DEFAULT_REJECTION_REASONS.length} rejection reasons`)
+
+  // The original platforms; admins add more in the platform registry
+  for (const platform of DEFAULT_PLATFORMS) {
+    await prisma.platform.upsert({
+      where: { slug: platform.slug },
+      update: {},
+      create: platform,
+    })
+  }
+
+  console.log(`Seeded ${DEFAULT_PLATFORMS.length} platforms`)
 }
 
 main()
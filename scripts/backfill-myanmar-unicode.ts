@@ -0,0 +1,176 @@
+/**
+ * Backfill Myanmar Unicode Script
+ *
+ * Converts Zawgyi-encoded text in existing artists and tracks to Unicode, so
+ * names match what the importer, the submit form and the edit pages now store.
+ *
+ * It will:
+ * 1. Scan Artist.name/legalName and the Track text fields
+ * 2. Convert values the detector flags as Zawgyi (and normalize Unicode ones)
+ * 3. Report every change, plus artists whose converted name matches another
+ *    artist (candidates for merging on the admin artists page)
+ *
+ * Nothing is written unless --apply is passed.
+ *
+ * Usage:
+ *   npx tsx scripts/backfill-myanmar-unicode.ts              # report only
+ *   npx tsx scripts/backfill-myanmar-unicode.ts --apply      # write changes
+ *   npx tsx scripts/backfill-myanmar-unicode.ts --report=changes.csv
+ */
+
+import { writeFileSync } from 'fs'
+import { PrismaClient } from '@prisma/client'
+import { normalizeMyanmarText } from '../lib/myanmar-text'
+
+const prisma = new PrismaClient()
+
+const BATCH_SIZE = 500
+const TRACK_FIELDS = ['name', 'performer', 'composer', 'band', 'musicProducer', 'studio', 'recordLabel', 'genre'] as const
+
+interface Change {
+  entity: 'artist' | 'track'
+  id: string
+  field: string
+  before: string
+  after: string
+}
+
+function changedFields(record: Record<string, any>, fields: readonly string[]): Record<string, string> {
+  const data: Record<string, string> = {}
+  for (const field of fields) {
+    const value = record[field]
+    if (typeof value !== 'string' || !value) continue
+    const normalized = normalizeMyanmarText(value)
+    if (normalized !== value) data[field] = normalized
+  }
+  return data
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+async function main() {
+  const apply = process.argv.includes('--apply')
+  const reportPath = process.argv.find(arg => arg.startsWith('--report='))?.split('=')[1]
+  const changes: Change[] = []
+
+  console.log(`\n🔤 Myanmar Unicode backfill (${apply ? 'APPLYING CHANGES' : 'report only, pass --apply to write'})\n`)
+
+  // Artists
+  let cursor: string | undefined
+  let artistsScanned = 0
+  let artistsChanged = 0
+  while (true) {
+    const artists = await prisma.artist.findMany({
+      take: BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      orderBy: { id: 'asc' },
+      select: { id: true, name: true, legalName: true },
+    })
+    if (artists.length === 0) break
+    cursor = artists[artists.length - 1].id
+    artistsScanned += artists.length
+
+    for (const artist of artists) {
+      const data = changedFields(artist, ['name', 'legalName'])
+      if (Object.keys(data).length === 0) continue
+
+      artistsChanged++
+      Object.keys(data).forEach(field => {
+        changes.push({ entity: 'artist', id: artist.id, field, before: (artist as any)[field], after: data[field] })
+        console.log(`  artist ${artist.id} ${field}: "${(artist as any)[field]}" → "${data[field]}"`)
+      })
+      if (apply) {
+        await prisma.artist.update({ where: { id: artist.id }, data })
+      }
+    }
+  }
+
+  // Tracks
+  cursor = undefined
+  let tracksScanned = 0
+  let tracksChanged = 0
+  while (true) {
+    const tracks = await prisma.track.findMany({
+      take: BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      orderBy: { id: 'asc' },
+      select: {
+        id: true,
+        name: true,
+        performer: true,
+        composer: true,
+        band: true,
+        musicProducer: true,
+        studio: true,
+        recordLabel: true,
+        genre: true,
+      },
+    })
+    if (tracks.length === 0) break
+    cursor = tracks[tracks.length - 1].id
+    tracksScanned += tracks.length
+
+    for (const track of tracks) {
+      const data = changedFields(track, TRACK_FIELDS)
+      if (Object.keys(data).length === 0) continue
+
+      tracksChanged++
+      Object.keys(data).forEach(field => {
+        changes.push({ entity: 'track', id: track.id, field, before: (track as any)[field], after: data[field] })
+      })
+      if (apply) {
+        await prisma.track.update({ where: { id: track.id }, data })
+      }
+    }
+
+    if (tracksScanned % 5000 === 0) {
+      console.log(`  📊 ${tracksScanned} tracks scanned, ${tracksChanged} to change`)
+    }
+  }
+
+  // Converted artist names that now collide with another artist
+  const renamed = changes.filter(c => c.entity === 'artist' && c.field === 'name')
+  const collisions: Array<{ id: string; name: string; matches: string[] }> = []
+  for (const change of renamed) {
+    const matches = await prisma.artist.findMany({
+      where: {
+        name: { equals: change.after, mode: 'insensitive' },
+        NOT: { id: change.id },
+      },
+      select: { id: true },
+    })
+    if (matches.length > 0) {
+      collisions.push({ id: change.id, name: change.after, matches: matches.map(m => m.id) })
+    }
+  }
+
+  if (reportPath) {
+    const lines = [['entity', 'id', 'field', 'before', 'after']]
+    changes.forEach(c => lines.push([c.entity, c.id, c.field, c.before, c.after]))
+    writeFileSync(reportPath, lines.map(line => line.map(csvCell).join(',')).join('\n'))
+    console.log(`\n📝 Wrote ${changes.length} change(s) to ${reportPath}`)
+  }
+
+  console.log('\n' + '='.repeat(60))
+  console.log(apply ? '✅ Myanmar Unicode Backfill Complete' : '📋 Myanmar Unicode Backfill Report')
+  console.log('='.repeat(60))
+  console.log(`📊 Summary:`)
+  console.log(`   - Artists scanned: ${artistsScanned}, ${apply ? 'updated' : 'to update'}: ${artistsChanged}`)
+  console.log(`   - Tracks scanned: ${tracksScanned}, ${apply ? 'updated' : 'to update'}: ${tracksChanged}`)
+  console.log(`   - Field values ${apply ? 'converted' : 'to convert'}: ${changes.length}`)
+  console.log(`   - Artists now sharing a name with another artist: ${collisions.length}`)
+  collisions.forEach(c => {
+    console.log(`     • "${c.name}" (${c.id}) matches ${c.matches.join(', ')}`)
+  })
+  console.log('='.repeat(60) + '\n')
+
+  await prisma.$disconnect()
+}
+
+main()
+  .catch((error) => {
+    console.error('Fatal error:', error)
+    process.exit(1)
+  })
@@ -0,0 +1,115 @@
+/**
+ * Backfill Upload Video IDs Script
+ *
+ * Parses the upload links saved before links were checked, so existing
+ * requests get the canonical video ID the update routes now store.
+ *
+ * It will:
+ * 1. Scan every platform request with an upload link
+ * 2. Set uploadVideoId from the platform's link parser
+ * 3. Report links the parser rejects (to fix by hand on the request page)
+ *    and videos attached to more than one track (a report-only run only
+ *    sees duplicates within the same batch of 500 until the IDs are applied)
+ *
+ * Nothing is written unless --apply is passed.
+ *
+ * Usage:
+ *   npx tsx scripts/backfill-upload-video-ids.ts              # report only
+ *   npx tsx scripts/backfill-upload-video-ids.ts --apply      # write changes
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { parseUploadLink, findDuplicateUploads, describeConflict } from '../lib/upload-links'
+
+const prisma = new PrismaClient()
+
+const BATCH_SIZE = 500
+
+async function main() {
+  const apply = process.argv.includes('--apply')
+  const invalid: Array<{ id: string; platform: string; link: string; error: string }> = []
+  const parsedByPlatform = new Map<string, Array<{ id: string; uploadVideoId: string | null }>>()
+
+  console.log(`\n🔗 Upload video ID backfill (${apply ? 'APPLYING CHANGES' : 'report only, pass --apply to write'})\n`)
+
+  let cursor: string | undefined
+  let scanned = 0
+  let changed = 0
+  while (true) {
+    const requests = await prisma.platformRequest.findMany({
+      where: { uploadLink: { not: null } },
+      take: BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      orderBy: { id: 'asc' },
+      select: { id: true, platform: true, uploadLink: true, uploadVideoId: true },
+    })
+    if (requests.length === 0) break
+    cursor = requests[requests.length - 1].id
+    scanned += requests.length
+
+    for (const request of requests) {
+      if (!request.uploadLink?.trim()) continue
+      const parsed = parseUploadLink(request.platform, request.uploadLink)
+      if (parsed.error) {
+        invalid.push({ id: request.id, platform: request.platform, link: request.uploadLink, error: parsed.error })
+        continue
+      }
+      if (!parsed.videoId) continue
+
+      const platformRequests = parsedByPlatform.get(request.platform) || []
+      platformRequests.push({ id: request.id, uploadVideoId: parsed.videoId })
+      parsedByPlatform.set(request.platform, platformRequests)
+
+      if (parsed.videoId === request.uploadVideoId) continue
+      changed++
+      if (apply) {
+        await prisma.platformRequest.update({
+          where: { id: request.id },
+          data: { uploadVideoId: parsed.videoId },
+        })
+      }
+    }
+
+    if (scanned % 5000 === 0) {
+      console.log(`  📊 ${scanned} requests scanned, ${changed} to update`)
+    }
+  }
+
+  // Videos on more than one track, checked a batch at a time
+  const duplicates: Array<{ platform: string; requestId: string; videoId: string; conflicts: string[] }> = []
+  for (const [platform, requests] of Array.from(parsedByPlatform.entries())) {
+    for (let i = 0; i < requests.length; i += BATCH_SIZE) {
+      const found = await findDuplicateUploads(prisma, platform, requests.slice(i, i + BATCH_SIZE))
+      found.forEach(d => duplicates.push({
+        platform,
+        requestId: d.requestId,
+        videoId: d.videoId,
+        conflicts: d.conflicts.map(describeConflict),
+      }))
+    }
+  }
+
+  console.log('\n' + '='.repeat(60))
+  console.log(apply ? '✅ Upload Video ID Backfill Complete' : '📋 Upload Video ID Backfill Report')
+  console.log('='.repeat(60))
+  console.log(`📊 Summary:`)
+  console.log(`   - Requests with upload links scanned: ${scanned}`)
+  console.log(`   - Video IDs ${apply ? 'set' : 'to set'}: ${changed}`)
+  console.log(`   - Links the platform's parser rejects: ${invalid.length}`)
+  invalid.forEach(r => {
+    console.log(`     • ${r.platform} ${r.id}: ${r.link} (${r.error})`)
+  })
+  console.log(`   - Requests sharing a video with another track: ${duplicates.length}`)
+  duplicates.forEach(d => {
+    console.log(`     • ${d.platform} ${d.requestId} (${d.videoId}) also on ${d.conflicts.join(', ')}`)
+  })
+  console.log('='.repeat(60) + '\n')
+
+  await prisma.$disconnect()
+}
+
+main()
+  .catch((error) => {
+    console.error('Fatal error:', error)
+    process.exit(1)
+  })
@@ -9,6 +9,10 @@
  * 
  * If sessionId is provided, only that session will be processed.
  * Otherwise, all incomplete/failed sessions will be processed.
+ *
+ * New imports record failed rows as ImportRowIssue records, which are reviewed
+ * and approved from the import page. This script is only needed for sessions
+ * imported before that.
  */
 
 import { PrismaClient } from '@prisma/client'
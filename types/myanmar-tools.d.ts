@@ -0,0 +1,11 @@
+declare module 'myanmar-tools' {
+  export class ZawgyiDetector {
+    // 0 (Unicode) to 1 (Zawgyi); -Infinity when the text has no Myanmar characters
+    getZawgyiProbability(input: string): number
+  }
+
+  export class ZawgyiConverter {
+    zawgyiToUnicode(input: string): string
+    unicodeToZawgyi(input: string): string
+  }
+}